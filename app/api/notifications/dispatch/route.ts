@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { dispatchPendingDeliveries, getNotificationSenders } from '@/lib/notificationSenders';
+
+// Called by a scheduler (e.g. a Supabase cron job) to drain the email/SMS outbox.
+export async function POST(request: Request) {
+  const secret = process.env.NOTIFICATIONS_DISPATCH_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await dispatchPendingDeliveries({
+      client: getSupabaseAdmin(),
+      senders: getNotificationSenders(),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Notification dispatch failed:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Dispatch failed' },
+      { status: 500 }
+    );
+  }
+}
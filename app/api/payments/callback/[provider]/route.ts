@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { getMobileMoneyProvider, handlePaymentCallback, isPaymentCallbackAuthorized } from '@/lib/mobileMoney';
+
+type Context = { params: Promise<{ provider: string }> };
+
+// Payment and payout results from MTN MoMo (/mtn_momo), Airtel Money
+// (/airtel_money) or, in sandbox mode, the sandbox. Providers retry until
+// they get a 2xx, and a repeat is a no-op, so anything readable is
+// acknowledged.
+export async function POST(request: Request, { params }: Context) {
+  if (!isPaymentCallbackAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const provider = getMobileMoneyProvider((await params).provider);
+  if (!provider) {
+    return NextResponse.json({ error: 'Unknown provider' }, { status: 404 });
+  }
+
+  try {
+    const result = await handlePaymentCallback({ client: getSupabaseAdmin(), provider, request });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Payment callback failed:', error);
+    return NextResponse.json({ error: 'Callback handling failed' }, { status: 500 });
+  }
+}
+
+// MTN MoMo sends its callbacks as PUT.
+export const PUT = POST;
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { startCollection } from '@/lib/mobileMoney';
+
+// The buyer's "Pay" button. Runs with the service role, so the caller is
+// identified from their own access token and must be the order's buyer.
+export async function POST(request: Request) {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const admin = getSupabaseAdmin();
+  const { data: auth } = await admin.auth.getUser(token);
+  if (!auth?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => ({}))) as { matchId?: string; phone?: string };
+  if (!body.matchId || !body.phone?.trim()) {
+    return NextResponse.json({ error: 'Missing order or phone number' }, { status: 400 });
+  }
+
+  try {
+    const { payment, error } = await startCollection({
+      client: admin,
+      matchId: body.matchId,
+      buyerId: auth.user.id,
+      phone: body.phone,
+    });
+
+    // A request that reached the network but not its answer still returns the payment
+    if (error && payment?.status !== 'collecting') {
+      return NextResponse.json({ payment, error }, { status: 409 });
+    }
+    return NextResponse.json({ payment, error });
+  } catch (error) {
+    console.error('Payment collection failed:', error);
+    return NextResponse.json({ error: 'Could not start the payment' }, { status: 500 });
+  }
+}
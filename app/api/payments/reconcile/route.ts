@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { reconcilePayments } from '@/lib/mobileMoney';
+
+// Called by a scheduler to send due payouts and settle payments whose
+// callbacks never arrived.
+export async function POST(request: Request) {
+  const secret = process.env.PAYMENTS_RECONCILE_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await reconcilePayments({ client: getSupabaseAdmin() });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Payment reconciliation failed:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Reconciliation failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { handleSms } from '@/lib/farmerMenu';
+import {
+  createSupabaseFarmerDataSource,
+  getFarmerGateway,
+  isGatewayRequestAuthorized,
+} from '@/lib/farmerGateway';
+
+// Inbound SMS callback for keyword commands (LIST, DEMANDS, OFFERS, ACCEPT).
+export async function POST(request: Request) {
+  if (!isGatewayRequestAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const gateway = getFarmerGateway();
+  if (!gateway) {
+    return NextResponse.json({ error: 'Farmer gateway is not configured' }, { status: 503 });
+  }
+
+  const input = await gateway.parseRequest(request);
+
+  if (!input.phoneNumber) {
+    return NextResponse.json({ error: 'Missing phone number' }, { status: 400 });
+  }
+
+  try {
+    const reply = await handleSms(createSupabaseFarmerDataSource(getSupabaseAdmin()), input);
+    return await gateway.smsResponse(input.phoneNumber, reply);
+  } catch (error) {
+    console.error('SMS request failed:', error);
+    return NextResponse.json({ error: 'SMS handling failed' }, { status: 500 });
+  }
+}
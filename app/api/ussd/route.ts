@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { handleUssd } from '@/lib/farmerMenu';
+import {
+  createSupabaseFarmerDataSource,
+  getFarmerGateway,
+  isGatewayRequestAuthorized,
+} from '@/lib/farmerGateway';
+
+// USSD session callback. The gateway resends the whole input on every step.
+export async function POST(request: Request) {
+  if (!isGatewayRequestAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const gateway = getFarmerGateway();
+  if (!gateway) {
+    return NextResponse.json({ error: 'Farmer gateway is not configured' }, { status: 503 });
+  }
+
+  const input = await gateway.parseRequest(request);
+
+  if (!input.phoneNumber) {
+    return gateway.ussdResponse({ text: 'Missing phone number.', end: true });
+  }
+
+  try {
+    const reply = await handleUssd(createSupabaseFarmerDataSource(getSupabaseAdmin()), input);
+    return gateway.ussdResponse(reply);
+  } catch (error) {
+    console.error('USSD request failed:', error);
+    return gateway.ussdResponse({ text: 'Service unavailable. Try again later.', end: true });
+  }
+}
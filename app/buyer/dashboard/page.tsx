@@ -0,0 +1,560 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import supabase from '@/lib/supabaseClient';
+import Navbar from '@/components/Navbar';
+import { allowedOfferActions, type DemandOffer } from '@/lib/offers';
+import { getOrderStatusTone, isOrderActive, type MarketMatch } from '@/lib/orders';
+import { rankListingsForDemand, type MatchResult } from '@/lib/matching';
+import type { SourcingArea } from '@/lib/sourcingAreas';
+import { fetchUnitConversions, kgPerUnit, type UnitConversion } from '@/lib/units';
+import MatchBreakdown, { MatchScoreBadge } from '@/components/MatchBreakdown';
+import { ArrowRight, Inbox, MapPin, Package, Plus, ShoppingBag, Target, Wallet } from 'lucide-react';
+
+type BuyerProfile = {
+  first_name: string | null;
+  last_name: string | null;
+  email: string;
+  phone_number: string | null;
+  location: string | null;
+  location_lat: number | null;
+  location_lng: number | null;
+  role: string;
+};
+
+type DemandRow = {
+  id: string;
+  crop_id: number | null;
+  crop_name: string;
+  preferred_quality: string;
+  quantity: number;
+  unit: string;
+  target_price_per_unit: number;
+  location_text: string | null;
+  location_lat: number | null;
+  location_lng: number | null;
+  radius_km: number;
+  sourcing_mode: SourcingArea['sourcing_mode'];
+  sourcing_polygon: SourcingArea['sourcing_polygon'];
+  sourcing_districts: SourcingArea['sourcing_districts'];
+  status: string;
+  created_at: string;
+};
+
+type ListingRow = {
+  id: string;
+  crop_id: number | null;
+  crop_name: string;
+  variety: string | null;
+  quality: string;
+  quantity: number;
+  unit: string;
+  price_per_unit: number;
+  farmer_name: string;
+  farmer_location: string | null;
+  location_lat: number | null;
+  location_lng: number | null;
+  photo: string | null;
+};
+
+type ListingMatch = MatchResult & {
+  listing: ListingRow;
+  demand: DemandRow;
+};
+
+type QuickStat = {
+  label: string;
+  value: string;
+  note: string;
+  icon: React.ComponentType<{ className?: string }>;
+};
+
+const formatUGX = (n: number) => `UGX ${Number(n || 0).toLocaleString('en-UG')}`;
+
+// PostgREST `or` filters are comma separated, so keep only plain words.
+function cropSearchTerm(cropName: string) {
+  return cropName.toLowerCase().replace(/[^a-z0-9 ]/g, ' ').trim().split(/\s+/)[0] || '';
+}
+
+export default function BuyerDashboardPage() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [authId, setAuthId] = useState<string | null>(null);
+  const [profile, setProfile] = useState<BuyerProfile | null>(null);
+
+  const [demands, setDemands] = useState<DemandRow[]>([]);
+  const [offers, setOffers] = useState<DemandOffer[]>([]);
+  const [orders, setOrders] = useState<MarketMatch[]>([]);
+  const [listings, setListings] = useState<ListingRow[]>([]);
+  const [conversions, setConversions] = useState<UnitConversion[]>([]);
+
+  const userName = useMemo(() => {
+    if (!profile) return 'Buyer';
+    return `${profile.first_name || ''} ${profile.last_name || ''}`.trim() || 'Buyer';
+  }, [profile]);
+
+  const openDemands = useMemo(() => demands.filter((d) => d.status === 'open'), [demands]);
+
+  const offersByDemand = useMemo(() => {
+    const map = new Map<string, DemandOffer[]>();
+    offers.forEach((offer) => {
+      const list = map.get(offer.demand_id) || [];
+      list.push(offer);
+      map.set(offer.demand_id, list);
+    });
+    return map;
+  }, [offers]);
+
+  const awaitingReply = useMemo(
+    () => offers.filter((o) => allowedOfferActions(o, 'buyer').length > 0).length,
+    [offers]
+  );
+
+  const activeOrders = useMemo(() => orders.filter((o) => isOrderActive(o.status)), [orders]);
+
+  // Same calculation as buyerSpend on the profile page.
+  const totalSpend = useMemo(
+    () =>
+      orders
+        .filter((o) => o.status !== 'cancelled')
+        .reduce((s, o) => s + Number(o.quantity || 0) * Number(o.price_per_unit || 0), 0),
+    [orders]
+  );
+
+  // Each listing is shown once, against whichever open demand it suits best.
+  const bestMatches = useMemo<ListingMatch[]>(() => {
+    const best = new Map<string, ListingMatch>();
+
+    openDemands.forEach((demand) => {
+      const origin =
+        demand.location_lat == null && profile?.location_lat != null && profile?.location_lng != null
+          ? { location_lat: profile.location_lat, location_lng: profile.location_lng }
+          : {};
+
+      const matchable = {
+        ...demand,
+        ...origin,
+        kg_per_unit: kgPerUnit(conversions, demand.unit, demand.crop_id),
+      };
+      const candidates = listings.map((l) => ({ ...l, kg_per_unit: kgPerUnit(conversions, l.unit, l.crop_id) }));
+
+      rankListingsForDemand(matchable, candidates).forEach(({ item, ...match }) => {
+        const current = best.get(item.id);
+        if (!current || match.score > current.score) {
+          best.set(item.id, { ...match, listing: item, demand });
+        }
+      });
+    });
+
+    return Array.from(best.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 6);
+  }, [openDemands, listings, conversions, profile]);
+
+  const loadData = useCallback(async (uid: string) => {
+    const [demandsRes, ordersRes, unitConversions] = await Promise.all([
+      supabase
+        .from('buyer_demands')
+        .select(
+          'id,crop_id,crop_name,preferred_quality,quantity,unit,target_price_per_unit,location_text,location_lat,location_lng,radius_km,sourcing_mode,sourcing_polygon,sourcing_districts,status,created_at'
+        )
+        .eq('buyer_id', uid)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('market_matches')
+        .select('*')
+        .eq('buyer_id', uid)
+        .order('created_at', { ascending: false }),
+      fetchUnitConversions(),
+    ]);
+
+    if (demandsRes.error) {
+      setError(demandsRes.error.message);
+      return;
+    }
+
+    const demandRows = (demandsRes.data || []) as DemandRow[];
+    setDemands(demandRows);
+    setOrders((ordersRes.data || []) as MarketMatch[]);
+    setConversions(unitConversions);
+
+    const demandIds = demandRows.map((d) => d.id);
+    const terms = Array.from(
+      new Set(demandRows.filter((d) => d.status === 'open').map((d) => cropSearchTerm(d.crop_name)))
+    ).filter(Boolean);
+
+    const [offersRes, listingsRes] = await Promise.all([
+      demandIds.length
+        ? supabase.from('demand_offers').select('*').in('demand_id', demandIds)
+        : Promise.resolve({ data: [] as DemandOffer[] }),
+      terms.length
+        ? supabase
+            .from('farm_produce')
+            .select(
+              'id,crop_id,crop_name,variety,quality,quantity,unit,price_per_unit,farmer_name,farmer_location,location_lat,location_lng,photo'
+            )
+            .eq('is_available', true)
+            .or(terms.map((t) => `crop_name.ilike.%${t}%`).join(','))
+            .order('listed_at', { ascending: false })
+            .limit(200)
+        : Promise.resolve({ data: [] as ListingRow[] }),
+    ]);
+
+    setOffers((offersRes.data || []) as DemandOffer[]);
+    setListings((listingsRes.data || []) as ListingRow[]);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const boot = async () => {
+      setLoading(true);
+      setError(null);
+
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth?.user?.id ?? null;
+
+      if (!uid) {
+        router.replace('/login');
+        return;
+      }
+
+      const { data: prof, error: profError } = await supabase
+        .from('accounts_user')
+        .select('first_name,last_name,email,phone_number,location,location_lat,location_lng,role')
+        .eq('auth_user_id', uid)
+        .maybeSingle();
+
+      if (profError || !prof) {
+        router.push('/unauthorized');
+        return;
+      }
+
+      if (prof.role !== 'buyer') {
+        router.push('/unauthorized');
+        return;
+      }
+
+      if (!mounted) return;
+      setAuthId(uid);
+      setProfile(prof as BuyerProfile);
+
+      await loadData(uid);
+
+      if (mounted) setLoading(false);
+    };
+
+    boot();
+
+    return () => {
+      mounted = false;
+    };
+  }, [router, loadData]);
+
+  useEffect(() => {
+    if (!authId) return;
+
+    const channel = supabase
+      .channel(`buyer-dashboard-${authId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'demand_offers', filter: `buyer_id=eq.${authId}` },
+        () => loadData(authId)
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'market_matches', filter: `buyer_id=eq.${authId}` },
+        () => loadData(authId)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [authId, loadData]);
+
+  const quickStats: QuickStat[] = [
+    {
+      label: 'Open Demands',
+      value: String(openDemands.length),
+      note: openDemands.length ? 'Farmers can respond to these' : 'Post a demand to get offers',
+      icon: Target,
+    },
+    {
+      label: 'Offers Awaiting You',
+      value: String(awaitingReply),
+      note: `${offers.length} offers received in total`,
+      icon: Inbox,
+    },
+    {
+      label: 'Active Orders',
+      value: String(activeOrders.length),
+      note: `${orders.length} orders overall`,
+      icon: ShoppingBag,
+    },
+    {
+      label: 'Total Spend',
+      value: formatUGX(totalSpend),
+      note: 'Across all non-cancelled orders',
+      icon: Wallet,
+    },
+  ];
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center px-4">
+        <div className="text-center">
+          <div className="mx-auto mb-4 h-12 w-12 animate-spin rounded-full border-4 border-emerald-200 border-t-emerald-600" />
+          <h1 className="text-lg font-semibold text-slate-900">Loading dashboard...</h1>
+          <p className="mt-2 text-sm text-slate-600">Please wait a moment.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navbar />
+
+      <main className="mx-auto max-w-7xl px-4 py-6 sm:px-6 lg:px-8">
+        <section className="grid gap-6 lg:grid-cols-3">
+          <div className="rounded-3xl bg-gradient-to-br from-emerald-600 to-green-700 p-6 text-white shadow-sm lg:col-span-2">
+            <p className="text-sm font-medium text-emerald-100">Welcome back</p>
+            <h2 className="mt-1 text-2xl font-bold sm:text-3xl">{userName}</h2>
+            <p className="mt-2 max-w-2xl text-sm text-emerald-50 sm:text-base">
+              Track what you are sourcing, answer farmer offers, and follow your orders
+              from one place.
+            </p>
+
+            <div className="mt-6 flex flex-wrap gap-3">
+              <Link
+                href="/buyer/demands"
+                className="inline-flex items-center gap-2 rounded-xl bg-white px-4 py-2.5 text-sm font-semibold text-emerald-700 hover:bg-emerald-50"
+              >
+                <Plus className="h-4 w-4" />
+                Post a demand
+              </Link>
+              <Link
+                href="/products"
+                className="inline-flex rounded-xl border border-white/25 bg-white/10 px-4 py-2.5 text-sm font-semibold text-white hover:bg-white/15"
+              >
+                Browse produce
+              </Link>
+            </div>
+          </div>
+
+          <div className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+            <h3 className="text-lg font-semibold text-slate-900">My Profile</h3>
+            <div className="mt-5 space-y-4 text-sm">
+              <div>
+                <p className="text-slate-500">Email</p>
+                <p className="mt-1 font-medium text-slate-900">{profile?.email || 'Not available'}</p>
+              </div>
+              <div>
+                <p className="text-slate-500">Phone Number</p>
+                <p className="mt-1 font-medium text-slate-900">{profile?.phone_number || 'Not added'}</p>
+              </div>
+              <div>
+                <p className="text-slate-500">Location</p>
+                <p className="mt-1 font-medium text-slate-900">{profile?.location || 'Not added'}</p>
+              </div>
+            </div>
+          </div>
+        </section>
+
+        {error && (
+          <section className="mt-6 rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {error}
+          </section>
+        )}
+
+        <section className="mt-6 grid gap-4 sm:grid-cols-2 xl:grid-cols-4">
+          {quickStats.map((stat) => (
+            <div key={stat.label} className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-slate-500">{stat.label}</p>
+                <stat.icon className="h-5 w-5 text-emerald-600" />
+              </div>
+              <h3 className="mt-3 text-3xl font-bold text-slate-900">{stat.value}</h3>
+              <p className="mt-2 text-sm text-slate-600">{stat.note}</p>
+            </div>
+          ))}
+        </section>
+
+        <section className="mt-6 grid gap-6 lg:grid-cols-2">
+          <div className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-slate-900">Open demands</h3>
+              <Link href="/buyer/demands" className="text-sm font-semibold text-emerald-700 hover:text-emerald-800">
+                Manage
+              </Link>
+            </div>
+
+            {openDemands.length === 0 ? (
+              <p className="mt-5 rounded-2xl bg-slate-50 p-4 text-sm text-slate-600">
+                You have no open demands. Post one so farmers can send you offers.
+              </p>
+            ) : (
+              <div className="mt-5 space-y-3">
+                {openDemands.map((demand) => {
+                  const demandOffers = offersByDemand.get(demand.id) || [];
+                  const waiting = demandOffers.filter((o) => allowedOfferActions(o, 'buyer').length > 0).length;
+
+                  return (
+                    <Link
+                      key={demand.id}
+                      href="/buyer/demands"
+                      className="flex items-center justify-between gap-3 rounded-2xl border border-slate-200 px-4 py-3 hover:bg-slate-50"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-semibold text-slate-900 line-clamp-1">{demand.crop_name}</p>
+                        <p className="mt-0.5 text-xs text-slate-500">
+                          {Number(demand.quantity).toLocaleString()} {demand.unit} •{' '}
+                          {formatUGX(demand.target_price_per_unit)} / {demand.unit}
+                        </p>
+                      </div>
+                      <div className="flex shrink-0 items-center gap-2">
+                        <span className="rounded-full bg-slate-100 px-2.5 py-1 text-xs font-semibold text-slate-700">
+                          {demandOffers.length} offers
+                        </span>
+                        {waiting > 0 && (
+                          <span className="rounded-full bg-amber-100 px-2.5 py-1 text-xs font-semibold text-amber-700">
+                            {waiting} new
+                          </span>
+                        )}
+                      </div>
+                    </Link>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-slate-900">Active orders</h3>
+              <Link href="/profile" className="text-sm font-semibold text-emerald-700 hover:text-emerald-800">
+                All orders
+              </Link>
+            </div>
+
+            {activeOrders.length === 0 ? (
+              <p className="mt-5 rounded-2xl bg-slate-50 p-4 text-sm text-slate-600">
+                No orders in progress. Accept an offer or buy from a listing to start one.
+              </p>
+            ) : (
+              <div className="mt-5 space-y-3">
+                {activeOrders.map((order) => (
+                  <Link
+                    key={order.id}
+                    href={`/orders/${order.id}`}
+                    className="flex items-center justify-between gap-3 rounded-2xl border border-slate-200 px-4 py-3 hover:bg-slate-50"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-semibold text-slate-900 line-clamp-1">{order.crop_name}</p>
+                      <p className="mt-0.5 text-xs text-slate-500">
+                        {order.farmer_name} • {Number(order.quantity).toLocaleString()} {order.unit || 'kg'}
+                      </p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <span
+                        className={`inline-flex rounded-full border px-2.5 py-1 text-xs font-semibold capitalize ${getOrderStatusTone(
+                          order.status
+                        )}`}
+                      >
+                        {order.status}
+                      </span>
+                      <p className="mt-1 text-xs font-semibold text-emerald-700">
+                        {formatUGX(Number(order.quantity || 0) * Number(order.price_per_unit || 0))}
+                      </p>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        </section>
+
+        <section className="mt-6 rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-slate-900">Best matches for your demands</h3>
+              <p className="mt-1 text-sm text-slate-600">
+                Available produce ranked by crop, quality, quantity, price and distance.
+              </p>
+            </div>
+            <Link
+              href="/products"
+              className="hidden items-center gap-1 text-sm font-semibold text-emerald-700 hover:text-emerald-800 sm:inline-flex"
+            >
+              Browse all
+              <ArrowRight className="h-4 w-4" />
+            </Link>
+          </div>
+
+          {bestMatches.length === 0 ? (
+            <p className="mt-5 rounded-2xl bg-slate-50 p-4 text-sm text-slate-600">
+              No matching listings nearby yet. Widen a demand&apos;s radius or check back later.
+            </p>
+          ) : (
+            <div className="mt-5 grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+              {bestMatches.map((match) => {
+                const { listing, demand, distance } = match;
+
+                return (
+                  <Link
+                    key={listing.id}
+                    href={`/products/${listing.id}`}
+                    className="rounded-2xl border border-slate-200 p-4 hover:bg-slate-50"
+                  >
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="font-semibold text-slate-900 line-clamp-1">
+                          {listing.crop_name}
+                          {listing.variety ? ` • ${listing.variety}` : ''}
+                        </p>
+                        <p className="mt-0.5 text-xs text-slate-500 line-clamp-1">{listing.farmer_name}</p>
+                      </div>
+                      <MatchScoreBadge score={match.score} />
+                    </div>
+
+                    <div className="mt-3 flex flex-wrap gap-2 text-xs text-slate-600">
+                      <span className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2.5 py-1">
+                        <Package className="h-3.5 w-3.5" />
+                        {Number(listing.quantity).toLocaleString()} {listing.unit}
+                      </span>
+                      <span className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2.5 py-1">
+                        <MapPin className="h-3.5 w-3.5" />
+                        {distance !== null ? `${distance.toFixed(1)} km` : listing.farmer_location || 'Unknown'}
+                      </span>
+                      <span className="rounded-full bg-emerald-50 px-2.5 py-1 font-semibold capitalize text-emerald-700">
+                        {listing.quality}
+                      </span>
+                    </div>
+
+                    <div className="mt-3">
+                      <MatchBreakdown match={match} />
+                    </div>
+
+                    <div className="mt-3 flex items-center justify-between text-sm">
+                      <span className="font-bold text-emerald-700">
+                        {formatUGX(listing.price_per_unit)} / {listing.unit}
+                      </span>
+                      <span className="text-xs text-slate-500">
+                        for {demand.crop_name} demand
+                      </span>
+                    </div>
+                  </Link>
+                );
+              })}
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
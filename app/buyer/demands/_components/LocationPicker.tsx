@@ -1,25 +1,46 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { Circle, MapContainer, Marker, TileLayer, useMapEvents } from 'react-leaflet';
+import {
+  Circle,
+  CircleMarker,
+  MapContainer,
+  Marker,
+  Polygon,
+  Polyline,
+  TileLayer,
+  useMapEvents,
+} from 'react-leaflet';
 
 type Props = {
   initialLat: number;
   initialLng: number;
   radiusKm: number;
   onPick: (lat: number, lng: number) => void;
+  /** 'polygon' turns map clicks into corners of a sourcing area instead of moving the pin. */
+  mode?: 'radius' | 'polygon';
+  polygon?: [number, number][];
+  onPolygonChange?: (polygon: [number, number][]) => void;
+};
+
+const areaStyle = {
+  color: '#10b981',
+  fillColor: '#10b981',
+  fillOpacity: 0.1,
 };
 
 function LocationMarker({
   position,
   setPosition,
+  clickToMove,
 }: {
   position: [number, number];
   setPosition: (value: [number, number]) => void;
+  clickToMove: boolean;
 }) {
   useMapEvents({
     click(e) {
-      setPosition([e.latlng.lat, e.latlng.lng]);
+      if (clickToMove) setPosition([e.latlng.lat, e.latlng.lng]);
     },
   });
 
@@ -38,11 +59,46 @@ function LocationMarker({
   );
 }
 
+function PolygonDrawer({
+  polygon,
+  onChange,
+}: {
+  polygon: [number, number][];
+  onChange: (polygon: [number, number][]) => void;
+}) {
+  useMapEvents({
+    click(e) {
+      onChange([...polygon, [e.latlng.lat, e.latlng.lng]]);
+    },
+  });
+
+  return (
+    <>
+      {polygon.length >= 3 ? (
+        <Polygon positions={polygon} pathOptions={areaStyle} />
+      ) : (
+        polygon.length === 2 && <Polyline positions={polygon} pathOptions={areaStyle} />
+      )}
+      {polygon.map((corner, i) => (
+        <CircleMarker
+          key={`${i}-${corner[0]}-${corner[1]}`}
+          center={corner}
+          radius={5}
+          pathOptions={{ color: '#047857', fillColor: '#ffffff', fillOpacity: 1, weight: 2 }}
+        />
+      ))}
+    </>
+  );
+}
+
 export default function LocationPicker({
   initialLat,
   initialLng,
   radiusKm,
   onPick,
+  mode = 'radius',
+  polygon = [],
+  onPolygonChange,
 }: Props) {
   const [position, setPosition] = useState<[number, number]>([initialLat, initialLng]);
 
@@ -62,17 +118,13 @@ export default function LocationPicker({
           url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
         />
 
-        <LocationMarker position={position} setPosition={setPosition} />
+        <LocationMarker position={position} setPosition={setPosition} clickToMove={mode === 'radius'} />
 
-        <Circle
-          center={position}
-          radius={radiusKm * 1000}
-          pathOptions={{
-            color: '#10b981',
-            fillColor: '#10b981',
-            fillOpacity: 0.1,
-          }}
-        />
+        {mode === 'polygon' && onPolygonChange ? (
+          <PolygonDrawer polygon={polygon} onChange={onPolygonChange} />
+        ) : (
+          <Circle center={position} radius={radiusKm * 1000} pathOptions={areaStyle} />
+        )}
       </MapContainer>
     </div>
   );
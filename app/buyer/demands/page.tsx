@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import dynamic from 'next/dynamic';
 import {
@@ -20,10 +20,29 @@ import {
   BadgeCheck,
   ClipboardList,
   ArrowRight,
+  Inbox,
 } from 'lucide-react';
 
 import supabase from '@/lib/supabaseClient';
 import Navbar from '@/components/Navbar';
+import OfferCard from '@/components/OfferCard';
+import CropPicker from '@/components/CropPicker';
+import {
+  allowedOfferActions,
+  type DemandOffer,
+  type DemandOfferEvent,
+} from '@/lib/offers';
+import {
+  emptyCatalog,
+  fetchProduceCatalog,
+  resolveSelection,
+  type ProduceCatalog,
+} from '@/lib/produceCatalog';
+import {
+  describeSourcingArea,
+  sourcingModeOptions,
+  type SourcingMode,
+} from '@/lib/sourcingAreas';
 
 const LocationPicker = dynamic(() => import('./_components/LocationPicker'), {
   ssr: false,
@@ -56,6 +75,9 @@ type BuyerDemand = {
   location_lat: number | null;
   location_lng: number | null;
   radius_km: number;
+  sourcing_mode?: SourcingMode | null;
+  sourcing_polygon?: [number, number][] | null;
+  sourcing_districts?: string[] | null;
   notes: string | null;
   status: DemandStatus;
   created_at: string;
@@ -63,6 +85,14 @@ type BuyerDemand = {
   image_urls?: string[] | null;
 };
 
+type BuyerOffer = DemandOffer & {
+  listing: {
+    farmer_name: string | null;
+    farmer_location: string | null;
+    quality: string | null;
+  } | null;
+};
+
 type ProfileRow = {
   first_name: string | null;
   last_name: string | null;
@@ -121,6 +151,9 @@ function isValidImageUrl(url: string) {
 function emptyForm() {
   return {
     crop_name: '',
+    category_id: '',
+    crop_id: '',
+    variety_id: '',
     preferred_quality: 'standard' as DemandQuality,
     quantity: '',
     unit: 'kg',
@@ -129,6 +162,9 @@ function emptyForm() {
     location_lat: null as number | null,
     location_lng: null as number | null,
     radius_km: '20',
+    sourcing_mode: 'radius' as SourcingMode,
+    sourcing_polygon: [] as [number, number][],
+    sourcing_districts: [] as string[],
     notes: '',
     status: 'open' as DemandStatus,
     image_urls: [''],
@@ -160,11 +196,16 @@ export default function BuyerDemandsPage() {
   const [saving, setSaving] = useState(false);
 
   const [demands, setDemands] = useState<BuyerDemand[]>([]);
+  const [offers, setOffers] = useState<BuyerOffer[]>([]);
+  const [offerEvents, setOfferEvents] = useState<DemandOfferEvent[]>([]);
 
   const [openModal, setOpenModal] = useState(false);
   const [openMap, setOpenMap] = useState(false);
 
   const [form, setForm] = useState(emptyForm());
+  const [catalog, setCatalog] = useState<ProduceCatalog>(emptyCatalog);
+  const [districtOptions, setDistrictOptions] = useState<{ district: string; listings: number }[]>([]);
+  const [districtDraft, setDistrictDraft] = useState('');
 
   const validImageUrls = useMemo(
     () => form.image_urls.map((u) => u.trim()).filter((u) => u.length > 0),
@@ -176,14 +217,20 @@ export default function BuyerDemandsPage() {
     const price = Number(form.target_price_per_unit);
     const radius = Number(form.radius_km);
 
+    const areaValid =
+      form.sourcing_mode === 'polygon'
+        ? form.sourcing_polygon.length >= 3
+        : form.sourcing_mode === 'districts'
+          ? form.sourcing_districts.length > 0
+          : Number.isFinite(radius) && radius > 0;
+
     return (
-      form.crop_name.trim().length > 0 &&
+      form.crop_id !== '' &&
       Number.isFinite(quantity) &&
       quantity > 0 &&
       Number.isFinite(price) &&
       price > 0 &&
-      Number.isFinite(radius) &&
-      radius > 0
+      areaValid
     );
   }, [form]);
 
@@ -200,6 +247,87 @@ export default function BuyerDemandsPage() {
     };
   }, [demands]);
 
+  const offersByDemand = useMemo(() => {
+    const map = new Map<string, BuyerOffer[]>();
+    offers.forEach((offer) => {
+      const list = map.get(offer.demand_id) || [];
+      list.push(offer);
+      map.set(offer.demand_id, list);
+    });
+    return map;
+  }, [offers]);
+
+  const eventsByOffer = useMemo(() => {
+    const map = new Map<string, DemandOfferEvent[]>();
+    offerEvents.forEach((event) => {
+      const list = map.get(event.offer_id) || [];
+      list.push(event);
+      map.set(event.offer_id, list);
+    });
+    return map;
+  }, [offerEvents]);
+
+  const loadOffers = useCallback(async (demandIds: string[]) => {
+    if (demandIds.length === 0) {
+      setOffers([]);
+      setOfferEvents([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('demand_offers')
+      .select('*, listing:listing_id (farmer_name, farmer_location, quality)')
+      .in('demand_id', demandIds)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to load offers:', error);
+      return;
+    }
+
+    const rows = (data || []) as BuyerOffer[];
+    setOffers(rows);
+
+    if (rows.length === 0) {
+      setOfferEvents([]);
+      return;
+    }
+
+    const { data: events, error: eventsError } = await supabase
+      .from('demand_offer_events')
+      .select('*')
+      .in(
+        'offer_id',
+        rows.map((o) => o.id)
+      )
+      .order('created_at', { ascending: true });
+
+    if (!eventsError) {
+      setOfferEvents((events || []) as DemandOfferEvent[]);
+    }
+  }, []);
+
+  const loadDemands = useCallback(
+    async (uid: string) => {
+      setLoadingDemands(true);
+
+      const { data, error } = await supabase
+        .from('buyer_demands')
+        .select('*')
+        .eq('buyer_id', uid)
+        .order('created_at', { ascending: false });
+
+      if (!error) {
+        const rows = (data || []) as BuyerDemand[];
+        setDemands(rows);
+        await loadOffers(rows.map((d) => d.id));
+      }
+
+      setLoadingDemands(false);
+    },
+    [loadOffers]
+  );
+
   useEffect(() => {
     let mounted = true;
 
@@ -238,7 +366,20 @@ export default function BuyerDemandsPage() {
       const fullName = `${p.first_name || ''} ${p.last_name || ''}`.trim() || 'Buyer';
       if (mounted) setBuyerName(fullName);
 
-      await loadDemands(uid);
+      const [produceCatalog, districtsRes] = await Promise.all([
+        fetchProduceCatalog(),
+        supabase.rpc('sourcing_district_options'),
+        loadDemands(uid),
+      ]);
+      if (mounted) {
+        setCatalog(produceCatalog);
+        setDistrictOptions(
+          ((districtsRes.data || []) as { district: string; listings: number }[]).map((d) => ({
+            district: d.district,
+            listings: Number(d.listings || 0),
+          }))
+        );
+      }
 
       if (mounted) setLoadingPage(false);
     };
@@ -248,26 +389,31 @@ export default function BuyerDemandsPage() {
     return () => {
       mounted = false;
     };
-  }, [router]);
+  }, [router, loadDemands]);
 
-  async function loadDemands(uid?: string) {
-    const currentUserId = uid || userId;
-    if (!currentUserId) return;
-
-    setLoadingDemands(true);
-
-    const { data, error } = await supabase
-      .from('buyer_demands')
-      .select('*')
-      .eq('buyer_id', currentUserId)
-      .order('created_at', { ascending: false });
+  useEffect(() => {
+    if (!userId) return;
 
-    if (!error) {
-      setDemands((data || []) as BuyerDemand[]);
-    }
+    const channel = supabase
+      .channel(`buyer-offers-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'demand_offers',
+          filter: `buyer_id=eq.${userId}`,
+        },
+        () => {
+          loadOffers(demands.map((d) => d.id));
+        }
+      )
+      .subscribe();
 
-    setLoadingDemands(false);
-  }
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, demands, loadOffers]);
 
   function closeModal() {
     setOpenModal(false);
@@ -300,6 +446,21 @@ export default function BuyerDemandsPage() {
     });
   }
 
+  function toggleDistrict(district: string) {
+    const name = district.trim();
+    if (!name) return;
+
+    setForm((prev) => {
+      const has = prev.sourcing_districts.some((d) => d.toLowerCase() === name.toLowerCase());
+      return {
+        ...prev,
+        sourcing_districts: has
+          ? prev.sourcing_districts.filter((d) => d.toLowerCase() !== name.toLowerCase())
+          : [...prev.sourcing_districts, name],
+      };
+    });
+  }
+
   function useGps() {
     if (!navigator.geolocation) {
       alert('GPS is not supported on this browser.');
@@ -335,10 +496,19 @@ export default function BuyerDemandsPage() {
       return;
     }
 
+    const { category, crop, variety } = resolveSelection(catalog, form);
+    if (!crop) {
+      alert('Please pick a crop.');
+      return;
+    }
+
     const payload = {
       buyer_id: userId,
       buyer_name: buyerName,
-      crop_name: form.crop_name.trim(),
+      crop_name: crop.name,
+      category_id: category?.id ?? null,
+      crop_id: crop.id,
+      variety_id: variety?.id ?? null,
       preferred_quality: form.preferred_quality,
       quantity: Number(form.quantity),
       unit: form.unit,
@@ -346,7 +516,10 @@ export default function BuyerDemandsPage() {
       location_text: form.location_text.trim() || null,
       location_lat: form.location_lat,
       location_lng: form.location_lng,
-      radius_km: Number(form.radius_km),
+      radius_km: Number(form.radius_km) || 20,
+      sourcing_mode: form.sourcing_mode,
+      sourcing_polygon: form.sourcing_mode === 'polygon' ? form.sourcing_polygon : null,
+      sourcing_districts: form.sourcing_mode === 'districts' ? form.sourcing_districts : null,
       notes: form.notes.trim() || null,
       status: form.status,
       image_urls: validImageUrls.length ? validImageUrls : null,
@@ -364,7 +537,7 @@ export default function BuyerDemandsPage() {
     }
 
     closeModal();
-    await loadDemands();
+    await loadDemands(userId);
   }
 
   if (loadingPage) {
@@ -531,10 +704,10 @@ export default function BuyerDemandsPage() {
 
                         <div className="rounded-2xl border border-gray-200 bg-gray-50 px-4 py-3 text-right shrink-0">
                           <div className="text-xs uppercase tracking-wide text-gray-500">
-                            Radius
+                            Sourcing area
                           </div>
                           <div className="mt-1 text-lg font-bold text-gray-900">
-                            {Number(demand.radius_km).toLocaleString()} km
+                            {describeSourcingArea(demand)}
                           </div>
                         </div>
                       </div>
@@ -606,6 +779,13 @@ export default function BuyerDemandsPage() {
                           </div>
                         </div>
                       )}
+
+                      <DemandOffersPanel
+                        demand={demand}
+                        offers={offersByDemand.get(demand.id) || []}
+                        eventsByOffer={eventsByOffer}
+                        onChanged={() => loadOffers(demands.map((d) => d.id))}
+                      />
                     </div>
                   </article>
                 ))}
@@ -637,14 +817,21 @@ export default function BuyerDemandsPage() {
 
             <div className="p-6 md:p-8 max-h-[80vh] overflow-y-auto">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
-                <Field label="Crop name *">
-                  <input
-                    value={form.crop_name}
-                    onChange={(e) => setForm((p) => ({ ...p, crop_name: e.target.value }))}
-                    placeholder="e.g. Robusta coffee"
-                    className="w-full rounded-2xl border border-gray-300 px-4 py-3 outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
-                  />
-                </Field>
+                <CropPicker
+                  catalog={catalog}
+                  value={form}
+                  onChange={(next, crop) =>
+                    setForm((p) => ({
+                      ...p,
+                      ...next,
+                      crop_name: crop?.name ?? '',
+                      unit:
+                        crop && next.crop_id !== p.crop_id && unitOptions.includes(crop.common_unit)
+                          ? crop.common_unit
+                          : p.unit,
+                    }))
+                  }
+                />
 
                 <Field label="Preferred quality *">
                   <select
@@ -732,15 +919,120 @@ export default function BuyerDemandsPage() {
                   />
                 </Field>
 
-                <Field label="Radius (km) *">
-                  <input
-                    value={form.radius_km}
-                    onChange={(e) => setForm((p) => ({ ...p, radius_km: e.target.value }))}
-                    placeholder="e.g. 20"
-                    inputMode="decimal"
-                    className="w-full rounded-2xl border border-gray-300 px-4 py-3 outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
-                  />
-                </Field>
+                <div>
+                  <div className="text-sm font-semibold text-gray-800 mb-2">Source from *</div>
+                  <div className="grid grid-cols-3 gap-1 rounded-2xl border border-gray-300 p-1">
+                    {sourcingModeOptions.map((o) => (
+                      <button
+                        key={o.value}
+                        type="button"
+                        onClick={() => setForm((p) => ({ ...p, sourcing_mode: o.value }))}
+                        className={`rounded-xl px-3 py-2 text-sm font-semibold ${
+                          form.sourcing_mode === o.value
+                            ? 'bg-emerald-600 text-white'
+                            : 'text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        {o.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {form.sourcing_mode === 'radius' && (
+                  <Field label="Radius (km) *">
+                    <input
+                      value={form.radius_km}
+                      onChange={(e) => setForm((p) => ({ ...p, radius_km: e.target.value }))}
+                      placeholder="e.g. 20"
+                      inputMode="decimal"
+                      className="w-full rounded-2xl border border-gray-300 px-4 py-3 outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
+                    />
+                  </Field>
+                )}
+
+                {form.sourcing_mode === 'polygon' && (
+                  <Field label="Sourcing area *">
+                    <button
+                      type="button"
+                      onClick={() => setOpenMap(true)}
+                      className="w-full inline-flex items-center justify-center gap-2 rounded-2xl border border-gray-300 bg-white px-4 py-3 text-sm font-semibold hover:bg-gray-50"
+                    >
+                      <MapPin className="w-4 h-4" />
+                      {form.sourcing_polygon.length >= 3
+                        ? `Edit drawn area (${form.sourcing_polygon.length} corners)`
+                        : 'Draw area on map'}
+                    </button>
+                  </Field>
+                )}
+
+                {form.sourcing_mode === 'districts' && (
+                  <div className="md:col-span-2">
+                    <div className="text-sm font-semibold text-gray-800 mb-2">Districts *</div>
+                    <div className="flex flex-wrap gap-2">
+                      {districtOptions.map((o) => {
+                        const on = form.sourcing_districts.some(
+                          (d) => d.toLowerCase() === o.district.toLowerCase()
+                        );
+                        return (
+                          <button
+                            key={o.district}
+                            type="button"
+                            onClick={() => toggleDistrict(o.district)}
+                            className={`rounded-full border px-3 py-1.5 text-sm font-medium ${
+                              on
+                                ? 'bg-emerald-600 border-emerald-600 text-white'
+                                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                            }`}
+                          >
+                            {o.district}
+                            <span className={on ? 'text-emerald-100' : 'text-gray-400'}> · {o.listings}</span>
+                          </button>
+                        );
+                      })}
+                      {form.sourcing_districts
+                        .filter(
+                          (d) => !districtOptions.some((o) => o.district.toLowerCase() === d.toLowerCase())
+                        )
+                        .map((d) => (
+                          <button
+                            key={d}
+                            type="button"
+                            onClick={() => toggleDistrict(d)}
+                            className="rounded-full border border-emerald-600 bg-emerald-600 px-3 py-1.5 text-sm font-medium text-white"
+                          >
+                            {d}
+                          </button>
+                        ))}
+                    </div>
+
+                    <div className="mt-3 flex gap-2">
+                      <input
+                        value={districtDraft}
+                        onChange={(e) => setDistrictDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            e.preventDefault();
+                            toggleDistrict(districtDraft);
+                            setDistrictDraft('');
+                          }
+                        }}
+                        placeholder="Another district, e.g. Masaka"
+                        className="flex-1 rounded-2xl border border-gray-300 px-4 py-2.5 outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => {
+                          toggleDistrict(districtDraft);
+                          setDistrictDraft('');
+                        }}
+                        className="rounded-2xl border border-gray-300 bg-white px-4 py-2.5 text-sm font-semibold hover:bg-gray-50"
+                      >
+                        Add
+                      </button>
+                    </div>
+                  </div>
+                )}
 
                 <div className="md:col-span-2">
                   <Field label="Map location">
@@ -897,9 +1189,13 @@ export default function BuyerDemandsPage() {
           <div className="w-full max-w-4xl bg-white rounded-[32px] border border-gray-200 shadow-2xl overflow-hidden">
             <div className="px-6 md:px-8 py-5 border-b border-gray-200 flex items-start justify-between gap-4 bg-gradient-to-r from-emerald-50 to-white">
               <div>
-                <h3 className="text-lg md:text-xl font-bold text-gray-900">Pick Location</h3>
+                <h3 className="text-lg md:text-xl font-bold text-gray-900">
+                  {form.sourcing_mode === 'polygon' ? 'Draw Sourcing Area' : 'Pick Location'}
+                </h3>
                 <p className="text-sm text-gray-600 mt-1">
-                  Click on the map or drag the marker to choose the demand location.
+                  {form.sourcing_mode === 'polygon'
+                    ? 'Click the map to add corners of the area you buy from. Drag the marker to move the delivery point.'
+                    : 'Click on the map or drag the marker to choose the demand location.'}
                 </p>
               </div>
               <button
@@ -922,9 +1218,32 @@ export default function BuyerDemandsPage() {
                     location_lng: lng,
                   }))
                 }
+                mode={form.sourcing_mode === 'polygon' ? 'polygon' : 'radius'}
+                polygon={form.sourcing_polygon}
+                onPolygonChange={(next) => setForm((prev) => ({ ...prev, sourcing_polygon: next }))}
               />
 
               <div className="mt-5 flex items-center justify-end gap-2">
+                {form.sourcing_mode === 'polygon' && (
+                  <>
+                    <button
+                      onClick={() =>
+                        setForm((prev) => ({ ...prev, sourcing_polygon: prev.sourcing_polygon.slice(0, -1) }))
+                      }
+                      disabled={form.sourcing_polygon.length === 0}
+                      className="px-4 py-2.5 rounded-2xl border border-gray-300 bg-white hover:bg-gray-50 text-sm font-semibold disabled:opacity-50"
+                    >
+                      Undo corner
+                    </button>
+                    <button
+                      onClick={() => setForm((prev) => ({ ...prev, sourcing_polygon: [] }))}
+                      disabled={form.sourcing_polygon.length === 0}
+                      className="px-4 py-2.5 rounded-2xl border border-gray-300 bg-white hover:bg-gray-50 text-sm font-semibold disabled:opacity-50"
+                    >
+                      Clear
+                    </button>
+                  </>
+                )}
                 <button
                   onClick={() => setOpenMap(false)}
                   className="px-4 py-2.5 rounded-2xl border border-gray-300 bg-white hover:bg-gray-50 text-sm font-semibold"
@@ -940,6 +1259,63 @@ export default function BuyerDemandsPage() {
   );
 }
 
+function DemandOffersPanel({
+  demand,
+  offers,
+  eventsByOffer,
+  onChanged,
+}: {
+  demand: BuyerDemand;
+  offers: BuyerOffer[];
+  eventsByOffer: Map<string, DemandOfferEvent[]>;
+  onChanged: () => Promise<void>;
+}) {
+  const awaiting = offers.filter((o) => allowedOfferActions(o, 'buyer').length > 0).length;
+
+  return (
+    <div className="rounded-2xl border border-emerald-100 bg-emerald-50/40 p-4">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+          <Inbox className="w-4 h-4 text-emerald-600" />
+          Offers ({offers.length})
+        </div>
+        {awaiting > 0 && (
+          <span className="px-2.5 py-1 rounded-full text-xs font-semibold bg-amber-100 text-amber-700">
+            {awaiting} awaiting your reply
+          </span>
+        )}
+      </div>
+
+      {offers.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No offers yet. Farmers with matching produce will show up here.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {offers.map((offer) => (
+            <OfferCard
+              key={`${offer.id}-${offer.updated_at || offer.created_at}`}
+              offer={offer}
+              events={eventsByOffer.get(offer.id) || []}
+              party="buyer"
+              unit={demand.unit}
+              title={offer.listing?.farmer_name || 'Farmer'}
+              subtitle={[
+                offer.listing?.farmer_location,
+                offer.listing?.quality && `${offer.listing.quality} quality`,
+                `Received ${relativeDate(offer.created_at)}`,
+              ]
+                .filter(Boolean)
+                .join(' • ')}
+              onChanged={onChanged}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function StatCard({
   icon,
   label,
@@ -0,0 +1,462 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Navbar from '@/components/Navbar';
+import HandoverForm from '@/components/HandoverForm';
+import supabase from '@/lib/supabaseClient';
+import {
+  advanceDelivery,
+  deliveryActionLabels,
+  deliveryProgress,
+  deliveryTransitions,
+  fetchMyDeliveries,
+  getDeliveryStatusLabel,
+  getDeliveryStatusTone,
+  isDeliveryActive,
+  type Delivery,
+  type DeliveryEvent,
+  type DeliveryStatus,
+} from '@/lib/deliveries';
+import {
+  Loader2,
+  Truck,
+  Package,
+  MapPin,
+  Navigation,
+  RefreshCw,
+  ArrowRight,
+  CheckCircle2,
+  Circle,
+} from 'lucide-react';
+
+type DeliveryFilter = 'active' | 'delivered' | 'released';
+
+const filterOptions: { value: DeliveryFilter; label: string }[] = [
+  { value: 'active', label: 'On the road' },
+  { value: 'delivered', label: 'Delivered' },
+  { value: 'released', label: 'Released' },
+];
+
+const stepTimestamps: Partial<Record<DeliveryStatus, keyof Delivery>> = {
+  assigned: 'assigned_at',
+  picked_up: 'picked_up_at',
+  in_transit: 'in_transit_at',
+  delivered: 'delivered_at',
+};
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString('en-UG', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/** Turn-by-turn directions from the pickup to the drop-off, when both points are known. */
+function directionsUrl(delivery: Delivery) {
+  if (
+    delivery.pickup_lat == null ||
+    delivery.pickup_lng == null ||
+    delivery.dropoff_lat == null ||
+    delivery.dropoff_lng == null
+  ) {
+    return null;
+  }
+  return `https://www.openstreetmap.org/directions?engine=fossgis_osrm_car&route=${delivery.pickup_lat},${delivery.pickup_lng};${delivery.dropoff_lat},${delivery.dropoff_lng}`;
+}
+
+export default function DeliveriesPage() {
+  const router = useRouter();
+
+  const [authId, setAuthId] = useState<string | null>(null);
+  const [loadingPage, setLoadingPage] = useState(true);
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [events, setEvents] = useState<DeliveryEvent[]>([]);
+  const [filter, setFilter] = useState<DeliveryFilter>('active');
+  const [moving, setMoving] = useState<string | null>(null);
+
+  const eventsByDelivery = useMemo(() => {
+    const map = new Map<string, DeliveryEvent[]>();
+    events.forEach((event) => {
+      const list = map.get(event.delivery_id) || [];
+      list.push(event);
+      map.set(event.delivery_id, list);
+    });
+    return map;
+  }, [events]);
+
+  const stats = useMemo(
+    () => ({
+      active: deliveries.filter((d) => isDeliveryActive(d.status)).length,
+      inTransit: deliveries.filter((d) => d.status === 'in_transit').length,
+      delivered: deliveries.filter((d) => d.status === 'delivered').length,
+      deliveredKg: deliveries
+        .filter((d) => d.status === 'delivered')
+        .reduce((sum, d) => sum + Number(d.quantity_kg || 0), 0),
+    }),
+    [deliveries]
+  );
+
+  const visibleDeliveries = useMemo(() => {
+    if (filter === 'delivered') return deliveries.filter((d) => d.status === 'delivered');
+    if (filter === 'released') return deliveries.filter((d) => d.status === 'cancelled');
+    return deliveries.filter((d) => isDeliveryActive(d.status));
+  }, [deliveries, filter]);
+
+  const loadDeliveries = useCallback(async (uid: string) => {
+    setLoadingDeliveries(true);
+
+    const rows = await fetchMyDeliveries(uid);
+    setDeliveries(rows);
+
+    if (rows.length > 0) {
+      const { data: eventRows } = await supabase
+        .from('delivery_events')
+        .select('*')
+        .in(
+          'delivery_id',
+          rows.map((d) => d.id)
+        )
+        .order('created_at', { ascending: true });
+
+      setEvents((eventRows || []) as DeliveryEvent[]);
+    } else {
+      setEvents([]);
+    }
+
+    setLoadingDeliveries(false);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const boot = async () => {
+      setLoadingPage(true);
+
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth?.user?.id ?? null;
+
+      if (!uid) {
+        router.push('/login');
+        return;
+      }
+
+      const { data: prof, error: profError } = await supabase
+        .from('accounts_user')
+        .select('role')
+        .eq('auth_user_id', uid)
+        .maybeSingle();
+
+      if (profError || !prof || (prof.role !== 'logistics' && prof.role !== 'admin')) {
+        router.push('/unauthorized');
+        return;
+      }
+
+      if (!mounted) return;
+      setAuthId(uid);
+
+      await loadDeliveries(uid);
+
+      if (mounted) setLoadingPage(false);
+    };
+
+    boot();
+
+    return () => {
+      mounted = false;
+    };
+  }, [router, loadDeliveries]);
+
+  // Cancelled orders release their deliveries on the server
+  useEffect(() => {
+    if (!authId) return;
+
+    const channel = supabase
+      .channel(`deliveries-${authId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'deliveries',
+          filter: `transporter_id=eq.${authId}`,
+        },
+        () => {
+          loadDeliveries(authId);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [authId, loadDeliveries]);
+
+  async function move(delivery: Delivery, toStatus: DeliveryStatus) {
+    if (!confirm(`${deliveryActionLabels[toStatus]}: ${delivery.crop_name}?`)) return;
+
+    setMoving(`${delivery.id}:${toStatus}`);
+    const { error } = await advanceDelivery(delivery.id, toStatus);
+    setMoving(null);
+
+    if (error) {
+      alert(error);
+      return;
+    }
+
+    if (authId) await loadDeliveries(authId);
+  }
+
+  if (loadingPage) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-6xl mx-auto px-4 py-10">
+          <div className="flex items-center gap-2 text-gray-700">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading your deliveries...
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="max-w-7xl mx-auto px-4 py-6">
+        <section className="rounded-[28px] border border-sky-100 bg-gradient-to-br from-sky-50 via-white to-emerald-50 p-6 md:p-8">
+          <div className="flex flex-col gap-6 lg:flex-row lg:items-end lg:justify-between">
+            <div className="max-w-2xl">
+              <div className="inline-flex items-center gap-2 rounded-full border border-sky-200 bg-white/80 px-3 py-1.5 text-xs font-semibold text-sky-700">
+                <Truck className="w-4 h-4" />
+                Transporter workspace
+              </div>
+
+              <h1 className="mt-4 text-3xl md:text-4xl font-bold tracking-tight text-gray-900">My Deliveries</h1>
+
+              <p className="mt-3 text-sm md:text-base leading-7 text-gray-600">
+                Loads you have claimed. Mark each one picked up, on the road and delivered;
+                the buyer and farmer see the order move with you.
+              </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                onClick={() => authId && loadDeliveries(authId)}
+                className="inline-flex items-center justify-center gap-2 px-5 py-3 rounded-2xl border border-gray-300 bg-white hover:bg-gray-50 text-sm font-semibold text-gray-700"
+              >
+                <RefreshCw className={`w-4 h-4 ${loadingDeliveries ? 'animate-spin' : ''}`} />
+                Refresh
+              </button>
+
+              <Link
+                href="/logistics"
+                className="inline-flex items-center justify-center gap-2 px-5 py-3 rounded-2xl bg-sky-600 hover:bg-sky-700 text-white text-sm font-semibold"
+              >
+                Find loads
+                <ArrowRight className="w-4 h-4" />
+              </Link>
+            </div>
+          </div>
+        </section>
+
+        <section className="mt-6 grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+          <StatCard label="Claimed" value={stats.active} icon={<Package className="w-5 h-5" />} />
+          <StatCard label="In Transit" value={stats.inTransit} icon={<Truck className="w-5 h-5" />} />
+          <StatCard label="Delivered" value={stats.delivered} icon={<CheckCircle2 className="w-5 h-5" />} />
+          <StatCard
+            label="Kg Delivered"
+            value={Math.round(stats.deliveredKg).toLocaleString()}
+            icon={<Navigation className="w-5 h-5" />}
+          />
+        </section>
+
+        <section className="mt-6">
+          <div className="flex flex-wrap gap-2 mb-4">
+            {filterOptions.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setFilter(option.value)}
+                className={`px-4 py-2 rounded-2xl text-sm font-semibold border ${
+                  filter === option.value
+                    ? 'bg-sky-600 border-sky-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="rounded-[28px] border border-gray-200 bg-white shadow-sm p-5 md:p-6">
+            {visibleDeliveries.length === 0 ? (
+              <div className="p-8 text-center">
+                <div className="mx-auto w-16 h-16 rounded-3xl bg-sky-50 flex items-center justify-center text-sky-600">
+                  <Truck className="w-8 h-8" />
+                </div>
+                <h3 className="mt-5 text-xl font-bold text-gray-900">No deliveries here</h3>
+                <p className="mt-2 text-sm text-gray-600 max-w-md mx-auto">
+                  Claim a load from the load board and it will appear here until it is delivered.
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                {visibleDeliveries.map((delivery) => {
+                  const reachedIndex = deliveryProgress.indexOf(delivery.status);
+                  const history = eventsByDelivery.get(delivery.id) || [];
+                  const lastNote = [...history].reverse().find((e) => e.note)?.note;
+                  const directions = directionsUrl(delivery);
+
+                  return (
+                    <div key={delivery.id} className="rounded-3xl border border-gray-200 p-5">
+                      <div className="flex items-start justify-between gap-3">
+                        <div>
+                          <h3 className="text-lg font-bold text-gray-900">{delivery.crop_name}</h3>
+                          <p className="text-sm text-gray-600">
+                            {delivery.quantity.toLocaleString()} {delivery.unit}
+                            {delivery.unit !== 'kg' && delivery.quantity_kg != null
+                              ? ` ≈ ${Math.round(delivery.quantity_kg).toLocaleString()} kg`
+                              : ''}
+                            {delivery.distance_km != null ? ` • ${delivery.distance_km} km trip` : ''}
+                          </p>
+                        </div>
+                        <span
+                          className={`shrink-0 px-3 py-1 rounded-full text-xs font-semibold border ${getDeliveryStatusTone(
+                            delivery.status
+                          )}`}
+                        >
+                          {getDeliveryStatusLabel(delivery.status)}
+                        </span>
+                      </div>
+
+                      <div className="mt-4 space-y-2 text-sm">
+                        <div className="flex items-start gap-2">
+                          <MapPin className="w-4 h-4 mt-0.5 text-emerald-600" />
+                          <div>
+                            <div className="font-semibold text-gray-900">
+                              Pickup: {delivery.pickup_location || 'Location not set'}
+                            </div>
+                            <div className="text-gray-500">{delivery.farmer_name || 'Farmer'}</div>
+                          </div>
+                        </div>
+                        <div className="flex items-start gap-2">
+                          <Navigation className="w-4 h-4 mt-0.5 text-sky-600" />
+                          <div>
+                            <div className="font-semibold text-gray-900">
+                              Drop-off: {delivery.dropoff_location || 'Location not set'}
+                            </div>
+                            <div className="text-gray-500">{delivery.buyer_name || 'Buyer'}</div>
+                          </div>
+                        </div>
+                      </div>
+
+                      {delivery.status !== 'cancelled' && (
+                        <ol className="mt-5 grid grid-cols-4 gap-2">
+                          {deliveryProgress.map((step, index) => {
+                            const done = reachedIndex >= index;
+                            const key = stepTimestamps[step];
+                            const at = key ? (delivery[key] as string | null) : null;
+
+                            return (
+                              <li key={step} className="flex flex-col items-center text-center">
+                                {done ? (
+                                  <CheckCircle2 className="w-5 h-5 text-sky-600" />
+                                ) : (
+                                  <Circle className="w-5 h-5 text-gray-300" />
+                                )}
+                                <span
+                                  className={`mt-1 text-[11px] font-semibold ${
+                                    done ? 'text-gray-900' : 'text-gray-400'
+                                  }`}
+                                >
+                                  {getDeliveryStatusLabel(step)}
+                                </span>
+                                {at && done && <span className="text-[10px] text-gray-500">{formatDateTime(at)}</span>}
+                              </li>
+                            );
+                          })}
+                        </ol>
+                      )}
+
+                      {lastNote && <p className="mt-4 text-xs text-gray-500">Latest note: {lastNote}</p>}
+
+                      {(delivery.status === 'picked_up' || delivery.status === 'in_transit') && (
+                        <HandoverForm
+                          matchId={delivery.match_id}
+                          className="mt-5 rounded-2xl border border-sky-200 bg-sky-50/60 p-4"
+                          onConfirmed={async () => {
+                            if (authId) await loadDeliveries(authId);
+                          }}
+                        />
+                      )}
+
+                      <div className="mt-5 flex flex-wrap gap-2">
+                        {deliveryTransitions[delivery.status].map((to) => {
+                          const negative = to === 'cancelled';
+                          return (
+                            <button
+                              key={to}
+                              onClick={() => move(delivery, to)}
+                              disabled={!!moving}
+                              className={`inline-flex items-center gap-2 px-4 py-2.5 rounded-2xl text-sm font-semibold disabled:opacity-50 ${
+                                negative
+                                  ? 'border border-rose-200 bg-rose-50 text-rose-700 hover:bg-rose-100'
+                                  : 'bg-sky-600 text-white hover:bg-sky-700'
+                              }`}
+                            >
+                              {moving === `${delivery.id}:${to}` && <Loader2 className="w-4 h-4 animate-spin" />}
+                              {deliveryActionLabels[to]}
+                            </button>
+                          );
+                        })}
+
+                        {directions && isDeliveryActive(delivery.status) && (
+                          <a
+                            href={directions}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-2 px-4 py-2.5 rounded-2xl border border-gray-300 bg-white text-sm font-semibold text-gray-700 hover:bg-gray-50"
+                          >
+                            <Navigation className="w-4 h-4" />
+                            Directions
+                          </a>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
+
+function StatCard({
+  label,
+  value,
+  icon,
+}: {
+  label: string;
+  value: string | number;
+  icon: React.ReactNode;
+}) {
+  return (
+    <div className="rounded-3xl border border-sky-100 bg-gradient-to-r from-sky-50 to-white p-5">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold text-gray-700">{label}</div>
+        <div className="rounded-2xl bg-white/80 p-2 text-sky-700">{icon}</div>
+      </div>
+      <div className="mt-4 text-2xl font-bold text-gray-900">{value}</div>
+    </div>
+  );
+}
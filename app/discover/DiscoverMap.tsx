@@ -1,59 +1,104 @@
 'use client';
 
 import { useEffect, useMemo } from 'react';
-import type { Map as LeafletMap, DivIcon } from 'leaflet';
-import { MapContainer, TileLayer, Circle, Marker, Popup, useMapEvents } from 'react-leaflet';
+import type { Map as LeafletMap, DivIcon, LatLngBounds } from 'leaflet';
+import {
+  Circle,
+  CircleMarker,
+  Marker,
+  Polygon,
+  Popup,
+  Tooltip,
+  useMapEvents,
+} from 'react-leaflet';
 import Link from 'next/link';
+import BaseMap from '@/components/BaseMap';
 import type { ProductPin } from './DiscoverClient';
+import type { GeoBounds, GeoCluster } from '@/lib/geo';
+import type { HeatCell, HeatLayer } from '@/lib/mapLayers';
+import type { DemandInBounds } from '@/lib/discoverListings';
+import { describeSourcingArea, sourcingModeOf } from '@/lib/sourcingAreas';
 
 export type DiscoverMapProps = {
   center: [number, number];
   zoom: number;
   radiusKm: number;
   userLoc: { lat: number; lng: number } | null;
-  pins: ProductPin[];
+  /** Listing pins grouped for the current zoom; a cluster of one is drawn as a plain pin. */
+  clusters: GeoCluster<ProductPin>[];
+  /** Open buyer demands with their sourcing areas; empty when the layer is off. */
+  demands: DemandInBounds[];
+  /** Cells for each heat layer that is switched on. */
+  heatCells: Partial<Record<HeatLayer, HeatCell[]>>;
   userDivIcon: DivIcon | null;
   pinIcon: (category: string) => DivIcon | null;
+  /** Icon for a cluster from its size and [category, count] pairs, largest first. */
+  clusterIcon: (count: number, categories: [string, number][]) => DivIcon | null;
+  onClusterClick: (bounds: GeoBounds) => void;
   onMapReady: (map: LeafletMap) => void;
   onZoomChange: (zoom: number) => void;
+  /** The visible area, on load and after every pan or zoom. */
+  onBoundsChange: (bounds: GeoBounds) => void;
   onPinClick: (id: string, lat: number, lng: number) => void;
   categoryIcons: Record<string, string>;
   formatPrice: (price: number) => string;
 };
 
-/**
- * Fixes:
- * - Grey / blank map tiles in production: uses CARTO tiles (more reliable than default OSM)
- * - Next.js layout resize issues: calls invalidateSize on mount
- * - Smooth syncing when center/zoom change
- */
+// Tiles and the resize fix come from BaseMap; MapEvents keeps the view in
+// sync when center/zoom change.
+
+const demandStyle = {
+  color: '#6366f1',
+  fillColor: '#6366f1',
+  fillOpacity: 0.06,
+  weight: 1.5,
+  dashArray: '6 4',
+};
+
+const heatColors: Record<Exclude<HeatLayer, 'price'>, string> = {
+  supply: '#10b981',
+  demand: '#6366f1',
+};
+
+// Green for the cheapest cells in view through amber to red for the dearest
+const priceColor = (share: number) => `hsl(${Math.round(140 - 140 * share)}, 75%, 45%)`;
+
+function categoryBreakdown(pins: ProductPin[]) {
+  const counts = new Map<string, number>();
+  for (const pin of pins) counts.set(pin.crop_category, (counts.get(pin.crop_category) || 0) + 1);
+  return Array.from(counts).sort((a, b) => b[1] - a[1]);
+}
+
+const toGeoBounds = (b: LatLngBounds): GeoBounds => ({
+  south: b.getSouth(),
+  west: b.getWest(),
+  north: b.getNorth(),
+  east: b.getEast(),
+});
 
 function MapEvents({
   onReady,
   onZoom,
+  onBounds,
   center,
   zoom,
 }: {
   onReady: (m: LeafletMap) => void;
   onZoom: (z: number) => void;
+  onBounds: (b: GeoBounds) => void;
   center: [number, number];
   zoom: number;
 }) {
   const map = useMapEvents({
     zoomend: () => onZoom(map.getZoom()),
+    moveend: () => onBounds(toGeoBounds(map.getBounds())),
   });
 
   // initial ready
   useEffect(() => {
     onReady(map);
     onZoom(map.getZoom());
-
-    // IMPORTANT: force Leaflet to recalc size (fixes blank/grey areas in flex layouts)
-    setTimeout(() => {
-      try {
-        map.invalidateSize();
-      } catch {}
-    }, 200);
+    onBounds(toGeoBounds(map.getBounds()));
 
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -80,17 +125,49 @@ export default function DiscoverMap({
   zoom,
   radiusKm,
   userLoc,
-  pins,
+  clusters,
+  demands,
+  heatCells,
   userDivIcon,
   pinIcon,
+  clusterIcon,
+  onClusterClick,
   onMapReady,
   onZoomChange,
+  onBoundsChange,
   onPinClick,
   categoryIcons,
   formatPrice,
 }: DiscoverMapProps) {
   const markers = useMemo(() => {
-    return pins.map((pin) => {
+    return clusters.map((cluster) => {
+      if (cluster.items.length > 1) {
+        const categories = categoryBreakdown(cluster.items);
+        const icon = clusterIcon(cluster.items.length, categories);
+        if (!icon) return null;
+
+        return (
+          <Marker
+            key={`cluster-${cluster.id}`}
+            position={[cluster.lat, cluster.lng]}
+            icon={icon}
+            eventHandlers={{ click: () => onClusterClick(cluster.bounds) }}
+          >
+            <Tooltip direction="top" offset={[0, -18]}>
+              <div className="text-sm">
+                <div className="font-semibold">{cluster.items.length} listings</div>
+                {categories.map(([category, count]) => (
+                  <div key={category} className="text-gray-600">
+                    {categoryIcons[category] || '🌱'} {count} {category.replace('_', ' ')}
+                  </div>
+                ))}
+              </div>
+            </Tooltip>
+          </Marker>
+        );
+      }
+
+      const pin = cluster.items[0];
       const icon = pinIcon(pin.crop_category);
       if (!icon) return null;
 
@@ -147,21 +224,115 @@ export default function DiscoverMap({
         </Marker>
       );
     });
-  }, [pins, pinIcon, onPinClick, categoryIcons, formatPrice]);
+  }, [clusters, pinIcon, clusterIcon, onClusterClick, onPinClick, categoryIcons, formatPrice]);
+
+  const heat = useMemo(() => {
+    return (Object.entries(heatCells) as [HeatLayer, HeatCell[]][]).flatMap(([layer, cells]) => {
+      if (cells.length === 0) return [];
+
+      const values = cells.map((c) => c.value);
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+
+      return cells.map((cell) => {
+        // Supply and demand fade with volume; price keeps full strength and
+        // shifts colour from cheap to dear within the view
+        const share = max > min ? (cell.value - min) / (max - min) : 1;
+        const color = layer === 'price' ? priceColor(share) : heatColors[layer];
+        const opacity = layer === 'price' ? 0.55 : 0.15 + 0.5 * (max > 0 ? cell.value / max : 0);
+
+        return (
+          <CircleMarker
+            key={`${layer}-${cell.lat}-${cell.lng}`}
+            center={[cell.lat, cell.lng]}
+            radius={layer === 'price' ? 10 : 18}
+            pathOptions={{ stroke: false, fillColor: color, fillOpacity: opacity }}
+          >
+            <Tooltip>
+              <div className="text-sm">
+                {layer === 'price' ? (
+                  <>
+                    <div className="font-semibold">{formatPrice(Math.round(cell.value))}/kg average</div>
+                    <div className="text-gray-600">{cell.items} listings</div>
+                  </>
+                ) : (
+                  <>
+                    <div className="font-semibold">{Math.round(cell.value).toLocaleString('en-UG')} kg</div>
+                    <div className="text-gray-600">
+                      {cell.items} {layer === 'supply' ? 'listings' : 'buyer requests'}
+                    </div>
+                  </>
+                )}
+              </div>
+            </Tooltip>
+          </CircleMarker>
+        );
+      });
+    });
+  }, [heatCells, formatPrice]);
+
+  const demandShapes = useMemo(() => {
+    return demands.map((demand) => {
+      const mode = sourcingModeOf(demand);
+      const popup = (
+        <Popup>
+          <div className="min-w-[200px] text-sm">
+            <div className="font-bold text-gray-900">Wanted: {demand.crop_name}</div>
+            <div className="text-gray-600">{demand.buyer_name || 'Buyer'}</div>
+            <div className="mt-2 space-y-1 text-gray-700">
+              <div>
+                {demand.quantity.toLocaleString()} {demand.unit}
+                {demand.preferred_quality ? ` · ${demand.preferred_quality}` : ''}
+              </div>
+              <div className="font-semibold text-indigo-600">
+                Target {formatPrice(demand.target_price_per_unit)}/{demand.unit}
+              </div>
+              <div>Sources from: {describeSourcingArea(demand)}</div>
+            </div>
+            <Link
+              href="/marketplace"
+              className="mt-3 block text-center bg-indigo-500 text-white py-1.5 rounded-lg text-sm hover:bg-indigo-600 transition-colors"
+            >
+              Make an offer
+            </Link>
+          </div>
+        </Popup>
+      );
+
+      return (
+        <div key={`demand-${demand.id}`}>
+          {mode === 'polygon' && demand.sourcing_polygon && (
+            <Polygon positions={demand.sourcing_polygon} pathOptions={demandStyle} />
+          )}
+          {mode === 'radius' && demand.location_lat != null && demand.location_lng != null && (
+            <Circle
+              center={[demand.location_lat, demand.location_lng]}
+              radius={demand.radius_km * 1000}
+              pathOptions={demandStyle}
+            />
+          )}
+          {demand.location_lat != null && demand.location_lng != null && (
+            <CircleMarker
+              center={[demand.location_lat, demand.location_lng]}
+              radius={7}
+              pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#6366f1', fillOpacity: 1 }}
+            >
+              {popup}
+            </CircleMarker>
+          )}
+        </div>
+      );
+    });
+  }, [demands, formatPrice]);
 
   return (
-    <MapContainer
-      center={center}
-      zoom={zoom}
-      className="h-full w-full"
-      preferCanvas={true}
-    >
-      <MapEvents onReady={onMapReady} onZoom={onZoomChange} center={center} zoom={zoom} />
-
-      {/* ✅ Use CARTO tiles (more reliable than default OSM for many users) */}
-      <TileLayer
-        attribution='&copy; OpenStreetMap contributors &copy; CARTO'
-        url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
+    <BaseMap center={center} zoom={zoom}>
+      <MapEvents
+        onReady={onMapReady}
+        onZoom={onZoomChange}
+        onBounds={onBoundsChange}
+        center={center}
+        zoom={zoom}
       />
 
       {userLoc && userDivIcon && (
@@ -182,7 +353,9 @@ export default function DiscoverMap({
         </>
       )}
 
+      {heat}
+      {demandShapes}
       {markers}
-    </MapContainer>
+    </BaseMap>
   );
 }
\ No newline at end of file
@@ -1,9 +1,28 @@
 'use client';
 
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import dynamic from 'next/dynamic';
 import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
 import supabase from '@/lib/supabaseClient';
+import { trackListingEvents } from '@/lib/listingAnalytics';
+import {
+  fetchDemandsInBounds,
+  fetchListingsInBounds,
+  type DemandInBounds,
+  type ListingInBounds,
+} from '@/lib/discoverListings';
+import { clusterByGrid, type GeoBounds } from '@/lib/geo';
+import {
+  fetchHeatCells,
+  heatLayers,
+  layersFromParam,
+  layersToParam,
+  mapLayerOptions,
+  type HeatCell,
+  type HeatLayer,
+  type MapLayer,
+} from '@/lib/mapLayers';
 import Navbar from '@/components/Navbar';
 import {
   Search,
@@ -18,30 +37,12 @@ import {
   Target,
   Maximize2,
   DollarSign,
+  Layers,
 } from 'lucide-react';
 
 type LeafletMap = import('leaflet').Map;
 type DivIcon = import('leaflet').DivIcon;
 
-interface ProduceRow {
-  id: string;
-  farmer_name: string | null;
-  farmer_location: string | null;
-  crop_name: string | null;
-  crop_category: string | null;
-  variety: string | null;
-  quality: string | null;
-  quantity: number | null;
-  unit: string | null;
-  price_per_unit: number | null;
-  farmer_phone: string | null;
-  location_lat: number | null;
-  location_lng: number | null;
-  google_maps_link: string | null;
-  is_available: boolean | null;
-  listed_at: string | null;
-}
-
 type ProductPin = {
   id: string;
   crop_name: string;
@@ -100,25 +101,12 @@ const categoryColors: Record<string, string> = {
   other: '#10b981',
 };
 
-const haversineKm = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-  const R = 6371;
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) ** 2;
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-};
-
 const formatPrice = (price: number) => `UGX ${Number(price || 0).toLocaleString('en-US')}`;
 
-function normalizePin(row: ProduceRow, userLat: number | null, userLng: number | null): ProductPin | null {
+function normalizePin(row: ListingInBounds): ProductPin | null {
   if (row.location_lat == null || row.location_lng == null || !row.is_available) return null;
 
   const cropCategory = (row.crop_category || 'other').toLowerCase();
-  const distanceKm =
-    userLat != null && userLng != null ? haversineKm(userLat, userLng, row.location_lat, row.location_lng) : null;
 
   return {
     id: row.id,
@@ -134,18 +122,26 @@ function normalizePin(row: ProduceRow, userLat: number | null, userLng: number |
     lat: row.location_lat,
     lng: row.location_lng,
     google_maps_link: row.google_maps_link || `https://maps.google.com/?q=${row.location_lat},${row.location_lng}`,
-    distanceKm,
+    distanceKm: row.distance_km,
   };
 }
 
-export default function DiscoverPage() {
+// Pins stop grouping from this zoom in, where streets are visible
+const CLUSTER_MAX_ZOOM = 15;
+
+function DiscoverExplorer() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
   const fallbackCenter = { lat: 0.3476, lng: 32.5825 }; // Kampala
 
   const [userLoc, setUserLoc] = useState<{ lat: number; lng: number } | null>(null);
   const [geoError, setGeoError] = useState<string | null>(null);
 
-  const [rows, setRows] = useState<ProduceRow[]>([]);
+  const [rows, setRows] = useState<ListingInBounds[]>([]);
   const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [bounds, setBounds] = useState<GeoBounds | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
 
   const [radiusKm, setRadiusKm] = useState(20);
   const [search, setSearch] = useState('');
@@ -155,6 +151,25 @@ export default function DiscoverPage() {
   const [mapZoom, setMapZoom] = useState(11);
   const mapRef = useRef<LeafletMap | null>(null);
 
+  // Map layers live in the URL (?layers=listings,demand) so a view can be shared
+  const layersParam = searchParams.get('layers');
+  const layers = useMemo(() => layersFromParam(layersParam), [layersParam]);
+  const activeHeatLayers = useMemo(() => heatLayers.filter((l) => layers.includes(l)), [layers]);
+  const [heatCells, setHeatCells] = useState<Partial<Record<HeatLayer, HeatCell[]>>>({});
+  const [demands, setDemands] = useState<DemandInBounds[]>([]);
+
+  const toggleLayer = (layer: MapLayer) => {
+    const next = layers.includes(layer) ? layers.filter((l) => l !== layer) : [...layers, layer];
+    const params = new URLSearchParams(searchParams.toString());
+    const value = layersToParam(next);
+
+    if (value == null) params.delete('layers');
+    else params.set('layers', value);
+
+    const query = params.toString();
+    router.replace(query ? `/discover?${query}` : '/discover', { scroll: false });
+  };
+
   const [L, setL] = useState<typeof import('leaflet') | null>(null);
   const [userDivIcon, setUserDivIcon] = useState<DivIcon | null>(null);
 
@@ -232,67 +247,165 @@ export default function DiscoverPage() {
     );
   }, []);
 
+  // Listings in the current viewport, fetched once panning, zooming or
+  // typing settles. The radius only applies once we know where the viewer is.
   useEffect(() => {
+    if (!bounds) return;
+
     let active = true;
+    const timer = setTimeout(async () => {
+      setRefreshing(true);
+      const { rows: loaded } = await fetchListingsInBounds(bounds, {
+        origin: userLoc,
+        radiusKm: userLoc ? radiusKm : null,
+        search,
+      });
+
+      if (!active) return;
+      setRows(loaded);
+      setRefreshing(false);
+      setLoading(false);
+    }, 300);
 
-    const fetchProducts = async () => {
-      setLoading(true);
-      try {
-        const { data, error } = await supabase
-          .from('farm_produce')
-          .select('*')
-          .eq('is_available', true)
-          .not('location_lat', 'is', null)
-          .not('location_lng', 'is', null)
-          .order('listed_at', { ascending: false });
-
-        if (error) throw error;
-        if (active) setRows((data || []) as ProduceRow[]);
-      } catch (e) {
-        console.error(e);
-      } finally {
-        if (active) setLoading(false);
-      }
+    return () => {
+      active = false;
+      clearTimeout(timer);
     };
+  }, [bounds, userLoc, radiusKm, search, reloadKey]);
 
-    fetchProducts();
-
+  useEffect(() => {
     const channel = supabase
       .channel('discover-realtime')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'farm_produce' }, () => fetchProducts())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'farm_produce' }, () =>
+        setReloadKey((k) => k + 1)
+      )
       .subscribe();
 
     return () => {
-      active = false;
       supabase.removeChannel(channel);
     };
   }, []);
 
-  const pins = useMemo(() => {
-    const ulat = userLoc?.lat ?? null;
-    const ulng = userLoc?.lng ?? null;
+  // Heat layers are aggregated per grid cell on the server for the current view
+  const heatKey = activeHeatLayers.join(',');
 
-    const mapped = rows.map((r) => normalizePin(r, ulat, ulng)).filter(Boolean) as ProductPin[];
+  useEffect(() => {
+    if (!bounds) return;
+
+    let active = true;
+    const timer = setTimeout(async () => {
+      const wanted = heatKey ? (heatKey.split(',') as HeatLayer[]) : [];
+      const loaded = await Promise.all(wanted.map((layer) => fetchHeatCells(layer, bounds, mapZoom)));
 
-    const q = search.trim().toLowerCase();
-    const filtered = mapped.filter((p) => {
-      const matchesSearch =
-        !q ||
-        p.crop_name.toLowerCase().includes(q) ||
-        p.farmer_name.toLowerCase().includes(q) ||
-        p.farmer_location.toLowerCase().includes(q) ||
-        p.crop_category.toLowerCase().includes(q);
+      if (!active) return;
+      setHeatCells(Object.fromEntries(wanted.map((layer, i) => [layer, loaded[i]])));
+    }, 300);
 
-      const matchesRadius = p.distanceKm == null || p.distanceKm <= radiusKm;
-      return matchesSearch && matchesRadius;
-    });
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [bounds, mapZoom, heatKey, reloadKey]);
 
-    filtered.sort((a, b) => (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity));
-    return filtered;
-  }, [rows, userLoc, radiusKm, search]);
+  // Open buyer demands with their sourcing areas, when that layer is on
+  const showDemands = layers.includes('demands');
+
+  useEffect(() => {
+    if (!bounds || !showDemands) return;
+
+    let active = true;
+    const timer = setTimeout(async () => {
+      const rows = await fetchDemandsInBounds(bounds);
+      if (active) setDemands(rows);
+    }, 300);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [bounds, showDemands, reloadKey]);
+
+  // Rows come back in range and nearest first
+  const pins = useMemo(
+    () => rows.map((r) => normalizePin(r)).filter(Boolean) as ProductPin[],
+    [rows]
+  );
+
+  const clusters = useMemo(() => {
+    if (!layers.includes('listings')) return [];
+    if (mapZoom < CLUSTER_MAX_ZOOM) return clusterByGrid(pins, mapZoom);
+
+    return pins.map((pin) => ({
+      id: pin.id,
+      lat: pin.lat,
+      lng: pin.lng,
+      items: [pin],
+      bounds: { south: pin.lat, west: pin.lng, north: pin.lat, east: pin.lng },
+    }));
+  }, [pins, mapZoom, layers]);
+
+  // Cluster bubble: the count over a ring split by category share
+  const clusterIcon = useCallback(
+    (count: number, categories: [string, number][]) => {
+      if (!L) return null;
+
+      let start = 0;
+      const stops = categories.map(([category, n]) => {
+        const end = start + (n / count) * 360;
+        const stop = `${categoryColors[category] || categoryColors.other} ${start}deg ${end}deg`;
+        start = end;
+        return stop;
+      });
+      const size = count < 10 ? 40 : count < 50 ? 48 : 56;
+
+      return L.divIcon({
+        className: 'custom-div-icon',
+        html: `<div style="
+          width:${size}px;height:${size}px;border-radius:50%;
+          background:conic-gradient(${stops.join(',')});
+          display:flex;align-items:center;justify-content:center;
+          box-shadow:0 2px 6px rgba(0,0,0,0.3);
+        ">
+          <div style="
+            width:${size - 14}px;height:${size - 14}px;border-radius:50%;background:white;
+            display:flex;align-items:center;justify-content:center;
+            font-size:13px;font-weight:700;color:#111827;
+          ">${count}</div>
+        </div>`,
+        iconSize: [size, size],
+        iconAnchor: [size / 2, size / 2],
+      });
+    },
+    [L]
+  );
+
+  const zoomToCluster = useCallback((b: GeoBounds) => {
+    if (!mapRef.current) return;
+    mapRef.current.flyToBounds(
+      [
+        [b.south, b.west],
+        [b.north, b.east],
+      ],
+      { padding: [40, 40], maxZoom: CLUSTER_MAX_ZOOM + 1 }
+    );
+  }, []);
+
+  // Pins on the map count as impressions, once per session
+  const pinIdsKey = pins.map((p) => p.id).join(',');
+
+  useEffect(() => {
+    if (!pinIdsKey) return;
+    trackListingEvents(pinIdsKey.split(','), 'impression', 'map');
+  }, [pinIdsKey]);
 
   const mapCenter = userLoc || fallbackCenter;
 
+  // Stable across renders so DiscoverMap only recentres when the viewer's
+  // position changes, not after every pan
+  const centerLat = mapCenter.lat;
+  const centerLng = mapCenter.lng;
+  const mapCenterTuple = useMemo<[number, number]>(() => [centerLat, centerLng], [centerLat, centerLng]);
+
   const zoomIn = () => {
     if (!mapRef.current) return;
     mapRef.current.setZoom(mapRef.current.getZoom() + 1);
@@ -390,6 +503,35 @@ export default function DiscoverPage() {
                 <div className="text-sm text-gray-600">Zoom: {mapZoom}x</div>
               </div>
 
+              <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap items-center gap-2">
+                <Layers className="w-4 h-4 text-gray-500" />
+                {mapLayerOptions.map((o) => {
+                  const on = layers.includes(o.value);
+                  return (
+                    <button
+                      key={o.value}
+                      onClick={() => toggleLayer(o.value)}
+                      title={o.description}
+                      aria-pressed={on}
+                      className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                        on
+                          ? 'bg-emerald-500 border-emerald-500 text-white'
+                          : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {o.label}
+                    </button>
+                  );
+                })}
+                {layers.includes('price') && (
+                  <span className="ml-auto flex items-center gap-2 text-xs text-gray-500">
+                    Cheaper
+                    <span className="h-2 w-20 rounded-full bg-gradient-to-r from-green-500 via-amber-500 to-red-500" />
+                    Dearer
+                  </span>
+                )}
+              </div>
+
               <div className="h-[400px] md:h-[500px] w-full relative">
                 {mapLoading && (
                   <div className="absolute inset-0 flex items-center justify-center bg-gray-100 z-10">
@@ -401,19 +543,24 @@ export default function DiscoverPage() {
                 )}
 
                 <DiscoverMap
-                  center={[mapCenter.lat, mapCenter.lng]}
+                  center={mapCenterTuple}
                   zoom={userLoc ? 11 : 8}
                   radiusKm={radiusKm}
                   userLoc={userLoc}
-                  pins={pins}
+                  clusters={clusters}
+                  demands={showDemands ? demands : []}
+                  heatCells={heatCells}
                   userDivIcon={userDivIcon}
                   pinIcon={pinIcon}
+                  clusterIcon={clusterIcon}
+                  onClusterClick={zoomToCluster}
                   onMapReady={(map) => {
                     setMapLoading(false);
                     mapRef.current = map;
                     setMapZoom(map.getZoom());
                   }}
                   onZoomChange={(z) => setMapZoom(z)}
+                  onBoundsChange={setBounds}
                   onPinClick={handlePinClick}
                   categoryIcons={categoryIcons}
                   formatPrice={formatPrice}
@@ -443,9 +590,11 @@ export default function DiscoverPage() {
             <div className="p-4 border-b border-gray-200">
               <div className="flex items-center justify-between">
                 <h2 className="font-bold text-gray-900">Nearby Products</h2>
-                <span className="text-sm text-gray-600">{pins.length} found</span>
+                <span className="text-sm text-gray-600">{refreshing ? 'Updating...' : `${pins.length} found`}</span>
               </div>
-              <p className="text-sm text-gray-600 mt-1">Sorted by distance from you</p>
+              <p className="text-sm text-gray-600 mt-1">
+                {userLoc ? 'In the map view, sorted by distance from you' : 'In the map view, nearest the centre first'}
+              </p>
             </div>
 
             <div className="h-[400px] md:h-[500px] overflow-y-auto">
@@ -458,7 +607,7 @@ export default function DiscoverPage() {
                 <div className="p-8 text-center">
                   <MapPin className="w-12 h-12 text-gray-300 mx-auto mb-3" />
                   <h3 className="font-semibold text-gray-900 mb-2">No products found</h3>
-                  <p className="text-gray-600 text-sm">Try increasing your search radius or check back later</p>
+                  <p className="text-gray-600 text-sm">Try moving the map, increasing your search radius or check back later</p>
                 </div>
               ) : (
                 <div className="divide-y divide-gray-100">
@@ -582,3 +731,12 @@ export default function DiscoverPage() {
     </div>
   );
 }
+
+export default function DiscoverPage() {
+  // useSearchParams needs a Suspense boundary above it
+  return (
+    <Suspense fallback={null}>
+      <DiscoverExplorer />
+    </Suspense>
+  );
+}
@@ -1,9 +1,12 @@
 'use client';
 
 import Link from 'next/link';
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import supabase from '@/lib/supabaseClient';
+import { allowedOfferActions, isOfferOpen, type DemandOffer } from '@/lib/offers';
+import type { MarketMatch } from '@/lib/orders';
+import { fetchUnreadCounts, totalUnread } from '@/lib/messages';
 
 type FarmerProfile = {
   id?: string;
@@ -22,6 +25,50 @@ type QuickStat = {
   note: string;
 };
 
+type FarmerStats = {
+  total_products: number | null;
+  available_products: number | null;
+  sold_products: number | null;
+  pending_orders: number | null;
+  completed_orders: number | null;
+  total_revenue: number | null;
+  monthly_revenue: number | null;
+  last_updated: string | null;
+};
+
+type ListingRow = {
+  id: string;
+  crop_name: string;
+  quantity: number;
+  unit: string;
+  is_available: boolean;
+  listed_at: string;
+};
+
+type AttentionItem = {
+  key: string;
+  title: string;
+  detail: string;
+  href: string;
+  tone: string;
+};
+
+// Listings are treated as stale after this many days without an update.
+const LISTING_FRESH_DAYS = 30;
+const EXPIRY_WARNING_DAYS = 5;
+const REVENUE_MONTHS = 6;
+
+const formatUGX = (n: number) => `UGX ${Number(n || 0).toLocaleString('en-UG')}`;
+
+function daysLeft(listedAt: string) {
+  const age = (Date.now() - new Date(listedAt).getTime()) / (1000 * 60 * 60 * 24);
+  return Math.ceil(LISTING_FRESH_DAYS - age);
+}
+
+function orderValue(order: Pick<MarketMatch, 'quantity' | 'price_per_unit'>) {
+  return Number(order.quantity || 0) * Number(order.price_per_unit || 0);
+}
+
 export default function FarmerDashboardPage() {
   const router = useRouter();
 
@@ -31,6 +78,56 @@ export default function FarmerDashboardPage() {
   const [userName, setUserName] = useState('Farmer');
   const [error, setError] = useState<string | null>(null);
 
+  const [authId, setAuthId] = useState<string | null>(null);
+  const [farmerStats, setFarmerStats] = useState<FarmerStats | null>(null);
+  const [listings, setListings] = useState<ListingRow[]>([]);
+  const [offers, setOffers] = useState<DemandOffer[]>([]);
+  const [orders, setOrders] = useState<MarketMatch[]>([]);
+  const [threadCount, setThreadCount] = useState(0);
+  const [unreadMessages, setUnreadMessages] = useState(0);
+
+  const loadStats = useCallback(async (uid: string) => {
+    const { data: farmerProfile } = await supabase
+      .from('farmer_profiles')
+      .select('id')
+      .eq('auth_user_id', uid)
+      .maybeSingle();
+
+    const [statsRes, listingsRes, offersRes, ordersRes, threadsRes, unreadCounts] = await Promise.all([
+      farmerProfile
+        ? supabase
+            .from('farmer_stats')
+            .select(
+              'total_products,available_products,sold_products,pending_orders,completed_orders,total_revenue,monthly_revenue,last_updated'
+            )
+            .eq('farmer_profile_id', farmerProfile.id)
+            .maybeSingle()
+        : Promise.resolve({ data: null }),
+      supabase
+        .from('farm_produce')
+        .select('id,crop_name,quantity,unit,is_available,listed_at')
+        .eq('farmer_id', uid),
+      supabase.from('demand_offers').select('*').eq('farmer_id', uid),
+      supabase
+        .from('market_matches')
+        .select('*')
+        .eq('farmer_id', uid)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('message_threads')
+        .select('id', { count: 'exact', head: true })
+        .eq('farmer_id', uid),
+      fetchUnreadCounts(),
+    ]);
+
+    setFarmerStats((statsRes.data as FarmerStats | null) ?? null);
+    setListings((listingsRes.data || []) as ListingRow[]);
+    setOffers((offersRes.data || []) as DemandOffer[]);
+    setOrders((ordersRes.data || []) as MarketMatch[]);
+    setThreadCount(threadsRes.count ?? 0);
+    setUnreadMessages(totalUnread(unreadCounts));
+  }, []);
+
   useEffect(() => {
     const loadDashboard = async () => {
       setLoading(true);
@@ -48,6 +145,7 @@ export default function FarmerDashboardPage() {
         }
 
         const user = session.user;
+        setAuthId(user.id);
         const meta = user.user_metadata || {};
         const role = String(meta.role || '').toLowerCase();
 
@@ -92,6 +190,8 @@ export default function FarmerDashboardPage() {
             verified: true,
           });
         }
+
+        await loadStats(user.id);
       } catch (err: any) {
         setError(err?.message || 'Something went wrong while loading the dashboard.');
       } finally {
@@ -100,34 +200,157 @@ export default function FarmerDashboardPage() {
     };
 
     loadDashboard();
-  }, [router]);
+  }, [router, loadStats]);
+
+  useEffect(() => {
+    if (!authId) return;
+
+    const refresh = () => {
+      loadStats(authId);
+    };
+
+    const channel = supabase
+      .channel(`farmer-dashboard-${authId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'farm_produce', filter: `farmer_id=eq.${authId}` }, refresh)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'demand_offers', filter: `farmer_id=eq.${authId}` }, refresh)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'market_matches', filter: `farmer_id=eq.${authId}` }, refresh)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'farmer_stats' }, refresh)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, refresh)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [authId, loadStats]);
+
+  const counts = useMemo(() => {
+    const completed = orders.filter((o) => o.status === 'completed');
+    const monthStart = new Date();
+    monthStart.setDate(1);
+    monthStart.setHours(0, 0, 0, 0);
+
+    // farmer_stats is kept current by a trigger; the direct counts cover
+    // farmers that do not have a farmer_profiles row yet.
+    return {
+      totalListings: farmerStats?.total_products ?? listings.length,
+      availableListings: farmerStats?.available_products ?? listings.filter((l) => l.is_available).length,
+      openOffers: offers.filter((o) => isOfferOpen(o)).length,
+      offersAwaitingReply: offers.filter((o) => allowedOfferActions(o, 'farmer').includes('accept')).length,
+      pendingOrders: farmerStats?.pending_orders ?? orders.filter((o) => o.status === 'pending').length,
+      completedOrders: farmerStats?.completed_orders ?? completed.length,
+      totalRevenue: farmerStats?.total_revenue ?? completed.reduce((s, o) => s + orderValue(o), 0),
+      monthlyRevenue:
+        farmerStats?.monthly_revenue ??
+        completed
+          .filter((o) => new Date(o.completed_at || o.created_at) >= monthStart)
+          .reduce((s, o) => s + orderValue(o), 0),
+    };
+  }, [farmerStats, listings, offers, orders]);
 
   const quickStats: QuickStat[] = useMemo(
     () => [
       {
         label: 'Produce Listings',
-        value: '0',
-        note: 'Add your first produce listing',
+        value: String(counts.availableListings),
+        note: counts.totalListings
+          ? `${counts.availableListings} of ${counts.totalListings} listings are live`
+          : 'Add your first produce listing',
       },
       {
         label: 'Buyer Requests',
-        value: '0',
-        note: 'No buyer requests yet',
+        value: String(counts.openOffers),
+        note: counts.offersAwaitingReply
+          ? `${counts.offersAwaitingReply} counter offers awaiting your reply`
+          : 'Offers you are negotiating with buyers',
       },
       {
         label: 'Orders',
-        value: '0',
-        note: 'Your confirmed orders will appear here',
+        value: String(counts.pendingOrders),
+        note: `Pending confirmation • ${counts.completedOrders} completed`,
       },
       {
         label: 'Messages',
-        value: '0',
-        note: 'Stay connected with buyers',
+        value: String(unreadMessages),
+        note: threadCount
+          ? `Unread across ${threadCount} conversation${threadCount === 1 ? '' : 's'}`
+          : 'Stay connected with buyers',
       },
     ],
-    []
+    [counts, unreadMessages, threadCount]
   );
 
+  const revenueByMonth = useMemo(() => {
+    const months: { key: string; label: string; total: number }[] = [];
+    const now = new Date();
+
+    for (let i = REVENUE_MONTHS - 1; i >= 0; i -= 1) {
+      const d = new Date(now.getFullYear(), now.getMonth() - i, 1);
+      months.push({
+        key: `${d.getFullYear()}-${d.getMonth()}`,
+        label: d.toLocaleDateString('en-UG', { month: 'short' }),
+        total: 0,
+      });
+    }
+
+    orders
+      .filter((o) => o.status === 'completed')
+      .forEach((o) => {
+        const d = new Date(o.completed_at || o.created_at);
+        const month = months.find((m) => m.key === `${d.getFullYear()}-${d.getMonth()}`);
+        if (month) month.total += orderValue(o);
+      });
+
+    return months;
+  }, [orders]);
+
+  const maxMonthlyRevenue = Math.max(1, ...revenueByMonth.map((m) => m.total));
+
+  const attentionItems = useMemo<AttentionItem[]>(() => {
+    const items: AttentionItem[] = [];
+
+    orders
+      .filter((o) => o.status === 'pending')
+      .forEach((o) => {
+        items.push({
+          key: `order-${o.id}`,
+          title: `Confirm order: ${o.crop_name}`,
+          detail: `${o.buyer_name} • ${Number(o.quantity).toLocaleString()} ${o.unit || 'kg'} • ${formatUGX(orderValue(o))}`,
+          href: `/orders/${o.id}`,
+          tone: 'bg-amber-100 text-amber-700',
+        });
+      });
+
+    offers
+      .filter((o) => allowedOfferActions(o, 'farmer').includes('accept'))
+      .forEach((o) => {
+        items.push({
+          key: `offer-${o.id}`,
+          title: `Buyer countered your ${o.crop_name} offer`,
+          detail: `${Number(o.offered_quantity).toLocaleString()} at ${formatUGX(o.offered_price_per_unit)} per unit`,
+          href: '/farmer/offers',
+          tone: 'bg-blue-100 text-blue-700',
+        });
+      });
+
+    listings
+      .filter((l) => l.is_available && daysLeft(l.listed_at) <= EXPIRY_WARNING_DAYS)
+      .forEach((l) => {
+        const left = daysLeft(l.listed_at);
+        items.push({
+          key: `listing-${l.id}`,
+          title: `${l.crop_name} listing ${left > 0 ? 'is expiring' : 'has gone stale'}`,
+          detail:
+            left > 0
+              ? `${left} day${left === 1 ? '' : 's'} left • refresh it to stay visible`
+              : `Listed over ${LISTING_FRESH_DAYS} days ago • update quantity and price`,
+          href: '/farmer/products',
+          tone: 'bg-rose-100 text-rose-700',
+        });
+      });
+
+    return items;
+  }, [orders, offers, listings]);
+
   const initials = useMemo(() => {
     const parts = userName.trim().split(' ').filter(Boolean);
     if (parts.length === 0) return 'F';
@@ -293,6 +516,63 @@ export default function FarmerDashboardPage() {
           ))}
         </section>
 
+        <section className="mt-6 grid gap-6 lg:grid-cols-3">
+          <div className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm lg:col-span-2">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-slate-900">Monthly Revenue</h3>
+                <p className="mt-1 text-sm text-slate-600">Completed orders over the last {REVENUE_MONTHS} months</p>
+              </div>
+              <div className="text-right">
+                <p className="text-2xl font-bold text-emerald-700">{formatUGX(counts.monthlyRevenue)}</p>
+                <p className="text-xs text-slate-500">This month • {formatUGX(counts.totalRevenue)} all time</p>
+              </div>
+            </div>
+
+            <div className="mt-6 flex h-48 items-end gap-3">
+              {revenueByMonth.map((month) => (
+                <div key={month.key} className="flex flex-1 flex-col items-center gap-2">
+                  <div className="flex w-full flex-1 items-end">
+                    <div
+                      className="w-full rounded-t-xl bg-gradient-to-t from-emerald-600 to-lime-400"
+                      style={{ height: `${Math.max(2, (month.total / maxMonthlyRevenue) * 100)}%` }}
+                      title={formatUGX(month.total)}
+                    />
+                  </div>
+                  <span className="text-xs font-medium text-slate-500">{month.label}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+            <h3 className="text-lg font-semibold text-slate-900">Needs Attention</h3>
+            {attentionItems.length === 0 ? (
+              <p className="mt-5 rounded-2xl bg-slate-50 p-4 text-sm text-slate-600">
+                You are all caught up. New orders and counter offers will show up here.
+              </p>
+            ) : (
+              <div className="mt-5 max-h-64 space-y-3 overflow-y-auto">
+                {attentionItems.map((item) => (
+                  <Link
+                    key={item.key}
+                    href={item.href}
+                    className="block rounded-2xl border border-slate-200 px-4 py-3 hover:bg-slate-50"
+                  >
+                    <div className="flex items-start gap-2">
+                      <span className={`mt-1 h-2 w-2 shrink-0 rounded-full ${item.tone}`} />
+                      <div className="min-w-0">
+                        <p className="text-sm font-semibold text-slate-900">{item.title}</p>
+                        <p className="mt-0.5 text-xs text-slate-500">{item.detail}</p>
+                      </div>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        </section>
+
         <section className="mt-6 grid gap-6 lg:grid-cols-3">
           <div className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
             <h3 className="text-lg font-semibold text-slate-900">Quick Actions</h3>
@@ -309,6 +589,12 @@ export default function FarmerDashboardPage() {
               >
                 View buyer demands
               </Link>
+              <Link
+                href="/farmer/offers"
+                className="rounded-2xl border border-slate-200 px-4 py-3 text-sm font-medium text-slate-700 hover:bg-slate-50"
+              >
+                Track my offers
+              </Link>
               <Link
                 href="/messages"
                 className="rounded-2xl border border-slate-200 px-4 py-3 text-sm font-medium text-slate-700 hover:bg-slate-50"
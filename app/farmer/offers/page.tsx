@@ -0,0 +1,342 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Navbar from '@/components/Navbar';
+import OfferCard from '@/components/OfferCard';
+import supabase from '@/lib/supabaseClient';
+import {
+  allowedOfferActions,
+  isOfferOpen,
+  type DemandOffer,
+  type DemandOfferEvent,
+  type OfferStatus,
+} from '@/lib/offers';
+import {
+  Loader2,
+  Send,
+  Inbox,
+  CheckCircle2,
+  XCircle,
+  RefreshCw,
+  ArrowRight,
+} from 'lucide-react';
+
+type FarmerOffer = DemandOffer & {
+  demand: {
+    buyer_name: string;
+    unit: string;
+    location_text: string | null;
+    target_price_per_unit: number;
+    status: string;
+  } | null;
+};
+
+type OfferFilter = 'all' | 'open' | 'accepted' | 'closed';
+
+const filterOptions: { value: OfferFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'open', label: 'In negotiation' },
+  { value: 'accepted', label: 'Accepted' },
+  { value: 'closed', label: 'Rejected / withdrawn' },
+];
+
+const closedStatuses: OfferStatus[] = ['rejected', 'withdrawn'];
+
+function formatUGX(value: number) {
+  return `UGX ${Number(value || 0).toLocaleString('en-UG')}`;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-UG', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export default function FarmerOffersPage() {
+  const router = useRouter();
+
+  const [authId, setAuthId] = useState<string | null>(null);
+  const [loadingPage, setLoadingPage] = useState(true);
+  const [loadingOffers, setLoadingOffers] = useState(false);
+
+  const [offers, setOffers] = useState<FarmerOffer[]>([]);
+  const [events, setEvents] = useState<DemandOfferEvent[]>([]);
+  const [filter, setFilter] = useState<OfferFilter>('all');
+
+  const eventsByOffer = useMemo(() => {
+    const map = new Map<string, DemandOfferEvent[]>();
+    events.forEach((event) => {
+      const list = map.get(event.offer_id) || [];
+      list.push(event);
+      map.set(event.offer_id, list);
+    });
+    return map;
+  }, [events]);
+
+  const stats = useMemo(
+    () => ({
+      open: offers.filter((o) => isOfferOpen(o)).length,
+      needsReply: offers.filter((o) => allowedOfferActions(o, 'farmer').includes('accept')).length,
+      accepted: offers.filter((o) => o.status === 'accepted').length,
+      closed: offers.filter((o) => closedStatuses.includes(o.status)).length,
+    }),
+    [offers]
+  );
+
+  const visibleOffers = useMemo(() => {
+    if (filter === 'open') return offers.filter((o) => isOfferOpen(o));
+    if (filter === 'accepted') return offers.filter((o) => o.status === 'accepted');
+    if (filter === 'closed') return offers.filter((o) => closedStatuses.includes(o.status));
+    return offers;
+  }, [offers, filter]);
+
+  const loadOffers = useCallback(async (uid: string) => {
+    setLoadingOffers(true);
+
+    const { data, error } = await supabase
+      .from('demand_offers')
+      .select(
+        '*, demand:demand_id (buyer_name, unit, location_text, target_price_per_unit, status)'
+      )
+      .eq('farmer_id', uid)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to load offers:', error);
+      setLoadingOffers(false);
+      return;
+    }
+
+    const rows = (data || []) as FarmerOffer[];
+    setOffers(rows);
+
+    if (rows.length > 0) {
+      const { data: eventRows } = await supabase
+        .from('demand_offer_events')
+        .select('*')
+        .in(
+          'offer_id',
+          rows.map((o) => o.id)
+        )
+        .order('created_at', { ascending: true });
+
+      setEvents((eventRows || []) as DemandOfferEvent[]);
+    } else {
+      setEvents([]);
+    }
+
+    setLoadingOffers(false);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const boot = async () => {
+      setLoadingPage(true);
+
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth?.user?.id ?? null;
+
+      if (!uid) {
+        router.push('/login');
+        return;
+      }
+
+      const { data: prof, error: profError } = await supabase
+        .from('accounts_user')
+        .select('role')
+        .eq('auth_user_id', uid)
+        .maybeSingle();
+
+      if (profError || !prof || prof.role !== 'farmer') {
+        router.push('/unauthorized');
+        return;
+      }
+
+      if (!mounted) return;
+      setAuthId(uid);
+
+      await loadOffers(uid);
+
+      if (mounted) setLoadingPage(false);
+    };
+
+    boot();
+
+    return () => {
+      mounted = false;
+    };
+  }, [router, loadOffers]);
+
+  useEffect(() => {
+    if (!authId) return;
+
+    const channel = supabase
+      .channel(`farmer-offers-${authId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'demand_offers',
+          filter: `farmer_id=eq.${authId}`,
+        },
+        () => {
+          loadOffers(authId);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [authId, loadOffers]);
+
+  if (loadingPage) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-6xl mx-auto px-4 py-10">
+          <div className="flex items-center gap-2 text-gray-700">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading your offers...
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="max-w-7xl mx-auto px-4 py-6">
+        <section className="rounded-[28px] border border-emerald-100 bg-gradient-to-br from-emerald-50 via-white to-lime-50 p-6 md:p-8">
+          <div className="flex flex-col gap-6 lg:flex-row lg:items-end lg:justify-between">
+            <div className="max-w-2xl">
+              <div className="inline-flex items-center gap-2 rounded-full border border-emerald-200 bg-white/80 px-3 py-1.5 text-xs font-semibold text-emerald-700">
+                <Send className="w-4 h-4" />
+                Farmer workspace
+              </div>
+
+              <h1 className="mt-4 text-3xl md:text-4xl font-bold tracking-tight text-gray-900">
+                My Offers
+              </h1>
+
+              <p className="mt-3 text-sm md:text-base leading-7 text-gray-600">
+                Follow every offer you have sent to buyers. Accept or answer counters,
+                withdraw offers you can no longer fill, and see the full history of each deal.
+              </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                onClick={() => authId && loadOffers(authId)}
+                className="inline-flex items-center justify-center gap-2 px-5 py-3 rounded-2xl border border-gray-300 bg-white hover:bg-gray-50 text-sm font-semibold text-gray-700"
+              >
+                <RefreshCw className={`w-4 h-4 ${loadingOffers ? 'animate-spin' : ''}`} />
+                Refresh
+              </button>
+
+              <Link
+                href="/marketplace"
+                className="inline-flex items-center justify-center gap-2 px-5 py-3 rounded-2xl bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold"
+              >
+                Find demands
+                <ArrowRight className="w-4 h-4" />
+              </Link>
+            </div>
+          </div>
+        </section>
+
+        <section className="mt-6 grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+          <StatCard label="In Negotiation" value={stats.open} icon={<Send className="w-5 h-5" />} />
+          <StatCard label="Awaiting Your Reply" value={stats.needsReply} icon={<Inbox className="w-5 h-5" />} />
+          <StatCard label="Accepted" value={stats.accepted} icon={<CheckCircle2 className="w-5 h-5" />} />
+          <StatCard label="Rejected / Withdrawn" value={stats.closed} icon={<XCircle className="w-5 h-5" />} />
+        </section>
+
+        <section className="mt-6">
+          <div className="flex flex-wrap gap-2 mb-4">
+            {filterOptions.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setFilter(option.value)}
+                className={`px-4 py-2 rounded-2xl text-sm font-semibold border ${
+                  filter === option.value
+                    ? 'bg-emerald-600 border-emerald-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="rounded-[28px] border border-gray-200 bg-white shadow-sm p-5 md:p-6">
+            {visibleOffers.length === 0 ? (
+              <div className="p-8 text-center">
+                <div className="mx-auto w-16 h-16 rounded-3xl bg-emerald-50 flex items-center justify-center text-emerald-600">
+                  <Send className="w-8 h-8" />
+                </div>
+                <h3 className="mt-5 text-xl font-bold text-gray-900">No offers here</h3>
+                <p className="mt-2 text-sm text-gray-600 max-w-md mx-auto">
+                  Offers you send from the marketplace will appear here with every reply
+                  from the buyer.
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                {visibleOffers.map((offer) => (
+                  <OfferCard
+                    key={`${offer.id}-${offer.updated_at || offer.created_at}`}
+                    offer={offer}
+                    events={eventsByOffer.get(offer.id) || []}
+                    party="farmer"
+                    unit={offer.demand?.unit || 'unit'}
+                    title={`${offer.crop_name} → ${offer.demand?.buyer_name || 'Buyer'}`}
+                    subtitle={[
+                      offer.demand?.location_text,
+                      offer.demand &&
+                        `Target ${formatUGX(offer.demand.target_price_per_unit)} / ${offer.demand.unit}`,
+                      `Sent ${formatDate(offer.created_at)}`,
+                    ]
+                      .filter(Boolean)
+                      .join(' • ')}
+                    onChanged={async () => {
+                      if (authId) await loadOffers(authId);
+                    }}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
+
+function StatCard({
+  label,
+  value,
+  icon,
+}: {
+  label: string;
+  value: string | number;
+  icon: React.ReactNode;
+}) {
+  return (
+    <div className="rounded-3xl border border-emerald-100 bg-gradient-to-r from-emerald-50 to-white p-5">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold text-gray-700">{label}</div>
+        <div className="rounded-2xl bg-white/80 p-2 text-emerald-700">{icon}</div>
+      </div>
+      <div className="mt-4 text-2xl font-bold text-gray-900">{value}</div>
+    </div>
+  );
+}
@@ -3,7 +3,20 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Navbar from '@/components/Navbar';
+import CropPicker from '@/components/CropPicker';
 import supabase from '@/lib/supabaseClient';
+import {
+  checkPrice,
+  fetchPriceSuggestion,
+  roundPrice,
+  type PriceSuggestion,
+} from '@/lib/pricingAssistant';
+import {
+  emptyCatalog,
+  fetchProduceCatalog,
+  resolveSelection,
+  type ProduceCatalog,
+} from '@/lib/produceCatalog';
 import {
   Plus,
   Loader2,
@@ -17,6 +30,8 @@ import {
   X,
   Navigation,
   RefreshCw,
+  Lightbulb,
+  AlertTriangle,
 } from 'lucide-react';
 
 type Role = 'admin' | 'farmer' | 'buyer' | 'logistics' | 'finance' | 'guest';
@@ -34,11 +49,6 @@ type ProfileRow = {
   location_lng: number | null;
 };
 
-type Category = {
-  id: number;
-  name: string;
-};
-
 type ProductRow = {
   id: string;
   farmer_id: string | null;
@@ -63,6 +73,8 @@ type ProductRow = {
   crop_category: string | null;
   total_price: number | null;
   category_id: number | null;
+  crop_id: number | null;
+  variety_id: number | null;
 };
 
 const unitOptions = ['kg', 'bag', 'bunch', 'piece', 'crate', 'ton'];
@@ -97,7 +109,8 @@ function emptyForm() {
   return {
     crop_name: '',
     category_id: '',
-    variety: '',
+    crop_id: '',
+    variety_id: '',
     quality: 'standard',
     quantity: '',
     unit: 'kg',
@@ -124,11 +137,12 @@ export default function FarmerProductsPage() {
   const [togglingId, setTogglingId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
 
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [catalog, setCatalog] = useState<ProduceCatalog>(emptyCatalog);
   const [products, setProducts] = useState<ProductRow[]>([]);
 
   const [openCreate, setOpenCreate] = useState(false);
   const [form, setForm] = useState(emptyForm());
+  const [suggestion, setSuggestion] = useState<{ key: string; value: PriceSuggestion | null } | null>(null);
 
   const farmerName = useMemo(() => {
     if (!profile) return 'Farmer';
@@ -189,7 +203,7 @@ export default function FarmerProductsPage() {
       if (!mounted) return;
       setProfile(prof as ProfileRow);
 
-      await Promise.all([loadCategories(), loadProducts(uid)]);
+      await Promise.all([loadCatalog(), loadProducts(uid)]);
 
       if (!mounted) return;
       setForm((prev) => ({
@@ -209,14 +223,47 @@ export default function FarmerProductsPage() {
     };
   }, [router]);
 
-  async function loadCategories() {
-    const { data } = await supabase
-      .from('produce_categories')
-      .select('id,name')
-      .eq('is_active', true)
-      .order('name');
+  // Comparable prices for whatever crop, quality and unit the form currently has
+  const suggestionKey = [
+    form.crop_name.trim().toLowerCase(),
+    form.quality,
+    form.unit,
+    form.location_lat.trim(),
+    form.location_lng.trim(),
+  ].join('|');
+
+  useEffect(() => {
+    if (!openCreate || !form.crop_name.trim()) return;
+    let mounted = true;
+
+    const timer = setTimeout(async () => {
+      const lat = form.location_lat.trim() ? Number(form.location_lat) : null;
+      const lng = form.location_lng.trim() ? Number(form.location_lng) : null;
+
+      const value = await fetchPriceSuggestion({
+        cropName: form.crop_name,
+        quality: form.quality,
+        unit: form.unit,
+        lat: Number.isFinite(lat) ? lat : null,
+        lng: Number.isFinite(lng) ? lng : null,
+      });
+
+      if (mounted) setSuggestion({ key: suggestionKey, value });
+    }, 400);
+
+    return () => {
+      mounted = false;
+      clearTimeout(timer);
+    };
+    // suggestionKey already covers the form fields read above
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [openCreate, suggestionKey]);
 
-    setCategories((data || []) as Category[]);
+  const priceSuggestion = suggestion?.key === suggestionKey ? suggestion.value : null;
+  const priceCheck = checkPrice(Number(form.price_per_unit), priceSuggestion, form.unit);
+
+  async function loadCatalog() {
+    setCatalog(await fetchProduceCatalog());
   }
 
   async function loadProducts(uid?: string) {
@@ -251,7 +298,9 @@ export default function FarmerProductsPage() {
         description,
         crop_category,
         total_price,
-        category_id
+        category_id,
+        crop_id,
+        variety_id
       `
       )
       .eq('farmer_id', currentUid)
@@ -298,12 +347,12 @@ export default function FarmerProductsPage() {
   async function createProduct() {
     if (!authId || !profile) return;
 
-    const crop_name = form.crop_name.trim();
+    const { category, crop, variety } = resolveSelection(catalog, form);
     const quantity = Number(form.quantity);
     const price_per_unit = Number(form.price_per_unit);
 
-    if (!crop_name) {
-      alert('Crop name is required.');
+    if (!crop) {
+      alert('Please pick a crop.');
       return;
     }
 
@@ -317,14 +366,21 @@ export default function FarmerProductsPage() {
       return;
     }
 
+    if (
+      (priceCheck.level === 'far_high' || priceCheck.level === 'far_low') &&
+      !confirm(`${priceCheck.message}\n\nList at this price anyway?`)
+    ) {
+      return;
+    }
+
     setSaving(true);
 
     const payload = {
       farmer_id: authId,
       farmer_name: farmerName,
       farmer_location: form.farmer_location.trim() || profile.location || '',
-      crop_name,
-      variety: form.variety.trim() || null,
+      crop_name: crop.name,
+      variety: variety?.name ?? null,
       quality: form.quality,
       quantity,
       unit: form.unit,
@@ -337,9 +393,10 @@ export default function FarmerProductsPage() {
       farmer_phone: profile.phone_number || null,
       photo: form.photo.trim() || null,
       description: form.description.trim() || null,
-      crop_category:
-        categories.find((c) => String(c.id) === form.category_id)?.name || null,
-      category_id: form.category_id ? Number(form.category_id) : null,
+      crop_category: category?.name ?? null,
+      category_id: category?.id ?? null,
+      crop_id: crop.id,
+      variety_id: variety?.id ?? null,
     };
 
     const { error } = await supabase.from('farm_produce').insert(payload);
@@ -613,38 +670,22 @@ export default function FarmerProductsPage() {
 
             <div className="p-6 md:p-8 max-h-[80vh] overflow-y-auto">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
-                <Field label="Crop name *">
-                  <input
-                    value={form.crop_name}
-                    onChange={(e) => setForm((p) => ({ ...p, crop_name: e.target.value }))}
-                    placeholder="e.g. Robusta coffee"
-                    className="w-full rounded-2xl border border-gray-300 px-4 py-3 outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
-                  />
-                </Field>
-
-                <Field label="Category">
-                  <select
-                    value={form.category_id}
-                    onChange={(e) => setForm((p) => ({ ...p, category_id: e.target.value }))}
-                    className="w-full rounded-2xl border border-gray-300 px-4 py-3 bg-white outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
-                  >
-                    <option value="">Select category</option>
-                    {categories.map((item) => (
-                      <option key={item.id} value={String(item.id)}>
-                        {item.name}
-                      </option>
-                    ))}
-                  </select>
-                </Field>
-
-                <Field label="Variety">
-                  <input
-                    value={form.variety}
-                    onChange={(e) => setForm((p) => ({ ...p, variety: e.target.value }))}
-                    placeholder="e.g. Screen 18"
-                    className="w-full rounded-2xl border border-gray-300 px-4 py-3 outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
-                  />
-                </Field>
+                <CropPicker
+                  catalog={catalog}
+                  value={form}
+                  onChange={(next, crop) =>
+                    setForm((p) => ({
+                      ...p,
+                      ...next,
+                      crop_name: crop?.name ?? '',
+                      // A newly picked crop starts in the unit it is usually sold in
+                      unit:
+                        crop && next.crop_id !== p.crop_id && unitOptions.includes(crop.common_unit)
+                          ? crop.common_unit
+                          : p.unit,
+                    }))
+                  }
+                />
 
                 <Field label="Quality *">
                   <select
@@ -690,10 +731,57 @@ export default function FarmerProductsPage() {
                     onChange={(e) => setForm((p) => ({ ...p, price_per_unit: e.target.value }))}
                     placeholder="e.g. 6500"
                     inputMode="decimal"
-                    className="w-full rounded-2xl border border-gray-300 px-4 py-3 outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
+                    className={`w-full rounded-2xl border px-4 py-3 outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500 ${
+                      priceCheck.level === 'far_high' || priceCheck.level === 'far_low' ? 'border-red-400' : 'border-gray-300'
+                    }`}
                   />
                 </Field>
 
+                {priceSuggestion && (
+                  <div className="md:col-span-2 rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3">
+                    <div className="flex flex-wrap items-start justify-between gap-3">
+                      <div className="flex items-start gap-2">
+                        <Lightbulb className="w-4 h-4 mt-0.5 text-emerald-700" />
+                        <div className="text-sm text-emerald-900">
+                          <div className="font-semibold">
+                            Suggested: {formatUGX(roundPrice(priceSuggestion.p25))} – {formatUGX(roundPrice(priceSuggestion.p75))} per {form.unit}
+                          </div>
+                          <div className="text-xs text-emerald-800 mt-0.5">
+                            Median {formatUGX(roundPrice(priceSuggestion.median))} from {priceSuggestion.listingCount} listings
+                            {priceSuggestion.saleCount > 0 ? ` and ${priceSuggestion.saleCount} completed sales` : ''}{' '}
+                            {priceSuggestion.scope === 'nearby'
+                              ? `within ${priceSuggestion.radiusKm} km`
+                              : 'across the market (too few nearby)'}
+                            , last 60 days.
+                          </div>
+                        </div>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setForm((p) => ({ ...p, price_per_unit: String(roundPrice(priceSuggestion.median)) }))
+                        }
+                        className="px-3 py-1.5 rounded-xl bg-white border border-emerald-300 text-xs font-semibold text-emerald-800 hover:bg-emerald-100"
+                      >
+                        Use median
+                      </button>
+                    </div>
+
+                    {priceCheck.message && (
+                      <div
+                        className={`mt-3 flex items-start gap-2 rounded-xl px-3 py-2 text-xs font-medium ${
+                          priceCheck.level === 'far_high' || priceCheck.level === 'far_low'
+                            ? 'bg-red-100 text-red-800'
+                            : 'bg-amber-100 text-amber-800'
+                        }`}
+                      >
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        {priceCheck.message}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <Field label="Available from *">
                   <input
                     type="date"
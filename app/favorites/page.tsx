@@ -0,0 +1,273 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import supabase from '@/lib/supabaseClient';
+import Navbar from '@/components/Navbar';
+import {
+  changesSinceSaved,
+  fetchFavorites,
+  removeFavorite,
+  type FavoriteAlertKind,
+  type FavoriteWithListing,
+} from '@/lib/favorites';
+import { Heart, Loader2, MapPin, Package, TrendingDown, Trash2, AlertCircle } from 'lucide-react';
+
+const formatUGX = (n: number) => `UGX ${Number(n || 0).toLocaleString('en-UG')}`;
+
+const changeTones: Record<FavoriteAlertKind, string> = {
+  price_drop: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  quantity_change: 'bg-blue-50 text-blue-700 border-blue-200',
+  unavailable: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+export default function FavoritesPage() {
+  const router = useRouter();
+
+  const [authId, setAuthId] = useState<string | null>(null);
+  const [favorites, setFavorites] = useState<FavoriteWithListing[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const loadFavorites = useCallback(async (uid: string) => {
+    setFavorites(await fetchFavorites(uid));
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const boot = async () => {
+      setLoading(true);
+
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth?.user?.id ?? null;
+
+      if (!uid) {
+        router.push('/login');
+        return;
+      }
+
+      if (!mounted) return;
+      setAuthId(uid);
+
+      await loadFavorites(uid);
+
+      if (mounted) setLoading(false);
+    };
+
+    boot();
+
+    return () => {
+      mounted = false;
+    };
+  }, [router, loadFavorites]);
+
+  const produceKey = favorites
+    .map((f) => f.produce_id)
+    .sort()
+    .join(',');
+
+  // Current price and availability stay live while the page is open
+  useEffect(() => {
+    if (!authId) return;
+
+    const channel = supabase
+      .channel(`favorites-page-${authId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'listing_favorites', filter: `user_id=eq.${authId}` },
+        () => {
+          loadFavorites(authId);
+        }
+      );
+
+    if (produceKey) {
+      channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'farm_produce', filter: `id=in.(${produceKey})` },
+        () => {
+          loadFavorites(authId);
+        }
+      );
+    }
+
+    channel.subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [authId, produceKey, loadFavorites]);
+
+  const handleRemove = async (produceId: string) => {
+    if (!authId) return;
+
+    setRemovingId(produceId);
+    const { error } = await removeFavorite(authId, produceId);
+    setRemovingId(null);
+
+    if (error) {
+      alert(error);
+      return;
+    }
+
+    setFavorites((prev) => prev.filter((f) => f.produce_id !== produceId));
+  };
+
+  const availableCount = favorites.filter((f) => f.produce?.is_available).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="max-w-6xl mx-auto px-4 py-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-gray-900">Saved listings</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            {favorites.length > 0
+              ? `${favorites.length} saved • ${availableCount} still available`
+              : 'Listings you save show up here with their latest price'}
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="mt-10 flex items-center gap-2 text-gray-700">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading saved listings...
+          </div>
+        ) : favorites.length === 0 ? (
+          <div className="mt-8 rounded-[28px] border border-gray-200 bg-white p-12 text-center">
+            <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-full bg-rose-100">
+              <Heart className="h-8 w-8 text-rose-500" />
+            </div>
+            <h3 className="mt-5 text-xl font-bold text-gray-900">Nothing saved yet</h3>
+            <p className="mx-auto mt-2 max-w-md text-sm text-gray-600">
+              Tap the heart on any listing to keep an eye on its price and availability.
+            </p>
+            <Link
+              href="/marketplace"
+              className="mt-6 inline-flex rounded-xl bg-emerald-600 px-5 py-2.5 text-sm font-semibold text-white hover:bg-emerald-700"
+            >
+              Browse the marketplace
+            </Link>
+          </div>
+        ) : (
+          <div className="mt-6 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {favorites.map((favorite) => {
+              const listing = favorite.produce;
+
+              if (!listing) {
+                return (
+                  <div
+                    key={favorite.id}
+                    className="flex items-center justify-between gap-3 rounded-[24px] border border-gray-200 bg-white p-5"
+                  >
+                    <div className="flex items-center gap-2 text-sm text-gray-600">
+                      <AlertCircle className="h-4 w-4 text-gray-400" />
+                      This listing is no longer on AgriConnect.
+                    </div>
+                    <button
+                      onClick={() => handleRemove(favorite.produce_id)}
+                      disabled={removingId === favorite.produce_id}
+                      className="text-gray-400 hover:text-red-600 disabled:opacity-60"
+                      aria-label="Remove"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                );
+              }
+
+              const changes = changesSinceSaved(favorite, listing);
+
+              return (
+                <div
+                  key={favorite.id}
+                  className={`overflow-hidden rounded-[24px] border bg-white ${
+                    listing.is_available ? 'border-gray-200' : 'border-gray-200 opacity-75'
+                  }`}
+                >
+                  <Link href={`/products/${listing.id}`} className="block">
+                    <div className="relative h-40 bg-gray-100">
+                      {listing.photo ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={listing.photo} alt={listing.crop_name} className="h-full w-full object-cover" />
+                      ) : (
+                        <div className="flex h-full items-center justify-center">
+                          <Package className="h-10 w-10 text-gray-300" />
+                        </div>
+                      )}
+                      {!listing.is_available && (
+                        <span className="absolute left-3 top-3 rounded-full bg-gray-900/80 px-3 py-1 text-xs font-semibold text-white">
+                          Unavailable
+                        </span>
+                      )}
+                    </div>
+                  </Link>
+
+                  <div className="p-5">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <Link
+                          href={`/products/${listing.id}`}
+                          className="block truncate text-lg font-bold text-gray-900 hover:text-emerald-700"
+                        >
+                          {listing.crop_name}
+                        </Link>
+                        <p className="mt-0.5 truncate text-sm text-gray-600">{listing.farmer_name || 'Farmer'}</p>
+                      </div>
+                      <button
+                        onClick={() => handleRemove(listing.id)}
+                        disabled={removingId === listing.id}
+                        className="rounded-lg p-1.5 text-rose-500 hover:bg-rose-50 disabled:opacity-60"
+                        title="Remove from saved"
+                      >
+                        <Heart className="h-5 w-5 fill-current" />
+                      </button>
+                    </div>
+
+                    <div className="mt-3 flex items-end justify-between">
+                      <div>
+                        <p className="text-xl font-bold text-emerald-700">{formatUGX(listing.price_per_unit)}</p>
+                        <p className="text-xs text-gray-500">per {listing.unit}</p>
+                      </div>
+                      <p className="text-sm font-medium text-gray-700">
+                        {Number(listing.quantity).toLocaleString()} {listing.unit}
+                      </p>
+                    </div>
+
+                    {listing.farmer_location && (
+                      <p className="mt-2 flex items-center gap-1 text-xs text-gray-500">
+                        <MapPin className="h-3.5 w-3.5" />
+                        {listing.farmer_location}
+                      </p>
+                    )}
+
+                    {changes.length > 0 && (
+                      <div className="mt-3 space-y-1.5">
+                        {changes.map((change) => (
+                          <p
+                            key={change.kind}
+                            className={`flex items-center gap-1.5 rounded-lg border px-2.5 py-1.5 text-xs font-medium ${changeTones[change.kind]}`}
+                          >
+                            {change.kind === 'price_drop' && <TrendingDown className="h-3.5 w-3.5" />}
+                            {change.message}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+
+                    <p className="mt-3 text-[11px] text-gray-400">
+                      Saved {new Date(favorite.created_at).toLocaleDateString('en-UG', { month: 'short', day: 'numeric' })}
+                      {favorite.saved_price_per_unit !== null && ` at ${formatUGX(favorite.saved_price_per_unit)}`}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
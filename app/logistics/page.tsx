@@ -0,0 +1,352 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Navbar from '@/components/Navbar';
+import supabase from '@/lib/supabaseClient';
+import { distanceKm } from '@/lib/geo';
+import { claimLoad, fetchLoadBoard, type Load } from '@/lib/deliveries';
+import {
+  Loader2,
+  Truck,
+  Package,
+  MapPin,
+  Navigation,
+  RefreshCw,
+  ArrowRight,
+  Scale,
+  Search,
+} from 'lucide-react';
+
+type LoadSort = 'nearest' | 'oldest' | 'heaviest';
+
+const sortOptions: { value: LoadSort; label: string }[] = [
+  { value: 'nearest', label: 'Nearest pickup' },
+  { value: 'oldest', label: 'Waiting longest' },
+  { value: 'heaviest', label: 'Heaviest first' },
+];
+
+function formatDate(value: string | null) {
+  if (!value) return 'Recently';
+  return new Date(value).toLocaleDateString('en-UG', { month: 'short', day: 'numeric' });
+}
+
+function formatKg(value: number) {
+  return `${Math.round(value).toLocaleString()} kg`;
+}
+
+export default function LoadBoardPage() {
+  const router = useRouter();
+
+  const [home, setHome] = useState<{ lat: number; lng: number } | null>(null);
+  const [loadingPage, setLoadingPage] = useState(true);
+  const [loadingLoads, setLoadingLoads] = useState(false);
+
+  const [loads, setLoads] = useState<Load[]>([]);
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<LoadSort>('nearest');
+  const [claiming, setClaiming] = useState<string | null>(null);
+  const [claimed, setClaimed] = useState<string | null>(null);
+
+  const loadBoard = useCallback(async () => {
+    setLoadingLoads(true);
+    setLoads(await fetchLoadBoard());
+    setLoadingLoads(false);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const boot = async () => {
+      setLoadingPage(true);
+
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth?.user?.id ?? null;
+
+      if (!uid) {
+        router.push('/login');
+        return;
+      }
+
+      const { data: prof, error: profError } = await supabase
+        .from('accounts_user')
+        .select('role,location_lat,location_lng')
+        .eq('auth_user_id', uid)
+        .maybeSingle();
+
+      if (profError || !prof || (prof.role !== 'logistics' && prof.role !== 'admin')) {
+        router.push('/unauthorized');
+        return;
+      }
+
+      if (!mounted) return;
+      if (prof.location_lat != null && prof.location_lng != null) {
+        setHome({ lat: Number(prof.location_lat), lng: Number(prof.location_lng) });
+      }
+
+      await loadBoard();
+
+      if (mounted) setLoadingPage(false);
+    };
+
+    boot();
+
+    return () => {
+      mounted = false;
+    };
+  }, [router, loadBoard]);
+
+  const rows = useMemo(() => {
+    const q = search.trim().toLowerCase();
+
+    return loads
+      .map((load) => ({
+        load,
+        toPickup:
+          home && load.pickup_lat != null && load.pickup_lng != null
+            ? distanceKm(home.lat, home.lng, load.pickup_lat, load.pickup_lng)
+            : null,
+      }))
+      .filter(({ load }) => {
+        if (!q) return true;
+        return [load.crop_name, load.pickup_location, load.dropoff_location, load.farmer_name, load.buyer_name]
+          .filter(Boolean)
+          .some((value) => String(value).toLowerCase().includes(q));
+      })
+      .sort((a, b) => {
+        if (sort === 'heaviest') return Number(b.load.quantity_kg || 0) - Number(a.load.quantity_kg || 0);
+        if (sort === 'nearest' && a.toPickup !== b.toPickup) {
+          if (a.toPickup === null) return 1;
+          if (b.toPickup === null) return -1;
+          return a.toPickup - b.toPickup;
+        }
+        return String(a.load.confirmed_at || '').localeCompare(String(b.load.confirmed_at || ''));
+      });
+  }, [loads, search, sort, home]);
+
+  const totalKg = useMemo(() => loads.reduce((sum, l) => sum + Number(l.quantity_kg || 0), 0), [loads]);
+  const nearestPickup = useMemo(
+    () =>
+      rows.reduce<number | null>(
+        (best, { toPickup }) => (toPickup !== null && (best === null || toPickup < best) ? toPickup : best),
+        null
+      ),
+    [rows]
+  );
+
+  async function claim(load: Load) {
+    if (!confirm(`Claim ${load.crop_name} from ${load.farmer_name || 'the farmer'}?`)) return;
+
+    setClaiming(load.match_id);
+    const { error } = await claimLoad(load.match_id);
+    setClaiming(null);
+
+    if (error) {
+      alert(error);
+      await loadBoard();
+      return;
+    }
+
+    setClaimed(load.crop_name);
+    await loadBoard();
+  }
+
+  if (loadingPage) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-6xl mx-auto px-4 py-10">
+          <div className="flex items-center gap-2 text-gray-700">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading the load board...
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="max-w-7xl mx-auto px-4 py-6">
+        <section className="rounded-[28px] border border-sky-100 bg-gradient-to-br from-sky-50 via-white to-emerald-50 p-6 md:p-8">
+          <div className="flex flex-col gap-6 lg:flex-row lg:items-end lg:justify-between">
+            <div className="max-w-2xl">
+              <div className="inline-flex items-center gap-2 rounded-full border border-sky-200 bg-white/80 px-3 py-1.5 text-xs font-semibold text-sky-700">
+                <Truck className="w-4 h-4" />
+                Transporter workspace
+              </div>
+
+              <h1 className="mt-4 text-3xl md:text-4xl font-bold tracking-tight text-gray-900">Load Board</h1>
+
+              <p className="mt-3 text-sm md:text-base leading-7 text-gray-600">
+                Confirmed orders waiting for a transporter. Claim a load to collect it from the
+                farm and carry it to the buyer; it moves to your deliveries straight away.
+              </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                onClick={() => loadBoard()}
+                className="inline-flex items-center justify-center gap-2 px-5 py-3 rounded-2xl border border-gray-300 bg-white hover:bg-gray-50 text-sm font-semibold text-gray-700"
+              >
+                <RefreshCw className={`w-4 h-4 ${loadingLoads ? 'animate-spin' : ''}`} />
+                Refresh
+              </button>
+
+              <Link
+                href="/deliveries"
+                className="inline-flex items-center justify-center gap-2 px-5 py-3 rounded-2xl bg-sky-600 hover:bg-sky-700 text-white text-sm font-semibold"
+              >
+                My deliveries
+                <ArrowRight className="w-4 h-4" />
+              </Link>
+            </div>
+          </div>
+        </section>
+
+        <section className="mt-6 grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <StatCard label="Open Loads" value={loads.length} icon={<Package className="w-5 h-5" />} />
+          <StatCard label="Total Weight" value={formatKg(totalKg)} icon={<Scale className="w-5 h-5" />} />
+          <StatCard
+            label="Nearest Pickup"
+            value={
+              nearestPickup !== null
+                ? `${nearestPickup.toFixed(1)} km`
+                : home
+                ? '—'
+                : 'Set your location'
+            }
+            icon={<Navigation className="w-5 h-5" />}
+          />
+        </section>
+
+        {claimed && (
+          <div className="mt-6 flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-800">
+            <span>{claimed} is now in your deliveries.</span>
+            <Link href="/deliveries" className="font-semibold underline">
+              Open deliveries
+            </Link>
+          </div>
+        )}
+
+        <section className="mt-6">
+          <div className="flex flex-col sm:flex-row gap-3 mb-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search crop, pickup or drop-off"
+                className="w-full rounded-2xl border border-gray-300 bg-white pl-9 pr-4 py-2.5 text-sm outline-none focus:ring-2 focus:ring-sky-200 focus:border-sky-500"
+              />
+            </div>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as LoadSort)}
+              className="rounded-2xl border border-gray-300 bg-white px-4 py-2.5 text-sm font-semibold text-gray-700"
+            >
+              {sortOptions.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="rounded-[28px] border border-gray-200 bg-white shadow-sm p-5 md:p-6">
+            {rows.length === 0 ? (
+              <div className="p-8 text-center">
+                <div className="mx-auto w-16 h-16 rounded-3xl bg-sky-50 flex items-center justify-center text-sky-600">
+                  <Truck className="w-8 h-8" />
+                </div>
+                <h3 className="mt-5 text-xl font-bold text-gray-900">No loads right now</h3>
+                <p className="mt-2 text-sm text-gray-600 max-w-md mx-auto">
+                  Orders appear here as soon as a farmer confirms them. Refresh to see loads
+                  other transporters have released.
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                {rows.map(({ load, toPickup }) => (
+                  <div key={load.match_id} className="rounded-3xl border border-gray-200 p-5">
+                    <div className="flex items-start justify-between gap-3">
+                      <div>
+                        <h3 className="text-lg font-bold text-gray-900">{load.crop_name}</h3>
+                        <p className="text-sm text-gray-600">
+                          {load.quantity.toLocaleString()} {load.unit}
+                          {load.unit !== 'kg' && load.quantity_kg != null ? ` ≈ ${formatKg(load.quantity_kg)}` : ''}
+                          {' • '}confirmed {formatDate(load.confirmed_at)}
+                        </p>
+                      </div>
+                      {load.distance_km != null && (
+                        <span className="shrink-0 rounded-full border border-sky-200 bg-sky-50 px-3 py-1 text-xs font-semibold text-sky-700">
+                          {load.distance_km} km trip
+                        </span>
+                      )}
+                    </div>
+
+                    <div className="mt-4 space-y-2 text-sm">
+                      <div className="flex items-start gap-2">
+                        <MapPin className="w-4 h-4 mt-0.5 text-emerald-600" />
+                        <div>
+                          <div className="font-semibold text-gray-900">
+                            Pickup: {load.pickup_location || 'Location not set'}
+                          </div>
+                          <div className="text-gray-500">
+                            {load.farmer_name || 'Farmer'}
+                            {toPickup !== null ? ` • ${toPickup.toFixed(1)} km from you` : ''}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-start gap-2">
+                        <Navigation className="w-4 h-4 mt-0.5 text-sky-600" />
+                        <div>
+                          <div className="font-semibold text-gray-900">
+                            Drop-off: {load.dropoff_location || 'Location not set'}
+                          </div>
+                          <div className="text-gray-500">{load.buyer_name || 'Buyer'}</div>
+                        </div>
+                      </div>
+                    </div>
+
+                    <button
+                      onClick={() => claim(load)}
+                      disabled={!!claiming}
+                      className="mt-5 w-full inline-flex items-center justify-center gap-2 px-4 py-2.5 rounded-2xl bg-sky-600 hover:bg-sky-700 text-white text-sm font-semibold disabled:opacity-50"
+                    >
+                      {claiming === load.match_id && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Claim load
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
+
+function StatCard({
+  label,
+  value,
+  icon,
+}: {
+  label: string;
+  value: string | number;
+  icon: React.ReactNode;
+}) {
+  return (
+    <div className="rounded-3xl border border-sky-100 bg-gradient-to-r from-sky-50 to-white p-5">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold text-gray-700">{label}</div>
+        <div className="rounded-2xl bg-white/80 p-2 text-sky-700">{icon}</div>
+      </div>
+      <div className="mt-4 text-2xl font-bold text-gray-900">{value}</div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { latLngBounds } from 'leaflet';
+import { CircleMarker, Polyline, Popup, Tooltip, useMap } from 'react-leaflet';
+import BaseMap from '@/components/BaseMap';
+import type { LatLng } from '@/lib/geo';
+import type { Delivery } from '@/lib/deliveries';
+import type { PlannedTrip } from '@/lib/routePlanner';
+
+export type RouteMapProps = {
+  start: LatLng | null;
+  trip: PlannedTrip<Delivery> | null;
+};
+
+const stopColors = {
+  pickup: '#059669',
+  dropoff: '#0284c7',
+};
+
+// The view follows the trip rather than a center/zoom prop.
+function FitTrip({ points }: { points: [number, number][] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length === 0) return;
+    map.fitBounds(latLngBounds(points), { padding: [40, 40], maxZoom: 13 });
+  }, [points, map]);
+
+  return null;
+}
+
+export default function RouteMap({ start, trip }: RouteMapProps) {
+  const path = useMemo<[number, number][]>(
+    () => [
+      ...(start ? [[start.lat, start.lng] as [number, number]] : []),
+      ...(trip?.stops || []).map((stop) => [stop.lat, stop.lng] as [number, number]),
+    ],
+    [start, trip]
+  );
+
+  return (
+    <BaseMap center={[1.3733, 32.2903]} zoom={7}>
+      <FitTrip points={path} />
+
+      {path.length > 1 && (
+        <Polyline positions={path} pathOptions={{ color: '#0ea5e9', weight: 4, opacity: 0.8 }} />
+      )}
+
+      {start && (
+        <CircleMarker
+          center={[start.lat, start.lng]}
+          radius={8}
+          pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#111827', fillOpacity: 1 }}
+        >
+          <Tooltip direction="top">Start</Tooltip>
+        </CircleMarker>
+      )}
+
+      {(trip?.stops || []).map((stop, index) => (
+        <CircleMarker
+          key={`${stop.kind}-${stop.load.id}`}
+          center={[stop.lat, stop.lng]}
+          radius={9}
+          pathOptions={{ color: '#ffffff', weight: 2, fillColor: stopColors[stop.kind], fillOpacity: 1 }}
+        >
+          <Tooltip direction="top" permanent>
+            {index + 1}
+          </Tooltip>
+          <Popup>
+            <div className="text-sm">
+              <div className="font-semibold">
+                {stop.kind === 'pickup' ? 'Pick up' : 'Drop off'} {stop.load.crop_name}
+              </div>
+              <div className="text-gray-600">
+                {stop.kind === 'pickup'
+                  ? stop.load.pickup_location || stop.load.farmer_name
+                  : stop.load.dropoff_location || stop.load.buyer_name}
+              </div>
+            </div>
+          </Popup>
+        </CircleMarker>
+      ))}
+    </BaseMap>
+  );
+}
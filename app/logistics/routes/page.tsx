@@ -0,0 +1,322 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Navbar from '@/components/Navbar';
+import supabase from '@/lib/supabaseClient';
+import type { LatLng } from '@/lib/geo';
+import { fetchMyDeliveries, type Delivery } from '@/lib/deliveries';
+import { planRoutes } from '@/lib/routePlanner';
+import { Loader2, Route, Truck, Clock, Scale, MapPin, Navigation, LocateFixed, AlertCircle } from 'lucide-react';
+
+const RouteMap = dynamic(() => import('./RouteMap'), {
+  ssr: false,
+  loading: () => (
+    <div className="h-full w-full flex items-center justify-center bg-gray-100">
+      <Loader2 className="w-8 h-8 animate-spin text-sky-600" />
+    </div>
+  ),
+});
+
+const vehicleOptions: { label: string; kg: number }[] = [
+  { label: 'Pickup', kg: 1000 },
+  { label: 'Canter', kg: 3500 },
+  { label: 'Lorry', kg: 8000 },
+  { label: 'Trailer', kg: 20000 },
+];
+
+function formatDuration(minutes: number) {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h > 0 ? `${h} h ${m} min` : `${m} min`;
+}
+
+export default function RoutePlannerPage() {
+  const router = useRouter();
+
+  const [loadingPage, setLoadingPage] = useState(true);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [start, setStart] = useState<LatLng | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [capacityKg, setCapacityKg] = useState(3500);
+  const [selectedTrip, setSelectedTrip] = useState(0);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const boot = async () => {
+      setLoadingPage(true);
+
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth?.user?.id ?? null;
+
+      if (!uid) {
+        router.push('/login');
+        return;
+      }
+
+      const { data: prof, error: profError } = await supabase
+        .from('accounts_user')
+        .select('role,location_lat,location_lng')
+        .eq('auth_user_id', uid)
+        .maybeSingle();
+
+      if (profError || !prof || (prof.role !== 'logistics' && prof.role !== 'admin')) {
+        router.push('/unauthorized');
+        return;
+      }
+
+      const rows = await fetchMyDeliveries(uid);
+
+      if (!mounted) return;
+      if (prof.location_lat != null && prof.location_lng != null) {
+        setStart({ lat: Number(prof.location_lat), lng: Number(prof.location_lng) });
+      }
+      setDeliveries(rows);
+      setLoadingPage(false);
+    };
+
+    boot();
+
+    return () => {
+      mounted = false;
+    };
+  }, [router]);
+
+  // Only loads still waiting to be collected need a route
+  const waiting = useMemo(() => deliveries.filter((d) => d.status === 'assigned'), [deliveries]);
+
+  const plan = useMemo(() => planRoutes(waiting, { start, capacityKg }), [waiting, start, capacityKg]);
+
+  const trip = plan.trips[Math.min(selectedTrip, plan.trips.length - 1)] || null;
+
+  function startFromHere() {
+    if (!navigator.geolocation) {
+      alert('Location is not available in this browser.');
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        setStart({ lat: pos.coords.latitude, lng: pos.coords.longitude });
+        setLocating(false);
+      },
+      () => {
+        alert('Could not get your location.');
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  }
+
+  if (loadingPage) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-6xl mx-auto px-4 py-10">
+          <div className="flex items-center gap-2 text-gray-700">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading your loads...
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="max-w-7xl mx-auto px-4 py-6">
+        <section className="rounded-[28px] border border-sky-100 bg-gradient-to-br from-sky-50 via-white to-emerald-50 p-6 md:p-8">
+          <div className="flex flex-col gap-6 lg:flex-row lg:items-end lg:justify-between">
+            <div className="max-w-2xl">
+              <div className="inline-flex items-center gap-2 rounded-full border border-sky-200 bg-white/80 px-3 py-1.5 text-xs font-semibold text-sky-700">
+                <Route className="w-4 h-4" />
+                Transporter workspace
+              </div>
+
+              <h1 className="mt-4 text-3xl md:text-4xl font-bold tracking-tight text-gray-900">Route Planner</h1>
+
+              <p className="mt-3 text-sm md:text-base leading-7 text-gray-600">
+                Your claimed loads grouped into trips that fit the vehicle, with every pickup
+                ordered before the drop-offs. Distances are straight-line, so allow for the road.
+              </p>
+            </div>
+
+            <div className="flex flex-col gap-3">
+              <div className="flex flex-wrap gap-2">
+                {vehicleOptions.map((v) => (
+                  <button
+                    key={v.label}
+                    onClick={() => {
+                      setCapacityKg(v.kg);
+                      setSelectedTrip(0);
+                    }}
+                    className={`px-4 py-2 rounded-2xl text-sm font-semibold border ${
+                      capacityKg === v.kg
+                        ? 'bg-sky-600 border-sky-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {v.label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                  Capacity
+                  <input
+                    type="number"
+                    min={1}
+                    value={capacityKg}
+                    onChange={(e) => {
+                      setCapacityKg(Math.max(Number(e.target.value) || 0, 0));
+                      setSelectedTrip(0);
+                    }}
+                    className="w-28 rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm"
+                  />
+                  kg
+                </label>
+
+                <button
+                  onClick={startFromHere}
+                  disabled={locating}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-2xl border border-gray-300 bg-white hover:bg-gray-50 text-sm font-semibold text-gray-700 disabled:opacity-50"
+                >
+                  {locating ? <Loader2 className="w-4 h-4 animate-spin" /> : <LocateFixed className="w-4 h-4" />}
+                  Start here
+                </button>
+              </div>
+            </div>
+          </div>
+        </section>
+
+        {waiting.length === 0 ? (
+          <div className="mt-6 rounded-[28px] border border-gray-200 bg-white shadow-sm p-8 text-center">
+            <div className="mx-auto w-16 h-16 rounded-3xl bg-sky-50 flex items-center justify-center text-sky-600">
+              <Truck className="w-8 h-8" />
+            </div>
+            <h3 className="mt-5 text-xl font-bold text-gray-900">Nothing to collect</h3>
+            <p className="mt-2 text-sm text-gray-600 max-w-md mx-auto">
+              Loads you claim appear here until you pick them up.
+            </p>
+            <Link
+              href="/logistics"
+              className="mt-5 inline-flex items-center gap-2 px-5 py-3 rounded-2xl bg-sky-600 hover:bg-sky-700 text-white text-sm font-semibold"
+            >
+              Find loads
+            </Link>
+          </div>
+        ) : (
+          <section className="mt-6 grid grid-cols-1 lg:grid-cols-[380px_1fr] gap-6">
+            <div className="space-y-4">
+              {plan.trips.map((t, index) => (
+                <button
+                  key={t.loads.map((l) => l.id).join(',')}
+                  onClick={() => setSelectedTrip(index)}
+                  className={`w-full text-left rounded-3xl border p-5 transition-colors ${
+                    trip === t ? 'border-sky-400 bg-sky-50' : 'border-gray-200 bg-white hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-bold text-gray-900">Trip {index + 1}</h3>
+                    <span className="text-xs font-semibold text-gray-500">
+                      {t.loads.length} load{t.loads.length === 1 ? '' : 's'}
+                    </span>
+                  </div>
+
+                  <div className="mt-3 grid grid-cols-3 gap-2 text-sm">
+                    <div className="flex items-center gap-1.5 text-gray-700">
+                      <Navigation className="w-4 h-4 text-sky-600" />
+                      {t.distanceKm.toFixed(1)} km
+                    </div>
+                    <div className="flex items-center gap-1.5 text-gray-700">
+                      <Clock className="w-4 h-4 text-sky-600" />
+                      {formatDuration(t.minutes)}
+                    </div>
+                    <div
+                      className={`flex items-center gap-1.5 ${
+                        t.overCapacity ? 'text-rose-600' : t.unknownWeight ? 'text-amber-600' : 'text-gray-700'
+                      }`}
+                    >
+                      <Scale className="w-4 h-4" />
+                      {t.unknownWeight ? '? kg' : `${Math.round(t.kg).toLocaleString()} kg`}
+                    </div>
+                  </div>
+
+                  <div className="mt-3 h-2 rounded-full bg-gray-100 overflow-hidden">
+                    <div
+                      className={`h-full ${t.overCapacity ? 'bg-rose-500' : 'bg-sky-500'}`}
+                      style={{ width: `${Math.min((t.kg / Math.max(capacityKg, 1)) * 100, 100)}%` }}
+                    />
+                  </div>
+                  {t.overCapacity && (
+                    <p className="mt-2 text-xs text-rose-600">This load alone is heavier than the vehicle.</p>
+                  )}
+                  {t.unknownWeight && (
+                    <p className="mt-2 text-xs text-amber-700">
+                      No weight recorded for this load, so it has a trip of its own. Check it fits the vehicle.
+                    </p>
+                  )}
+                </button>
+              ))}
+
+              {plan.unroutable.length > 0 && (
+                <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                  <div className="flex items-center gap-2 font-semibold">
+                    <AlertCircle className="w-4 h-4" />
+                    {plan.unroutable.length} load{plan.unroutable.length === 1 ? '' : 's'} without map points
+                  </div>
+                  <p className="mt-1">
+                    {plan.unroutable.map((d) => d.crop_name).join(', ')}: ask the farmer or buyer for the
+                    exact location.
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <div className="h-[420px] rounded-[28px] overflow-hidden border border-gray-200 bg-white">
+                <RouteMap start={start} trip={trip} />
+              </div>
+
+              {trip && (
+                <ol className="rounded-[28px] border border-gray-200 bg-white shadow-sm p-5 space-y-3">
+                  {trip.stops.map((stop, index) => (
+                    <li key={`${stop.kind}-${stop.load.id}`} className="flex items-start gap-3 text-sm">
+                      <span
+                        className={`mt-0.5 w-6 h-6 shrink-0 rounded-full flex items-center justify-center text-xs font-bold text-white ${
+                          stop.kind === 'pickup' ? 'bg-emerald-600' : 'bg-sky-600'
+                        }`}
+                      >
+                        {index + 1}
+                      </span>
+                      <div className="flex-1">
+                        <div className="font-semibold text-gray-900">
+                          {stop.kind === 'pickup' ? 'Pick up' : 'Drop off'} {stop.load.crop_name} •{' '}
+                          {stop.load.quantity.toLocaleString()} {stop.load.unit}
+                        </div>
+                        <div className="flex items-center gap-1 text-gray-500">
+                          <MapPin className="w-3.5 h-3.5" />
+                          {stop.kind === 'pickup'
+                            ? `${stop.load.pickup_location || 'Farm'} • ${stop.load.farmer_name || 'Farmer'}`
+                            : `${stop.load.dropoff_location || 'Buyer'} • ${stop.load.buyer_name || 'Buyer'}`}
+                        </div>
+                      </div>
+                      <span className="text-xs text-gray-500">+{stop.legKm.toFixed(1)} km</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,8 +1,23 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
 import { supabase } from '@/lib/supabaseClient';
 import Navbar from '@/components/Navbar';
+import { offerListingToDemand } from '@/lib/offers';
+import { distanceKm } from '@/lib/geo';
+import { scoreMatch } from '@/lib/matching';
+import {
+  describeSourcingArea,
+  inSourcingArea,
+  sourcingModeOf,
+  type SourcingArea,
+} from '@/lib/sourcingAreas';
+import { fetchUnitConversions, kgPerUnit, pricePerKg, type UnitConversion } from '@/lib/units';
+import { DEFAULT_TRANSPORT_TARIFF, fetchTransportTariff, landedPerKg } from '@/lib/landedCost';
+import { searchDemands, type SearchRanks } from '@/lib/produceSearch';
+import MatchBreakdown, { MatchScoreBadge } from '@/components/MatchBreakdown';
+import MessageButton from '@/components/MessageButton';
 import {
   MapPin,
   Users,
@@ -14,11 +29,16 @@ import {
   Sparkles,
   Filter,
   Leaf,
+  Inbox,
+  ArrowUpDown,
 } from 'lucide-react';
 
 interface ListingRow {
   id: string;
+  crop_id: number | null;
   crop_name: string;
+  variety: string | null;
+  quality: string | null;
   quantity: number;
   unit: string;
   price_per_unit: number;
@@ -30,7 +50,9 @@ interface ListingRow {
 
 interface BuyerDemandRow {
   id: string;
+  buyer_id: string | null;
   buyer_name: string;
+  crop_id: number | null;
   crop_name: string;
   preferred_quality: string;
   quantity: number;
@@ -40,6 +62,9 @@ interface BuyerDemandRow {
   location_text: string | null;
   location_lat: number | null;
   location_lng: number | null;
+  sourcing_mode: SourcingArea['sourcing_mode'];
+  sourcing_polygon: SourcingArea['sourcing_polygon'];
+  sourcing_districts: SourcingArea['sourcing_districts'];
   notes: string | null;
   status: string;
   created_at: string;
@@ -61,20 +86,6 @@ const formatDate = (value: string) => {
   }
 };
 
-function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number) {
-  const R = 6371;
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLng = ((lng2 - lng1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLng / 2) ** 2;
-
-  return R * (2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)));
-}
-
 function demandImageFallback(cropName: string) {
   const key = cropName.toLowerCase();
 
@@ -141,6 +152,8 @@ export default function MarketplacePage() {
   const [authId, setAuthId] = useState<string | null>(null);
   const [listings, setListings] = useState<ListingRow[]>([]);
   const [demands, setDemands] = useState<BuyerDemandRow[]>([]);
+  const [conversions, setConversions] = useState<UnitConversion[]>([]);
+  const [tariff, setTariff] = useState(DEFAULT_TRANSPORT_TARIFF);
   const [loading, setLoading] = useState(true);
 
   const [sellerLocation, setSellerLocation] = useState<{
@@ -149,9 +162,11 @@ export default function MarketplacePage() {
   } | null>(null);
 
   const [search, setSearch] = useState('');
+  const [searchResult, setSearchResult] = useState<{ query: string; ranks: SearchRanks | null } | null>(null);
   const [radiusKm, setRadiusKm] = useState(30);
   const [selectedListing, setSelectedListing] = useState<string | null>(null);
   const [sendingDemandId, setSendingDemandId] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<'match' | 'distance'>('match');
 
   useEffect(() => {
     let alive = true;
@@ -176,12 +191,12 @@ export default function MarketplacePage() {
       setLoading(true);
 
       try {
-        const [listingsRes, demandsRes] = await Promise.all([
+        const [listingsRes, demandsRes, unitConversions, transportTariff] = await Promise.all([
           authId
             ? supabase
                 .from('farm_produce')
                 .select(
-                  'id,crop_name,quantity,unit,price_per_unit,location_lat,location_lng,farmer_location,listed_at'
+                  'id,crop_id,crop_name,variety,quality,quantity,unit,price_per_unit,location_lat,location_lng,farmer_location,listed_at'
                 )
                 .eq('farmer_id', authId)
                 .eq('is_available', true)
@@ -191,10 +206,13 @@ export default function MarketplacePage() {
           supabase
             .from('buyer_demands')
             .select(
-              'id,buyer_name,crop_name,preferred_quality,quantity,unit,target_price_per_unit,radius_km,location_text,location_lat,location_lng,notes,status,created_at,image_urls'
+              'id,buyer_id,buyer_name,crop_id,crop_name,preferred_quality,quantity,unit,target_price_per_unit,radius_km,location_text,location_lat,location_lng,sourcing_mode,sourcing_polygon,sourcing_districts,notes,status,created_at,image_urls'
             )
             .eq('status', 'open')
             .order('created_at', { ascending: false }),
+
+          fetchUnitConversions(),
+          fetchTransportTariff(),
         ]);
 
         if (!alive) return;
@@ -204,6 +222,8 @@ export default function MarketplacePage() {
 
         setListings(loadedListings);
         setDemands(loadedDemands);
+        setConversions(unitConversions);
+        setTariff(transportTariff);
 
         if (loadedListings.length > 0) {
           setSelectedListing(loadedListings[0].id);
@@ -241,6 +261,24 @@ export default function MarketplacePage() {
     );
   }, []);
 
+  // Indexed search once typing settles; until then (or if it fails) the
+  // plain text match below is used
+  useEffect(() => {
+    const query = search.trim();
+    if (!query) return;
+
+    let alive = true;
+    const timer = setTimeout(async () => {
+      const ranks = await searchDemands(query);
+      if (alive) setSearchResult({ query, ranks });
+    }, 300);
+
+    return () => {
+      alive = false;
+      clearTimeout(timer);
+    };
+  }, [search, demands]);
+
   const selectedListingData = useMemo(
     () => listings.find((item) => item.id === selectedListing) || null,
     [listings, selectedListing]
@@ -248,6 +286,7 @@ export default function MarketplacePage() {
 
   const filteredDemands = useMemo(() => {
     const s = search.toLowerCase().trim();
+    const ranks = s && searchResult?.query.toLowerCase() === s ? searchResult.ranks : null;
 
     return demands
       .map((demand) => {
@@ -266,27 +305,72 @@ export default function MarketplacePage() {
           );
         }
 
-        return { demand, distance };
+        const match = selectedListingData
+          ? scoreMatch(
+              { ...demand, kg_per_unit: kgPerUnit(conversions, demand.unit, demand.crop_id) },
+              {
+                ...selectedListingData,
+                kg_per_unit: kgPerUnit(conversions, selectedListingData.unit, selectedListingData.crop_id),
+              }
+            )
+          : null;
+
+        // What the buyer would pay per unit of their own demand for the
+        // selected listing delivered over this distance
+        const demandKg = kgPerUnit(conversions, demand.unit, demand.crop_id);
+        const landedKg = selectedListingData
+          ? landedPerKg(
+              pricePerKg(
+                conversions,
+                selectedListingData.price_per_unit,
+                selectedListingData.unit,
+                selectedListingData.crop_id
+              ),
+              distance,
+              tariff
+            )
+          : null;
+        const landed = landedKg != null && demandKg ? landedKg * demandKg : null;
+
+        // Drawn areas and districts decide "nearby" themselves; a plain
+        // radius demand goes by the seller's own distance slider
+        const shaped = sourcingModeOf(demand) !== 'radius';
+        const inArea = shaped
+          ? inSourcingArea(demand, {
+              lat: sellerLocation?.lat ?? selectedListingData?.location_lat ?? null,
+              lng: sellerLocation?.lng ?? selectedListingData?.location_lng ?? null,
+              location: selectedListingData?.farmer_location,
+            })
+          : null;
+        const nearby = shaped ? inArea !== false : distance === null || distance <= radiusKm;
+
+        return { demand, distance, match, landed, nearby, inArea };
       })
-      .filter(({ demand, distance }) => {
-        const textMatch =
-          !s ||
-          demand.crop_name.toLowerCase().includes(s) ||
-          demand.buyer_name.toLowerCase().includes(s) ||
-          (demand.location_text || '').toLowerCase().includes(s) ||
-          (demand.preferred_quality || '').toLowerCase().includes(s);
-
-        const radiusMatch = distance === null || distance <= radiusKm;
-
-        return textMatch && radiusMatch;
+      .filter(({ demand, nearby }) => {
+        const textMatch = ranks
+          ? ranks.has(demand.id)
+          : !s ||
+            demand.crop_name.toLowerCase().includes(s) ||
+            demand.buyer_name.toLowerCase().includes(s) ||
+            (demand.location_text || '').toLowerCase().includes(s) ||
+            (demand.preferred_quality || '').toLowerCase().includes(s);
+
+        return textMatch && nearby;
       })
       .sort((a, b) => {
+        if (sortBy === 'match' && a.match && b.match && a.match.score !== b.match.score) {
+          return b.match.score - a.match.score;
+        }
+        if (sortBy === 'match' && ranks) {
+          const byRank = (ranks.get(b.demand.id) ?? 0) - (ranks.get(a.demand.id) ?? 0);
+          if (byRank !== 0) return byRank;
+        }
         if (a.distance === null && b.distance === null) return 0;
         if (a.distance === null) return 1;
         if (b.distance === null) return -1;
         return a.distance - b.distance;
       });
-  }, [demands, search, radiusKm, sellerLocation]);
+  }, [demands, conversions, tariff, search, searchResult, radiusKm, sellerLocation, selectedListingData, sortBy]);
 
   async function sendOffer(demandId: string) {
     if (!authId) {
@@ -305,20 +389,10 @@ export default function MarketplacePage() {
     try {
       setSendingDemandId(demandId);
 
-      const payload = {
-        demand_id: demandId,
-        listing_id: listing.id,
-        farmer_id: authId,
-        crop_name: listing.crop_name,
-        offered_quantity: listing.quantity,
-        offered_price_per_unit: listing.price_per_unit,
-        status: 'sent',
-      };
-
-      const { error } = await supabase.from('demand_offers').insert(payload);
+      const { error } = await offerListingToDemand(demandId, listing.id);
 
       if (error) {
-        alert('Failed to send offer.');
+        alert(`Failed to send offer: ${error}`);
         return;
       }
 
@@ -332,8 +406,8 @@ export default function MarketplacePage() {
   }
 
   const totalOpenDemands = filteredDemands.length;
-  const nearbyCount = filteredDemands.filter(
-    (item) => item.distance !== null && item.distance <= radiusKm
+  const nearbyCount = filteredDemands.filter((item) =>
+    item.inArea !== null ? item.inArea : item.distance !== null && item.distance <= radiusKm
   ).length;
   const avgTargetPrice =
     filteredDemands.length > 0
@@ -454,9 +528,21 @@ export default function MarketplacePage() {
               <span className="rounded-full bg-emerald-100 px-3 py-1 font-medium text-emerald-700">
                 {filteredDemands.length} matches
               </span>
-              <span className="rounded-full bg-sky-100 px-3 py-1 font-medium text-sky-700">
-                Search by crop or buyer
-              </span>
+              <Link
+                href="/farmer/offers"
+                className="inline-flex items-center gap-1 rounded-full bg-violet-100 px-3 py-1 font-medium text-violet-700 hover:bg-violet-200"
+              >
+                <Inbox className="h-3.5 w-3.5" />
+                My offers
+              </Link>
+              <button
+                onClick={() => setSortBy((v) => (v === 'match' ? 'distance' : 'match'))}
+                disabled={!selectedListingData}
+                className="inline-flex items-center gap-1 rounded-full bg-sky-100 px-3 py-1 font-medium text-sky-700 hover:bg-sky-200 disabled:opacity-50"
+              >
+                <ArrowUpDown className="h-3.5 w-3.5" />
+                {sortBy === 'match' && selectedListingData ? 'Best match first' : 'Nearest first'}
+              </button>
               <span className="rounded-full bg-amber-100 px-3 py-1 font-medium text-amber-700">
                 Location-aware results
               </span>
@@ -530,7 +616,7 @@ export default function MarketplacePage() {
           </div>
         ) : (
           <div className="mt-8 grid gap-6 md:grid-cols-2 xl:grid-cols-3">
-            {filteredDemands.map(({ demand, distance }) => {
+            {filteredDemands.map(({ demand, distance, match, landed }) => {
               const gallery =
                 demand.image_urls && demand.image_urls.length > 0
                   ? demand.image_urls
@@ -591,6 +677,15 @@ export default function MarketplacePage() {
                         <p className="mt-1 text-lg font-bold text-emerald-700">
                           {formatPrice(demand.target_price_per_unit)}
                         </p>
+                        {landed !== null && (
+                          <p
+                            className={`mt-1 text-xs font-semibold ${
+                              landed > demand.target_price_per_unit ? 'text-rose-600' : 'text-slate-600'
+                            }`}
+                          >
+                            Landed ≈ {formatPrice(Math.round(landed))}/{demand.unit}
+                          </p>
+                        )}
                       </div>
 
                       <div className="rounded-2xl bg-sky-50 p-3">
@@ -604,10 +699,10 @@ export default function MarketplacePage() {
 
                       <div className="rounded-2xl bg-amber-50 p-3">
                         <p className="text-xs font-medium uppercase tracking-wide text-slate-500">
-                          Buyer Radius
+                          Sourcing Area
                         </p>
                         <p className="mt-1 text-base font-bold text-amber-700">
-                          {demand.radius_km} km
+                          {describeSourcingArea(demand)}
                         </p>
                       </div>
 
@@ -621,6 +716,18 @@ export default function MarketplacePage() {
                       </div>
                     </div>
 
+                    {match && (
+                      <div className="mt-5 rounded-2xl border border-slate-100 p-3">
+                        <div className="mb-2 flex items-center justify-between">
+                          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                            Fit for your listing
+                          </p>
+                          <MatchScoreBadge score={match.score} />
+                        </div>
+                        <MatchBreakdown match={match} />
+                      </div>
+                    )}
+
                     {gallery.length > 1 && (
                       <div className="mt-5">
                         <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
@@ -690,6 +797,15 @@ export default function MarketplacePage() {
                           <Navigation className="h-4 w-4" />
                         </a>
                       )}
+
+                      {authId && demand.buyer_id && demand.buyer_id !== authId && (
+                        <MessageButton
+                          subjectType="demand"
+                          subjectId={demand.id}
+                          label=""
+                          className="inline-flex items-center justify-center rounded-2xl border border-slate-200 bg-white px-4 py-3 text-slate-700 transition hover:bg-slate-50 disabled:opacity-50"
+                        />
+                      )}
                     </div>
 
                     {selectedListingData && (
@@ -0,0 +1,334 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import supabase from '@/lib/supabaseClient';
+import Navbar from '@/components/Navbar';
+import {
+  attachmentUrl,
+  markThreadRead,
+  sendMessage,
+  threadCounterpartName,
+  threadSubjectHref,
+  threadSubjectLabels,
+  type Message,
+  type MessageThread,
+} from '@/lib/messages';
+import { AlertCircle, ArrowLeft, ExternalLink, ImagePlus, Loader2, Send, X } from 'lucide-react';
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-UG', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+function MessageAttachment({ path }: { path: string }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    attachmentUrl(path).then((signed) => {
+      if (active) setUrl(signed);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [path]);
+
+  if (!url) return <div className="mb-2 h-40 w-56 max-w-full animate-pulse rounded-xl bg-black/10" />;
+
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer">
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={url} alt="Attachment" className="mb-2 max-h-64 rounded-xl object-cover" loading="lazy" />
+    </a>
+  );
+}
+
+export default function MessageThreadPage() {
+  const params = useParams();
+  const router = useRouter();
+  const id = String(params?.id || '');
+
+  const [authId, setAuthId] = useState<string | null>(null);
+  const [thread, setThread] = useState<MessageThread | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [body, setBody] = useState('');
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [attachmentPreview, setAttachmentPreview] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadThread = useCallback(async () => {
+    if (!id) return;
+
+    const [{ data: threadRow, error: threadError }, { data: messageRows }] = await Promise.all([
+      supabase.from('message_threads').select('*').eq('id', id).maybeSingle(),
+      supabase
+        .from('messages')
+        .select('*')
+        .eq('thread_id', id)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    if (threadError || !threadRow) {
+      setError('Conversation not found or you do not have access to it.');
+      return;
+    }
+
+    setThread(threadRow as MessageThread);
+    setMessages((messageRows || []) as Message[]);
+  }, [id]);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const boot = async () => {
+      setLoading(true);
+
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth?.user?.id ?? null;
+
+      if (!uid) {
+        router.push('/login');
+        return;
+      }
+
+      if (!mounted) return;
+      setAuthId(uid);
+
+      await loadThread();
+      await markThreadRead(id, uid);
+
+      if (mounted) setLoading(false);
+    };
+
+    boot();
+
+    return () => {
+      mounted = false;
+    };
+  }, [router, loadThread, id]);
+
+  useEffect(() => {
+    if (!id || !authId) return;
+
+    const channel = supabase
+      .channel(`thread-${id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `thread_id=eq.${id}` },
+        (payload) => {
+          const incoming = payload.new as Message;
+          setMessages((prev) => (prev.some((m) => m.id === incoming.id) ? prev : [...prev, incoming]));
+          if (incoming.sender_id !== authId) markThreadRead(id, authId);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, authId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  useEffect(() => {
+    return () => {
+      if (attachmentPreview) URL.revokeObjectURL(attachmentPreview);
+    };
+  }, [attachmentPreview]);
+
+  function pickAttachment(file: File | null) {
+    setAttachment(file);
+    setAttachmentPreview(file ? URL.createObjectURL(file) : null);
+    if (!file && fileInputRef.current) fileInputRef.current.value = '';
+  }
+
+  async function handleSend() {
+    if (!authId || !thread) return;
+
+    setSending(true);
+    const { message, error: sendError } = await sendMessage({
+      threadId: thread.id,
+      senderId: authId,
+      body,
+      attachment,
+    });
+    setSending(false);
+
+    if (sendError || !message) {
+      alert(sendError || 'Failed to send message.');
+      return;
+    }
+
+    setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+    setBody('');
+    pickAttachment(null);
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-4xl mx-auto px-4 py-10">
+          <div className="flex items-center gap-2 text-gray-700">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading conversation...
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !thread) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-7xl mx-auto px-4 py-12 text-center">
+          <div className="w-16 h-16 bg-amber-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <AlertCircle className="w-8 h-8 text-amber-600" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Conversation unavailable</h2>
+          <p className="text-gray-600 mb-6 max-w-md mx-auto">{error}</p>
+          <Link
+            href="/messages"
+            className="inline-flex items-center gap-2 bg-emerald-600 text-white px-6 py-3 rounded-xl font-semibold hover:bg-emerald-700"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            Back to messages
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const counterpart = threadCounterpartName(thread, authId);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="max-w-4xl mx-auto px-4 py-6">
+        <div className="flex items-center justify-between gap-4">
+          <Link href="/messages" className="flex items-center gap-2 text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="font-medium">All messages</span>
+          </Link>
+
+          <Link
+            href={threadSubjectHref(thread)}
+            className="inline-flex items-center gap-1 text-sm font-semibold text-emerald-700 hover:text-emerald-800"
+          >
+            View {threadSubjectLabels[thread.subject_type].toLowerCase()}
+            <ExternalLink className="h-4 w-4" />
+          </Link>
+        </div>
+
+        <section className="mt-4 flex h-[calc(100vh-12rem)] min-h-[420px] flex-col overflow-hidden rounded-[28px] border border-gray-200 bg-white shadow-sm">
+          <div className="border-b border-gray-100 bg-gradient-to-r from-emerald-50 via-white to-lime-50 px-5 py-4">
+            <h1 className="text-lg font-bold text-gray-900">{counterpart}</h1>
+            <p className="text-xs text-gray-500">
+              {threadSubjectLabels[thread.subject_type]} • {thread.title}
+            </p>
+          </div>
+
+          <div className="flex-1 space-y-3 overflow-y-auto px-5 py-4">
+            {messages.length === 0 ? (
+              <p className="py-10 text-center text-sm text-gray-500">
+                Say hello to {counterpart}. Messages are delivered instantly.
+              </p>
+            ) : (
+              messages.map((message) => {
+                const mine = message.sender_id === authId;
+
+                return (
+                  <div key={message.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                    <div
+                      className={`max-w-[80%] rounded-2xl px-4 py-2.5 text-sm ${
+                        mine ? 'bg-emerald-600 text-white' : 'bg-gray-100 text-gray-900'
+                      }`}
+                    >
+                      {message.attachment_path && <MessageAttachment path={message.attachment_path} />}
+                      {message.body && <p className="whitespace-pre-wrap break-words">{message.body}</p>}
+                      <p className={`mt-1 text-[11px] ${mine ? 'text-emerald-100' : 'text-gray-500'}`}>
+                        {formatDateTime(message.created_at)}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+            <div ref={bottomRef} />
+          </div>
+
+          <div className="border-t border-gray-100 p-3">
+            {attachmentPreview && (
+              <div className="mb-2 inline-flex items-start gap-2 rounded-xl border border-gray-200 p-2">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={attachmentPreview} alt="Attachment preview" className="h-16 w-16 rounded-lg object-cover" />
+                <button
+                  onClick={() => pickAttachment(null)}
+                  className="rounded-lg p-1 text-gray-500 hover:bg-gray-100"
+                  aria-label="Remove attachment"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+
+            <div className="flex items-end gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => pickAttachment(e.target.files?.[0] ?? null)}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={sending}
+                className="inline-flex h-11 w-11 shrink-0 items-center justify-center rounded-xl border border-gray-300 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                aria-label="Attach a photo"
+              >
+                <ImagePlus className="h-5 w-5" />
+              </button>
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSend();
+                  }
+                }}
+                rows={1}
+                placeholder="Write a message..."
+                className="max-h-32 min-h-11 flex-1 resize-none rounded-xl border border-gray-300 px-3 py-2.5 text-sm outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
+              />
+              <button
+                onClick={handleSend}
+                disabled={sending || (!body.trim() && !attachment)}
+                className="inline-flex h-11 shrink-0 items-center gap-2 rounded-xl bg-emerald-600 px-4 text-sm font-semibold text-white hover:bg-emerald-700 disabled:opacity-50"
+              >
+                {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                Send
+              </button>
+            </div>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import supabase from '@/lib/supabaseClient';
+import Navbar from '@/components/Navbar';
+import {
+  fetchUnreadCounts,
+  threadCounterpartName,
+  threadSubjectLabels,
+  totalUnread,
+  type MessageThread,
+} from '@/lib/messages';
+import { Loader2, MessagesSquare, Search, Image as ImageIcon } from 'lucide-react';
+
+const formatWhen = (value: string | null) => {
+  if (!value) return '';
+  const d = new Date(value);
+  const today = new Date();
+  return d.toDateString() === today.toDateString()
+    ? d.toLocaleTimeString('en-UG', { hour: '2-digit', minute: '2-digit' })
+    : d.toLocaleDateString('en-UG', { month: 'short', day: 'numeric' });
+};
+
+export default function MessagesPage() {
+  const router = useRouter();
+
+  const [authId, setAuthId] = useState<string | null>(null);
+  const [threads, setThreads] = useState<MessageThread[]>([]);
+  const [unread, setUnread] = useState<Record<string, number>>({});
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const loadThreads = useCallback(async (uid: string) => {
+    const [{ data }, counts] = await Promise.all([
+      supabase
+        .from('message_threads')
+        .select('*')
+        .or(`buyer_id.eq.${uid},farmer_id.eq.${uid}`)
+        .order('last_message_at', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false }),
+      fetchUnreadCounts(),
+    ]);
+
+    setThreads((data || []) as MessageThread[]);
+    setUnread(counts);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const boot = async () => {
+      setLoading(true);
+
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth?.user?.id ?? null;
+
+      if (!uid) {
+        router.push('/login');
+        return;
+      }
+
+      if (!mounted) return;
+      setAuthId(uid);
+
+      await loadThreads(uid);
+
+      if (mounted) setLoading(false);
+    };
+
+    boot();
+
+    return () => {
+      mounted = false;
+    };
+  }, [router, loadThreads]);
+
+  useEffect(() => {
+    if (!authId) return;
+
+    // RLS limits realtime rows to threads this user is part of.
+    const channel = supabase
+      .channel(`messages-inbox-${authId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'message_threads' }, () => {
+        loadThreads(authId);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [authId, loadThreads]);
+
+  const visibleThreads = useMemo(() => {
+    const s = search.toLowerCase().trim();
+    if (!s) return threads;
+
+    return threads.filter(
+      (t) =>
+        t.title.toLowerCase().includes(s) ||
+        threadCounterpartName(t, authId).toLowerCase().includes(s) ||
+        (t.last_message_preview || '').toLowerCase().includes(s)
+    );
+  }, [threads, search, authId]);
+
+  const unreadTotal = totalUnread(unread);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="max-w-4xl mx-auto px-4 py-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight text-gray-900">Messages</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              {unreadTotal > 0
+                ? `${unreadTotal} unread message${unreadTotal === 1 ? '' : 's'}`
+                : 'Conversations about your listings, demands and orders'}
+            </p>
+          </div>
+
+          <div className="relative sm:w-72">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search conversations..."
+              className="w-full rounded-xl border border-gray-300 bg-white py-2.5 pl-9 pr-3 text-sm outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="mt-10 flex items-center gap-2 text-gray-700">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading conversations...
+          </div>
+        ) : visibleThreads.length === 0 ? (
+          <div className="mt-8 rounded-[28px] border border-gray-200 bg-white p-12 text-center">
+            <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-full bg-emerald-100">
+              <MessagesSquare className="h-8 w-8 text-emerald-600" />
+            </div>
+            <h3 className="mt-5 text-xl font-bold text-gray-900">No conversations yet</h3>
+            <p className="mx-auto mt-2 max-w-md text-sm text-gray-600">
+              Start one from a product page, a buyer demand or an order.
+            </p>
+          </div>
+        ) : (
+          <div className="mt-6 divide-y divide-gray-100 overflow-hidden rounded-[28px] border border-gray-200 bg-white">
+            {visibleThreads.map((thread) => {
+              const count = unread[thread.id] || 0;
+              const counterpart = threadCounterpartName(thread, authId);
+
+              return (
+                <Link
+                  key={thread.id}
+                  href={`/messages/${thread.id}`}
+                  className="flex items-start gap-4 px-5 py-4 hover:bg-gray-50"
+                >
+                  <div className="flex h-11 w-11 shrink-0 items-center justify-center rounded-2xl bg-gradient-to-br from-emerald-500 to-green-600 text-sm font-bold text-white">
+                    {counterpart.slice(0, 1).toUpperCase()}
+                  </div>
+
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center justify-between gap-3">
+                      <p className={`truncate text-sm ${count ? 'font-bold text-gray-900' : 'font-semibold text-gray-800'}`}>
+                        {counterpart}
+                      </p>
+                      <span className="shrink-0 text-xs text-gray-500">
+                        {formatWhen(thread.last_message_at || thread.created_at)}
+                      </span>
+                    </div>
+                    <p className="mt-0.5 truncate text-xs text-gray-500">
+                      {threadSubjectLabels[thread.subject_type]} • {thread.title}
+                    </p>
+                    <div className="mt-1 flex items-center justify-between gap-3">
+                      <p className={`truncate text-sm ${count ? 'text-gray-900' : 'text-gray-600'}`}>
+                        {thread.last_message_preview === 'Sent a photo' && (
+                          <ImageIcon className="mr-1 inline h-3.5 w-3.5" />
+                        )}
+                        {thread.last_message_preview || 'No messages yet'}
+                      </p>
+                      {count > 0 && (
+                        <span className="shrink-0 rounded-full bg-emerald-600 px-2 py-0.5 text-xs font-bold text-white">
+                          {count}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
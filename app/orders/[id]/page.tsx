@@ -0,0 +1,656 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import supabase from '@/lib/supabaseClient';
+import Navbar from '@/components/Navbar';
+import MessageButton from '@/components/MessageButton';
+import {
+  advanceOrder,
+  allowedOrderTransitions,
+  getOrderStatusTone,
+  orderActionLabels,
+  orderProgress,
+  orderRoleFor,
+  type MarketMatch,
+  type MarketMatchEvent,
+  type OrderActorRole,
+  type OrderStatus,
+} from '@/lib/orders';
+import { getDeliveryStatusLabel, getDeliveryStatusTone, type Delivery } from '@/lib/deliveries';
+import {
+  MAX_CODE_ATTEMPTS,
+  clearOrderReview,
+  fetchDeliveryCode,
+  proofPhotoUrl,
+  reissueDeliveryCode,
+  type DeliveryCode,
+} from '@/lib/proofOfDelivery';
+import HandoverForm from '@/components/HandoverForm';
+import OrderPaymentCard from '@/components/OrderPaymentCard';
+import { fetchOrderPayment, type OrderPayment } from '@/lib/payments';
+import {
+  ArrowLeft,
+  Loader2,
+  Package,
+  DollarSign,
+  MapPin,
+  User,
+  CheckCircle2,
+  Circle,
+  History,
+  AlertCircle,
+  ShoppingBag,
+  Truck,
+  KeyRound,
+  ShieldCheck,
+  ShieldAlert,
+  Camera,
+} from 'lucide-react';
+
+const formatUGX = (n: number) => `UGX ${Number(n || 0).toLocaleString('en-UG')}`;
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-UG', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const stepTimestamps: Partial<Record<OrderStatus, keyof MarketMatch>> = {
+  pending: 'created_at',
+  confirmed: 'confirmed_at',
+  dispatched: 'dispatched_at',
+  delivered: 'delivered_at',
+  completed: 'completed_at',
+};
+
+export default function OrderDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const id = String(params?.id || '');
+
+  const [authId, setAuthId] = useState<string | null>(null);
+  const [accountRole, setAccountRole] = useState<string | null>(null);
+  const [accountPhone, setAccountPhone] = useState<string | null>(null);
+  const [order, setOrder] = useState<MarketMatch | null>(null);
+  const [events, setEvents] = useState<MarketMatchEvent[]>([]);
+  const [delivery, setDelivery] = useState<Delivery | null>(null);
+  const [deliveryCode, setDeliveryCode] = useState<DeliveryCode | null>(null);
+  const [payment, setPayment] = useState<OrderPayment | null>(null);
+  const [issuingCode, setIssuingCode] = useState(false);
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [moving, setMoving] = useState<OrderStatus | null>(null);
+
+  const loadOrder = useCallback(async () => {
+    if (!id) return;
+
+    const [{ data: match, error: matchError }, { data: eventRows }, { data: deliveryRow }, code, paymentRow] = await Promise.all([
+      supabase.from('market_matches').select('*').eq('id', id).maybeSingle(),
+      supabase
+        .from('market_match_events')
+        .select('*')
+        .eq('match_id', id)
+        .order('created_at', { ascending: true }),
+      supabase.from('deliveries').select('*').eq('match_id', id).neq('status', 'cancelled').maybeSingle(),
+      // Only the buyer can read it
+      fetchDeliveryCode(id),
+      fetchOrderPayment(id),
+    ]);
+
+    if (matchError || !match) {
+      setError('Order not found or you do not have access to it.');
+      return;
+    }
+
+    setOrder(match as MarketMatch);
+    setEvents((eventRows || []) as MarketMatchEvent[]);
+    setDelivery((deliveryRow as Delivery | null) ?? null);
+    setDeliveryCode(code);
+    setPayment(paymentRow);
+  }, [id]);
+
+  const photoPath = order?.handover_photo_path ?? null;
+
+  useEffect(() => {
+    if (!photoPath) return;
+
+    let active = true;
+    proofPhotoUrl(photoPath).then((url) => {
+      if (active) setPhotoUrl(url);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [photoPath]);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const boot = async () => {
+      setLoading(true);
+
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth?.user?.id ?? null;
+
+      if (!uid) {
+        router.push('/login');
+        return;
+      }
+
+      const { data: prof } = await supabase
+        .from('accounts_user')
+        .select('role,phone_number')
+        .eq('auth_user_id', uid)
+        .maybeSingle();
+
+      if (!mounted) return;
+      setAuthId(uid);
+      setAccountRole(prof?.role ?? null);
+      setAccountPhone(prof?.phone_number ?? null);
+
+      await loadOrder();
+
+      if (mounted) setLoading(false);
+    };
+
+    boot();
+
+    return () => {
+      mounted = false;
+    };
+  }, [router, loadOrder]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const channel = supabase
+      .channel(`order-${id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'market_matches',
+          filter: `id=eq.${id}`,
+        },
+        () => {
+          loadOrder();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'deliveries',
+          filter: `match_id=eq.${id}`,
+        },
+        () => {
+          loadOrder();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'order_payments',
+          filter: `match_id=eq.${id}`,
+        },
+        (payload) => {
+          if (payload.new && 'id' in payload.new) setPayment(payload.new as OrderPayment);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, loadOrder]);
+
+  async function move(toStatus: OrderStatus) {
+    if (!order) return;
+
+    if ((toStatus === 'cancelled' || toStatus === 'disputed') && !note.trim()) {
+      alert('Please add a note explaining why.');
+      return;
+    }
+
+    const unverified =
+      toStatus === 'completed' && !order.handover_verified_at
+        ? '\n\nNo delivery code was entered at handover, so the order will be flagged for review.'
+        : '';
+    const escrow =
+      payment?.status === 'held' && toStatus === 'cancelled'
+        ? '\n\nThe payment held for this order will be refunded to the buyer.'
+        : payment?.status === 'held' && toStatus === 'completed'
+          ? '\n\nThe payment held for this order will be released to the farmer.'
+          : payment && toStatus === 'dispatched' && payment.status !== 'held'
+            ? '\n\nThe buyer has not paid into escrow yet.'
+            : '';
+    if (!confirm(`${orderActionLabels[toStatus]}?${unverified}${escrow}`)) return;
+
+    setMoving(toStatus);
+    const { error: moveError } = await advanceOrder(order.id, toStatus, note);
+    setMoving(null);
+
+    if (moveError) {
+      alert(moveError);
+      return;
+    }
+
+    setNote('');
+    await loadOrder();
+  }
+
+  async function newCode() {
+    if (!order) return;
+
+    setIssuingCode(true);
+    const { error: codeError } = await reissueDeliveryCode(order.id);
+    setIssuingCode(false);
+
+    if (codeError) {
+      alert(codeError);
+      return;
+    }
+
+    await loadOrder();
+  }
+
+  async function clearReview() {
+    if (!order || !confirm('Mark this order as reviewed?')) return;
+
+    const { error: reviewError } = await clearOrderReview(order.id, note);
+    if (reviewError) {
+      alert(reviewError);
+      return;
+    }
+
+    setNote('');
+    await loadOrder();
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-6xl mx-auto px-4 py-10">
+          <div className="flex items-center gap-2 text-gray-700">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading order...
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const role: OrderActorRole | null = order ? orderRoleFor(order, authId, accountRole) : null;
+
+  if (error || !order || !role) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-7xl mx-auto px-4 py-12 text-center">
+          <div className="w-16 h-16 bg-amber-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <AlertCircle className="w-8 h-8 text-amber-600" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Order unavailable</h2>
+          <p className="text-gray-600 mb-6 max-w-md mx-auto">
+            {error || 'You are not part of this order.'}
+          </p>
+          <Link
+            href="/profile"
+            className="inline-flex items-center gap-2 bg-emerald-600 text-white px-6 py-3 rounded-xl font-semibold hover:bg-emerald-700"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            Back to my orders
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const transitions = allowedOrderTransitions(order.status, role);
+  const total = Number(order.quantity || 0) * Number(order.price_per_unit || 0);
+  const reachedIndex = orderProgress.indexOf(order.status);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="max-w-5xl mx-auto px-4 py-6">
+        <button
+          onClick={() => router.back()}
+          className="mb-6 flex items-center gap-2 text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span className="font-medium">Back</span>
+        </button>
+
+        <section className="rounded-[28px] border border-emerald-100 bg-gradient-to-br from-emerald-50 via-white to-lime-50 p-6 md:p-8">
+          <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+            <div>
+              <div className="inline-flex items-center gap-2 rounded-full border border-emerald-200 bg-white/80 px-3 py-1.5 text-xs font-semibold text-emerald-700">
+                <ShoppingBag className="w-4 h-4" />
+                Order #{order.id.slice(0, 8)}
+              </div>
+              <h1 className="mt-4 text-3xl font-bold tracking-tight text-gray-900">{order.crop_name}</h1>
+              <p className="mt-2 text-sm text-gray-600">
+                Placed {formatDateTime(order.created_at)} • you are the {role}
+              </p>
+            </div>
+
+            <div className="text-left md:text-right">
+              <span
+                className={`inline-flex px-3 py-1.5 rounded-full text-sm font-semibold border capitalize ${getOrderStatusTone(
+                  order.status
+                )}`}
+              >
+                {order.status}
+              </span>
+              <div className="mt-3 text-2xl font-bold text-emerald-700">{formatUGX(total)}</div>
+              <div className="text-xs text-gray-500">Order total</div>
+              {role !== 'admin' && (
+                <MessageButton
+                  subjectType="order"
+                  subjectId={order.id}
+                  label={`Message ${role === 'buyer' ? 'farmer' : 'buyer'}`}
+                  className="mt-3 inline-flex items-center gap-2 rounded-xl border border-emerald-200 bg-white px-3 py-2 text-xs font-semibold text-emerald-700 hover:bg-emerald-50 disabled:opacity-50"
+                />
+              )}
+            </div>
+          </div>
+
+          <ol className="mt-8 grid grid-cols-5 gap-2">
+            {orderProgress.map((step, index) => {
+              const done = reachedIndex >= index;
+              const key = stepTimestamps[step];
+              const at = key ? (order[key] as string | null) : null;
+
+              return (
+                <li key={step} className="flex flex-col items-center text-center">
+                  {done ? (
+                    <CheckCircle2 className="w-6 h-6 text-emerald-600" />
+                  ) : (
+                    <Circle className="w-6 h-6 text-gray-300" />
+                  )}
+                  <span
+                    className={`mt-2 text-xs font-semibold capitalize ${
+                      done ? 'text-gray-900' : 'text-gray-400'
+                    }`}
+                  >
+                    {step}
+                  </span>
+                  {at && done && (
+                    <span className="mt-0.5 text-[11px] text-gray-500">
+                      {new Date(at).toLocaleDateString('en-UG', { month: 'short', day: 'numeric' })}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+
+          {(order.status === 'cancelled' || order.status === 'disputed') && (
+            <div
+              className={`mt-6 rounded-2xl border px-4 py-3 text-sm ${getOrderStatusTone(order.status)}`}
+            >
+              This order was {order.status}
+              {order.status === 'cancelled' && order.cancelled_at
+                ? ` on ${formatDateTime(order.cancelled_at)}`
+                : order.disputed_at
+                ? ` on ${formatDateTime(order.disputed_at)}`
+                : ''}
+              .
+            </div>
+          )}
+        </section>
+
+        <section className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-3">
+          <InfoMiniCard
+            icon={<Package className="w-4 h-4" />}
+            label="Quantity"
+            value={`${Number(order.quantity).toLocaleString()} ${order.unit}`}
+            note={
+              order.unit !== 'kg' && order.quantity_kg != null
+                ? `≈ ${Number(order.quantity_kg).toLocaleString()} kg`
+                : undefined
+            }
+          />
+          <InfoMiniCard
+            icon={<DollarSign className="w-4 h-4" />}
+            label="Agreed Price"
+            value={`${formatUGX(order.price_per_unit)} / ${order.unit}`}
+            note={
+              order.unit !== 'kg' && order.agreed_price_per_kg != null
+                ? `≈ ${formatUGX(order.agreed_price_per_kg)} / kg`
+                : undefined
+            }
+          />
+          <InfoMiniCard
+            icon={<User className="w-4 h-4" />}
+            label={role === 'buyer' ? 'Farmer' : 'Buyer'}
+            value={role === 'buyer' ? order.farmer_name : order.buyer_name}
+          />
+          <InfoMiniCard
+            icon={<MapPin className="w-4 h-4" />}
+            label="Distance"
+            value={order.distance_km != null ? `${Number(order.distance_km)} km` : 'Unknown'}
+          />
+        </section>
+
+        {delivery && (
+          <section className="mt-6 flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-sky-100 bg-sky-50 px-4 py-3 text-sm">
+            <div className="flex items-center gap-2 text-sky-900">
+              <Truck className="w-4 h-4" />
+              A transporter has this load
+              {delivery.dropoff_location ? ` for ${delivery.dropoff_location}` : ''}.
+            </div>
+            <span
+              className={`px-3 py-1 rounded-full text-xs font-semibold border ${getDeliveryStatusTone(delivery.status)}`}
+            >
+              {getDeliveryStatusLabel(delivery.status)}
+            </span>
+          </section>
+        )}
+
+        {payment && (
+          <OrderPaymentCard payment={payment} role={role} defaultPhone={accountPhone} onChange={setPayment} />
+        )}
+
+        {order.needs_review && (
+          <section className="mt-6 flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+            <div className="flex items-center gap-2">
+              <ShieldAlert className="w-4 h-4" />
+              Flagged for review: {order.review_reason || 'no verified handover'}.
+            </div>
+            {role === 'admin' && (
+              <button
+                onClick={clearReview}
+                className="rounded-xl border border-amber-300 bg-white px-3 py-1.5 text-xs font-semibold text-amber-800 hover:bg-amber-100"
+              >
+                Mark reviewed
+              </button>
+            )}
+          </section>
+        )}
+
+        {order.handover_verified_at ? (
+          <section className="mt-6 rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-900">
+            <div className="flex items-center gap-2 font-semibold">
+              <ShieldCheck className="w-4 h-4" />
+              Handed over with the buyer&apos;s code on {formatDateTime(order.handover_verified_at)}
+            </div>
+            <div className="mt-2 flex flex-wrap gap-4 text-xs">
+              {photoUrl && (
+                <a href={photoUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 underline">
+                  <Camera className="w-3.5 h-3.5" />
+                  Delivery photo
+                </a>
+              )}
+              {order.handover_lat != null && order.handover_lng != null && (
+                <a
+                  href={`https://maps.google.com/?q=${order.handover_lat},${order.handover_lng}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 underline"
+                >
+                  <MapPin className="w-3.5 h-3.5" />
+                  Where it was handed over
+                </a>
+              )}
+            </div>
+          </section>
+        ) : role === 'buyer' && (order.status === 'confirmed' || order.status === 'dispatched') ? (
+          <section className="mt-6 rounded-[28px] border border-gray-200 bg-white p-5 md:p-6 shadow-sm">
+            <div className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5 text-emerald-600" />
+              <h2 className="text-lg font-bold text-gray-900">Delivery code</h2>
+            </div>
+            {deliveryCode ? (
+              <>
+                <div className="mt-3 text-3xl font-bold tracking-[0.3em] text-gray-900">{deliveryCode.code}</div>
+                <p className="mt-2 text-sm text-gray-600">
+                  Give this to the driver or farmer only when the produce is in front of you. Valid until{' '}
+                  {formatDateTime(deliveryCode.expires_at)}.
+                </p>
+                {deliveryCode.failed_attempts > 0 && (
+                  <p className="mt-1 text-sm text-rose-600">
+                    {deliveryCode.failed_attempts} wrong{' '}
+                    {deliveryCode.failed_attempts === 1 ? 'try' : 'tries'} so far; the code locks after{' '}
+                    {MAX_CODE_ATTEMPTS}.
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="mt-2 text-sm text-gray-600">
+                You get a code when the order is dispatched.
+              </p>
+            )}
+            <button
+              onClick={newCode}
+              disabled={issuingCode}
+              className="mt-4 inline-flex items-center gap-2 rounded-xl border border-gray-300 bg-white px-3 py-2 text-xs font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {issuingCode && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              {deliveryCode ? 'Send a new code' : 'Get a code now'}
+            </button>
+          </section>
+        ) : role === 'farmer' && ['confirmed', 'dispatched', 'delivered'].includes(order.status) ? (
+          <section className="mt-6">
+            <HandoverForm matchId={order.id} onConfirmed={() => loadOrder()} />
+          </section>
+        ) : null}
+
+        {transitions.length > 0 && (
+          <section className="mt-6 rounded-[28px] border border-gray-200 bg-white p-5 md:p-6 shadow-sm">
+            <h2 className="text-lg font-bold text-gray-900">Next step</h2>
+            <p className="mt-1 text-sm text-gray-600">
+              Both sides see every change in the history below.
+            </p>
+
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a note (required when cancelling or disputing)"
+              className="mt-4 w-full min-h-[80px] rounded-2xl border border-gray-300 px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
+            />
+
+            <div className="mt-3 flex flex-wrap gap-2">
+              {transitions.map((to) => {
+                const negative = to === 'cancelled' || to === 'disputed';
+                return (
+                  <button
+                    key={to}
+                    onClick={() => move(to)}
+                    disabled={!!moving}
+                    className={`inline-flex items-center gap-2 px-4 py-2.5 rounded-2xl text-sm font-semibold disabled:opacity-50 ${
+                      negative
+                        ? 'border border-rose-200 bg-rose-50 text-rose-700 hover:bg-rose-100'
+                        : 'bg-emerald-600 text-white hover:bg-emerald-700'
+                    }`}
+                  >
+                    {moving === to && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {orderActionLabels[to]}
+                  </button>
+                );
+              })}
+            </div>
+          </section>
+        )}
+
+        <section className="mt-6 rounded-[28px] border border-gray-200 bg-white p-5 md:p-6 shadow-sm">
+          <div className="flex items-center gap-2">
+            <History className="w-5 h-5 text-emerald-600" />
+            <h2 className="text-lg font-bold text-gray-900">History</h2>
+          </div>
+
+          {events.length === 0 ? (
+            <p className="mt-4 text-sm text-gray-500">No recorded changes yet.</p>
+          ) : (
+            <ol className="mt-4 space-y-4 border-l-2 border-gray-100 pl-5">
+              {events.map((event) => (
+                <li key={event.id} className="relative">
+                  <span className="absolute -left-[27px] top-1 h-3 w-3 rounded-full border-2 border-white bg-emerald-500" />
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-semibold capitalize text-gray-900">{event.actor_role}</span>
+                    <span className="text-gray-600">
+                      {event.from_status ? (
+                        <>
+                          moved the order from <span className="capitalize">{event.from_status}</span> to{' '}
+                        </>
+                      ) : (
+                        'opened the order as '
+                      )}
+                    </span>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-semibold border capitalize ${getOrderStatusTone(
+                        event.to_status
+                      )}`}
+                    >
+                      {event.to_status}
+                    </span>
+                  </div>
+                  <div className="mt-1 text-xs text-gray-500">{formatDateTime(event.created_at)}</div>
+                  {event.note && <p className="mt-1 text-sm text-gray-700">{event.note}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
+
+function InfoMiniCard({
+  icon,
+  label,
+  value,
+  note,
+}: {
+  icon: React.ReactNode;
+  label: string;
+  value: string;
+  note?: string;
+}) {
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-3">
+      <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+        {icon}
+        {label}
+      </div>
+      <div className="mt-2 text-sm font-semibold text-gray-900 line-clamp-2">{value}</div>
+      {note && <div className="mt-0.5 text-xs text-gray-500">{note}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import Navbar from '@/components/Navbar';
+import PriceBandChart from '@/components/PriceBandChart';
+import {
+  fetchDistrictIndex,
+  fetchPriceOptions,
+  fetchPriceSeries,
+  medianChangePct,
+  optionValues,
+  priceBucketFor,
+  priceRangeOptions,
+  priceSourceOptions,
+  type DistrictPrice,
+  type PriceCrop,
+  type PricePoint,
+  type PriceRange,
+  type PriceSource,
+} from '@/lib/prices';
+import { LineChart, Loader2, MapPin, TrendingDown, TrendingUp, Minus } from 'lucide-react';
+
+const formatUGX = (n: number) => `UGX ${Math.round(Number(n || 0)).toLocaleString('en-UG')}`;
+
+const qualityLabels: Record<string, string> = {
+  top: 'Premium',
+  standard: 'Standard',
+  fair: 'Fair',
+};
+
+type OptionRows = Awaited<ReturnType<typeof fetchPriceOptions>>['rows'];
+
+const selectClass =
+  'w-full rounded-xl border border-gray-300 bg-white px-3 py-2.5 text-sm outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500';
+
+export default function PricesPage() {
+  const [crops, setCrops] = useState<PriceCrop[]>([]);
+  const [optionRows, setOptionRows] = useState<OptionRows>([]);
+  const [loadingOptions, setLoadingOptions] = useState(true);
+
+  const [cropKey, setCropKey] = useState('');
+  const [unit, setUnit] = useState('');
+  const [range, setRange] = useState<PriceRange>('90d');
+  const [source, setSource] = useState<PriceSource | ''>('');
+  const [district, setDistrict] = useState('');
+  const [quality, setQuality] = useState('');
+  const [variety, setVariety] = useState('');
+
+  const [series, setSeries] = useState<PricePoint[]>([]);
+  const [districts, setDistricts] = useState<DistrictPrice[]>([]);
+  const [loadingSeries, setLoadingSeries] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const load = async () => {
+      const { crops: list, rows } = await fetchPriceOptions();
+      if (!mounted) return;
+
+      setCrops(list);
+      setOptionRows(rows);
+      if (list[0]) {
+        setCropKey(list[0].crop_key);
+        setUnit(list[0].units[0] || 'kg');
+      }
+      setLoadingOptions(false);
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!cropKey || !unit) return;
+    let mounted = true;
+
+    const load = async () => {
+      setLoadingSeries(true);
+
+      const filters = {
+        cropKey,
+        unit,
+        range,
+        district: district || null,
+        quality: quality || null,
+        variety: variety || null,
+        source: source || null,
+      };
+
+      const [points, index] = await Promise.all([fetchPriceSeries(filters), fetchDistrictIndex(filters)]);
+      if (!mounted) return;
+
+      setSeries(points);
+      setDistricts(index);
+      setLoadingSeries(false);
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [cropKey, unit, range, source, district, quality, variety]);
+
+  const crop = crops.find((c) => c.crop_key === cropKey) || null;
+  const districtOptions = useMemo(() => optionValues(optionRows, cropKey, 'district'), [optionRows, cropKey]);
+  const qualityOptions = useMemo(() => optionValues(optionRows, cropKey, 'quality'), [optionRows, cropKey]);
+  const varietyOptions = useMemo(() => optionValues(optionRows, cropKey, 'variety'), [optionRows, cropKey]);
+
+  const summary = useMemo(() => {
+    if (series.length === 0) return null;
+    const latest = series[series.length - 1];
+    return {
+      latest,
+      low: Math.min(...series.map((p) => p.min_price)),
+      high: Math.max(...series.map((p) => p.max_price)),
+      observations: series.reduce((s, p) => s + p.observations, 0),
+      change: medianChangePct(series),
+    };
+  }, [series]);
+
+  const selectCrop = (key: string) => {
+    const next = crops.find((c) => c.crop_key === key);
+    setCropKey(key);
+    setUnit(next?.units[0] || 'kg');
+    setDistrict('');
+    setQuality('');
+    setVariety('');
+  };
+
+  const rangeLabel = priceRangeOptions.find((o) => o.value === range)?.label.toLowerCase() || '';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="max-w-7xl mx-auto px-4 py-6">
+        <div className="flex items-center gap-2 mb-2">
+          <div className="w-8 h-8 bg-gradient-to-r from-emerald-500 to-green-600 rounded-lg flex items-center justify-center">
+            <LineChart className="w-5 h-5 text-white" />
+          </div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Market Prices</h1>
+        </div>
+        <p className="text-gray-600">
+          How asking and agreed prices move per crop, and which districts sell below the market.
+        </p>
+
+        {loadingOptions ? (
+          <div className="mt-10 flex items-center gap-2 text-gray-700">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading price history...
+          </div>
+        ) : crops.length === 0 ? (
+          <div className="mt-8 rounded-[28px] border border-gray-200 bg-white p-12 text-center">
+            <LineChart className="mx-auto h-12 w-12 text-gray-300" />
+            <h3 className="mt-4 text-xl font-bold text-gray-900">No prices recorded yet</h3>
+            <p className="mt-2 text-sm text-gray-600">Prices appear here as farmers list produce and orders are confirmed.</p>
+          </div>
+        ) : (
+          <>
+            <div className="mt-6 grid grid-cols-2 gap-3 rounded-2xl border border-gray-200 bg-white p-4 md:grid-cols-4 lg:grid-cols-7">
+              <label className="text-xs font-semibold text-gray-600">
+                Crop
+                <select value={cropKey} onChange={(e) => selectCrop(e.target.value)} className={`mt-1 ${selectClass}`}>
+                  {crops.map((c) => (
+                    <option key={c.crop_key} value={c.crop_key}>{c.crop_name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-semibold text-gray-600">
+                Unit
+                <select value={unit} onChange={(e) => setUnit(e.target.value)} className={`mt-1 ${selectClass}`}>
+                  {(crop?.units || []).map((u) => (
+                    <option key={u} value={u}>per {u}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-semibold text-gray-600">
+                Period
+                <select value={range} onChange={(e) => setRange(e.target.value as PriceRange)} className={`mt-1 ${selectClass}`}>
+                  {priceRangeOptions.map((o) => (
+                    <option key={o.value} value={o.value}>{o.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-semibold text-gray-600">
+                Prices
+                <select value={source} onChange={(e) => setSource(e.target.value as PriceSource | '')} className={`mt-1 ${selectClass}`}>
+                  <option value="">Asking and agreed</option>
+                  {priceSourceOptions.map((o) => (
+                    <option key={o.value} value={o.value}>{o.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-semibold text-gray-600">
+                District
+                <select value={district} onChange={(e) => setDistrict(e.target.value)} className={`mt-1 ${selectClass}`}>
+                  <option value="">All districts</option>
+                  {districtOptions.map((d) => (
+                    <option key={d} value={d}>{d}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-semibold text-gray-600">
+                Quality
+                <select value={quality} onChange={(e) => setQuality(e.target.value)} className={`mt-1 ${selectClass}`}>
+                  <option value="">Any quality</option>
+                  {qualityOptions.map((q) => (
+                    <option key={q} value={q}>{qualityLabels[q] || q}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-semibold text-gray-600">
+                Variety
+                <select value={variety} onChange={(e) => setVariety(e.target.value)} className={`mt-1 ${selectClass}`}>
+                  <option value="">Any variety</option>
+                  {varietyOptions.map((v) => (
+                    <option key={v} value={v}>{v}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="mt-6 grid grid-cols-2 gap-4 lg:grid-cols-4">
+              <div className="rounded-2xl border border-gray-200 bg-white p-5">
+                <p className="text-sm font-medium text-gray-600">Latest median</p>
+                <p className="mt-2 text-2xl font-bold text-gray-900">{summary ? formatUGX(summary.latest.median_price) : '—'}</p>
+                <p className="mt-1 text-xs text-gray-500">per {unit}</p>
+              </div>
+              <div className="rounded-2xl border border-gray-200 bg-white p-5">
+                <p className="text-sm font-medium text-gray-600">Change</p>
+                <p
+                  className={`mt-2 flex items-center gap-1 text-2xl font-bold ${
+                    summary?.change == null
+                      ? 'text-gray-900'
+                      : summary.change > 0
+                      ? 'text-red-600'
+                      : summary.change < 0
+                      ? 'text-emerald-600'
+                      : 'text-gray-900'
+                  }`}
+                >
+                  {summary?.change == null ? (
+                    '—'
+                  ) : (
+                    <>
+                      {summary.change > 0 ? (
+                        <TrendingUp className="h-5 w-5" />
+                      ) : summary.change < 0 ? (
+                        <TrendingDown className="h-5 w-5" />
+                      ) : (
+                        <Minus className="h-5 w-5" />
+                      )}
+                      {summary.change > 0 ? '+' : ''}
+                      {summary.change}%
+                    </>
+                  )}
+                </p>
+                <p className="mt-1 text-xs text-gray-500">Median over the {rangeLabel}</p>
+              </div>
+              <div className="rounded-2xl border border-gray-200 bg-white p-5">
+                <p className="text-sm font-medium text-gray-600">Range</p>
+                <p className="mt-2 text-lg font-bold text-gray-900">
+                  {summary ? `${formatUGX(summary.low)} – ${Math.round(summary.high).toLocaleString('en-UG')}` : '—'}
+                </p>
+                <p className="mt-1 text-xs text-gray-500">Lowest and highest seen</p>
+              </div>
+              <div className="rounded-2xl border border-gray-200 bg-white p-5">
+                <p className="text-sm font-medium text-gray-600">Prices recorded</p>
+                <p className="mt-2 text-2xl font-bold text-gray-900">{summary ? summary.observations.toLocaleString() : 0}</p>
+                <p className="mt-1 text-xs text-gray-500">Listings and confirmed orders</p>
+              </div>
+            </div>
+
+            <div className="mt-6 rounded-2xl border border-gray-200 bg-white p-6">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <h2 className="text-lg font-bold text-gray-900">{crop?.crop_name} price per {unit}</h2>
+                  <p className="text-sm text-gray-600">Median line, middle half of prices and full range</p>
+                </div>
+                <div className="flex items-center gap-4 text-xs text-gray-600">
+                  <span className="flex items-center gap-1.5"><span className="h-0.5 w-4 bg-emerald-700" /> Median</span>
+                  <span className="flex items-center gap-1.5"><span className="h-3 w-4 rounded-sm bg-emerald-300/70" /> 25th–75th</span>
+                  <span className="flex items-center gap-1.5"><span className="h-3 w-4 rounded-sm bg-emerald-100" /> Min–max</span>
+                </div>
+              </div>
+
+              <div className="mt-4">
+                {loadingSeries ? (
+                  <div className="flex h-60 items-center justify-center gap-2 text-gray-600">
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                    Loading prices...
+                  </div>
+                ) : (
+                  <PriceBandChart series={series} bucket={priceBucketFor(range)} unit={unit} />
+                )}
+              </div>
+            </div>
+
+            <div className="mt-6 rounded-2xl border border-gray-200 bg-white">
+              <div className="border-b border-gray-100 p-6">
+                <h2 className="text-lg font-bold text-gray-900">Regional price index</h2>
+                <p className="text-sm text-gray-600">
+                  Each district&apos;s median against the whole market (100). Lower means cheaper to source.
+                </p>
+              </div>
+
+              {districts.length === 0 ? (
+                <p className="p-6 text-sm text-gray-500">No district data for this selection.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                      <tr>
+                        <th className="px-6 py-3">District</th>
+                        <th className="px-6 py-3 text-right">Median</th>
+                        <th className="px-6 py-3 text-right">Min – max</th>
+                        <th className="px-6 py-3 text-right">Prices</th>
+                        <th className="px-6 py-3 text-right">Index</th>
+                        <th className="px-6 py-3" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {districts.map((d) => (
+                        <tr key={d.district} className="hover:bg-gray-50">
+                          <td className="px-6 py-3 font-medium text-gray-900">
+                            <span className="flex items-center gap-1.5">
+                              <MapPin className="h-3.5 w-3.5 text-gray-400" />
+                              {d.district}
+                            </span>
+                          </td>
+                          <td className="px-6 py-3 text-right text-gray-700">{formatUGX(d.median_price)}</td>
+                          <td className="px-6 py-3 text-right text-gray-500">
+                            {Math.round(d.min_price).toLocaleString('en-UG')} – {Math.round(d.max_price).toLocaleString('en-UG')}
+                          </td>
+                          <td className="px-6 py-3 text-right text-gray-500">{d.observations}</td>
+                          <td className="px-6 py-3 text-right">
+                            {d.price_index === null ? (
+                              '—'
+                            ) : (
+                              <span
+                                className={`rounded-full px-2 py-0.5 text-xs font-bold ${
+                                  d.price_index < 100
+                                    ? 'bg-emerald-100 text-emerald-700'
+                                    : d.price_index > 100
+                                    ? 'bg-red-100 text-red-700'
+                                    : 'bg-gray-100 text-gray-700'
+                                }`}
+                              >
+                                {d.price_index}
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-3 text-right">
+                            <Link
+                              href={`/products?search=${encodeURIComponent(`${crop?.crop_name || ''} ${d.district}`)}`}
+                              className="text-xs font-semibold text-emerald-700 hover:text-emerald-800"
+                            >
+                              Find listings
+                            </Link>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
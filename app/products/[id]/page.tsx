@@ -5,10 +5,22 @@ import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import supabase from '@/lib/supabaseClient';
 import Navbar from '@/components/Navbar';
+import { createOrderFromListing } from '@/lib/orders';
+import MessageButton from '@/components/MessageButton';
+import { fetchListingViewCount, trackListingEvents } from '@/lib/listingAnalytics';
+import { perKgLabel } from '@/lib/units';
+import { distanceKm } from '@/lib/geo';
+import { DEFAULT_TRANSPORT_TARIFF, fetchTransportTariff, landedCostLabel, landedPerUnit } from '@/lib/landedCost';
+import {
+  addFavorite,
+  fetchFavoriteIds,
+  importLegacyFavorites,
+  removeFavorite,
+} from '@/lib/favorites';
 import { 
   ArrowLeft, Phone, MessageCircle, MapPin, Calendar, 
   Package, User, Shield, Truck, Star, ChevronRight,
-  CheckCircle, Share2, Heart, AlertCircle, Globe, Eye
+  CheckCircle, Share2, Heart, AlertCircle, Globe, Eye, ShoppingCart, Loader2
 } from 'lucide-react';
 
 interface Product {
@@ -24,6 +36,8 @@ interface Product {
   quantity: number;
   unit: string;
   price_per_unit: number;
+  price_per_kg: number | null;
+  distance_km: number | null;
   available_from: string;
   listed_at: string;
   is_available: boolean;
@@ -103,8 +117,53 @@ export default function ProductDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [similarProducts, setSimilarProducts] = useState<Product[]>([]);
   const [isFavorite, setIsFavorite] = useState(false);
+  const [savingFavorite, setSavingFavorite] = useState(false);
   const [activeTab, setActiveTab] = useState<'details' | 'farmer'>('details');
-  const [views, setViews] = useState(124); // Initial view count
+  const [views, setViews] = useState(0);
+  const [viewer, setViewer] = useState<{
+    id: string;
+    role: string;
+    lat: number | null;
+    lng: number | null;
+  } | null>(null);
+  const [tariff, setTariff] = useState(DEFAULT_TRANSPORT_TARIFF);
+  const [buyQuantity, setBuyQuantity] = useState('');
+  const [placingOrder, setPlacingOrder] = useState(false);
+
+  // Load the signed-in user so buyers can order directly
+  useEffect(() => {
+    let alive = true;
+
+    const loadViewer = async () => {
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth?.user?.id;
+      if (!uid) return;
+
+      const { data: prof } = await supabase
+        .from('accounts_user')
+        .select('role,location_lat,location_lng')
+        .eq('auth_user_id', uid)
+        .maybeSingle();
+
+      if (alive) {
+        setViewer({
+          id: uid,
+          role: prof?.role || 'guest',
+          lat: prof?.location_lat != null ? Number(prof.location_lat) : null,
+          lng: prof?.location_lng != null ? Number(prof.location_lng) : null,
+        });
+      }
+    };
+
+    loadViewer();
+    fetchTransportTariff().then((value) => {
+      if (alive) setTariff(value);
+    });
+
+    return () => {
+      alive = false;
+    };
+  }, []);
 
   // Fetch main product
   useEffect(() => {
@@ -139,6 +198,8 @@ export default function ProductDetailPage() {
         quantity: Number(data.quantity || 0),
         unit: data.unit || 'kg',
         price_per_unit: Number(data.price_per_unit || 0),
+        price_per_kg: data.price_per_kg != null ? Number(data.price_per_kg) : null,
+        distance_km: data.distance_km != null ? Number(data.distance_km) : null,
         available_from: data.available_from,
         listed_at: data.listed_at,
         is_available: Boolean(data.is_available),
@@ -184,6 +245,8 @@ export default function ProductDetailPage() {
           quantity: Number(item.quantity || 0),
           unit: item.unit || 'kg',
           price_per_unit: Number(item.price_per_unit || 0),
+          price_per_kg: item.price_per_kg != null ? Number(item.price_per_kg) : null,
+          distance_km: item.distance_km != null ? Number(item.distance_km) : null,
           available_from: item.available_from,
           listed_at: item.listed_at,
           is_available: Boolean(item.is_available),
@@ -236,6 +299,8 @@ export default function ProductDetailPage() {
               quantity: Number(data.quantity || 0),
               unit: data.unit || 'kg',
               price_per_unit: Number(data.price_per_unit || 0),
+              price_per_kg: data.price_per_kg != null ? Number(data.price_per_kg) : null,
+              distance_km: data.distance_km != null ? Number(data.distance_km) : null,
               available_from: data.available_from,
               listed_at: data.listed_at,
               is_available: Boolean(data.is_available),
@@ -295,6 +360,8 @@ export default function ProductDetailPage() {
               quantity: Number(item.quantity || 0),
               unit: item.unit || 'kg',
               price_per_unit: Number(item.price_per_unit || 0),
+              price_per_kg: item.price_per_kg != null ? Number(item.price_per_kg) : null,
+              distance_km: item.distance_km != null ? Number(item.distance_km) : null,
               available_from: item.available_from,
               listed_at: item.listed_at,
               is_available: Boolean(item.is_available),
@@ -315,13 +382,24 @@ export default function ProductDetailPage() {
     };
   }, [product?.crop_category, product?.id]);
 
-  // Increment view count on page load (simulated)
+  // Record one view per session, then show the stored count
   useEffect(() => {
-    if (product) {
-      // In a real app, you would send this to your backend
-      setViews(prev => prev + 1);
-    }
-  }, [product]);
+    if (!product?.id) return;
+    let alive = true;
+
+    trackListingEvents([product.id], 'view', 'detail');
+
+    const loadViews = async () => {
+      const count = await fetchListingViewCount(product.id);
+      if (alive) setViews(count);
+    };
+
+    loadViews();
+
+    return () => {
+      alive = false;
+    };
+  }, [product?.id]);
 
   const handleCallFarmer = () => {
     if (!product?.farmer_phone) return;
@@ -338,6 +416,32 @@ export default function ProductDetailPage() {
     }
   };
 
+  const handleBuy = async () => {
+    if (!product) return;
+
+    if (!viewer) {
+      router.push('/login');
+      return;
+    }
+
+    const quantity = Number(buyQuantity);
+    if (!Number.isFinite(quantity) || quantity <= 0 || quantity > product.quantity) {
+      alert(`Enter a quantity between 1 and ${product.quantity} ${product.unit}.`);
+      return;
+    }
+
+    setPlacingOrder(true);
+    const { order, error: orderError } = await createOrderFromListing(product.id, quantity);
+    setPlacingOrder(false);
+
+    if (orderError || !order) {
+      alert(orderError || 'Failed to place order.');
+      return;
+    }
+
+    router.push(`/orders/${order.id}`);
+  };
+
   const handleShare = () => {
     if (navigator.share) {
       navigator.share({
@@ -351,23 +455,45 @@ export default function ProductDetailPage() {
     }
   };
 
-  // Check if product is in favorites (from localStorage for now)
+  // Saved listings are stored per user so they follow them across devices
   useEffect(() => {
-    if (!product) return;
-    const favorites = JSON.parse(localStorage.getItem('favorites') || '[]');
-    setIsFavorite(favorites.includes(product.id));
-  }, [product]);
+    if (!viewer?.id || !product?.id) return;
+    let alive = true;
 
-  const handleToggleFavorite = () => {
+    const loadFavorite = async () => {
+      await importLegacyFavorites(viewer.id);
+      const ids = await fetchFavoriteIds(viewer.id);
+      if (alive) setIsFavorite(ids.has(product.id));
+    };
+
+    loadFavorite();
+
+    return () => {
+      alive = false;
+    };
+  }, [viewer?.id, product?.id]);
+
+  const handleToggleFavorite = async () => {
     if (!product) return;
-    
-    const favorites = JSON.parse(localStorage.getItem('favorites') || '[]');
-    const newFavorites = isFavorite 
-      ? favorites.filter((favId: string) => favId !== product.id)
-      : [...favorites, product.id];
-    
-    localStorage.setItem('favorites', JSON.stringify(newFavorites));
-    setIsFavorite(!isFavorite);
+
+    if (!viewer) {
+      router.push('/login');
+      return;
+    }
+
+    setSavingFavorite(true);
+    const next = !isFavorite;
+    const { error } = next
+      ? await addFavorite(viewer.id, product)
+      : await removeFavorite(viewer.id, product.id);
+    setSavingFavorite(false);
+
+    if (error) {
+      alert(error);
+      return;
+    }
+
+    setIsFavorite(next);
   };
 
   if (loading) {
@@ -428,6 +554,20 @@ export default function ProductDetailPage() {
   const category = categoryIcons[product.crop_category] || categoryIcons.other;
   const imageUrl = product.photo || getPlaceholderImage(product.crop_category);
   const isAvailable = product.is_available && product.quantity > 0;
+  // From the viewer's saved location when both ends are known, else the listing's own figure
+  const deliveryKm =
+    viewer?.lat != null && viewer.lng != null && product.location_lat != null && product.location_lng != null
+      ? distanceKm(viewer.lat, viewer.lng, Number(product.location_lat), Number(product.location_lng))
+      : product.distance_km;
+  const landedLabel = landedCostLabel(
+    landedPerUnit({
+      pricePerUnit: product.price_per_unit,
+      pricePerKg: product.price_per_kg,
+      distanceKm: deliveryKm,
+      tariff,
+    }),
+    product.unit
+  );
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -470,7 +610,9 @@ export default function ProductDetailPage() {
                 <div className="flex items-center gap-2">
                   <button
                     onClick={handleToggleFavorite}
-                    className={`p-2 rounded-lg ${isFavorite ? 'text-red-500' : 'text-gray-400 hover:text-gray-600'}`}
+                    disabled={savingFavorite}
+                    title={isFavorite ? 'Remove from saved' : 'Save listing'}
+                    className={`p-2 rounded-lg disabled:opacity-60 ${isFavorite ? 'text-red-500' : 'text-gray-400 hover:text-gray-600'}`}
                   >
                     <Heart className={`w-5 h-5 ${isFavorite ? 'fill-current' : ''}`} />
                   </button>
@@ -483,7 +625,7 @@ export default function ProductDetailPage() {
                 </div>
                 <div className="flex items-center gap-2 text-sm text-gray-500">
                   <Eye className="w-4 h-4" />
-                  <span>{views} views</span>
+                  <span>{views.toLocaleString()} {views === 1 ? 'view' : 'views'}</span>
                 </div>
               </div>
             </div>
@@ -514,6 +656,18 @@ export default function ProductDetailPage() {
                 </span>
                 <span className="text-gray-500">/ {product.unit}</span>
               </div>
+              {perKgLabel(product.price_per_kg, product.unit) && (
+                <p className="mt-1 text-sm text-gray-500">{perKgLabel(product.price_per_kg, product.unit)}</p>
+              )}
+              {landedLabel && deliveryKm != null && (
+                <p className="mt-1 flex items-center gap-1.5 text-sm font-semibold text-sky-700">
+                  <Truck className="w-4 h-4" />
+                  {landedLabel}
+                  <span className="font-normal text-gray-500">
+                    incl. ~{deliveryKm.toFixed(0)} km at UGX {tariff.toLocaleString('en-US')}/kg/km
+                  </span>
+                </p>
+              )}
             </div>
 
             {/* Stock & Availability */}
@@ -657,6 +811,29 @@ export default function ProductDetailPage() {
 
             {/* Contact Buttons */}
             <div className="sticky bottom-6 lg:static bg-white rounded-2xl p-4 shadow-lg lg:shadow">
+              {isAvailable && (!viewer || viewer.role === 'buyer') && viewer?.id !== product.farmer_id && (
+                <div className="mb-3 flex flex-col sm:flex-row gap-3">
+                  <div className="relative flex-1">
+                    <input
+                      value={buyQuantity}
+                      onChange={(e) => setBuyQuantity(e.target.value)}
+                      inputMode="decimal"
+                      placeholder={`Quantity (max ${product.quantity})`}
+                      className="w-full rounded-xl border border-gray-300 py-3 pl-4 pr-14 outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
+                    />
+                    <span className="absolute right-4 top-3 text-sm text-gray-500">{product.unit}</span>
+                  </div>
+                  <button
+                    onClick={handleBuy}
+                    disabled={placingOrder}
+                    className="flex-1 bg-gray-900 text-white py-3 px-4 rounded-xl font-semibold hover:bg-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                  >
+                    {placingOrder ? <Loader2 className="w-5 h-5 animate-spin" /> : <ShoppingCart className="w-5 h-5" />}
+                    {viewer ? `Buy${Number(buyQuantity) > 0 ? ` • ${formatPrice(Number(buyQuantity) * product.price_per_unit)}` : ''}` : 'Sign in to buy'}
+                  </button>
+                </div>
+              )}
+
               <div className="flex flex-col sm:flex-row gap-3">
                 <button
                   onClick={handleCallFarmer}
@@ -675,6 +852,15 @@ export default function ProductDetailPage() {
                   WhatsApp
                 </button>
               </div>
+
+              {product.farmer_id && viewer?.id !== product.farmer_id && (
+                <MessageButton
+                  subjectType="listing"
+                  subjectId={product.id}
+                  label="Message farmer in app"
+                  className="mt-3 w-full border border-gray-300 text-gray-800 py-3 px-4 rounded-xl font-semibold hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                />
+              )}
               
               {!isAvailable && (
                 <p className="text-sm text-red-600 text-center mt-2">
@@ -1,9 +1,23 @@
 'use client';
 
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Navbar from '@/components/Navbar';
 import supabase from '@/lib/supabaseClient';
+import { trackListingEvents } from '@/lib/listingAnalytics';
+import { perKgLabel } from '@/lib/units';
+import { DEFAULT_TRANSPORT_TARIFF, fetchTransportTariff, landedCostLabel, landedPerUnit } from '@/lib/landedCost';
+import {
+  defaultListingSort,
+  fetchListingCategoryCounts,
+  fetchListingsPage,
+  filtersFromParams,
+  filtersToParams,
+  listingSortOptions,
+  type ListingCursor,
+  type ListingFilters,
+  type ListingSort,
+} from '@/lib/browseListings';
 import {
   Search,
   Filter,
@@ -40,6 +54,7 @@ type FarmProduce = {
   quantity: number;
   unit: string;
   price_per_unit: number;
+  price_per_kg: number | null;
   distance_km: number | null;
   is_available: boolean;
   listed_at: string;
@@ -64,6 +79,7 @@ type FarmProduceRow = {
   quantity: number | string | null;
   unit: string | null;
   price_per_unit: number | string | null;
+  price_per_kg: number | string | null;
   distance_km: number | string | null;
   is_available: boolean | null;
   listed_at: string | null;
@@ -73,7 +89,6 @@ type FarmProduceRow = {
   available_from: string | null;
   total_price: number | string | null;
   category_id: number | null;
-  category: Category[] | Category | null;
 };
 
 type CategoryCount = {
@@ -82,7 +97,7 @@ type CategoryCount = {
   count: number;
 };
 
-const PAGE_SIZE = 60;
+const qualityOptions = ['top', 'standard', 'fair'];
 
 // Utility functions
 const categoryImageFallback = (category?: string | null): string => {
@@ -140,26 +155,7 @@ const safeNumber = (v: unknown, fallback = 0): number => {
   return Number.isFinite(n) ? n : fallback;
 };
 
-const normalizeCategory = (input?: Category[] | Category | null): Category | null => {
-  if (!input) return null;
-  
-  // If it's already a Category object (has id and name)
-  if (typeof input === 'object' && 'id' in input && 'name' in input) {
-    return input as Category;
-  }
-  
-  // If it's an array, take the first item if it exists
-  if (Array.isArray(input) && input.length > 0) {
-    const first = input[0];
-    if (first && typeof first === 'object' && 'id' in first && 'name' in first) {
-      return first as Category;
-    }
-  }
-  
-  return null;
-};
-
-const normalizeProduct = (row: FarmProduceRow): FarmProduce => ({
+const normalizeProduct = (row: FarmProduceRow, category: Category | null): FarmProduce => ({
   id: row.id,
   farmer_id: row.farmer_id ?? null,
   farmer_name: row.farmer_name ?? '',
@@ -170,6 +166,7 @@ const normalizeProduct = (row: FarmProduceRow): FarmProduce => ({
   quantity: safeNumber(row.quantity),
   unit: row.unit ?? '',
   price_per_unit: safeNumber(row.price_per_unit),
+  price_per_kg: row.price_per_kg === null || row.price_per_kg === undefined ? null : safeNumber(row.price_per_kg),
   distance_km:
     row.distance_km === null || row.distance_km === undefined
       ? null
@@ -185,7 +182,7 @@ const normalizeProduct = (row: FarmProduceRow): FarmProduce => ({
       ? null
       : safeNumber(row.total_price),
   category_id: row.category_id ?? null,
-  category: normalizeCategory(row.category),
+  category,
 });
 
 // Custom hook for debounced value
@@ -200,30 +197,68 @@ function useDebouncedValue<T>(value: T, delay = 300): T {
   return debounced;
 }
 
-export default function ProductsPage() {
+function ProductsBrowser() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+
+  // Filters live in the URL so a filtered view can be shared or bookmarked
+  const paramsKey = searchParams.toString();
+  const filters = useMemo(() => filtersFromParams(new URLSearchParams(paramsKey)), [paramsKey]);
 
   // State
   const [products, setProducts] = useState<FarmProduce[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const categoryMapRef = useRef<Map<number, Category>>(new Map());
+  const [categoryCounts, setCategoryCounts] = useState<Map<number | null, number>>(new Map());
 
   const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<ListingCursor | null>(null);
+  const [newListings, setNewListings] = useState(0);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [origin, setOrigin] = useState<{ lat: number; lng: number } | null>(null);
+  const [tariff, setTariff] = useState(DEFAULT_TRANSPORT_TARIFF);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
 
   // Filter state
-  const [search, setSearch] = useState('');
+  const [search, setSearch] = useState(filters.search);
   const debouncedSearch = useDebouncedValue(search, 300);
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [quality, setQuality] = useState<'all' | string>('all');
-  const [maxPrice, setMaxPrice] = useState<number | ''>('');
-  const [sortBy, setSortBy] = useState<
-    'newest' | 'price-low' | 'price-high' | 'distance' | 'name'
-  >('newest');
+  const [maxPrice, setMaxPrice] = useState<number | ''>(filters.maxPrice ?? '');
+  const debouncedMaxPrice = useDebouncedValue(maxPrice, 500);
   const [showFilters, setShowFilters] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
 
+  const updateFilters = useCallback(
+    (patch: Partial<ListingFilters>): void => {
+      const next = { ...filters, ...patch };
+      // A sort left at its default follows the search: best match while searching, newest otherwise
+      if (!patch.sort && filters.sort === defaultListingSort(filters.search)) {
+        next.sort = defaultListingSort(next.search);
+      }
+
+      const query = filtersToParams(next).toString();
+      router.replace(query ? `/products?${query}` : '/products', { scroll: false });
+    },
+    [filters, router]
+  );
+
+  // Typed values reach the URL once they settle. Only a change in what was
+  // typed is pushed, so links and "Clear filters" are not overwritten.
+  const typedRef = useRef({ search: debouncedSearch, maxPrice: debouncedMaxPrice });
+
+  useEffect(() => {
+    const typed = typedRef.current;
+    if (debouncedSearch === typed.search && debouncedMaxPrice === typed.maxPrice) return;
+
+    typedRef.current = { search: debouncedSearch, maxPrice: debouncedMaxPrice };
+    updateFilters({
+      search: debouncedSearch,
+      maxPrice: debouncedMaxPrice === '' || debouncedMaxPrice <= 0 ? null : debouncedMaxPrice,
+    });
+  }, [debouncedSearch, debouncedMaxPrice, updateFilters]);
+
   // Data fetching
   const fetchCategories = useCallback(async (): Promise<void> => {
     const { data, error } = await supabase
@@ -239,86 +274,146 @@ export default function ProductsPage() {
     categoryMapRef.current = new Map(rows.map((c) => [c.id, c]));
   }, []);
 
-  const fetchProducts = useCallback(async (silent = false): Promise<void> => {
-    if (silent) setRefreshing(true);
-    else setLoading(true);
-
-    setError(null);
-
-    try {
-      const { data, error } = await supabase
-        .from('farm_produce')
-        .select(
-          `
-          id,
-          farmer_id,
-          farmer_name,
-          farmer_location,
-          crop_name,
-          variety,
-          quality,
-          quantity,
-          unit,
-          price_per_unit,
-          distance_km,
-          is_available,
-          listed_at,
-          photo,
-          farmer_phone,
-          description,
-          available_from,
-          total_price,
-          category_id,
-          category:category_id (
-            id,
-            name,
-            description,
-            is_active
-          )
-        `
-        )
-        .eq('is_available', true)
-        .order('listed_at', { ascending: false })
-        .limit(PAGE_SIZE);
-
-      if (error) throw error;
-
-      // Normalize each row to match FarmProduce type
-      const normalizedProducts = ((data || []) as FarmProduceRow[]).map(normalizeProduct);
-      setProducts(normalizedProducts);
-    } catch (e: any) {
-      setError(e?.message || 'Failed to load products');
-      console.error('Error loading products:', e);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
+  const toProducts = (rows: FarmProduceRow[]) =>
+    rows.map((row) =>
+      normalizeProduct(row, row.category_id ? categoryMapRef.current.get(row.category_id) || null : null)
+    );
+
+  // Only ask for the viewer's position when sorting by distance or landed cost
+  const wantsOrigin = filters.sort === 'distance' || filters.sort === 'landed-low';
+
+  useEffect(() => {
+    if (!wantsOrigin || origin || !('geolocation' in navigator)) return;
+
+    navigator.geolocation.getCurrentPosition(
+      (pos) => setOrigin({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+      () => {
+        // Without a position the stored distance is used
+      }
+    );
+  }, [wantsOrigin, origin]);
+
+  const sortOrigin = wantsOrigin ? origin : null;
+
+  useEffect(() => {
+    let isMounted = true;
+    fetchTransportTariff().then((value) => {
+      if (isMounted) setTariff(value);
+    });
+    return () => {
+      isMounted = false;
+    };
   }, []);
 
-  // Initial load and real-time subscription
+  const landedLabel = (product: FarmProduce) =>
+    landedCostLabel(
+      landedPerUnit({
+        pricePerUnit: product.price_per_unit,
+        pricePerKg: product.price_per_kg,
+        distanceKm: product.distance_km,
+        tariff,
+      }),
+      product.unit
+    );
+
+  // First page whenever the filters change
   useEffect(() => {
     let isMounted = true;
 
-    const initializeData = async (): Promise<void> => {
-      try {
-        await Promise.all([fetchCategories(), fetchProducts()]);
-      } catch (e) {
-        if (!isMounted) return;
-        console.error('Failed to initialize data:', e);
+    const loadFirstPage = async (): Promise<void> => {
+      setLoading(true);
+      setError(null);
+
+      if (categoryMapRef.current.size === 0) {
+        try {
+          await fetchCategories();
+        } catch (e) {
+          console.error('Failed to load categories:', e);
+        }
       }
+
+      const page = await fetchListingsPage(filters, null, sortOrigin);
+      if (!isMounted) return;
+
+      setProducts(toProducts(page.rows));
+      setCursor(page.nextCursor);
+      setError(page.error);
+      setNewListings(0);
+      setLoading(false);
+      setHasLoaded(true);
+    };
+
+    loadFirstPage();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [filters, sortOrigin, reloadKey, fetchCategories]);
+
+  // Category counts ignore the category filter itself
+  const countsKey = JSON.stringify([filters.search, filters.quality, filters.maxPrice]);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadCounts = async (): Promise<void> => {
+      const counts = await fetchListingCategoryCounts(filters);
+      if (isMounted) setCategoryCounts(counts);
+    };
+
+    loadCounts();
+
+    return () => {
+      isMounted = false;
     };
+    // Keyed on the filters that affect counts, so changing category does not refetch
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [countsKey, reloadKey]);
+
+  const loadMore = useCallback(async (): Promise<void> => {
+    if (!cursor || loadingMore) return;
+
+    setLoadingMore(true);
+    const page = await fetchListingsPage(filters, cursor, sortOrigin);
+
+    if (page.error) {
+      setError(page.error);
+    } else {
+      setProducts((prev) => {
+        const seen = new Set(prev.map((p) => p.id));
+        return [...prev, ...toProducts(page.rows).filter((p) => !seen.has(p.id))];
+      });
+      setCursor(page.nextCursor);
+    }
+
+    setLoadingMore(false);
+  }, [cursor, loadingMore, filters, sortOrigin]);
+
+  // Infinite scroll: fetch the next page as the end of the list comes into view
+  useEffect(() => {
+    const node = sentinelRef.current;
+    if (!node || !cursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) loadMore();
+      },
+      { rootMargin: '400px' }
+    );
 
-    initializeData();
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [cursor, loadMore]);
 
-    // Set up real-time subscription
+  // Live updates: changes to loaded listings apply in place; new listings
+  // are counted and shown on request so the list does not jump while browsing
+  useEffect(() => {
     const channel = supabase
       .channel('products-page-live')
       .on(
         'postgres_changes',
         { event: '*', schema: 'public', table: 'farm_produce' },
-        async (payload) => {
-          if (!isMounted) return;
-
+        (payload) => {
           if (payload.eventType === 'DELETE') {
             const oldRow = payload.old as { id?: string };
             if (!oldRow?.id) return;
@@ -326,180 +421,89 @@ export default function ProductsPage() {
             return;
           }
 
-          const newProduct = payload.new as Partial<FarmProduceRow>;
-          if (!newProduct?.id) return;
+          const row = payload.new as FarmProduceRow;
+          if (!row?.id) return;
 
-          if (!newProduct.is_available) {
-            setProducts((prev) => prev.filter((p) => p.id !== newProduct.id));
+          if (payload.eventType === 'INSERT') {
+            if (row.is_available) setNewListings((n) => n + 1);
             return;
           }
 
-          const categoryData = newProduct.category_id
-            ? categoryMapRef.current.get(newProduct.category_id) || null
-            : null;
-
-          const updatedProduct: FarmProduce = {
-            id: newProduct.id!,
-            farmer_id: newProduct.farmer_id ?? null,
-            farmer_name: newProduct.farmer_name ?? '',
-            farmer_location: newProduct.farmer_location ?? '',
-            crop_name: newProduct.crop_name ?? '',
-            variety: newProduct.variety ?? null,
-            quality: newProduct.quality ?? '',
-            quantity: safeNumber(newProduct.quantity),
-            unit: newProduct.unit ?? '',
-            price_per_unit: safeNumber(newProduct.price_per_unit),
-            distance_km:
-              newProduct.distance_km === null || newProduct.distance_km === undefined
-                ? null
-                : safeNumber(newProduct.distance_km),
-            is_available: Boolean(newProduct.is_available),
-            listed_at: newProduct.listed_at ?? new Date().toISOString(),
-            photo: newProduct.photo ?? null,
-            farmer_phone: newProduct.farmer_phone ?? null,
-            description: newProduct.description ?? null,
-            available_from: newProduct.available_from ?? null,
-            total_price:
-              newProduct.total_price === null || newProduct.total_price === undefined
-                ? null
-                : safeNumber(newProduct.total_price),
-            category_id: newProduct.category_id ?? null,
-            category: categoryData,
-          };
-
-          setProducts((prev) => {
-            const index = prev.findIndex((p) => p.id === updatedProduct.id);
-
-            if (index === -1) {
-              // Add new product and sort
-              const next = [updatedProduct, ...prev];
-              return next
-                .sort(
-                  (a, b) =>
-                    new Date(b.listed_at).getTime() - new Date(a.listed_at).getTime()
-                )
-                .slice(0, PAGE_SIZE);
-            }
-
-            // Update existing product
-            const next = [...prev];
-            next[index] = { ...next[index], ...updatedProduct };
-            return next;
-          });
+          if (!row.is_available) {
+            setProducts((prev) => prev.filter((p) => p.id !== row.id));
+            return;
+          }
+
+          setProducts((prev) =>
+            prev.map((p) =>
+              p.id === row.id
+                ? {
+                    ...toProducts([row])[0],
+                    // Keep the distance from the viewer that the query worked out
+                    distance_km: p.distance_km,
+                  }
+                : p
+            )
+          );
         }
       )
       .subscribe();
 
     return () => {
-      isMounted = false;
       supabase.removeChannel(channel);
     };
-  }, [fetchCategories, fetchProducts]);
+  }, []);
 
   // Memoized values
-  const availableQualities = useMemo((): string[] => {
-    const qualities = new Set<string>();
-    products.forEach((p) => {
-      if (p.quality) qualities.add(p.quality);
-    });
-    return Array.from(qualities).sort();
-  }, [products]);
-
   const categoriesWithCounts = useMemo((): CategoryCount[] => {
-    const counts = new Map<string, number>();
-
-    for (const product of products) {
-      const key = product.category_id ? String(product.category_id) : 'uncategorized';
-      counts.set(key, (counts.get(key) || 0) + 1);
-    }
+    const total = Array.from(categoryCounts.values()).reduce((sum, n) => sum + n, 0);
 
     return [
-      { id: 'all', name: 'All Categories', count: products.length },
+      { id: 'all', name: 'All Categories', count: total },
       ...categories.map((cat) => ({
         id: String(cat.id),
         name: cat.name,
-        count: counts.get(String(cat.id)) || 0,
+        count: categoryCounts.get(cat.id) || 0,
       })),
       {
         id: 'uncategorized',
         name: 'Uncategorized',
-        count: counts.get('uncategorized') || 0,
+        count: categoryCounts.get(null) || 0,
       },
     ];
-  }, [products, categories]);
-
-  const filteredProducts = useMemo((): FarmProduce[] => {
-    const searchTerm = debouncedSearch.trim().toLowerCase();
-
-    const filtered = products.filter((p) => {
-      const crop = (p.crop_name || '').toLowerCase();
-      const farmer = (p.farmer_name || '').toLowerCase();
-      const location = (p.farmer_location || '').toLowerCase();
-      const variety = (p.variety || '').toLowerCase();
-      const description = (p.description || '').toLowerCase();
-      const categoryName = (p.category?.name || '').toLowerCase();
-
-      const matchesSearch =
-        !searchTerm ||
-        crop.includes(searchTerm) ||
-        farmer.includes(searchTerm) ||
-        location.includes(searchTerm) ||
-        categoryName.includes(searchTerm) ||
-        variety.includes(searchTerm) ||
-        description.includes(searchTerm);
-
-      const matchesCategory =
-        selectedCategory === 'all' ||
-        (selectedCategory === 'uncategorized' && !p.category_id) ||
-        String(p.category_id) === selectedCategory;
-
-      const matchesQuality = quality === 'all' || p.quality === quality;
-      const matchesPrice =
-        maxPrice === '' || safeNumber(p.price_per_unit) <= safeNumber(maxPrice);
-
-      return matchesSearch && matchesCategory && matchesQuality && matchesPrice;
-    });
+  }, [categoryCounts, categories]);
 
-    // Sort products
-    return filtered.sort((a, b) => {
-      switch (sortBy) {
-        case 'price-low':
-          return safeNumber(a.price_per_unit) - safeNumber(b.price_per_unit);
-        case 'price-high':
-          return safeNumber(b.price_per_unit) - safeNumber(a.price_per_unit);
-        case 'distance': {
-          const da = a.distance_km === null ? Infinity : safeNumber(a.distance_km);
-          const db = b.distance_km === null ? Infinity : safeNumber(b.distance_km);
-          return da - db;
-        }
-        case 'name':
-          return (a.crop_name || '').localeCompare(b.crop_name || '');
-        default:
-          return new Date(b.listed_at).getTime() - new Date(a.listed_at).getTime();
-      }
-    });
-  }, [products, debouncedSearch, selectedCategory, quality, maxPrice, sortBy]);
+  const matchingCount =
+    categoriesWithCounts.find((c) => c.id === filters.category)?.count ?? products.length;
+
+  // Every listing shown in the grid or list counts as one impression per session
+  const shownIdsKey = products.map((p) => p.id).join(',');
+
+  useEffect(() => {
+    if (!shownIdsKey) return;
+    trackListingEvents(shownIdsKey.split(','), 'impression', 'grid');
+  }, [shownIdsKey]);
 
   const selectedCategoryInfo = useMemo((): { name: string; color: string } => {
-    if (selectedCategory === 'all') {
+    if (filters.category === 'all') {
       return { name: 'All Categories', color: 'bg-emerald-500' };
     }
-    if (selectedCategory === 'uncategorized') {
+    if (filters.category === 'uncategorized') {
       return { name: 'Uncategorized', color: 'bg-gray-500' };
     }
-    const cat = categories.find((c) => String(c.id) === selectedCategory);
+    const cat = categories.find((c) => String(c.id) === filters.category);
     return { name: cat?.name || 'Unknown', color: 'bg-emerald-500' };
-  }, [selectedCategory, categories]);
+  }, [filters.category, categories]);
 
   // Event handlers
   const clearFilters = (): void => {
     setSearch('');
-    setSelectedCategory('all');
-    setQuality('all');
     setMaxPrice('');
-    setSortBy('newest');
+    router.replace('/products', { scroll: false });
   };
 
+  const reload = (): void => setReloadKey((k) => k + 1);
+
   const handleViewProduct = (id: string): void => {
     router.push(`/products/${id}`);
   };
@@ -519,7 +523,8 @@ export default function ProductsPage() {
   };
 
   // Loading state
-  if (loading) {
+  // Full-page loader only on the first load; later filter changes keep the controls mounted
+  if (loading && !hasLoaded) {
     return (
       <div className="min-h-screen bg-gray-50">
         <Navbar />
@@ -550,11 +555,11 @@ export default function ProductsPage() {
 
           <div className="flex items-center gap-2">
             <button
-              onClick={() => fetchProducts(true)}
+              onClick={reload}
               className="inline-flex items-center gap-2 rounded-xl border border-gray-300 bg-white px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50"
-              disabled={refreshing}
+              disabled={loading}
             >
-              <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
               Refresh
             </button>
 
@@ -617,8 +622,8 @@ export default function ProductsPage() {
           {showFilters && (
             <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-2 xl:grid-cols-5">
               <select
-                value={selectedCategory}
-                onChange={(e) => setSelectedCategory(e.target.value)}
+                value={filters.category}
+                onChange={(e) => updateFilters({ category: e.target.value })}
                 className="rounded-2xl border border-gray-300 bg-white px-4 py-3 outline-none focus:border-emerald-500"
                 aria-label="Filter by category"
               >
@@ -630,13 +635,13 @@ export default function ProductsPage() {
               </select>
 
               <select
-                value={quality}
-                onChange={(e) => setQuality(e.target.value)}
+                value={filters.quality}
+                onChange={(e) => updateFilters({ quality: e.target.value })}
                 className="rounded-2xl border border-gray-300 bg-white px-4 py-3 outline-none focus:border-emerald-500"
                 aria-label="Filter by quality"
               >
                 <option value="all">All qualities</option>
-                {availableQualities.map((q) => (
+                {qualityOptions.map((q) => (
                   <option key={q} value={q}>
                     {q}
                   </option>
@@ -656,16 +661,18 @@ export default function ProductsPage() {
               />
 
               <select
-                value={sortBy}
-                onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+                value={filters.sort}
+                onChange={(e) => updateFilters({ sort: e.target.value as ListingSort })}
                 className="rounded-2xl border border-gray-300 bg-white px-4 py-3 outline-none focus:border-emerald-500"
                 aria-label="Sort by"
               >
-                <option value="newest">Newest</option>
-                <option value="price-low">Price: Low to High</option>
-                <option value="price-high">Price: High to Low</option>
-                <option value="distance">Distance</option>
-                <option value="name">Name</option>
+                {listingSortOptions
+                  .filter((o) => o.value !== 'relevance' || filters.search || filters.sort === 'relevance')
+                  .map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
               </select>
 
               <button
@@ -681,10 +688,19 @@ export default function ProductsPage() {
             <span className={`inline-flex h-2.5 w-2.5 rounded-full ${selectedCategoryInfo.color}`} />
             <span>{selectedCategoryInfo.name}</span>
             <span>•</span>
-            <span>{filteredProducts.length} product(s)</span>
+            <span>{matchingCount} product(s)</span>
           </div>
         </div>
 
+        {newListings > 0 && (
+          <button
+            onClick={reload}
+            className="mt-4 w-full rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm font-semibold text-emerald-700 hover:bg-emerald-100"
+          >
+            {newListings} new listing{newListings === 1 ? '' : 's'} since you loaded this page. Show them
+          </button>
+        )}
+
         {/* Error state */}
         {error && (
           <div className="mt-6 rounded-3xl border border-red-200 bg-red-50 p-6 text-red-700 shadow-sm">
@@ -692,8 +708,15 @@ export default function ProductsPage() {
           </div>
         )}
 
+        {loading && (
+          <div className="mt-6 flex items-center justify-center gap-2 text-sm text-gray-600">
+            <Loader2 className="h-4 w-4 animate-spin text-emerald-600" />
+            Updating results...
+          </div>
+        )}
+
         {/* Empty state */}
-        {!error && filteredProducts.length === 0 && (
+        {!loading && !error && products.length === 0 && (
           <div className="mt-6 rounded-3xl border border-gray-200 bg-white p-12 text-center shadow-sm">
             <Package className="mx-auto h-10 w-10 text-gray-300" />
             <h3 className="mt-4 text-lg font-bold text-gray-900">No products found</h3>
@@ -704,9 +727,9 @@ export default function ProductsPage() {
         )}
 
         {/* Products grid view */}
-        {!error && filteredProducts.length > 0 && viewMode === 'grid' && (
+        {!error && products.length > 0 && viewMode === 'grid' && (
           <div className="mt-6 grid grid-cols-1 gap-5 sm:grid-cols-2 xl:grid-cols-3">
-            {filteredProducts.map((product) => (
+            {products.map((product) => (
               <div
                 key={product.id}
                 className="overflow-hidden rounded-3xl border border-gray-200 bg-white text-left shadow-sm transition hover:-translate-y-0.5 hover:shadow-md"
@@ -755,6 +778,12 @@ export default function ProductsPage() {
                         <div className="mt-1 font-bold text-emerald-700">
                           {formatPrice(product.price_per_unit)}
                         </div>
+                        {perKgLabel(product.price_per_kg, product.unit) && (
+                          <div className="text-xs text-gray-500">{perKgLabel(product.price_per_kg, product.unit)}</div>
+                        )}
+                        {landedLabel(product) && (
+                          <div className="text-xs font-semibold text-sky-700">{landedLabel(product)}</div>
+                        )}
                       </div>
 
                       <div className="rounded-2xl bg-gray-50 p-3">
@@ -826,10 +855,10 @@ export default function ProductsPage() {
         )}
 
         {/* Products list view */}
-        {!error && filteredProducts.length > 0 && viewMode === 'list' && (
+        {!error && products.length > 0 && viewMode === 'list' && (
           <div className="mt-6 overflow-hidden rounded-3xl border border-gray-200 bg-white shadow-sm">
             <div className="divide-y divide-gray-100">
-              {filteredProducts.map((product) => (
+              {products.map((product) => (
                 <div
                   key={product.id}
                   className="flex w-full flex-col gap-4 p-4 text-left transition hover:bg-gray-50 md:flex-row"
@@ -878,7 +907,15 @@ export default function ProductsPage() {
                       </div>
 
                       <div className="mt-3 flex flex-wrap gap-x-5 gap-y-2 text-sm text-gray-600">
-                        <span>{formatPrice(product.price_per_unit)}</span>
+                        <span>
+                          {formatPrice(product.price_per_unit)}
+                          {perKgLabel(product.price_per_kg, product.unit) && (
+                            <span className="text-gray-400"> ({perKgLabel(product.price_per_kg, product.unit)})</span>
+                          )}
+                        </span>
+                        {landedLabel(product) && (
+                          <span className="font-semibold text-sky-700">{landedLabel(product)}</span>
+                        )}
                         <span>
                           {safeNumber(product.quantity).toLocaleString()} {product.unit}
                         </span>
@@ -922,7 +959,33 @@ export default function ProductsPage() {
             </div>
           </div>
         )}
+
+        {!error && products.length > 0 && (
+          <div ref={sentinelRef} className="mt-6 flex justify-center">
+            {cursor ? (
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="inline-flex items-center gap-2 rounded-2xl border border-gray-300 bg-white px-5 py-2.5 text-sm font-semibold text-gray-700 hover:bg-gray-50"
+              >
+                {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                {loadingMore ? 'Loading more...' : 'Load more'}
+              </button>
+            ) : (
+              <p className="text-sm text-gray-500">You have reached the end of the list.</p>
+            )}
+          </div>
+        )}
       </main>
     </div>
   );
+}
+
+export default function ProductsPage() {
+  // useSearchParams needs a Suspense boundary above it
+  return (
+    <Suspense fallback={null}>
+      <ProductsBrowser />
+    </Suspense>
+  );
 }
\ No newline at end of file
@@ -40,6 +40,8 @@ import {
 } from 'lucide-react';
 import supabase from '@/lib/supabaseClient';
 import Navbar from '@/components/Navbar';
+import { getOrderStatusTone, type OrderStatus } from '@/lib/orders';
+import { conversionRate, fetchListingAnalytics, type ListingAnalyticsRow } from '@/lib/listingAnalytics';
 
 // -------------------- Types --------------------
 type Role = 'admin' | 'farmer' | 'buyer' | 'logistics' | 'finance' | 'guest';
@@ -91,11 +93,12 @@ type BuyerOrderRow = {
   buyer_name: string;
   farmer_name: string;
   crop_name: string;
-  quantity_kg: number;
-  agreed_price_per_kg: number;
+  quantity: number;
+  price_per_unit: number;
+  unit: string | null;
   distance_km: number | null;
   quality: string;
-  status: 'pending' | 'confirmed' | 'completed' | string;
+  status: OrderStatus;
   created_at: string;
 };
 
@@ -209,6 +212,7 @@ export default function ProfilePage() {
   const [products, setProducts] = useState<FarmProduceRow[]>([]);
   const [farmerProfile, setFarmerProfile] = useState<FarmerProfile | null>(null);
   const [farmerOrders, setFarmerOrders] = useState<BuyerOrderRow[]>([]);
+  const [listingAnalytics, setListingAnalytics] = useState<ListingAnalyticsRow[]>([]);
 
   // Buyer data
   const [buyerOrders, setBuyerOrders] = useState<BuyerOrderRow[]>([]);
@@ -289,8 +293,25 @@ export default function ProfilePage() {
     if (!qty) return 0;
     return totalRevenue / qty;
   }, [products, totalRevenue]);
+  const analyticsTotals = useMemo(
+    () =>
+      listingAnalytics.reduce(
+        (t, row) => ({
+          views: t.views + row.views,
+          impressions: t.impressions + row.impressions,
+          saves: t.saves + row.saves,
+          offers: t.offers + row.offers,
+          orders: t.orders + row.orders,
+        }),
+        { views: 0, impressions: 0, saves: 0, offers: 0, orders: 0 }
+      ),
+    [listingAnalytics]
+  );
   const buyerSpend = useMemo(
-    () => buyerOrders.reduce((s, o) => s + Number(o.quantity_kg || 0) * Number(o.agreed_price_per_kg || 0), 0),
+    () =>
+      buyerOrders
+        .filter((o) => o.status !== 'cancelled')
+        .reduce((s, o) => s + Number(o.quantity || 0) * Number(o.price_per_unit || 0), 0),
     [buyerOrders]
   );
 
@@ -308,6 +329,7 @@ export default function ProfilePage() {
       setProducts([]);
       setBuyerOrders([]);
       setFarmerOrders([]);
+      setListingAnalytics([]);
       setFarmerProfile(null);
       return;
     }
@@ -352,7 +374,8 @@ export default function ProfilePage() {
       const [
         { data: productsData },
         { data: farmerOrdersData },
-        { data: farmerProfileData }
+        { data: farmerProfileData },
+        analyticsData
       ] = await Promise.all([
         supabase
           .from('farm_produce')
@@ -368,11 +391,13 @@ export default function ProfilePage() {
           .from('farmer_profiles')
           .select('*')
           .eq('auth_user_id', authId)
-          .maybeSingle<FarmerProfile>()
+          .maybeSingle<FarmerProfile>(),
+        fetchListingAnalytics()
       ]);
 
       setProducts((productsData || []) as FarmProduceRow[]);
       setFarmerOrders(farmerOrdersData || []);
+      setListingAnalytics(analyticsData);
       
       if (farmerProfileData) {
         setFarmerProfile(farmerProfileData);
@@ -944,21 +969,17 @@ export default function ProfilePage() {
   };
 
   const OrderCard = ({ order }: { order: BuyerOrderRow }) => {
-    const total = Number(order.quantity_kg || 0) * Number(order.agreed_price_per_kg || 0);
-    const badge =
-      order.status === 'pending'
-        ? 'bg-amber-50 text-amber-700 border-amber-200'
-        : order.status === 'confirmed'
-        ? 'bg-blue-50 text-blue-700 border-blue-200'
-        : 'bg-emerald-50 text-emerald-700 border-emerald-200';
+    const total = Number(order.quantity || 0) * Number(order.price_per_unit || 0);
+    const badge = getOrderStatusTone(order.status);
+    const unit = order.unit || 'kg';
 
     return (
-      <div className="rounded-2xl border border-gray-200 bg-white p-6 hover:shadow-lg transition">
+      <Link href={`/orders/${order.id}`} className="block rounded-2xl border border-gray-200 bg-white p-6 hover:shadow-lg transition">
         <div className="flex items-start justify-between gap-4">
           <div className="min-w-0">
             <p className="text-lg font-bold text-gray-900 truncate">{order.crop_name}</p>
             <p className="text-sm text-gray-600">
-              {order.quantity_kg} kg • {formatCurrency(Number(order.agreed_price_per_kg || 0))}/kg
+              {order.quantity} {unit} • {formatCurrency(Number(order.price_per_unit || 0))}/{unit}
             </p>
             <p className="mt-1 text-xs text-gray-500">
               {role === 'buyer' ? `Farmer: ${order.farmer_name}` : `Buyer: ${order.buyer_name}`}
@@ -975,7 +996,7 @@ export default function ProfilePage() {
             <p className="text-xs text-gray-500">Total</p>
           </div>
         </div>
-      </div>
+      </Link>
     );
   };
 
@@ -1764,7 +1785,96 @@ export default function ProfilePage() {
             </>
           )}
 
-          {activeTab === 'analytics' && role !== 'guest' && (
+          {activeTab === 'analytics' && role === 'farmer' && (
+            <>
+              <div className="mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">Listing Analytics</h2>
+                <p className="mt-1 text-gray-600">How buyers find, save and order each of your listings</p>
+              </div>
+
+              <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
+                <StatCard
+                  title="Views"
+                  value={analyticsTotals.views.toLocaleString()}
+                  icon={Eye}
+                  color="blue"
+                  subtitle={`${conversionRate(analyticsTotals.views, analyticsTotals.impressions)}% of ${analyticsTotals.impressions.toLocaleString()} impressions`}
+                />
+                <StatCard
+                  title="Saves"
+                  value={analyticsTotals.saves.toLocaleString()}
+                  icon={Star}
+                  color="amber"
+                  subtitle={`${conversionRate(analyticsTotals.saves, analyticsTotals.views)}% of views`}
+                />
+                <StatCard
+                  title="Offers"
+                  value={analyticsTotals.offers.toLocaleString()}
+                  icon={Tag}
+                  color="purple"
+                  subtitle="Linked to your listings"
+                />
+                <StatCard
+                  title="Orders"
+                  value={analyticsTotals.orders.toLocaleString()}
+                  icon={ShoppingBag}
+                  color="emerald"
+                  subtitle={`${conversionRate(analyticsTotals.orders, analyticsTotals.views)}% view-to-order`}
+                />
+              </div>
+
+              {listingAnalytics.length === 0 ? (
+                <div className="mt-6 rounded-2xl border-2 border-dashed border-gray-300 bg-white p-12 text-center">
+                  <BarChart3 className="h-12 w-12 text-gray-400 mx-auto" />
+                  <h3 className="mt-4 text-xl font-bold text-gray-900">No listing data yet</h3>
+                  <p className="mt-2 text-gray-600">Views, saves and orders appear here once buyers find your listings.</p>
+                </div>
+              ) : (
+                <div className="mt-6 overflow-x-auto rounded-2xl border border-gray-200 bg-white shadow-sm">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                      <tr>
+                        <th className="px-5 py-3">Listing</th>
+                        <th className="px-5 py-3 text-right">Impressions</th>
+                        <th className="px-5 py-3 text-right">Views</th>
+                        <th className="px-5 py-3 text-right">Saves</th>
+                        <th className="px-5 py-3 text-right">Offers</th>
+                        <th className="px-5 py-3 text-right">Orders</th>
+                        <th className="px-5 py-3 text-right">Conversion</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {listingAnalytics.map((row) => (
+                        <tr key={row.produce_id} className="hover:bg-gray-50">
+                          <td className="px-5 py-3">
+                            <Link href={`/products/${row.produce_id}`} className="font-semibold text-gray-900 hover:text-emerald-700">
+                              {row.crop_name}
+                            </Link>
+                            {!row.is_available && <span className="ml-2 text-xs text-gray-500">Unavailable</span>}
+                          </td>
+                          <td className="px-5 py-3 text-right text-gray-700">{row.impressions.toLocaleString()}</td>
+                          <td className="px-5 py-3 text-right text-gray-700">{row.views.toLocaleString()}</td>
+                          <td className="px-5 py-3 text-right text-gray-700">{row.saves.toLocaleString()}</td>
+                          <td className="px-5 py-3 text-right text-gray-700">{row.offers.toLocaleString()}</td>
+                          <td className="px-5 py-3 text-right text-gray-700">
+                            {row.orders.toLocaleString()}
+                            {row.completed_orders > 0 && (
+                              <span className="ml-1 text-xs text-gray-500">({row.completed_orders} completed)</span>
+                            )}
+                          </td>
+                          <td className="px-5 py-3 text-right font-semibold text-emerald-700">
+                            {conversionRate(row.orders, row.views)}%
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+
+          {activeTab === 'analytics' && role !== 'guest' && role !== 'farmer' && (
             <div className="rounded-2xl border border-gray-200 bg-white p-10 text-center">
               <BarChart3 className="h-12 w-12 text-gray-400 mx-auto" />
               <h3 className="mt-4 text-xl font-bold text-gray-900">Analytics</h3>
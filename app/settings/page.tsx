@@ -0,0 +1,217 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import supabase from '@/lib/supabaseClient';
+import Navbar from '@/components/Navbar';
+import {
+  fetchNotificationPreferences,
+  notificationChannelOptions,
+  notificationEventOptions,
+  saveNotificationPreference,
+  type NotificationChannel,
+  type NotificationEventType,
+  type NotificationPreference,
+} from '@/lib/notifications';
+import { AlertCircle, Bell, Loader2, Mail, MessageSquare, Smartphone } from 'lucide-react';
+
+type ContactInfo = {
+  email: string | null;
+  phone_number: string | null;
+};
+
+const channelIcons: Record<NotificationChannel, React.ComponentType<{ className?: string }>> = {
+  in_app: Bell,
+  email: Mail,
+  sms: Smartphone,
+};
+
+export default function SettingsPage() {
+  const router = useRouter();
+
+  const [authId, setAuthId] = useState<string | null>(null);
+  const [contact, setContact] = useState<ContactInfo | null>(null);
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const boot = async () => {
+      setLoading(true);
+
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth?.user?.id ?? null;
+
+      if (!uid) {
+        router.push('/login');
+        return;
+      }
+
+      const [{ data: prof }, prefs] = await Promise.all([
+        supabase.from('accounts_user').select('email,phone_number').eq('auth_user_id', uid).maybeSingle(),
+        fetchNotificationPreferences(uid),
+      ]);
+
+      if (!mounted) return;
+      setAuthId(uid);
+      setContact((prof as ContactInfo | null) ?? { email: auth.user?.email ?? null, phone_number: null });
+      setPreferences(prefs);
+      setLoading(false);
+    };
+
+    boot();
+
+    return () => {
+      mounted = false;
+    };
+  }, [router]);
+
+  async function toggle(eventType: NotificationEventType, channel: NotificationChannel) {
+    if (!authId) return;
+
+    const current = preferences.find((p) => p.event_type === eventType);
+    if (!current) return;
+
+    const next = { ...current, [channel]: !current[channel] };
+    const key = `${eventType}:${channel}`;
+
+    setError(null);
+    setSaving(key);
+    setPreferences((prev) => prev.map((p) => (p.event_type === eventType ? next : p)));
+
+    const { error: saveError } = await saveNotificationPreference(authId, next);
+    setSaving(null);
+
+    if (saveError) {
+      setError(saveError);
+      setPreferences((prev) => prev.map((p) => (p.event_type === eventType ? current : p)));
+    }
+  }
+
+  const wantsSms = preferences.some((p) => p.sms);
+  const wantsEmail = preferences.some((p) => p.email);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="max-w-4xl mx-auto px-4 py-6">
+        <h1 className="text-3xl font-bold tracking-tight text-gray-900">Settings</h1>
+        <p className="mt-1 text-sm text-gray-600">Choose how AgriConnect keeps you in the loop.</p>
+
+        {loading ? (
+          <div className="mt-10 flex items-center gap-2 text-gray-700">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading settings...
+          </div>
+        ) : (
+          <>
+            <section className="mt-6 rounded-[28px] border border-gray-200 bg-white p-5 md:p-6 shadow-sm">
+              <div className="flex items-center gap-2">
+                <MessageSquare className="h-5 w-5 text-emerald-600" />
+                <h2 className="text-lg font-bold text-gray-900">Notifications</h2>
+              </div>
+              <p className="mt-1 text-sm text-gray-600">Changes save as soon as you toggle them.</p>
+
+              {error && (
+                <div className="mt-4 flex items-center gap-2 rounded-xl border border-rose-100 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+                  <AlertCircle className="h-4 w-4" />
+                  {error}
+                </div>
+              )}
+
+              <div className="mt-5 overflow-x-auto">
+                <table className="w-full min-w-[520px] text-sm">
+                  <thead>
+                    <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+                      <th className="pb-3 font-semibold">Event</th>
+                      {notificationChannelOptions.map((channel) => {
+                        const Icon = channelIcons[channel.value];
+                        return (
+                          <th key={channel.value} className="pb-3 text-center font-semibold">
+                            <span className="inline-flex items-center gap-1">
+                              <Icon className="h-3.5 w-3.5" />
+                              {channel.label}
+                            </span>
+                          </th>
+                        );
+                      })}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {notificationEventOptions.map((event) => {
+                      const pref = preferences.find((p) => p.event_type === event.value);
+                      if (!pref) return null;
+
+                      return (
+                        <tr key={event.value}>
+                          <td className="py-4 pr-4">
+                            <p className="font-semibold text-gray-900">{event.label}</p>
+                            <p className="mt-0.5 text-xs text-gray-500">{event.description}</p>
+                          </td>
+                          {notificationChannelOptions.map((channel) => {
+                            const key = `${event.value}:${channel.value}`;
+                            const on = pref[channel.value];
+
+                            return (
+                              <td key={channel.value} className="py-4 text-center">
+                                <button
+                                  role="switch"
+                                  aria-checked={on}
+                                  aria-label={`${event.label} by ${channel.label}`}
+                                  onClick={() => toggle(event.value, channel.value)}
+                                  disabled={saving === key}
+                                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-60 ${
+                                    on ? 'bg-emerald-600' : 'bg-gray-300'
+                                  }`}
+                                >
+                                  <span
+                                    className={`inline-block h-5 w-5 rounded-full bg-white shadow transition-transform ${
+                                      on ? 'translate-x-5' : 'translate-x-0.5'
+                                    }`}
+                                  />
+                                </button>
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section className="mt-6 rounded-[28px] border border-gray-200 bg-white p-5 md:p-6 shadow-sm">
+              <h2 className="text-lg font-bold text-gray-900">Where we reach you</h2>
+              <div className="mt-4 grid gap-3 sm:grid-cols-2">
+                <div className="rounded-2xl bg-gray-50 p-4">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Email</p>
+                  <p className="mt-1 font-medium text-gray-900">{contact?.email || 'Not set'}</p>
+                </div>
+                <div className="rounded-2xl bg-gray-50 p-4">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Phone (SMS)</p>
+                  <p className="mt-1 font-medium text-gray-900">{contact?.phone_number || 'Not set'}</p>
+                </div>
+              </div>
+
+              {((wantsSms && !contact?.phone_number) || (wantsEmail && !contact?.email)) && (
+                <p className="mt-4 rounded-xl border border-amber-100 bg-amber-50 px-4 py-3 text-sm text-amber-700">
+                  Some notifications can&apos;t be delivered until you add the missing contact details on your{' '}
+                  <Link href="/profile" className="font-semibold underline">
+                    profile
+                  </Link>
+                  .
+                </p>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
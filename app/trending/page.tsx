@@ -1,10 +1,24 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import supabase from '@/lib/supabaseClient';
 import Navbar from '@/components/Navbar';
+import {
+  categoryTrends,
+  cropTrends,
+  fallingTrends,
+  fetchCropActivity,
+  formatChange,
+  risingTrends,
+  trendingRangeLabel,
+  trendingRangeOptions,
+  trendingWindows,
+  type Trend,
+  type TrendDirection,
+  type TrendingRange,
+} from '@/lib/trending';
 import { 
   TrendingUp, Clock, Star, Users, Package, DollarSign, 
   MapPin, Calendar, ChevronRight, ArrowRight, Filter, 
@@ -28,22 +42,11 @@ interface Product {
   photo: string | null;
 }
 
-interface CategoryStats {
-  category: string;
-  count: number;
-  icon: string;
-}
-
 interface FarmerStats {
   farmer: string;
   count: number;
 }
 
-interface DemandStats {
-  crop: string;
-  count: number;
-}
-
 const qualityLabels: Record<string, string> = {
   top: 'Premium',
   standard: 'Standard',
@@ -83,147 +86,151 @@ const getCategoryInfo = (category: string) => {
   return categoryData[category] || categoryData.other;
 };
 
+const trendTones: Record<TrendDirection, string> = {
+  rising: 'bg-emerald-100 text-emerald-700',
+  new: 'bg-blue-100 text-blue-700',
+  steady: 'bg-gray-100 text-gray-600',
+  falling: 'bg-red-100 text-red-700',
+};
+
+type ProduceRow = Omit<Product, 'farmer_name' | 'farmer_location' | 'crop_name' | 'crop_category' | 'quality' | 'unit'> & {
+  farmer_name: string | null;
+  farmer_location: string | null;
+  crop_name: string | null;
+  crop_category: string | null;
+  quality: string | null;
+  unit: string | null;
+};
+
+const normalizeProduct = (p: ProduceRow): Product => ({
+  id: p.id,
+  farmer_id: p.farmer_id,
+  farmer_name: p.farmer_name || 'Unknown Farmer',
+  farmer_location: p.farmer_location || 'Uganda',
+  crop_name: p.crop_name || 'Produce',
+  crop_category: (p.crop_category || 'other').toLowerCase(),
+  variety: p.variety,
+  quality: (p.quality || 'standard').toLowerCase(),
+  quantity: Number(p.quantity || 0),
+  unit: p.unit || 'kg',
+  price_per_unit: Number(p.price_per_unit || 0),
+  is_available: Boolean(p.is_available),
+  listed_at: p.listed_at,
+  photo: p.photo,
+});
+
 export default function TrendingPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
   const [newArrivals, setNewArrivals] = useState<Product[]>([]);
   const [premiumProducts, setPremiumProducts] = useState<Product[]>([]);
-  const [topCategories, setTopCategories] = useState<CategoryStats[]>([]);
   const [topFarmers, setTopFarmers] = useState<FarmerStats[]>([]);
-  const [topDemands, setTopDemands] = useState<DemandStats[]>([]);
-  const [topCrops, setTopCrops] = useState<DemandStats[]>([]);
+  const [cropTrendList, setCropTrendList] = useState<Trend[]>([]);
+  const [categoryTrendList, setCategoryTrendList] = useState<Trend[]>([]);
   
   const [activeTab, setActiveTab] = useState<'products' | 'stats'>('products');
-  const [timeRange, setTimeRange] = useState<'24h' | '7d' | '30d'>('7d');
+  const [timeRange, setTimeRange] = useState<TrendingRange>('7d');
+  const [refreshKey, setRefreshKey] = useState(0);
 
   useEffect(() => {
+    let active = true;
+
+    const loadTrendingData = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const windows = trendingWindows(timeRange);
+
+        const [{ data: products }, { data: premium }, currentActivity, previousActivity] = await Promise.all([
+          // Listings posted inside the selected window
+          supabase
+            .from('farm_produce')
+            .select('*')
+            .eq('is_available', true)
+            .gte('listed_at', windows.current.since.toISOString())
+            .order('listed_at', { ascending: false })
+            .limit(200),
+          supabase
+            .from('farm_produce')
+            .select('*')
+            .eq('is_available', true)
+            .eq('quality', 'top')
+            .order('listed_at', { ascending: false })
+            .limit(8),
+          fetchCropActivity(windows.current.since, windows.current.until),
+          fetchCropActivity(windows.previous.since, windows.previous.until),
+        ]);
+
+        const productList: Product[] = ((products || []) as ProduceRow[]).map(normalizeProduct);
+
+        // Top farmers by listings in the window
+        const farmerCounts: Record<string, number> = {};
+        productList.forEach(p => {
+          const farmer = p.farmer_name;
+          farmerCounts[farmer] = (farmerCounts[farmer] || 0) + 1;
+        });
+
+        const topFarms = Object.entries(farmerCounts)
+          .map(([farmer, count]) => ({ farmer, count }))
+          .sort((a, b) => b.count - a.count)
+          .slice(0, 5);
+
+        if (!active) return;
+
+        setNewArrivals(productList.slice(0, 8));
+        setPremiumProducts(((premium || []) as ProduceRow[]).map(normalizeProduct));
+        setTopFarmers(topFarms);
+        setCropTrendList(cropTrends(currentActivity, previousActivity));
+        setCategoryTrendList(categoryTrends(currentActivity, previousActivity));
+      } catch (err) {
+        if (active) setError('Failed to load trending data');
+        console.error(err);
+      } finally {
+        if (active) setLoading(false);
+      }
+    };
+
     loadTrendingData();
-  }, [timeRange]);
-
-  const loadTrendingData = async () => {
-    setLoading(true);
-    setError(null);
-
-    try {
-      // Load products
-      const { data: products } = await supabase
-        .from('farm_produce')
-        .select('*')
-        .eq('is_available', true)
-        .order('listed_at', { ascending: false })
-        .limit(50);
-
-      const productList: Product[] = (products || []).map(p => ({
-        id: p.id,
-        farmer_id: p.farmer_id,
-        farmer_name: p.farmer_name || 'Unknown Farmer',
-        farmer_location: p.farmer_location || 'Uganda',
-        crop_name: p.crop_name || 'Produce',
-        crop_category: (p.crop_category || 'other').toLowerCase(),
-        variety: p.variety,
-        quality: (p.quality || 'standard').toLowerCase(),
-        quantity: Number(p.quantity || 0),
-        unit: p.unit || 'kg',
-        price_per_unit: Number(p.price_per_unit || 0),
-        is_available: Boolean(p.is_available),
-        listed_at: p.listed_at,
-        photo: p.photo,
-      }));
-
-      // New arrivals (last 7 days)
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      
-      const arrivals = productList
-        .filter(p => new Date(p.listed_at) > sevenDaysAgo)
-        .slice(0, 8);
-
-      // Premium products
-      const premium = productList
-        .filter(p => p.quality === 'top')
-        .slice(0, 8);
-
-      // Top categories
-      const categoryCounts: Record<string, number> = {};
-      productList.forEach(p => {
-        const cat = p.crop_category;
-        categoryCounts[cat] = (categoryCounts[cat] || 0) + 1;
-      });
-
-      const topCats = Object.entries(categoryCounts)
-        .map(([category, count]) => ({
-          category,
-          count,
-          icon: getCategoryInfo(category).icon,
-        }))
-        .sort((a, b) => b.count - a.count)
-        .slice(0, 6);
-
-      // Top farmers
-      const farmerCounts: Record<string, number> = {};
-      productList.forEach(p => {
-        const farmer = p.farmer_name;
-        farmerCounts[farmer] = (farmerCounts[farmer] || 0) + 1;
-      });
-
-      const topFarms = Object.entries(farmerCounts)
-        .map(([farmer, count]) => ({ farmer, count }))
-        .sort((a, b) => b.count - a.count)
-        .slice(0, 5);
-
-      // Top crops
-      const cropCounts: Record<string, number> = {};
-      productList.forEach(p => {
-        const crop = p.crop_name;
-        cropCounts[crop] = (cropCounts[crop] || 0) + 1;
-      });
-
-      const topCropList = Object.entries(cropCounts)
-        .map(([crop, count]) => ({ crop, count }))
-        .sort((a, b) => b.count - a.count)
-        .slice(0, 6);
-
-      // Top demands (if available)
-      const { data: demands } = await supabase
-        .from('buyer_demands')
-        .select('crop_name')
-        .eq('status', 'open')
-        .limit(100);
-
-      const demandCounts: Record<string, number> = {};
-      demands?.forEach(d => {
-        if (d.crop_name) {
-          const crop = d.crop_name;
-          demandCounts[crop] = (demandCounts[crop] || 0) + 1;
-        }
-      });
-
-      const topDemandList = Object.entries(demandCounts)
-        .map(([crop, count]) => ({ crop, count }))
-        .sort((a, b) => b.count - a.count)
-        .slice(0, 6);
-
-      // Set all data
-      setNewArrivals(arrivals);
-      setPremiumProducts(premium);
-      setTopCategories(topCats);
-      setTopFarmers(topFarms);
-      setTopCrops(topCropList);
-      setTopDemands(topDemandList);
-
-    } catch (err) {
-      setError('Failed to load trending data');
-      console.error(err);
-    } finally {
-      setLoading(false);
-    }
-  };
+
+    return () => {
+      active = false;
+    };
+  }, [timeRange, refreshKey]);
 
   const refreshData = () => {
-    loadTrendingData();
+    setRefreshKey((k) => k + 1);
   };
 
+  const rangeLabel = trendingRangeLabel(timeRange).toLowerCase();
+
+  const windowTotals = useMemo(
+    () =>
+      cropTrendList.reduce(
+        (t, c) => ({
+          listings: t.listings + c.current.listings,
+          offers: t.offers + c.current.offers,
+          demands: t.demands + c.current.demands,
+          views: t.views + c.current.views,
+        }),
+        { listings: 0, offers: 0, demands: 0, views: 0 }
+      ),
+    [cropTrendList]
+  );
+
+  const topDemands = useMemo(
+    () =>
+      cropTrendList
+        .filter((c) => c.current.demands > 0)
+        .sort((a, b) => b.current.demands - a.current.demands)
+        .slice(0, 6),
+    [cropTrendList]
+  );
+
+  const rising = useMemo(() => risingTrends(cropTrendList), [cropTrendList]);
+  const falling = useMemo(() => fallingTrends(cropTrendList), [cropTrendList]);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -272,16 +279,22 @@ export default function TrendingPage() {
             </button>
             <select
               value={timeRange}
-              onChange={(e) => setTimeRange(e.target.value as any)}
+              onChange={(e) => setTimeRange(e.target.value as TrendingRange)}
               className="px-4 py-2 border border-gray-200 rounded-lg bg-white"
             >
-              <option value="24h">Last 24 hours</option>
-              <option value="7d">Last 7 days</option>
-              <option value="30d">Last 30 days</option>
+              {trendingRangeOptions.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
             </select>
           </div>
         </div>
 
+        {error && (
+          <div className="mb-6 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
         {/* Tab Navigation */}
         <div className="flex border-b border-gray-200 mb-6">
           <button
@@ -311,7 +324,7 @@ export default function TrendingPage() {
               <div className="flex items-center justify-between mb-4">
                 <div>
                   <h2 className="text-xl font-bold text-gray-900">New Arrivals</h2>
-                  <p className="text-gray-600 text-sm">Fresh listings from farmers</p>
+                  <p className="text-gray-600 text-sm">Listed in the {rangeLabel}</p>
                 </div>
                 <Link
                   href="/products"
@@ -325,7 +338,7 @@ export default function TrendingPage() {
               {newArrivals.length === 0 ? (
                 <div className="bg-white rounded-xl p-8 text-center">
                   <Clock className="w-12 h-12 text-gray-300 mx-auto mb-3" />
-                  <p className="text-gray-600">No new listings in the last 7 days</p>
+                  <p className="text-gray-600">No new listings in the {rangeLabel}</p>
                 </div>
               ) : (
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
@@ -470,27 +483,76 @@ export default function TrendingPage() {
                 </div>
                 <div>
                   <h3 className="text-lg font-bold text-gray-900">Top Categories</h3>
-                  <p className="text-sm text-gray-600">Most listed categories</p>
+                  <p className="text-sm text-gray-600">Most active in the {rangeLabel}, against the period before</p>
                 </div>
               </div>
               
-              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
-                {topCategories.map((cat, index) => (
-                  <div
-                    key={cat.category}
-                    className="bg-gray-50 rounded-xl p-4 hover:bg-gray-100 transition-colors"
-                  >
-                    <div className="text-3xl mb-2">{cat.icon}</div>
-                    <div className="text-sm font-medium text-gray-900 mb-1">
-                      {getCategoryInfo(cat.category).label}
+              {categoryTrendList.length === 0 ? (
+                <p className="text-sm text-gray-600 py-4">No marketplace activity in the {rangeLabel}</p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+                  {categoryTrendList.slice(0, 6).map((cat) => (
+                    <div
+                      key={cat.key}
+                      className="bg-gray-50 rounded-xl p-4 hover:bg-gray-100 transition-colors"
+                    >
+                      <div className="text-3xl mb-2">{getCategoryInfo(cat.category).icon}</div>
+                      <div className="text-sm font-medium text-gray-900 mb-1">
+                        {getCategoryInfo(cat.category).label}
+                      </div>
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-gray-500">{cat.current.listings} listings</span>
+                        <span className={`px-1.5 py-0.5 rounded-full text-xs font-bold ${trendTones[cat.direction]}`}>
+                          {formatChange(cat)}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Rising & Falling */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {[
+                { title: 'Rising Crops', subtitle: 'Biggest gains in activity', list: rising, Icon: TrendingUp, tone: 'bg-emerald-100 text-emerald-600' },
+                { title: 'Falling Crops', subtitle: 'Biggest drops in activity', list: falling, Icon: TrendingDown, tone: 'bg-red-100 text-red-600' },
+              ].map(({ title, subtitle, list, Icon, tone }) => (
+                <div key={title} className="bg-white rounded-2xl p-6 shadow-sm">
+                  <div className="flex items-center gap-2 mb-4">
+                    <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${tone}`}>
+                      <Icon className="w-5 h-5" />
                     </div>
-                    <div className="flex items-center justify-between">
-                      <span className="text-xs text-gray-500">{cat.count} listings</span>
-                      <span className="text-xs font-bold text-gray-700">#{index + 1}</span>
+                    <div>
+                      <h3 className="text-lg font-bold text-gray-900">{title}</h3>
+                      <p className="text-sm text-gray-600">{subtitle}</p>
                     </div>
                   </div>
-                ))}
-              </div>
+
+                  {list.length === 0 ? (
+                    <p className="text-sm text-gray-600 py-4">Nothing moved much in the {rangeLabel}</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {list.map((crop) => (
+                        <div key={crop.key} className="flex items-center justify-between p-3 rounded-lg hover:bg-gray-50">
+                          <div className="flex items-center gap-3">
+                            <span className="text-xl">{getCategoryInfo(crop.category).icon}</span>
+                            <div>
+                              <div className="font-medium text-gray-900">{crop.label}</div>
+                              <div className="text-xs text-gray-500">
+                                {crop.current.listings} listings • {crop.current.offers} offers • {crop.current.demands} demands • {crop.current.views} views
+                              </div>
+                            </div>
+                          </div>
+                          <span className={`px-2 py-1 rounded-full text-xs font-bold ${trendTones[crop.direction]}`}>
+                            {formatChange(crop)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
             </div>
 
             {/* Top Crops & Top Demands */}
@@ -502,14 +564,14 @@ export default function TrendingPage() {
                   </div>
                   <div>
                     <h3 className="text-lg font-bold text-gray-900">Top Crops</h3>
-                    <p className="text-sm text-gray-600">Most listed crops</p>
+                    <p className="text-sm text-gray-600">Listings, offers, demands and views combined</p>
                   </div>
                 </div>
                 
                 <div className="space-y-3">
-                  {topCrops.map((crop, index) => (
+                  {cropTrendList.slice(0, 6).map((crop, index) => (
                     <div
-                      key={crop.crop}
+                      key={crop.key}
                       className="flex items-center justify-between p-3 rounded-lg hover:bg-gray-50"
                     >
                       <div className="flex items-center gap-3">
@@ -517,13 +579,15 @@ export default function TrendingPage() {
                           {index + 1}
                         </div>
                         <div>
-                          <div className="font-medium text-gray-900">{crop.crop}</div>
-                          <div className="text-xs text-gray-500">{crop.count} listings</div>
+                          <div className="font-medium text-gray-900">{crop.label}</div>
+                          <div className="text-xs text-gray-500">
+                            {crop.current.listings} listings • {crop.current.offers} offers
+                          </div>
                         </div>
                       </div>
-                      <div className="text-xs font-bold text-gray-700">
-                        {Math.round((crop.count / (topCrops[0]?.count || 1)) * 100)}%
-                      </div>
+                      <span className={`px-2 py-1 rounded-full text-xs font-bold ${trendTones[crop.direction]}`}>
+                        {formatChange(crop)}
+                      </span>
                     </div>
                   ))}
                 </div>
@@ -549,7 +613,7 @@ export default function TrendingPage() {
                   <div className="space-y-3">
                     {topDemands.map((demand, index) => (
                       <div
-                        key={demand.crop}
+                        key={demand.key}
                         className="flex items-center justify-between p-3 rounded-lg hover:bg-gray-50"
                       >
                         <div className="flex items-center gap-3">
@@ -557,8 +621,10 @@ export default function TrendingPage() {
                             <Target className="w-4 h-4" />
                           </div>
                           <div>
-                            <div className="font-medium text-gray-900">{demand.crop}</div>
-                            <div className="text-xs text-gray-500">{demand.count} requests</div>
+                            <div className="font-medium text-gray-900">{demand.label}</div>
+                            <div className="text-xs text-gray-500">
+                              {demand.current.demands} requests (was {demand.previous.demands})
+                            </div>
                           </div>
                         </div>
                         <div className="text-xs font-bold text-purple-700">
@@ -579,7 +645,7 @@ export default function TrendingPage() {
                 </div>
                 <div>
                   <h3 className="text-lg font-bold text-gray-900">Top Farmers</h3>
-                  <p className="text-sm text-gray-600">Most active sellers</p>
+                  <p className="text-sm text-gray-600">Most listings in the {rangeLabel}</p>
                 </div>
               </div>
               
@@ -602,7 +668,7 @@ export default function TrendingPage() {
                       </div>
                       <div>
                         <div className="font-bold text-gray-900">{farmer.farmer}</div>
-                        <div className="text-xs text-gray-500">{farmer.count} active listings</div>
+                        <div className="text-xs text-gray-500">{farmer.count} new listings</div>
                       </div>
                     </div>
                     <div className="text-emerald-600 font-bold">
@@ -624,7 +690,7 @@ export default function TrendingPage() {
                 <h3 className="text-xl font-bold">Market Insights</h3>
               </div>
               <p className="text-gray-300 max-w-2xl">
-                Based on analysis of {newArrivals.length + premiumProducts.length} listings from the last {timeRange === '24h' ? '24 hours' : timeRange === '7d' ? '7 days' : '30 days'}
+                Based on {windowTotals.listings} listings, {windowTotals.offers} offers, {windowTotals.demands} demands and {windowTotals.views} views in the {rangeLabel}, compared with the period before it
               </p>
               <div className="flex flex-wrap gap-4 mt-4">
                 <div className="flex items-center gap-2">
@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, type ReactNode } from 'react';
+import { MapContainer, TileLayer, useMap } from 'react-leaflet';
+
+export type BaseMapProps = {
+  center: [number, number];
+  zoom: number;
+  children?: ReactNode;
+};
+
+function ResizeFix() {
+  const map = useMap();
+
+  // IMPORTANT: force Leaflet to recalc size (fixes blank/grey areas in flex layouts)
+  useEffect(() => {
+    setTimeout(() => {
+      try {
+        map.invalidateSize();
+      } catch {}
+    }, 200);
+  }, [map]);
+
+  return null;
+}
+
+/**
+ * The Leaflet map the discover and route maps draw on. Leaflet needs
+ * `window`, so only render it from a component loaded with next/dynamic and
+ * ssr: false.
+ *
+ * Fixes:
+ * - Grey / blank map tiles in production: uses CARTO tiles (more reliable than default OSM)
+ * - Next.js layout resize issues: calls invalidateSize on mount
+ */
+export default function BaseMap({ center, zoom, children }: BaseMapProps) {
+  return (
+    <MapContainer center={center} zoom={zoom} className="h-full w-full" preferCanvas={true}>
+      <ResizeFix />
+
+      <TileLayer
+        attribution='&copy; OpenStreetMap contributors &copy; CARTO'
+        url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
+      />
+
+      {children}
+    </MapContainer>
+  );
+}
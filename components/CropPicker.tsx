@@ -0,0 +1,109 @@
+'use client';
+
+import {
+  cropsInCategory,
+  varietiesOfCrop,
+  type CatalogSelection,
+  type ProduceCatalog,
+  type ProduceCrop,
+} from '@/lib/produceCatalog';
+
+const selectClass =
+  'w-full rounded-2xl border border-gray-300 px-4 py-3 bg-white outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500 disabled:bg-gray-50 disabled:text-gray-400';
+
+/**
+ * Category, crop and variety selects that narrow each other. Renders three
+ * grid cells so it drops into the two-column listing and demand forms.
+ * `onChange` gets the picked crop too, so the form can default its unit.
+ */
+export default function CropPicker({
+  catalog,
+  value,
+  onChange,
+}: {
+  catalog: ProduceCatalog;
+  value: CatalogSelection;
+  onChange: (next: CatalogSelection, crop: ProduceCrop | null) => void;
+}) {
+  const crops = cropsInCategory(catalog, value.category_id);
+  const varieties = varietiesOfCrop(catalog, value.crop_id);
+
+  function pickCategory(categoryId: string) {
+    const current = catalog.crops.find((c) => String(c.id) === value.crop_id) ?? null;
+    const keepCrop = !!current && (!categoryId || String(current.category_id) === categoryId);
+
+    onChange(
+      {
+        category_id: categoryId,
+        crop_id: keepCrop ? value.crop_id : '',
+        variety_id: keepCrop ? value.variety_id : '',
+      },
+      keepCrop ? current : null
+    );
+  }
+
+  function pickCrop(cropId: string) {
+    const crop = catalog.crops.find((c) => String(c.id) === cropId) ?? null;
+
+    onChange(
+      {
+        category_id: crop ? String(crop.category_id) : value.category_id,
+        crop_id: cropId,
+        variety_id: '',
+      },
+      crop
+    );
+  }
+
+  function pickVariety(varietyId: string) {
+    onChange(
+      { ...value, variety_id: varietyId },
+      catalog.crops.find((c) => String(c.id) === value.crop_id) ?? null
+    );
+  }
+
+  return (
+    <>
+      <label className="block">
+        <div className="text-sm font-semibold text-gray-800 mb-2">Category</div>
+        <select value={value.category_id} onChange={(e) => pickCategory(e.target.value)} className={selectClass}>
+          <option value="">All categories</option>
+          {catalog.categories.map((item) => (
+            <option key={item.id} value={String(item.id)}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block">
+        <div className="text-sm font-semibold text-gray-800 mb-2">Crop *</div>
+        <select value={value.crop_id} onChange={(e) => pickCrop(e.target.value)} className={selectClass}>
+          <option value="">Select crop</option>
+          {crops.map((item) => (
+            <option key={item.id} value={String(item.id)}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block">
+        <div className="text-sm font-semibold text-gray-800 mb-2">Variety</div>
+        <select
+          value={value.variety_id}
+          onChange={(e) => pickVariety(e.target.value)}
+          disabled={varieties.length === 0}
+          className={selectClass}
+        >
+          <option value="">{value.crop_id && varieties.length === 0 ? 'No varieties listed' : 'Any variety'}</option>
+          {varieties.map((item) => (
+            <option key={item.id} value={String(item.id)}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+      </label>
+    </>
+  );
+}
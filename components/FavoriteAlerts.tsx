@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Heart, X } from 'lucide-react';
+import { supabase } from '@/lib/supabaseClient';
+import {
+  favoriteChangeAlerts,
+  fetchFavorites,
+  type FavoriteAlert,
+  type FavoriteListingSnapshot,
+} from '@/lib/favorites';
+
+const MAX_VISIBLE_ALERTS = 4;
+
+type ShownAlert = FavoriteAlert & { key: string };
+
+/**
+ * Watches the signed-in user's saved listings on farm_produce and pops an
+ * alert when one gets cheaper, changes quantity or stops being available.
+ */
+export default function FavoriteAlerts({ userId }: { userId: string }) {
+  const [watchedIds, setWatchedIds] = useState<string[]>([]);
+  const [alerts, setAlerts] = useState<ShownAlert[]>([]);
+  const snapshots = useRef(new Map<string, FavoriteListingSnapshot>());
+
+  // Saved set, kept fresh when it changes on another tab or device
+  useEffect(() => {
+    let mounted = true;
+
+    const load = async () => {
+      const favorites = await fetchFavorites(userId);
+      if (!mounted) return;
+
+      const next = new Map<string, FavoriteListingSnapshot>();
+      favorites.forEach((f) => {
+        if (f.produce) next.set(f.produce_id, f.produce);
+      });
+      snapshots.current = next;
+      setWatchedIds(Array.from(next.keys()).sort());
+    };
+
+    load();
+
+    const channel = supabase
+      .channel(`favorites-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'listing_favorites', filter: `user_id=eq.${userId}` },
+        () => {
+          load();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      mounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const watchedKey = watchedIds.join(',');
+
+  useEffect(() => {
+    if (!watchedKey) return;
+
+    const push = (found: FavoriteAlert[]) => {
+      if (found.length === 0) return;
+      const stamped = found.map((a) => ({ ...a, key: `${a.produceId}-${a.kind}-${Date.now()}` }));
+      setAlerts((prev) => [...stamped, ...prev].slice(0, MAX_VISIBLE_ALERTS));
+    };
+
+    const channel = supabase
+      .channel(`favorite-listings-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'farm_produce', filter: `id=in.(${watchedKey})` },
+        (payload) => {
+          const next = payload.new as FavoriteListingSnapshot;
+          const previous = snapshots.current.get(next.id);
+          if (!previous) return;
+
+          snapshots.current.set(next.id, { ...previous, ...next });
+          push(favoriteChangeAlerts(previous, { ...previous, ...next }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'farm_produce', filter: `id=in.(${watchedKey})` },
+        (payload) => {
+          const id = (payload.old as { id?: string }).id;
+          const previous = id ? snapshots.current.get(id) : undefined;
+          if (!previous) return;
+
+          snapshots.current.delete(previous.id);
+          push([{ produceId: previous.id, kind: 'unavailable', message: `${previous.crop_name} was removed by the farmer` }]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, watchedKey]);
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex w-80 max-w-[calc(100vw-2rem)] flex-col gap-2">
+      {alerts.map((alert) => (
+        <div
+          key={alert.key}
+          className="flex items-start gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-xl"
+        >
+          <Heart className="mt-0.5 h-4 w-4 shrink-0 fill-current text-rose-500" />
+          <div className="min-w-0 flex-1">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Saved listing</p>
+            <p className="mt-0.5 text-sm text-slate-900">{alert.message}</p>
+            <Link
+              href={alert.kind === 'unavailable' ? '/favorites' : `/products/${alert.produceId}`}
+              onClick={() => setAlerts((prev) => prev.filter((a) => a.key !== alert.key))}
+              className="mt-1 inline-block text-xs font-semibold text-emerald-700 hover:text-emerald-800"
+            >
+              {alert.kind === 'unavailable' ? 'View saved listings' : 'View listing'}
+            </Link>
+          </div>
+          <button
+            onClick={() => setAlerts((prev) => prev.filter((a) => a.key !== alert.key))}
+            className="text-slate-400 hover:text-slate-700"
+            aria-label="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { Camera, KeyRound, Loader2, MapPin } from 'lucide-react';
+import { confirmHandover, currentPosition } from '@/lib/proofOfDelivery';
+import type { MarketMatch } from '@/lib/orders';
+
+/**
+ * What the farmer or driver fills in at the buyer's gate: the buyer's code,
+ * a photo of the produce handed over, and the phone's position if it will
+ * share it.
+ */
+export default function HandoverForm({
+  matchId,
+  onConfirmed,
+  className,
+}: {
+  matchId: string;
+  onConfirmed: (order: MarketMatch) => void | Promise<void>;
+  className?: string;
+}) {
+  const [code, setCode] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit() {
+    if (!/^\d{6}$/.test(code.replace(/\s/g, ''))) {
+      setError('Enter the 6-digit code from the buyer.');
+      return;
+    }
+    if (!photo) {
+      setError('Take a photo of the produce at handover.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const position = await currentPosition();
+    const { order, error: handoverError } = await confirmHandover({ matchId, code, photo, position });
+
+    setSaving(false);
+
+    if (handoverError || !order) {
+      setError(handoverError || 'Could not confirm the handover.');
+      return;
+    }
+
+    setCode('');
+    setPhoto(null);
+    await onConfirmed(order);
+  }
+
+  return (
+    <div className={className || 'rounded-2xl border border-emerald-200 bg-emerald-50/60 p-4'}>
+      <div className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+        <KeyRound className="w-4 h-4 text-emerald-600" />
+        Confirm handover
+      </div>
+      <p className="mt-1 text-xs text-gray-600">
+        Ask the buyer for their delivery code once the produce is with them.
+      </p>
+
+      <div className="mt-3 flex flex-col sm:flex-row gap-2">
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={7}
+          placeholder="Code"
+          className="sm:w-32 rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm tracking-widest outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
+        />
+
+        <label className="flex-1 inline-flex cursor-pointer items-center gap-2 rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 hover:bg-gray-50">
+          <Camera className="w-4 h-4" />
+          <span className="truncate">{photo ? photo.name : 'Photo of the delivery'}</span>
+          <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            className="hidden"
+            onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+          />
+        </label>
+
+        <button
+          onClick={submit}
+          disabled={saving}
+          className="inline-flex items-center justify-center gap-2 rounded-xl bg-emerald-600 px-4 py-2 text-sm font-semibold text-white hover:bg-emerald-700 disabled:opacity-50"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Confirm
+        </button>
+      </div>
+
+      <p className="mt-2 flex items-center gap-1 text-[11px] text-gray-500">
+        <MapPin className="w-3 h-3" />
+        Your location is saved with the photo when your phone allows it.
+      </p>
+
+      {error && <p className="mt-2 text-sm text-rose-600">{error}</p>}
+    </div>
+  );
+}
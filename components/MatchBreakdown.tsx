@@ -0,0 +1,46 @@
+'use client';
+
+import {
+  getMatchScoreTone,
+  matchFactorLabels,
+  matchWeights,
+  type MatchFactor,
+  type MatchResult,
+} from '@/lib/matching';
+
+export function MatchScoreBadge({ score }: { score: number }) {
+  return (
+    <span
+      className={`inline-flex items-center rounded-full border px-2.5 py-1 text-xs font-semibold ${getMatchScoreTone(
+        score
+      )}`}
+    >
+      {score}% match
+    </span>
+  );
+}
+
+export default function MatchBreakdown({ match }: { match: MatchResult }) {
+  return (
+    <div className="space-y-1.5">
+      {(Object.keys(matchWeights) as MatchFactor[]).map((factor) => {
+        const value = Math.round(match.breakdown[factor] * 100);
+
+        return (
+          <div key={factor} className="flex items-center gap-2 text-xs">
+            <span className="w-24 shrink-0 text-slate-500">{matchFactorLabels[factor]}</span>
+            <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-slate-100">
+              <div
+                className={`h-full rounded-full ${
+                  value >= 75 ? 'bg-emerald-500' : value >= 40 ? 'bg-amber-400' : 'bg-rose-400'
+                }`}
+                style={{ width: `${value}%` }}
+              />
+            </div>
+            <span className="w-9 shrink-0 text-right font-medium text-slate-600">{value}%</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, MessagesSquare } from 'lucide-react';
+import { openThread, type ThreadSubjectType } from '@/lib/messages';
+
+export default function MessageButton({
+  subjectType,
+  subjectId,
+  label = 'Message',
+  className,
+}: {
+  subjectType: ThreadSubjectType;
+  subjectId: string;
+  label?: string;
+  className?: string;
+}) {
+  const router = useRouter();
+  const [opening, setOpening] = useState(false);
+
+  async function open() {
+    setOpening(true);
+    const { thread, error } = await openThread(subjectType, subjectId);
+    setOpening(false);
+
+    if (error || !thread) {
+      if (error?.toLowerCase().includes('sign in')) {
+        router.push('/login');
+        return;
+      }
+      alert(error || 'Could not open the conversation.');
+      return;
+    }
+
+    router.push(`/messages/${thread.id}`);
+  }
+
+  return (
+    <button
+      onClick={open}
+      disabled={opening}
+      title={label || 'Send a message'}
+      className={
+        className ||
+        'inline-flex items-center justify-center gap-2 rounded-xl border border-slate-200 bg-white px-4 py-3 text-sm font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-50'
+      }
+    >
+      {opening ? <Loader2 className="h-4 w-4 animate-spin" /> : <MessagesSquare className="h-4 w-4" />}
+      {label}
+    </button>
+  );
+}
@@ -5,6 +5,9 @@ import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabaseClient';
 import type { User } from '@supabase/supabase-js';
+import { fetchUnreadCounts, totalUnread } from '@/lib/messages';
+import NotificationBell from '@/components/NotificationBell';
+import FavoriteAlerts from '@/components/FavoriteAlerts';
 import {
   Menu,
   X,
@@ -26,6 +29,9 @@ import {
   Target,
   Truck,
   Wallet,
+  Send,
+  MessagesSquare,
+  LineChart,
 } from 'lucide-react';
 
 type Role = 'admin' | 'farmer' | 'buyer' | 'logistics' | 'finance' | 'guest' | string;
@@ -63,6 +69,7 @@ export default function Navbar() {
 
   const [showDropdown, setShowDropdown] = useState(false);
   const [scrolled, setScrolled] = useState(false);
+  const [unreadMessages, setUnreadMessages] = useState(0);
 
   const dropdownRef = useRef<HTMLDivElement>(null);
   const mobileMenuRef = useRef<HTMLDivElement>(null);
@@ -223,6 +230,40 @@ export default function Navbar() {
     };
   }, []);
 
+  const authUserId = user?.auth_user_id ?? null;
+
+  useEffect(() => {
+    if (!authUserId) return;
+
+    let mounted = true;
+
+    const refreshUnread = async () => {
+      const counts = await fetchUnreadCounts();
+      if (mounted) setUnreadMessages(totalUnread(counts));
+    };
+
+    refreshUnread();
+
+    // New messages arrive through RLS-filtered realtime; read markers cover
+    // threads opened in this tab or another one.
+    const channel = supabase
+      .channel(`navbar-unread-${authUserId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, refreshUnread)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'message_thread_reads', filter: `user_id=eq.${authUserId}` },
+        refreshUnread
+      )
+      .subscribe();
+
+    return () => {
+      mounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [authUserId]);
+
+  const unreadBadge = authUserId && unreadMessages > 0 ? (unreadMessages > 99 ? '99+' : String(unreadMessages)) : null;
+
   useEffect(() => {
     const onScroll = () => setScrolled(window.scrollY > 8);
     onScroll();
@@ -288,6 +329,7 @@ export default function Navbar() {
         { href: '/', label: 'Home', icon: Home },
         { href: '/marketplace', label: 'Marketplace', icon: Store },
         { href: '/demands', label: 'Buyer Demands', icon: Target },
+        { href: '/prices', label: 'Prices', icon: LineChart },
         { href: '/logistics', label: 'Logistics', icon: Truck },
       ];
     }
@@ -298,6 +340,7 @@ export default function Navbar() {
         { href: '/farmer/dashboard', label: 'Dashboard', icon: LayoutDashboard },
         { href: '/marketplace', label: 'My Produce', icon: Leaf },
         { href: '/demands', label: 'Buyer Demands', icon: Target },
+        { href: '/farmer/offers', label: 'My Offers', icon: Send },
         { href: '/locations', label: 'Locations', icon: MapPin },
       ];
     }
@@ -308,7 +351,8 @@ export default function Navbar() {
         { href: '/buyer/dashboard', label: 'Dashboard', icon: LayoutDashboard },
         { href: '/marketplace', label: 'Marketplace', icon: ShoppingCart },
         { href: '/favorites', label: 'Saved', icon: Heart },
-        { href: '/demands', label: 'My Demands', icon: Target },
+        { href: '/prices', label: 'Prices', icon: LineChart },
+        { href: '/buyer/demands', label: 'My Demands', icon: Target },
       ];
     }
 
@@ -316,9 +360,9 @@ export default function Navbar() {
       return [
         { href: '/', label: 'Home', icon: Home },
         { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
-        { href: '/logistics', label: 'Routes', icon: Truck },
+        { href: '/logistics', label: 'Loads', icon: Compass },
         { href: '/deliveries', label: 'Deliveries', icon: Package },
-        { href: '/marketplace', label: 'Loads', icon: Compass },
+        { href: '/logistics/routes', label: 'Routes', icon: Truck },
       ];
     }
 
@@ -423,6 +467,29 @@ export default function Navbar() {
                 </div>
               ) : null}
 
+              {!loading && authUserId ? <NotificationBell userId={authUserId} /> : null}
+              {!loading && authUserId ? <FavoriteAlerts userId={authUserId} /> : null}
+
+              {!loading && user ? (
+                <Link
+                  href="/messages"
+                  className={cn(
+                    'relative inline-flex h-10 w-10 items-center justify-center rounded-xl border transition-all duration-200',
+                    isActive('/messages')
+                      ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+                      : 'border-slate-200 bg-white text-slate-600 hover:bg-slate-50 hover:text-slate-900'
+                  )}
+                  aria-label="Messages"
+                >
+                  <MessagesSquare className="h-5 w-5" />
+                  {unreadBadge && (
+                    <span className="absolute -right-1.5 -top-1.5 min-w-[20px] rounded-full bg-rose-500 px-1.5 py-0.5 text-center text-[11px] font-bold leading-none text-white">
+                      {unreadBadge}
+                    </span>
+                  )}
+                </Link>
+              ) : null}
+
               {!loading && user ? (
                 <div className="relative hidden md:block" ref={dropdownRef}>
                   <button
@@ -637,6 +704,20 @@ export default function Navbar() {
                     <span className="text-sm font-medium">Profile</span>
                   </Link>
 
+                  <Link
+                    href="/messages"
+                    onClick={closeMobile}
+                    className="flex items-center gap-3 rounded-xl px-3 py-3 text-gray-600 transition-all duration-200 hover:bg-gray-50"
+                  >
+                    <MessagesSquare className="h-5 w-5" />
+                    <span className="flex-1 text-sm font-medium">Messages</span>
+                    {unreadBadge && (
+                      <span className="rounded-full bg-rose-500 px-2 py-0.5 text-xs font-bold text-white">
+                        {unreadBadge}
+                      </span>
+                    )}
+                  </Link>
+
                   <Link
                     href="/settings"
                     onClick={closeMobile}
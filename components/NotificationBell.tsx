@@ -0,0 +1,164 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Bell, CheckCheck, Settings } from 'lucide-react';
+import { supabase } from '@/lib/supabaseClient';
+import {
+  fetchNotifications,
+  fetchUnreadNotificationCount,
+  markAllNotificationsRead,
+  markNotificationRead,
+  type AppNotification,
+} from '@/lib/notifications';
+
+const formatWhen = (value: string) => {
+  const minutes = Math.round((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h ago`;
+  return new Date(value).toLocaleDateString('en-UG', { month: 'short', day: 'numeric' });
+};
+
+export default function NotificationBell({ userId }: { userId: string }) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<AppNotification[]>([]);
+  const [unread, setUnread] = useState(0);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const load = async () => {
+      const [list, count] = await Promise.all([
+        fetchNotifications(userId),
+        fetchUnreadNotificationCount(userId),
+      ]);
+      if (!mounted) return;
+      setItems(list);
+      setUnread(count);
+    };
+
+    load();
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => {
+          load();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      mounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (ref.current && !ref.current.contains(event.target as Node)) setOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  async function openItem(item: AppNotification) {
+    setOpen(false);
+
+    if (!item.read_at) {
+      setItems((prev) => prev.map((n) => (n.id === item.id ? { ...n, read_at: new Date().toISOString() } : n)));
+      setUnread((n) => Math.max(0, n - 1));
+      await markNotificationRead(item.id);
+    }
+
+    if (item.link) router.push(item.link);
+  }
+
+  async function readAll() {
+    setItems((prev) => prev.map((n) => (n.read_at ? n : { ...n, read_at: new Date().toISOString() })));
+    setUnread(0);
+    await markAllNotificationsRead();
+  }
+
+  return (
+    <div className="relative" ref={ref}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className={`relative inline-flex h-10 w-10 items-center justify-center rounded-xl border transition-all duration-200 ${
+          open
+            ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+            : 'border-slate-200 bg-white text-slate-600 hover:bg-slate-50 hover:text-slate-900'
+        }`}
+        aria-label="Notifications"
+      >
+        <Bell className="h-5 w-5" />
+        {unread > 0 && (
+          <span className="absolute -right-1.5 -top-1.5 min-w-[20px] rounded-full bg-rose-500 px-1.5 py-0.5 text-center text-[11px] font-bold leading-none text-white">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-50 mt-3 w-[22rem] max-w-[calc(100vw-2rem)] overflow-hidden rounded-3xl border border-slate-200 bg-white shadow-2xl">
+          <div className="flex items-center justify-between border-b border-slate-100 px-5 py-4">
+            <h3 className="text-sm font-bold text-slate-900">Notifications</h3>
+            <div className="flex items-center gap-3">
+              {unread > 0 && (
+                <button
+                  onClick={readAll}
+                  className="inline-flex items-center gap-1 text-xs font-semibold text-emerald-700 hover:text-emerald-800"
+                >
+                  <CheckCheck className="h-3.5 w-3.5" />
+                  Mark all read
+                </button>
+              )}
+              <Link
+                href="/settings"
+                onClick={() => setOpen(false)}
+                className="text-slate-400 hover:text-slate-700"
+                aria-label="Notification settings"
+              >
+                <Settings className="h-4 w-4" />
+              </Link>
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {items.length === 0 ? (
+              <p className="px-5 py-8 text-center text-sm text-slate-500">You&apos;re all caught up.</p>
+            ) : (
+              items.map((item) => (
+                <button
+                  key={item.id}
+                  onClick={() => openItem(item)}
+                  className={`flex w-full items-start gap-3 border-b border-slate-50 px-5 py-3 text-left hover:bg-slate-50 ${
+                    item.read_at ? '' : 'bg-emerald-50/40'
+                  }`}
+                >
+                  <span
+                    className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${item.read_at ? 'bg-transparent' : 'bg-emerald-500'}`}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className={`text-sm ${item.read_at ? 'text-slate-700' : 'font-semibold text-slate-900'}`}>
+                      {item.title}
+                    </p>
+                    {item.body && <p className="mt-0.5 line-clamp-2 text-xs text-slate-500">{item.body}</p>}
+                    <p className="mt-1 text-[11px] text-slate-400">{formatWhen(item.created_at)}</p>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
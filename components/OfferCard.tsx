@@ -0,0 +1,307 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Check,
+  X,
+  Repeat,
+  Undo2,
+  Loader2,
+  History,
+  ChevronDown,
+  ChevronUp,
+  ShoppingBag,
+} from 'lucide-react';
+
+import {
+  allowedOfferActions,
+  getOfferStatusTone,
+  isOfferOpen,
+  respondToOffer,
+  type DemandOffer,
+  type DemandOfferEvent,
+  type OfferAction,
+  type OfferParty,
+} from '@/lib/offers';
+import { createOrderFromOffer } from '@/lib/orders';
+
+const formatUGX = (n: number) => `UGX ${Number(n || 0).toLocaleString('en-UG')}`;
+
+const formatDateTime = (value: string) => {
+  try {
+    return new Date(value).toLocaleString('en-UG', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  } catch {
+    return value;
+  }
+};
+
+export default function OfferCard({
+  offer,
+  events,
+  party,
+  unit,
+  title,
+  subtitle,
+  onChanged,
+}: {
+  offer: DemandOffer;
+  events: DemandOfferEvent[];
+  party: OfferParty;
+  unit: string;
+  title: string;
+  subtitle?: string;
+  onChanged: () => void | Promise<void>;
+}) {
+  const router = useRouter();
+  const [busy, setBusy] = useState<OfferAction | 'order' | null>(null);
+  const [countering, setCountering] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [counterQuantity, setCounterQuantity] = useState(String(offer.offered_quantity));
+  const [counterPrice, setCounterPrice] = useState(String(offer.offered_price_per_unit));
+  const [note, setNote] = useState('');
+
+  const actions = allowedOfferActions(offer, party);
+  const otherParty = party === 'buyer' ? 'farmer' : 'buyer';
+  const waitingOnOther = isOfferOpen(offer) && !actions.some((a) => a !== 'withdraw');
+
+  async function run(action: OfferAction) {
+    if (action === 'reject' && !confirm('Reject this offer?')) return;
+    if (action === 'withdraw' && !confirm('Withdraw this offer?')) return;
+
+    setBusy(action);
+
+    const { error, orderId } = await respondToOffer({
+      offer,
+      party,
+      action,
+      quantity: Number(counterQuantity),
+      pricePerUnit: Number(counterPrice),
+      note,
+    });
+
+    setBusy(null);
+
+    if (error) {
+      alert(error);
+      return;
+    }
+
+    setCountering(false);
+    setNote('');
+
+    if (orderId) {
+      router.push(`/orders/${orderId}`);
+      return;
+    }
+
+    await onChanged();
+  }
+
+  async function openOrder() {
+    setBusy('order');
+    const { order, error } = await createOrderFromOffer(offer.id);
+    setBusy(null);
+
+    if (error || !order) {
+      alert(error || 'Could not open the order for this offer.');
+      return;
+    }
+
+    router.push(`/orders/${order.id}`);
+  }
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <h4 className="font-bold text-gray-900 line-clamp-1">{title}</h4>
+            <span
+              className={`px-2.5 py-1 rounded-full text-xs font-semibold border ${getOfferStatusTone(
+                offer.status
+              )}`}
+            >
+              {offer.status}
+            </span>
+          </div>
+          {subtitle && <div className="mt-1 text-xs text-gray-500">{subtitle}</div>}
+        </div>
+
+        <div className="text-right shrink-0">
+          <div className="text-sm font-bold text-emerald-700">
+            {formatUGX(offer.offered_price_per_unit)} / {unit}
+          </div>
+          <div className="text-xs text-gray-500">
+            {Number(offer.offered_quantity).toLocaleString()} {unit} •{' '}
+            {formatUGX(offer.offered_quantity * offer.offered_price_per_unit)}
+          </div>
+        </div>
+      </div>
+
+      {waitingOnOther && (
+        <div className="mt-3 rounded-xl bg-gray-50 px-3 py-2 text-xs text-gray-600">
+          Waiting on the {otherParty} to respond.
+        </div>
+      )}
+
+      {countering && (
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <input
+            value={counterQuantity}
+            onChange={(e) => setCounterQuantity(e.target.value)}
+            inputMode="decimal"
+            placeholder={`Quantity (${unit})`}
+            className="w-full rounded-xl border border-gray-300 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
+          />
+          <input
+            value={counterPrice}
+            onChange={(e) => setCounterPrice(e.target.value)}
+            inputMode="decimal"
+            placeholder="Price per unit (UGX)"
+            className="w-full rounded-xl border border-gray-300 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
+          />
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="sm:col-span-2 w-full rounded-xl border border-gray-300 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-200 focus:border-emerald-500"
+          />
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        {actions.includes('accept') && !countering && (
+          <button
+            onClick={() => run('accept')}
+            disabled={!!busy}
+            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-semibold disabled:opacity-50"
+          >
+            {busy === 'accept' ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : (
+              <Check className="w-3.5 h-3.5" />
+            )}
+            Accept
+          </button>
+        )}
+
+        {actions.includes('counter') &&
+          (countering ? (
+            <>
+              <button
+                onClick={() => run('counter')}
+                disabled={!!busy}
+                className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl bg-amber-500 hover:bg-amber-600 text-white text-xs font-semibold disabled:opacity-50"
+              >
+                {busy === 'counter' ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : (
+                  <Repeat className="w-3.5 h-3.5" />
+                )}
+                Send counter
+              </button>
+              <button
+                onClick={() => setCountering(false)}
+                className="px-3 py-2 rounded-xl border border-gray-300 bg-white hover:bg-gray-50 text-xs font-semibold"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setCountering(true)}
+              disabled={!!busy}
+              className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl border border-amber-200 bg-amber-50 text-amber-700 hover:bg-amber-100 text-xs font-semibold disabled:opacity-50"
+            >
+              <Repeat className="w-3.5 h-3.5" />
+              Counter
+            </button>
+          ))}
+
+        {actions.includes('reject') && !countering && (
+          <button
+            onClick={() => run('reject')}
+            disabled={!!busy}
+            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl border border-rose-200 bg-rose-50 text-rose-700 hover:bg-rose-100 text-xs font-semibold disabled:opacity-50"
+          >
+            {busy === 'reject' ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : (
+              <X className="w-3.5 h-3.5" />
+            )}
+            Reject
+          </button>
+        )}
+
+        {actions.includes('withdraw') && !countering && (
+          <button
+            onClick={() => run('withdraw')}
+            disabled={!!busy}
+            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 text-xs font-semibold disabled:opacity-50"
+          >
+            {busy === 'withdraw' ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : (
+              <Undo2 className="w-3.5 h-3.5" />
+            )}
+            Withdraw
+          </button>
+        )}
+
+        {offer.status === 'accepted' && (
+          <button
+            onClick={openOrder}
+            disabled={!!busy}
+            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-semibold disabled:opacity-50"
+          >
+            {busy === 'order' ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            ) : (
+              <ShoppingBag className="w-3.5 h-3.5" />
+            )}
+            View order
+          </button>
+        )}
+
+        <button
+          onClick={() => setShowHistory((v) => !v)}
+          className="ml-auto inline-flex items-center gap-1 text-xs font-semibold text-gray-600 hover:text-gray-900"
+        >
+          <History className="w-3.5 h-3.5" />
+          History ({events.length})
+          {showHistory ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+        </button>
+      </div>
+
+      {showHistory && (
+        <ol className="mt-3 space-y-2 border-l-2 border-gray-100 pl-4">
+          {events.length === 0 ? (
+            <li className="text-xs text-gray-500">No recorded changes yet.</li>
+          ) : (
+            events.map((event) => (
+              <li key={event.id} className="text-xs text-gray-700">
+                <span className="font-semibold capitalize">{event.actor_role}</span>{' '}
+                {event.status === 'sent' ? 'sent the offer' : `marked it ${event.status}`}
+                {event.quantity != null && event.price_per_unit != null && (
+                  <>
+                    {' '}
+                    at {Number(event.quantity).toLocaleString()} {unit} ×{' '}
+                    {formatUGX(event.price_per_unit)}
+                  </>
+                )}
+                <span className="text-gray-400"> • {formatDateTime(event.created_at)}</span>
+                {event.note && <div className="mt-0.5 text-gray-500 italic">“{event.note}”</div>}
+              </li>
+            ))
+          )}
+        </ol>
+      )}
+    </div>
+  );
+}
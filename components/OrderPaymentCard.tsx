@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Lock, Smartphone, Wallet } from 'lucide-react';
+import {
+  canPay,
+  getPaymentStatusLabel,
+  getPaymentStatusTone,
+  payForOrder,
+  type OrderPayment,
+} from '@/lib/payments';
+import type { OrderActorRole } from '@/lib/orders';
+
+const formatUGX = (n: number) => `UGX ${Number(n || 0).toLocaleString('en-UG')}`;
+
+// What each side needs to know about the money at each stage.
+function explain(payment: OrderPayment, role: OrderActorRole) {
+  switch (payment.status) {
+    case 'unpaid':
+      return role === 'buyer'
+        ? 'Pay into escrow from your phone. The farmer is paid only once the delivery is confirmed.'
+        : 'The buyer has not paid yet. It is safest to dispatch once the money is held.';
+    case 'collecting':
+      return role === 'buyer'
+        ? 'Approve the prompt on your phone with your mobile money PIN.'
+        : 'The buyer is approving the payment on their phone.';
+    case 'failed':
+      return payment.failure_reason || 'The payment did not go through.';
+    case 'held':
+      return role === 'buyer'
+        ? 'Your money is held safely. It goes to the farmer when you give your delivery code or complete the order.'
+        : 'The buyer has paid. It is released to you once the delivery is confirmed.';
+    case 'releasing':
+      return payment.failure_reason
+        ? `Paying the farmer: ${payment.failure_reason}.`
+        : 'The delivery is confirmed and the farmer is being paid.';
+    case 'released':
+      return 'The farmer has been paid.';
+    case 'refunding':
+      return payment.failure_reason
+        ? `Refunding the buyer: ${payment.failure_reason}.`
+        : 'The order was cancelled and the buyer is being refunded.';
+    case 'refunded':
+      return 'The order was cancelled and the buyer was refunded.';
+    default:
+      return 'The order closed before any money moved.';
+  }
+}
+
+/**
+ * The escrow for one order: the buyer pays from here, and both sides can see
+ * where the money is.
+ */
+export default function OrderPaymentCard({
+  payment,
+  role,
+  defaultPhone,
+  onChange,
+}: {
+  payment: OrderPayment;
+  role: OrderActorRole;
+  defaultPhone?: string | null;
+  onChange: (payment: OrderPayment) => void | Promise<void>;
+}) {
+  const [phone, setPhone] = useState(defaultPhone || '');
+  const [paying, setPaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function pay() {
+    if (phone.replace(/\D/g, '').length < 9) {
+      setError('Enter the mobile money number to pay from.');
+      return;
+    }
+
+    setPaying(true);
+    setError(null);
+
+    const { payment: updated, error: payError } = await payForOrder(payment.match_id, phone);
+
+    setPaying(false);
+    if (payError) setError(payError);
+    if (updated) await onChange(updated);
+  }
+
+  return (
+    <section className="mt-6 rounded-[28px] border border-gray-200 bg-white p-5 md:p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Wallet className="w-5 h-5 text-emerald-600" />
+          <h2 className="text-lg font-bold text-gray-900">Payment</h2>
+          <span className="text-sm font-semibold text-gray-500">{formatUGX(payment.amount)}</span>
+        </div>
+        <span className={`px-3 py-1 rounded-full text-xs font-semibold border ${getPaymentStatusTone(payment.status)}`}>
+          {getPaymentStatusLabel(payment.status)}
+        </span>
+      </div>
+
+      <p className="mt-2 flex items-start gap-2 text-sm text-gray-600">
+        <Lock className="w-4 h-4 mt-0.5 shrink-0 text-gray-400" />
+        {explain(payment, role)}
+      </p>
+
+      {role === 'buyer' && canPay(payment.status) && (
+        <div className="mt-4 flex flex-col sm:flex-row gap-2">
+          <label className="flex-1 inline-flex items-center gap-2 rounded-xl border border-gray-300 bg-white px-3 py-2 text-sm focus-within:ring-2 focus-within:ring-emerald-200 focus-within:border-emerald-500">
+            <Smartphone className="w-4 h-4 text-gray-400" />
+            <input
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              inputMode="tel"
+              placeholder="MTN or Airtel number"
+              className="flex-1 outline-none"
+            />
+          </label>
+          <button
+            onClick={pay}
+            disabled={paying}
+            className="inline-flex items-center justify-center gap-2 rounded-xl bg-emerald-600 px-4 py-2 text-sm font-semibold text-white hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {paying && <Loader2 className="w-4 h-4 animate-spin" />}
+            {payment.status === 'failed' ? 'Try again' : `Pay ${formatUGX(payment.amount)}`}
+          </button>
+        </div>
+      )}
+
+      {payment.status === 'collecting' && payment.payer_phone && role === 'buyer' && (
+        <p className="mt-2 text-xs text-gray-500">Prompt sent to {payment.payer_phone}.</p>
+      )}
+
+      {error && <p className="mt-2 text-sm text-rose-600">{error}</p>}
+    </section>
+  );
+}
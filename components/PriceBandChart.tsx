@@ -0,0 +1,91 @@
+'use client';
+
+import type { PriceBucket, PricePoint } from '@/lib/prices';
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PAD = { top: 16, right: 16, bottom: 28, left: 64 };
+
+const formatUGX = (n: number) => `UGX ${Math.round(Number(n || 0)).toLocaleString('en-UG')}`;
+
+const formatBucket = (value: string, bucket: PriceBucket) =>
+  new Date(value).toLocaleDateString(
+    'en-UG',
+    bucket === 'month' ? { month: 'short', year: '2-digit' } : { month: 'short', day: 'numeric' }
+  );
+
+/**
+ * Median price over time with the min/max range as a light band and the
+ * middle half of prices (25th to 75th percentile) as a darker band.
+ */
+export default function PriceBandChart({
+  series,
+  bucket,
+  unit,
+}: {
+  series: PricePoint[];
+  bucket: PriceBucket;
+  unit: string;
+}) {
+  if (series.length === 0) {
+    return (
+      <div className="flex h-60 items-center justify-center text-sm text-gray-500">
+        No prices recorded for this selection yet.
+      </div>
+    );
+  }
+
+  const lo = Math.min(...series.map((p) => p.min_price));
+  const hi = Math.max(...series.map((p) => p.max_price));
+  const span = hi - lo || hi || 1;
+  const yMin = Math.max(0, lo - span * 0.1);
+  const yMax = hi + span * 0.1;
+
+  const innerW = WIDTH - PAD.left - PAD.right;
+  const innerH = HEIGHT - PAD.top - PAD.bottom;
+
+  const x = (i: number) => PAD.left + (series.length === 1 ? innerW / 2 : (i / (series.length - 1)) * innerW);
+  const y = (v: number) => PAD.top + innerH - ((v - yMin) / (yMax - yMin || 1)) * innerH;
+
+  const band = (upper: (p: PricePoint) => number, lower: (p: PricePoint) => number) =>
+    [
+      ...series.map((p, i) => `${x(i)},${y(upper(p))}`),
+      ...series.map((p, i) => `${x(i)},${y(lower(p))}`).reverse(),
+    ].join(' ');
+
+  const medianPath = series.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(p.median_price)}`).join(' ');
+
+  const ticks = [yMin, (yMin + yMax) / 2, yMax];
+  const labelIndexes = Array.from(new Set([0, Math.floor((series.length - 1) / 2), series.length - 1]));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img" aria-label={`Price per ${unit} over time`}>
+      {ticks.map((t) => (
+        <g key={t}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(t)} y2={y(t)} stroke="#e5e7eb" strokeDasharray="4 4" />
+          <text x={PAD.left - 8} y={y(t) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+            {Math.round(t).toLocaleString('en-UG')}
+          </text>
+        </g>
+      ))}
+
+      <polygon points={band((p) => p.max_price, (p) => p.min_price)} fill="#d1fae5" opacity={0.6} />
+      <polygon points={band((p) => p.p75_price, (p) => p.p25_price)} fill="#6ee7b7" opacity={0.6} />
+      <path d={medianPath} fill="none" stroke="#047857" strokeWidth={2.5} strokeLinejoin="round" />
+
+      {series.map((p, i) => (
+        <circle key={p.bucket} cx={x(i)} cy={y(p.median_price)} r={3.5} fill="#047857">
+          <title>
+            {`${formatBucket(p.bucket, bucket)}: median ${formatUGX(p.median_price)} (${formatUGX(p.min_price)} – ${formatUGX(p.max_price)}), ${p.observations} prices`}
+          </title>
+        </circle>
+      ))}
+
+      {labelIndexes.map((i) => (
+        <text key={i} x={x(i)} y={HEIGHT - 8} textAnchor="middle" className="fill-gray-500 text-[10px]">
+          {formatBucket(series[i].bucket, bucket)}
+        </text>
+      ))}
+    </svg>
+  );
+}
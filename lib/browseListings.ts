@@ -0,0 +1,164 @@
+// lib/browseListings.ts
+import { supabase } from '@/lib/supabaseClient';
+
+export type ListingSort =
+  | 'relevance'
+  | 'newest'
+  | 'price-low'
+  | 'price-high'
+  | 'landed-low'
+  | 'distance'
+  | 'name';
+
+export type ListingFilters = {
+  search: string;
+  /** A category id, 'uncategorized', or 'all'. */
+  category: string;
+  quality: string;
+  maxPrice: number | null;
+  sort: ListingSort;
+};
+
+export type ListingCursor = {
+  num: number | null;
+  text: string | null;
+  id: string;
+};
+
+export type BrowseListingRow = {
+  id: string;
+  farmer_id: string | null;
+  farmer_name: string | null;
+  farmer_location: string | null;
+  crop_name: string | null;
+  variety: string | null;
+  quality: string | null;
+  quantity: number | string | null;
+  unit: string | null;
+  price_per_unit: number | string | null;
+  price_per_kg: number | string | null;
+  distance_km: number | string | null;
+  is_available: boolean | null;
+  listed_at: string | null;
+  photo: string | null;
+  farmer_phone: string | null;
+  description: string | null;
+  available_from: string | null;
+  total_price: number | string | null;
+  category_id: number | null;
+  sort_num: number | null;
+  sort_text: string | null;
+};
+
+export const LISTINGS_PAGE_SIZE = 30;
+
+export const listingSortOptions: { value: ListingSort; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'price-low', label: 'Price per kg: Low to High' },
+  { value: 'price-high', label: 'Price per kg: High to Low' },
+  { value: 'landed-low', label: 'Landed cost: Low to High' },
+  { value: 'distance', label: 'Distance' },
+  { value: 'name', label: 'Name' },
+];
+
+export const defaultListingFilters: ListingFilters = {
+  search: '',
+  category: 'all',
+  quality: 'all',
+  maxPrice: null,
+  sort: 'newest',
+};
+
+/** Searches sort by best match unless another order is picked; browsing sorts newest first. */
+export function defaultListingSort(search: string): ListingSort {
+  return search.trim() ? 'relevance' : 'newest';
+}
+
+/** Filters from a /products query string; unknown or bad values fall back to the defaults. */
+export function filtersFromParams(params: URLSearchParams): ListingFilters {
+  const search = params.get('search')?.trim() || '';
+  const sort = params.get('sort');
+  const maxPrice = Number(params.get('max_price'));
+
+  return {
+    search,
+    category: params.get('category') || 'all',
+    quality: params.get('quality') || 'all',
+    maxPrice: params.get('max_price') && Number.isFinite(maxPrice) && maxPrice > 0 ? maxPrice : null,
+    sort: listingSortOptions.some((o) => o.value === sort) ? (sort as ListingSort) : defaultListingSort(search),
+  };
+}
+
+/** The query string for a set of filters, leaving out anything at its default. */
+export function filtersToParams(filters: ListingFilters) {
+  const params = new URLSearchParams();
+  if (filters.search.trim()) params.set('search', filters.search.trim());
+  if (filters.category !== 'all') params.set('category', filters.category);
+  if (filters.quality !== 'all') params.set('quality', filters.quality);
+  if (filters.maxPrice != null) params.set('max_price', String(filters.maxPrice));
+  if (filters.sort !== defaultListingSort(filters.search)) params.set('sort', filters.sort);
+  return params;
+}
+
+/**
+ * One page of available listings. `nextCursor` is null on the last page.
+ * `origin` is the viewer's position for the distance and landed-cost sorts.
+ */
+export async function fetchListingsPage(
+  filters: ListingFilters,
+  cursor: ListingCursor | null,
+  origin: { lat: number; lng: number } | null
+) {
+  const { data, error } = await supabase.rpc('browse_listings', {
+    p_search: filters.search.trim() || null,
+    p_category: filters.category === 'all' ? null : filters.category,
+    p_quality: filters.quality === 'all' ? null : filters.quality,
+    p_max_price: filters.maxPrice,
+    p_sort: filters.sort,
+    p_lat: origin?.lat ?? null,
+    p_lng: origin?.lng ?? null,
+    p_cursor_num: cursor?.num ?? null,
+    p_cursor_text: cursor?.text ?? null,
+    p_cursor_id: cursor?.id ?? null,
+    p_limit: LISTINGS_PAGE_SIZE,
+  });
+
+  if (error) {
+    console.error('Failed to load listings:', error);
+    return { rows: [] as BrowseListingRow[], nextCursor: null, error: error.message };
+  }
+
+  const rows = (data || []) as BrowseListingRow[];
+  const last = rows[rows.length - 1];
+
+  return {
+    rows,
+    nextCursor:
+      rows.length === LISTINGS_PAGE_SIZE && last
+        ? { num: last.sort_num, text: last.sort_text, id: last.id }
+        : null,
+    error: null,
+  };
+}
+
+/** Listing counts per category id (null for uncategorized) under the other filters. */
+export async function fetchListingCategoryCounts(filters: ListingFilters) {
+  const { data, error } = await supabase.rpc('browse_listing_counts', {
+    p_search: filters.search.trim() || null,
+    p_quality: filters.quality === 'all' ? null : filters.quality,
+    p_max_price: filters.maxPrice,
+  });
+
+  if (error) {
+    console.error('Failed to load category counts:', error);
+    return new Map<number | null, number>();
+  }
+
+  return new Map(
+    ((data || []) as { category_id: number | null; listings: number }[]).map((r) => [
+      r.category_id,
+      Number(r.listings || 0),
+    ])
+  );
+}
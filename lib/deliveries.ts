@@ -0,0 +1,150 @@
+// lib/deliveries.ts
+import { supabase } from '@/lib/supabaseClient';
+
+export type DeliveryStatus = 'assigned' | 'picked_up' | 'in_transit' | 'delivered' | 'cancelled';
+
+/** A confirmed order waiting for a transporter. */
+export type Load = {
+  match_id: string;
+  crop_name: string;
+  quantity: number;
+  unit: string;
+  quantity_kg: number | null;
+  farmer_name: string | null;
+  buyer_name: string | null;
+  pickup_location: string | null;
+  pickup_lat: number | null;
+  pickup_lng: number | null;
+  dropoff_location: string | null;
+  dropoff_lat: number | null;
+  dropoff_lng: number | null;
+  distance_km: number | null;
+  confirmed_at: string | null;
+};
+
+export type Delivery = Omit<Load, 'confirmed_at'> & {
+  id: string;
+  transporter_id: string;
+  status: DeliveryStatus;
+  assigned_at: string;
+  picked_up_at: string | null;
+  in_transit_at: string | null;
+  delivered_at: string | null;
+  cancelled_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+};
+
+export type DeliveryEvent = {
+  id: string;
+  delivery_id: string;
+  from_status: DeliveryStatus | null;
+  to_status: DeliveryStatus;
+  actor_id: string | null;
+  note: string | null;
+  created_at: string;
+};
+
+export const deliveryStatusOptions: { value: DeliveryStatus; label: string; tone: string }[] = [
+  { value: 'assigned', label: 'Assigned', tone: 'bg-blue-50 text-blue-700 border-blue-200' },
+  { value: 'picked_up', label: 'Picked up', tone: 'bg-indigo-50 text-indigo-700 border-indigo-200' },
+  { value: 'in_transit', label: 'In transit', tone: 'bg-amber-50 text-amber-700 border-amber-200' },
+  { value: 'delivered', label: 'Delivered', tone: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  { value: 'cancelled', label: 'Released', tone: 'bg-gray-100 text-gray-700 border-gray-200' },
+];
+
+// The database enforces the same table in delivery_transition_allowed();
+// this copy only decides which buttons to show.
+export const deliveryTransitions: Record<DeliveryStatus, DeliveryStatus[]> = {
+  assigned: ['picked_up', 'cancelled'],
+  picked_up: ['in_transit'],
+  in_transit: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const deliveryActionLabels: Record<DeliveryStatus, string> = {
+  assigned: 'Claim load',
+  picked_up: 'Mark picked up',
+  in_transit: 'Start trip',
+  delivered: 'Mark delivered',
+  cancelled: 'Release load',
+};
+
+export const deliveryProgress: DeliveryStatus[] = ['assigned', 'picked_up', 'in_transit', 'delivered'];
+
+export function getDeliveryStatusLabel(status: string) {
+  return deliveryStatusOptions.find((s) => s.value === status)?.label || status;
+}
+
+export function getDeliveryStatusTone(status: string) {
+  return (
+    deliveryStatusOptions.find((s) => s.value === status)?.tone ||
+    'bg-gray-100 text-gray-700 border-gray-200'
+  );
+}
+
+export function isDeliveryActive(status: string) {
+  return status === 'assigned' || status === 'picked_up' || status === 'in_transit';
+}
+
+function toNumberOrNull(value: unknown) {
+  return value == null ? null : Number(value);
+}
+
+function normalizeLoad<T extends Load | Delivery>(row: T): T {
+  return {
+    ...row,
+    quantity: Number(row.quantity || 0),
+    quantity_kg: toNumberOrNull(row.quantity_kg),
+    distance_km: toNumberOrNull(row.distance_km),
+  };
+}
+
+export async function fetchLoadBoard() {
+  const { data, error } = await supabase.rpc('load_board', { p_limit: 200 });
+
+  if (error) {
+    console.error('Failed to load the load board:', error);
+    return [] as Load[];
+  }
+
+  return ((data || []) as Load[]).map(normalizeLoad);
+}
+
+export async function fetchMyDeliveries(transporterId: string) {
+  const { data, error } = await supabase
+    .from('deliveries')
+    .select('*')
+    .eq('transporter_id', transporterId)
+    .order('assigned_at', { ascending: false });
+
+  if (error) {
+    console.error('Failed to load deliveries:', error);
+    return [] as Delivery[];
+  }
+
+  return ((data || []) as Delivery[]).map(normalizeLoad);
+}
+
+export async function claimLoad(matchId: string): Promise<{ delivery: Delivery | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('claim_load', { p_match_id: matchId });
+
+  if (error) return { delivery: null, error: error.message };
+  return { delivery: normalizeLoad(data as Delivery), error: null };
+}
+
+export async function advanceDelivery(
+  deliveryId: string,
+  toStatus: DeliveryStatus,
+  note?: string
+): Promise<{ delivery: Delivery | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('advance_delivery', {
+    p_delivery_id: deliveryId,
+    p_to_status: toStatus,
+    p_note: note?.trim() || null,
+  });
+
+  if (error) return { delivery: null, error: error.message };
+  return { delivery: normalizeLoad(data as Delivery), error: null };
+}
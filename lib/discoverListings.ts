@@ -0,0 +1,101 @@
+// lib/discoverListings.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { GeoBounds, LatLng } from '@/lib/geo';
+import type { SourcingMode } from '@/lib/sourcingAreas';
+
+export type ListingInBounds = {
+  id: string;
+  farmer_name: string | null;
+  farmer_location: string | null;
+  crop_name: string | null;
+  crop_category: string | null;
+  variety: string | null;
+  quality: string | null;
+  quantity: number | null;
+  unit: string | null;
+  price_per_unit: number | null;
+  farmer_phone: string | null;
+  location_lat: number | null;
+  location_lng: number | null;
+  google_maps_link: string | null;
+  is_available: boolean | null;
+  listed_at: string | null;
+  /** From `origin`; null when no origin was given. */
+  distance_km: number | null;
+};
+
+/**
+ * Available listings inside `bounds`, nearest to `origin` first (or to the
+ * middle of the box without one). `radiusKm` only applies with an origin.
+ */
+export async function fetchListingsInBounds(
+  bounds: GeoBounds,
+  options: { origin?: LatLng | null; radiusKm?: number | null; search?: string; limit?: number } = {}
+) {
+  const { data, error } = await supabase.rpc('listings_in_bounds', {
+    p_south: bounds.south,
+    p_west: bounds.west,
+    p_north: bounds.north,
+    p_east: bounds.east,
+    p_lat: options.origin?.lat ?? null,
+    p_lng: options.origin?.lng ?? null,
+    p_radius_km: options.radiusKm ?? null,
+    p_search: options.search?.trim() || null,
+    p_limit: options.limit ?? 300,
+  });
+
+  if (error) {
+    console.error('Failed to load listings in view:', error);
+    return { rows: [] as ListingInBounds[], error: error.message };
+  }
+
+  return {
+    rows: ((data || []) as ListingInBounds[]).map((row) => ({
+      ...row,
+      quantity: row.quantity == null ? null : Number(row.quantity),
+      price_per_unit: row.price_per_unit == null ? null : Number(row.price_per_unit),
+      distance_km: row.distance_km == null ? null : Number(row.distance_km),
+    })),
+    error: null,
+  };
+}
+
+export type DemandInBounds = {
+  id: string;
+  buyer_name: string | null;
+  crop_name: string;
+  preferred_quality: string | null;
+  quantity: number;
+  unit: string;
+  target_price_per_unit: number;
+  location_text: string | null;
+  location_lat: number | null;
+  location_lng: number | null;
+  radius_km: number;
+  sourcing_mode: SourcingMode | null;
+  sourcing_polygon: [number, number][] | null;
+  sourcing_districts: string[] | null;
+  created_at: string;
+};
+
+/** Open buyer demands whose point or drawn area is inside `bounds`, newest first. */
+export async function fetchDemandsInBounds(bounds: GeoBounds) {
+  const { data, error } = await supabase.rpc('demands_in_bounds', {
+    p_south: bounds.south,
+    p_west: bounds.west,
+    p_north: bounds.north,
+    p_east: bounds.east,
+  });
+
+  if (error) {
+    console.error('Failed to load demands in view:', error);
+    return [] as DemandInBounds[];
+  }
+
+  return ((data || []) as DemandInBounds[]).map((row) => ({
+    ...row,
+    quantity: Number(row.quantity || 0),
+    target_price_per_unit: Number(row.target_price_per_unit || 0),
+    radius_km: Number(row.radius_km || 0),
+  }));
+}
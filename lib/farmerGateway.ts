@@ -0,0 +1,251 @@
+// lib/farmerGateway.ts
+// Transport side of the SMS/USSD channel: how a provider's webhook is parsed
+// and answered, plus the Supabase-backed FarmerDataSource used by the route
+// handlers. Menu logic lives in lib/farmerMenu.ts.
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { distanceKm } from '@/lib/geo';
+import { inSourcingArea, type SourcingArea } from '@/lib/sourcingAreas';
+import { getNotificationSenders } from '@/lib/notificationSenders';
+import type {
+  FarmerDataSource,
+  GatewayDemand,
+  GatewayFarmer,
+  GatewayOffer,
+  GatewayReply,
+} from '@/lib/farmerMenu';
+
+export type GatewayRequest = {
+  sessionId: string | null;
+  phoneNumber: string;
+  text: string;
+};
+
+export interface FarmerGateway {
+  name: string;
+  parseRequest(request: Request): Promise<GatewayRequest>;
+  ussdResponse(reply: GatewayReply): Response;
+  /** Some providers expect SMS replies to be sent out-of-band rather than returned. */
+  smsResponse(to: string, reply: string): Promise<Response>;
+}
+
+/** Africa's Talking posts form-encoded callbacks for both USSD and inbound SMS. */
+export const africasTalkingGateway: FarmerGateway = {
+  name: 'africastalking',
+  async parseRequest(request) {
+    const form = await request.formData();
+    return {
+      sessionId: (form.get('sessionId') as string | null) ?? null,
+      phoneNumber: String(form.get('phoneNumber') ?? form.get('from') ?? ''),
+      text: String(form.get('text') ?? ''),
+    };
+  },
+  ussdResponse(reply) {
+    return new Response(`${reply.end ? 'END' : 'CON'} ${reply.text}`, {
+      headers: { 'Content-Type': 'text/plain' },
+    });
+  },
+  async smsResponse(to, reply) {
+    await getNotificationSenders().sms.send({ to, text: reply });
+    return new Response(null, { status: 200 });
+  },
+};
+
+/** JSON in, JSON out, so a script or test can play the phone. */
+export const simulatorGateway: FarmerGateway = {
+  name: 'simulator',
+  async parseRequest(request) {
+    const body = (await request.json().catch(() => ({}))) as Partial<GatewayRequest>;
+    return {
+      sessionId: body.sessionId ?? null,
+      phoneNumber: String(body.phoneNumber ?? ''),
+      text: String(body.text ?? ''),
+    };
+  },
+  ussdResponse(reply) {
+    return NextResponse.json(reply);
+  },
+  async smsResponse(to, reply) {
+    return NextResponse.json({ to, text: reply });
+  },
+};
+
+/**
+ * FARMER_GATEWAY picks the provider. The simulator has to be asked for by
+ * name; with nothing set the channel is off.
+ */
+export function getFarmerGateway(): FarmerGateway | null {
+  if (process.env.FARMER_GATEWAY === 'africastalking') return africasTalkingGateway;
+  if (process.env.FARMER_GATEWAY === 'simulator') return simulatorGateway;
+  return null;
+}
+
+/** Callbacks must carry FARMER_GATEWAY_SECRET as ?key=; without one nothing gets in. */
+export function isGatewayRequestAuthorized(request: Request) {
+  const secret = process.env.FARMER_GATEWAY_SECRET;
+  return !!secret && new URL(request.url).searchParams.get('key') === secret;
+}
+
+// accounts_user.phone_number is free text, so try the usual Uganda shapes.
+export function phoneVariants(phone: string) {
+  const digits = phone.replace(/\D/g, '');
+  const local = digits.length >= 9 ? digits.slice(-9) : digits;
+  return Array.from(new Set([phone.trim(), `+256${local}`, `256${local}`, `0${local}`, local]));
+}
+
+type DemandRow = {
+  id: string;
+  crop_name: string;
+  quantity: number;
+  unit: string;
+  target_price_per_unit: number;
+  location_text: string | null;
+  location_lat: number | null;
+  location_lng: number | null;
+  radius_km: number;
+  sourcing_mode: SourcingArea['sourcing_mode'];
+  sourcing_polygon: SourcingArea['sourcing_polygon'];
+  sourcing_districts: SourcingArea['sourcing_districts'];
+};
+
+type OfferRow = {
+  id: string;
+  crop_name: string;
+  offered_quantity: number;
+  offered_price_per_unit: number;
+  demand: { unit: string | null; buyer_name: string | null } | null;
+};
+
+export function createSupabaseFarmerDataSource(client: SupabaseClient): FarmerDataSource {
+  return {
+    async findFarmerByPhone(phone) {
+      const { data } = await client
+        .from('accounts_user')
+        .select('auth_user_id,first_name,last_name,phone_number,location,location_lat,location_lng')
+        .in('phone_number', phoneVariants(phone))
+        .eq('role', 'farmer')
+        .limit(1)
+        .maybeSingle();
+
+      if (!data?.auth_user_id) return null;
+
+      return {
+        authId: data.auth_user_id,
+        name: `${data.first_name || ''} ${data.last_name || ''}`.trim() || 'Farmer',
+        phone: data.phone_number || phone,
+        location: data.location ?? null,
+        location_lat: data.location_lat ?? null,
+        location_lng: data.location_lng ?? null,
+      } satisfies GatewayFarmer;
+    },
+
+    async createListing(farmer, listing) {
+      const { data, error } = await client
+        .from('farm_produce')
+        .insert({
+          farmer_id: farmer.authId,
+          farmer_name: farmer.name,
+          farmer_location: farmer.location || 'Unknown',
+          farmer_phone: farmer.phone,
+          crop_name: listing.crop_name,
+          quality: 'standard',
+          quantity: listing.quantity,
+          unit: listing.unit,
+          price_per_unit: listing.price_per_unit,
+          location_lat: farmer.location_lat,
+          location_lng: farmer.location_lng,
+          available_from: new Date().toISOString().slice(0, 10),
+          is_available: true,
+          listed_at: new Date().toISOString(),
+        })
+        .select('id')
+        .single();
+
+      if (error || !data) throw new Error('Could not save your listing. Try again later.');
+      return { id: data.id as string };
+    },
+
+    async nearbyDemands(farmer, limit) {
+      const { data } = await client
+        .from('buyer_demands')
+        .select(
+          'id,crop_name,quantity,unit,target_price_per_unit,location_text,location_lat,location_lng,radius_km,sourcing_mode,sourcing_polygon,sourcing_districts'
+        )
+        .eq('status', 'open')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      return ((data || []) as DemandRow[])
+        .map((d) => {
+          const distance =
+            farmer.location_lat != null &&
+            farmer.location_lng != null &&
+            d.location_lat != null &&
+            d.location_lng != null
+              ? distanceKm(farmer.location_lat, farmer.location_lng, d.location_lat, d.location_lng)
+              : null;
+
+          return { row: d, distance };
+        })
+        .filter(
+          ({ row }) =>
+            inSourcingArea(row, {
+              lat: farmer.location_lat,
+              lng: farmer.location_lng,
+              location: farmer.location,
+            }) !== false
+        )
+        .sort((a, b) => {
+          if (a.distance === null && b.distance === null) return 0;
+          if (a.distance === null) return 1;
+          if (b.distance === null) return -1;
+          return a.distance - b.distance;
+        })
+        .slice(0, limit)
+        .map(
+          ({ row, distance }): GatewayDemand => ({
+            id: row.id,
+            crop_name: row.crop_name,
+            quantity: row.quantity,
+            unit: row.unit,
+            target_price_per_unit: row.target_price_per_unit,
+            location_text: row.location_text,
+            distance,
+          })
+        );
+    },
+
+    async offersAwaitingFarmer(farmer, limit) {
+      // Same turn rule as allowedOfferActions(offer, 'farmer').includes('accept').
+      const { data } = await client
+        .from('demand_offers')
+        .select('id,crop_name,offered_quantity,offered_price_per_unit,demand:demand_id (unit,buyer_name)')
+        .eq('farmer_id', farmer.authId)
+        .in('status', ['sent', 'countered'])
+        .eq('last_action_by', 'buyer')
+        .order('updated_at', { ascending: false })
+        .limit(limit);
+
+      return ((data || []) as unknown as OfferRow[]).map(
+        (o): GatewayOffer => ({
+          id: o.id,
+          crop_name: o.crop_name,
+          offered_quantity: o.offered_quantity,
+          offered_price_per_unit: o.offered_price_per_unit,
+          unit: o.demand?.unit || 'units',
+          buyer_name: o.demand?.buyer_name ?? null,
+        })
+      );
+    },
+
+    async acceptOffer(farmer, offerId) {
+      const { data, error } = await client.rpc('accept_offer_for_farmer', {
+        p_offer_id: offerId,
+        p_farmer_id: farmer.authId,
+      });
+
+      if (error || !data) throw new Error(error?.message || 'Could not accept the offer.');
+      return { orderId: (data as { id: string }).id };
+    },
+  };
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { createInMemoryFarmerDataSource, simulateSms, simulateUssdSession } from '@/lib/farmerGatewaySimulator';
+import { offerCode, smsHelp, type GatewayOffer } from '@/lib/farmerMenu';
+
+const PHONE = '+256772000001';
+
+const farmer = {
+  authId: 'farmer-1',
+  name: 'Grace Achieng',
+  phone: '0772000001',
+  location: 'Wakiso',
+  location_lat: 0.4,
+  location_lng: 32.5,
+};
+
+const offer = (id: string, overrides: Partial<GatewayOffer> = {}): GatewayOffer => ({
+  id,
+  crop_name: 'Maize',
+  offered_quantity: 500,
+  offered_price_per_unit: 1100,
+  unit: 'kg',
+  buyer_name: 'Kampala Mills',
+  ...overrides,
+});
+
+const MAIZE = offer('a1b2c3d4-0000-0000-0000-000000000001');
+const BEANS = offer('f9e8d7c6-0000-0000-0000-000000000002', { crop_name: 'Beans', offered_quantity: 200 });
+
+const source = () =>
+  createInMemoryFarmerDataSource({
+    farmers: [farmer],
+    demands: [
+      {
+        id: 'd1',
+        crop_name: 'Maize',
+        quantity: 1000,
+        unit: 'kg',
+        target_price_per_unit: 1000,
+        location_text: 'Kampala',
+        distance: 12,
+      },
+    ],
+    offers: { [farmer.authId]: [MAIZE, BEANS] },
+  });
+
+describe('USSD', () => {
+  it('turns away numbers that are not registered farmers', async () => {
+    const [reply] = await simulateUssdSession(source(), '+256700999999', []);
+    expect(reply.end).toBe(true);
+    expect(reply.text).toMatch(/not registered/);
+  });
+
+  it('greets the farmer by first name, matching the number in any format', async () => {
+    const [reply] = await simulateUssdSession(source(), PHONE, []);
+    expect(reply.end).toBe(false);
+    expect(reply.text).toContain('Hi Grace');
+  });
+
+  it('lists produce after confirmation', async () => {
+    const data = source();
+    const replies = await simulateUssdSession(data, PHONE, ['1', 'Maize', '300', '1', '1200', '1']);
+
+    expect(replies.at(-1)?.end).toBe(true);
+    expect(replies.at(-1)?.text).toMatch(/^Listed 300 kg Maize/);
+    expect(data.state.listings).toEqual([
+      { id: 'listing-1', farmer_id: 'farmer-1', crop_name: 'Maize', quantity: 300, unit: 'kg', price_per_unit: 1200 },
+    ]);
+  });
+
+  it('creates nothing when the listing is cancelled or the input is bad', async () => {
+    const data = source();
+
+    const cancelled = await simulateUssdSession(data, PHONE, ['1', 'Maize', '300', '1', '1200', '2']);
+    expect(cancelled.at(-1)?.text).toBe('Listing cancelled.');
+
+    const badQuantity = await simulateUssdSession(data, PHONE, ['1', 'Maize', 'lots', '1']);
+    expect(badQuantity.at(-1)?.text).toBe('Quantity must be a number above 0.');
+    // The session ends on the bad quantity, so the unit is never read
+    expect(badQuantity).toHaveLength(4);
+
+    expect(data.state.listings).toHaveLength(0);
+  });
+
+  it('shows nearby demands', async () => {
+    const replies = await simulateUssdSession(source(), PHONE, ['2']);
+    expect(replies.at(-1)?.end).toBe(true);
+    expect(replies.at(-1)?.text).toContain('1. Maize 1000 kg');
+    expect(replies.at(-1)?.text).toContain('Kampala 12km');
+  });
+
+  it('accepts an offer when the farmer enters its code', async () => {
+    const data = source();
+    const replies = await simulateUssdSession(data, PHONE, ['3', '1', offerCode(MAIZE.id)]);
+
+    expect(replies[2].text).toContain(`Enter ${offerCode(MAIZE.id)} to accept`);
+    expect(replies.at(-1)?.text).toMatch(/^Offer accepted/);
+    expect(data.state.accepted).toEqual([{ offerId: MAIZE.id, orderId: 'order-1' }]);
+  });
+
+  it('accepts the offer behind the code even if the list moved', async () => {
+    const data = source();
+    const replies = await simulateUssdSession(data, PHONE, ['3', '1']);
+    expect(replies.at(-1)?.text).toContain('Maize');
+
+    // The maize offer is withdrawn and beans moves to position 1
+    data.state.offers[farmer.authId] = [BEANS];
+
+    const [, , , confirm] = await simulateUssdSession(data, PHONE, ['3', '1', offerCode(MAIZE.id)]);
+    expect(confirm.text).toBe(`No offer ${offerCode(MAIZE.id)} is waiting for you.`);
+    expect(data.state.accepted).toHaveLength(0);
+  });
+
+  it('makes no changes when the farmer enters 0', async () => {
+    const data = source();
+    const replies = await simulateUssdSession(data, PHONE, ['3', '2', '0']);
+
+    expect(replies.at(-1)?.text).toBe('No changes made.');
+    expect(data.state.accepted).toHaveLength(0);
+  });
+});
+
+describe('SMS', () => {
+  it('lists produce, reading multi-word crop names', async () => {
+    const data = source();
+    const reply = await simulateSms(data, PHONE, 'list Irish potatoes 20 bag 85000');
+
+    expect(reply).toMatch(/^Listed 20 bag Irish potatoes/);
+    expect(data.state.listings[0]).toMatchObject({ crop_name: 'Irish potatoes', quantity: 20, unit: 'bag' });
+  });
+
+  it('rejects unknown units and missing fields', async () => {
+    const data = source();
+
+    expect(await simulateSms(data, PHONE, 'LIST Maize 20 sack 85000')).toMatch(/^Unknown unit "sack"/);
+    expect(await simulateSms(data, PHONE, 'LIST Maize 20')).toMatch(/^Usage: LIST/);
+    expect(data.state.listings).toHaveLength(0);
+  });
+
+  it('lists offers by code and accepts one', async () => {
+    const data = source();
+
+    const offers = await simulateSms(data, PHONE, 'OFFERS');
+    expect(offers).toContain(`${offerCode(MAIZE.id)}: Maize 500 kg`);
+    expect(offers).toContain(`${offerCode(BEANS.id)}: Beans 200 kg`);
+
+    const reply = await simulateSms(data, PHONE, `accept ${offerCode(BEANS.id).toLowerCase()}`);
+    expect(reply).toMatch(/^Accepted Beans 200 kg/);
+    expect(data.state.accepted).toEqual([{ offerId: BEANS.id, orderId: 'order-1' }]);
+    expect(data.state.offers[farmer.authId]).toEqual([MAIZE]);
+  });
+
+  it('answers unknown codes and commands helpfully', async () => {
+    const data = source();
+
+    expect(await simulateSms(data, PHONE, 'ACCEPT ZZZZZZ')).toMatch(/^No offer ZZZZZZ is waiting/);
+    expect(await simulateSms(data, PHONE, 'hello')).toBe(smsHelp);
+  });
+});
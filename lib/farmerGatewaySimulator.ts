@@ -0,0 +1,90 @@
+// lib/farmerGatewaySimulator.ts
+// In-memory FarmerDataSource and a session driver for exercising the USSD
+// menu and SMS commands without a provider or a database.
+import {
+  handleSms,
+  handleUssd,
+  type FarmerDataSource,
+  type GatewayDemand,
+  type GatewayFarmer,
+  type GatewayListingInput,
+  type GatewayOffer,
+  type GatewayReply,
+} from '@/lib/farmerMenu';
+
+export type SimulatorState = {
+  farmers: GatewayFarmer[];
+  demands: GatewayDemand[];
+  /** Offers keyed by farmer authId; all are treated as awaiting that farmer. */
+  offers: Record<string, GatewayOffer[]>;
+  listings: (GatewayListingInput & { id: string; farmer_id: string })[];
+  accepted: { offerId: string; orderId: string }[];
+};
+
+const digitsTail = (phone: string) => phone.replace(/\D/g, '').slice(-9);
+
+export function createInMemoryFarmerDataSource(
+  seed: Partial<Omit<SimulatorState, 'listings' | 'accepted'>> = {}
+): FarmerDataSource & { state: SimulatorState } {
+  const state: SimulatorState = {
+    farmers: seed.farmers ?? [],
+    demands: seed.demands ?? [],
+    offers: seed.offers ?? {},
+    listings: [],
+    accepted: [],
+  };
+
+  let nextId = 1;
+
+  return {
+    state,
+    async findFarmerByPhone(phone) {
+      return state.farmers.find((f) => digitsTail(f.phone) === digitsTail(phone)) ?? null;
+    },
+    async createListing(farmer, listing) {
+      const id = `listing-${nextId++}`;
+      state.listings.push({ ...listing, id, farmer_id: farmer.authId });
+      return { id };
+    },
+    async nearbyDemands(_farmer, limit) {
+      return state.demands.slice(0, limit);
+    },
+    async offersAwaitingFarmer(farmer, limit) {
+      return (state.offers[farmer.authId] ?? []).slice(0, limit);
+    },
+    async acceptOffer(farmer, offerId) {
+      const offers = state.offers[farmer.authId] ?? [];
+      if (!offers.some((o) => o.id === offerId)) throw new Error('Offer not found');
+
+      state.offers[farmer.authId] = offers.filter((o) => o.id !== offerId);
+      const orderId = `order-${nextId++}`;
+      state.accepted.push({ offerId, orderId });
+      return { orderId };
+    },
+  };
+}
+
+/**
+ * Plays a USSD session the way a gateway would: each input is appended to
+ * the running `text` and the menu is asked again. Stops early on END.
+ */
+export async function simulateUssdSession(
+  source: FarmerDataSource,
+  phoneNumber: string,
+  inputs: string[]
+): Promise<GatewayReply[]> {
+  const replies: GatewayReply[] = [await handleUssd(source, { phoneNumber, text: '' })];
+  const entered: string[] = [];
+
+  for (const input of inputs) {
+    if (replies[replies.length - 1].end) break;
+    entered.push(input);
+    replies.push(await handleUssd(source, { phoneNumber, text: entered.join('*') }));
+  }
+
+  return replies;
+}
+
+export function simulateSms(source: FarmerDataSource, phoneNumber: string, text: string) {
+  return handleSms(source, { phoneNumber, text });
+}
@@ -0,0 +1,265 @@
+// lib/farmerMenu.ts
+// USSD menu and SMS commands for farmers on feature phones. Everything goes
+// through FarmerDataSource so the same flows run against Supabase in the
+// route handlers and against the in-memory simulator locally.
+
+export type GatewayFarmer = {
+  authId: string;
+  name: string;
+  phone: string;
+  location: string | null;
+  location_lat: number | null;
+  location_lng: number | null;
+};
+
+export type GatewayListingInput = {
+  crop_name: string;
+  quantity: number;
+  unit: string;
+  price_per_unit: number;
+};
+
+export type GatewayDemand = {
+  id: string;
+  crop_name: string;
+  quantity: number;
+  unit: string;
+  target_price_per_unit: number;
+  location_text: string | null;
+  distance: number | null;
+};
+
+export type GatewayOffer = {
+  id: string;
+  crop_name: string;
+  offered_quantity: number;
+  offered_price_per_unit: number;
+  unit: string;
+  buyer_name: string | null;
+};
+
+export interface FarmerDataSource {
+  findFarmerByPhone(phone: string): Promise<GatewayFarmer | null>;
+  createListing(farmer: GatewayFarmer, listing: GatewayListingInput): Promise<{ id: string }>;
+  /** Open demands whose sourcing area takes in the farmer, nearest first. */
+  nearbyDemands(farmer: GatewayFarmer, limit: number): Promise<GatewayDemand[]>;
+  /** Open offers where it is the farmer's turn to answer. */
+  offersAwaitingFarmer(farmer: GatewayFarmer, limit: number): Promise<GatewayOffer[]>;
+  acceptOffer(farmer: GatewayFarmer, offerId: string): Promise<{ orderId: string }>;
+}
+
+export type GatewayReply = {
+  text: string;
+  /** USSD only: false keeps the session open for another input. */
+  end: boolean;
+};
+
+export const gatewayUnits = ['kg', 'bag', 'bunch', 'piece', 'crate', 'ton'];
+
+const MENU_DEMAND_LIMIT = 5;
+const MENU_OFFER_LIMIT = 5;
+const SMS_DEMAND_LIMIT = 3;
+
+// SMS replies and offer codes use the first characters of the offer id.
+const OFFER_CODE_LENGTH = 6;
+
+const ugx = (n: number) => `UGX ${Math.round(Number(n || 0)).toLocaleString('en-UG')}`;
+
+const con = (text: string): GatewayReply => ({ text, end: false });
+const end = (text: string): GatewayReply => ({ text, end: true });
+
+export function offerCode(offerId: string) {
+  return offerId.replace(/-/g, '').slice(0, OFFER_CODE_LENGTH).toUpperCase();
+}
+
+function parsePositive(value: string | undefined) {
+  const n = Number(String(value || '').replace(/,/g, ''));
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function describeDemand(d: GatewayDemand, index?: number) {
+  const where = [d.location_text, d.distance !== null ? `${d.distance.toFixed(0)}km` : null]
+    .filter(Boolean)
+    .join(' ');
+  const prefix = index !== undefined ? `${index + 1}. ` : '';
+  return `${prefix}${d.crop_name} ${d.quantity} ${d.unit} @${ugx(d.target_price_per_unit)}${where ? ` - ${where}` : ''}`;
+}
+
+function describeOffer(o: GatewayOffer) {
+  return `${o.crop_name} ${o.offered_quantity} ${o.unit} @${ugx(o.offered_price_per_unit)}`;
+}
+
+const mainMenu = (farmer: GatewayFarmer) =>
+  con(
+    [
+      `AgriConnect: Hi ${farmer.name.split(' ')[0] || 'farmer'}`,
+      '1. List produce',
+      '2. Buyer demands near me',
+      '3. Offers awaiting me',
+    ].join('\n')
+  );
+
+async function listProduceMenu(source: FarmerDataSource, farmer: GatewayFarmer, steps: string[]) {
+  const [crop, quantityText, unitChoice, priceText, confirm] = steps;
+
+  if (crop === undefined) return con('Enter crop name:');
+  if (!crop.trim()) return end('Crop name is required.');
+
+  if (quantityText === undefined) return con(`Quantity of ${crop}:`);
+  const quantity = parsePositive(quantityText);
+  if (!quantity) return end('Quantity must be a number above 0.');
+
+  if (unitChoice === undefined) {
+    return con(['Unit:', ...gatewayUnits.map((u, i) => `${i + 1}. ${u}`)].join('\n'));
+  }
+  const unit = gatewayUnits[Number(unitChoice) - 1];
+  if (!unit) return end('Invalid unit choice.');
+
+  if (priceText === undefined) return con(`Price per ${unit} (UGX):`);
+  const price = parsePositive(priceText);
+  if (!price) return end('Price must be a number above 0.');
+
+  if (confirm === undefined) {
+    return con(`List ${quantity} ${unit} ${crop} at ${ugx(price)}/${unit}?\n1. Confirm\n2. Cancel`);
+  }
+  if (confirm !== '1') return end('Listing cancelled.');
+
+  await source.createListing(farmer, {
+    crop_name: crop.trim(),
+    quantity,
+    unit,
+    price_per_unit: price,
+  });
+
+  return end(`Listed ${quantity} ${unit} ${crop.trim()} at ${ugx(price)}/${unit}. Buyers can now see it.`);
+}
+
+async function demandsMenu(source: FarmerDataSource, farmer: GatewayFarmer) {
+  const demands = await source.nearbyDemands(farmer, MENU_DEMAND_LIMIT);
+  if (demands.length === 0) return end('No open buyer demands near you right now.');
+
+  return end(['Buyer demands:', ...demands.map((d, i) => describeDemand(d, i))].join('\n'));
+}
+
+// The list is fetched afresh on every step and can shift in between, so the
+// farmer confirms by typing the offer's code and that code, not the list
+// position, decides which offer is accepted.
+async function offersMenu(source: FarmerDataSource, farmer: GatewayFarmer, steps: string[]) {
+  const [choice, confirm] = steps;
+
+  if (confirm !== undefined) {
+    const code = confirm.trim().toUpperCase();
+    if (!code || code === '0') return end('No changes made.');
+
+    const offers = await source.offersAwaitingFarmer(farmer, 50);
+    const offer = offers.find((o) => offerCode(o.id) === code);
+    if (!offer) return end(`No offer ${code} is waiting for you.`);
+
+    await source.acceptOffer(farmer, offer.id);
+    return end(`Offer accepted. Order created for ${describeOffer(offer)}.`);
+  }
+
+  const offers = await source.offersAwaitingFarmer(farmer, MENU_OFFER_LIMIT);
+  if (offers.length === 0) return end('No offers are waiting for your reply.');
+
+  if (choice === undefined) {
+    return con(['Pick an offer to accept:', ...offers.map((o, i) => `${i + 1}. ${describeOffer(o)}`)].join('\n'));
+  }
+
+  const offer = offers[Number(choice) - 1];
+  if (!offer) return end('Invalid offer choice.');
+
+  return con(
+    `Accept ${describeOffer(offer)} from ${offer.buyer_name || 'buyer'}?\nEnter ${offerCode(offer.id)} to accept, 0 to cancel`
+  );
+}
+
+/**
+ * USSD gateways resend the whole session input on every step, joined by "*",
+ * so the menu position is derived from `text` alone.
+ */
+export async function handleUssd(
+  source: FarmerDataSource,
+  input: { phoneNumber: string; text: string }
+): Promise<GatewayReply> {
+  const farmer = await source.findFarmerByPhone(input.phoneNumber);
+  if (!farmer) return end('This number is not registered as an AgriConnect farmer.');
+
+  const steps = input.text ? input.text.split('*') : [];
+  const [choice, ...rest] = steps;
+
+  try {
+    if (choice === undefined) return mainMenu(farmer);
+    if (choice === '1') return await listProduceMenu(source, farmer, rest);
+    if (choice === '2') return await demandsMenu(source, farmer);
+    if (choice === '3') return await offersMenu(source, farmer, rest);
+    return end('Invalid choice.');
+  } catch (err) {
+    return end(err instanceof Error ? err.message : 'Something went wrong. Try again later.');
+  }
+}
+
+export const smsHelp = [
+  'AgriConnect SMS:',
+  'LIST <crop> <qty> <unit> <price>',
+  'DEMANDS',
+  'OFFERS',
+  'ACCEPT <code>',
+].join('\n');
+
+export async function handleSms(
+  source: FarmerDataSource,
+  input: { phoneNumber: string; text: string }
+): Promise<string> {
+  const farmer = await source.findFarmerByPhone(input.phoneNumber);
+  if (!farmer) return 'This number is not registered as an AgriConnect farmer.';
+
+  const words = input.text.trim().split(/\s+/).filter(Boolean);
+  const command = (words.shift() || '').toUpperCase();
+
+  try {
+    if (command === 'LIST') {
+      // Crop names can have spaces, so read the fixed fields from the end.
+      if (words.length < 4) return `Usage: LIST <crop> <qty> <unit> <price>\nUnits: ${gatewayUnits.join(', ')}`;
+
+      const price = parsePositive(words.pop());
+      const unit = (words.pop() || '').toLowerCase();
+      const quantity = parsePositive(words.pop());
+      const crop = words.join(' ');
+
+      if (!quantity || !price) return 'Quantity and price must be numbers above 0.';
+      if (!gatewayUnits.includes(unit)) return `Unknown unit "${unit}". Use one of: ${gatewayUnits.join(', ')}`;
+
+      await source.createListing(farmer, { crop_name: crop, quantity, unit, price_per_unit: price });
+      return `Listed ${quantity} ${unit} ${crop} at ${ugx(price)}/${unit}.`;
+    }
+
+    if (command === 'DEMANDS') {
+      const demands = await source.nearbyDemands(farmer, SMS_DEMAND_LIMIT);
+      if (demands.length === 0) return 'No open buyer demands near you right now.';
+      return demands.map((d, i) => describeDemand(d, i)).join('\n');
+    }
+
+    if (command === 'OFFERS') {
+      const offers = await source.offersAwaitingFarmer(farmer, MENU_OFFER_LIMIT);
+      if (offers.length === 0) return 'No offers are waiting for your reply.';
+      return [...offers.map((o) => `${offerCode(o.id)}: ${describeOffer(o)}`), 'Reply ACCEPT <code>'].join('\n');
+    }
+
+    if (command === 'ACCEPT') {
+      const code = (words[0] || '').toUpperCase();
+      if (!code) return 'Usage: ACCEPT <code>. Send OFFERS to see codes.';
+
+      const offers = await source.offersAwaitingFarmer(farmer, 50);
+      const offer = offers.find((o) => offerCode(o.id) === code);
+      if (!offer) return `No offer ${code} is waiting for you. Send OFFERS to see codes.`;
+
+      await source.acceptOffer(farmer, offer.id);
+      return `Accepted ${describeOffer(offer)}. Order created.`;
+    }
+
+    return smsHelp;
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Something went wrong. Try again later.';
+  }
+}
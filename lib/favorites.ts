@@ -0,0 +1,200 @@
+// lib/favorites.ts
+import { supabase } from '@/lib/supabaseClient';
+
+export type ListingFavorite = {
+  id: string;
+  user_id: string;
+  produce_id: string;
+  saved_price_per_unit: number | null;
+  saved_quantity: number | null;
+  saved_is_available: boolean | null;
+  created_at: string;
+};
+
+/** The farm_produce fields a saved listing is watched for. */
+export type FavoriteListingSnapshot = {
+  id: string;
+  crop_name: string;
+  unit: string;
+  price_per_unit: number;
+  quantity: number;
+  is_available: boolean;
+};
+
+export type SavedListing = FavoriteListingSnapshot & {
+  farmer_id: string | null;
+  farmer_name: string | null;
+  farmer_location: string | null;
+  crop_category: string | null;
+  quality: string | null;
+  photo: string | null;
+  listed_at: string | null;
+};
+
+export type FavoriteWithListing = ListingFavorite & {
+  /** Null when the listing can no longer be read. */
+  produce: SavedListing | null;
+};
+
+export type FavoriteAlertKind = 'price_drop' | 'quantity_change' | 'unavailable';
+
+export type FavoriteAlert = {
+  produceId: string;
+  kind: FavoriteAlertKind;
+  message: string;
+};
+
+// Where saves lived before they were stored per user.
+const LEGACY_STORAGE_KEY = 'favorites';
+
+const formatUGX = (n: number) => `UGX ${Number(n || 0).toLocaleString('en-UG')}`;
+
+export async function fetchFavoriteIds(userId: string) {
+  const { data, error } = await supabase
+    .from('listing_favorites')
+    .select('produce_id')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Failed to load favorites:', error);
+    return new Set<string>();
+  }
+
+  return new Set((data || []).map((row) => row.produce_id as string));
+}
+
+export async function fetchFavorites(userId: string) {
+  const { data, error } = await supabase
+    .from('listing_favorites')
+    .select(
+      '*, produce:produce_id (id,crop_name,unit,price_per_unit,quantity,is_available,farmer_id,farmer_name,farmer_location,crop_category,quality,photo,listed_at)'
+    )
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Failed to load saved listings:', error);
+    return [];
+  }
+
+  return (data || []) as unknown as FavoriteWithListing[];
+}
+
+export async function addFavorite(userId: string, listing: FavoriteListingSnapshot) {
+  const { error } = await supabase.from('listing_favorites').upsert(
+    {
+      user_id: userId,
+      produce_id: listing.id,
+      saved_price_per_unit: listing.price_per_unit,
+      saved_quantity: listing.quantity,
+      saved_is_available: listing.is_available,
+    },
+    { onConflict: 'user_id,produce_id', ignoreDuplicates: true }
+  );
+
+  return { error: error?.message ?? null };
+}
+
+export async function removeFavorite(userId: string, produceId: string) {
+  const { error } = await supabase
+    .from('listing_favorites')
+    .delete()
+    .eq('user_id', userId)
+    .eq('produce_id', produceId);
+
+  return { error: error?.message ?? null };
+}
+
+/** Moves saves from the old localStorage key into listing_favorites, once. */
+export async function importLegacyFavorites(userId: string) {
+  if (typeof window === 'undefined') return;
+
+  let ids: string[] = [];
+  try {
+    ids = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || '[]');
+  } catch {
+    ids = [];
+  }
+
+  if (!Array.isArray(ids) || ids.length === 0) {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return;
+  }
+
+  const { data: listings } = await supabase
+    .from('farm_produce')
+    .select('id,price_per_unit,quantity,is_available')
+    .in('id', ids);
+
+  if (listings?.length) {
+    const { error } = await supabase.from('listing_favorites').upsert(
+      listings.map((p) => ({
+        user_id: userId,
+        produce_id: p.id,
+        saved_price_per_unit: p.price_per_unit,
+        saved_quantity: p.quantity,
+        saved_is_available: p.is_available,
+      })),
+      { onConflict: 'user_id,produce_id', ignoreDuplicates: true }
+    );
+
+    if (error) {
+      console.error('Failed to import saved listings:', error);
+      return;
+    }
+  }
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+/**
+ * Compares two states of a saved listing and describes what a buyer would
+ * want to hear about. Price rises are deliberately ignored.
+ */
+export function favoriteChangeAlerts(
+  previous: Pick<FavoriteListingSnapshot, 'price_per_unit' | 'quantity' | 'is_available'>,
+  next: FavoriteListingSnapshot
+): FavoriteAlert[] {
+  const alerts: FavoriteAlert[] = [];
+
+  if (previous.is_available && !next.is_available) {
+    alerts.push({
+      produceId: next.id,
+      kind: 'unavailable',
+      message: `${next.crop_name} is no longer available`,
+    });
+    return alerts;
+  }
+
+  if (Number(next.price_per_unit) < Number(previous.price_per_unit)) {
+    alerts.push({
+      produceId: next.id,
+      kind: 'price_drop',
+      message: `${next.crop_name} dropped from ${formatUGX(previous.price_per_unit)} to ${formatUGX(next.price_per_unit)} per ${next.unit}`,
+    });
+  }
+
+  if (Number(next.quantity) !== Number(previous.quantity)) {
+    alerts.push({
+      produceId: next.id,
+      kind: 'quantity_change',
+      message: `${next.crop_name} now has ${Number(next.quantity).toLocaleString()} ${next.unit} (was ${Number(previous.quantity).toLocaleString()})`,
+    });
+  }
+
+  return alerts;
+}
+
+/** Same comparison against the snapshot taken when the listing was saved. */
+export function changesSinceSaved(favorite: ListingFavorite, listing: FavoriteListingSnapshot) {
+  if (favorite.saved_price_per_unit === null || favorite.saved_quantity === null) return [];
+
+  return favoriteChangeAlerts(
+    {
+      price_per_unit: favorite.saved_price_per_unit,
+      quantity: favorite.saved_quantity,
+      is_available: favorite.saved_is_available ?? true,
+    },
+    listing
+  );
+}
@@ -0,0 +1,109 @@
+// lib/geo.ts
+// Plain coordinate helpers, safe to use on the server and in the browser.
+
+export type LatLng = { lat: number; lng: number };
+
+/** A map viewport or any other lat/lng box. */
+export type GeoBounds = {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+};
+
+/** Great-circle distance in km (haversine). */
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number) {
+  const R = 6371;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLng = ((lng2 - lng1) * Math.PI) / 180;
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLng / 2) ** 2;
+
+  return R * (2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)));
+}
+
+/** Ray casting over a ring of [lat, lng] pairs; the ring need not be closed. */
+export function pointInPolygon(lat: number, lng: number, polygon: [number, number][]) {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [lat1, lng1] = polygon[i];
+    const [lat2, lng2] = polygon[j];
+
+    if (lat1 > lat !== lat2 > lat && lng < ((lng2 - lng1) * (lat - lat1)) / (lat2 - lat1) + lng1) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * District from a free-text location: the part before the first comma,
+ * title-cased. Mirrors price_district() in the database.
+ */
+export function districtOf(location: string | null | undefined) {
+  const head = (location || '').split(',')[0].trim().toLowerCase();
+  if (!head) return null;
+  return head.replace(/(^|[^a-z0-9])([a-z])/g, (_m, pre: string, ch: string) => pre + ch.toUpperCase());
+}
+
+/** Pixel position of a point in Web Mercator at `zoom`, as Leaflet tiles use. */
+export function projectToPixels(lat: number, lng: number, zoom: number) {
+  const scale = 256 * 2 ** zoom;
+  const clamped = Math.max(Math.min(lat, 85.0511), -85.0511);
+  const rad = (clamped * Math.PI) / 180;
+
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * scale,
+  };
+}
+
+/** Degrees of longitude spanned by `px` screen pixels at `zoom`. */
+export function degreesPerPixels(px: number, zoom: number) {
+  return (360 / (256 * 2 ** zoom)) * px;
+}
+
+export type GeoCluster<T> = {
+  /** Grid cell key, stable while the zoom stays the same. */
+  id: string;
+  lat: number;
+  lng: number;
+  items: T[];
+  bounds: GeoBounds;
+};
+
+/**
+ * Groups points that fall in the same `cellPx`-sized square on screen at
+ * `zoom`. Each cluster sits at the mean position of its points. Cheap enough
+ * to rerun on every zoom for a few thousand points.
+ */
+export function clusterByGrid<T extends LatLng>(points: T[], zoom: number, cellPx = 60): GeoCluster<T>[] {
+  const cells = new Map<string, T[]>();
+
+  for (const point of points) {
+    const { x, y } = projectToPixels(point.lat, point.lng, zoom);
+    const key = `${Math.floor(x / cellPx)}:${Math.floor(y / cellPx)}`;
+    const items = cells.get(key);
+    if (items) items.push(point);
+    else cells.set(key, [point]);
+  }
+
+  return Array.from(cells, ([id, items]) => ({
+    id,
+    lat: items.reduce((sum, p) => sum + p.lat, 0) / items.length,
+    lng: items.reduce((sum, p) => sum + p.lng, 0) / items.length,
+    items,
+    bounds: {
+      south: Math.min(...items.map((p) => p.lat)),
+      west: Math.min(...items.map((p) => p.lng)),
+      north: Math.max(...items.map((p) => p.lat)),
+      east: Math.max(...items.map((p) => p.lng)),
+    },
+  }));
+}
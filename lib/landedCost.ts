@@ -0,0 +1,54 @@
+// lib/landedCost.ts
+import { supabase } from '@/lib/supabaseClient';
+
+/** UGX to carry one kg one km; used until the admin-set tariff has loaded. */
+export const DEFAULT_TRANSPORT_TARIFF = 1.5;
+
+export async function fetchTransportTariff() {
+  const { data, error } = await supabase.from('transport_tariffs').select('ugx_per_kg_km').maybeSingle();
+
+  if (error) {
+    console.error('Failed to load transport tariff:', error);
+    return DEFAULT_TRANSPORT_TARIFF;
+  }
+
+  const tariff = Number(data?.ugx_per_kg_km);
+  return Number.isFinite(tariff) && tariff >= 0 ? tariff : DEFAULT_TRANSPORT_TARIFF;
+}
+
+/**
+ * Farm-gate price per kg plus carriage over `distanceKm`, the same figure the
+ * 'landed-low' sort orders by. Null without a per-kg price or a distance.
+ */
+export function landedPerKg(pricePerKg: number | null | undefined, distanceKm: number | null | undefined, tariff: number) {
+  if (pricePerKg == null || distanceKm == null || !Number.isFinite(pricePerKg) || !Number.isFinite(distanceKm)) {
+    return null;
+  }
+  return pricePerKg + Math.max(distanceKm, 0) * tariff;
+}
+
+/**
+ * Landed cost for one of the listing's own units. The kilograms in a unit
+ * come from the listing's two prices, so no conversion table is needed.
+ */
+export function landedPerUnit({
+  pricePerUnit,
+  pricePerKg,
+  distanceKm,
+  tariff,
+}: {
+  pricePerUnit: number;
+  pricePerKg: number | null | undefined;
+  distanceKm: number | null | undefined;
+  tariff: number;
+}) {
+  const perKg = landedPerKg(pricePerKg, distanceKm, tariff);
+  if (perKg == null || !pricePerKg || pricePerKg <= 0) return null;
+  return perKg * (pricePerUnit / pricePerKg);
+}
+
+/** "Landed ≈ UGX 131,500/bag", or null when there is no estimate. */
+export function landedCostLabel(perUnit: number | null | undefined, unit: string) {
+  if (perUnit == null) return null;
+  return `Landed ≈ UGX ${Math.round(perUnit).toLocaleString('en-UG')}/${unit || 'unit'}`;
+}
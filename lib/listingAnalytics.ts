@@ -0,0 +1,128 @@
+// lib/listingAnalytics.ts
+import { supabase } from '@/lib/supabaseClient';
+
+export type ListingEventType = 'view' | 'impression';
+export type ListingEventSource = 'detail' | 'grid' | 'map';
+
+export type ListingAnalyticsRow = {
+  produce_id: string;
+  crop_name: string;
+  is_available: boolean;
+  views: number;
+  impressions: number;
+  saves: number;
+  offers: number;
+  orders: number;
+  completed_orders: number;
+};
+
+const SESSION_KEY = 'agriconnect-session-id';
+const SENT_KEY = 'agriconnect-listing-events';
+const FLUSH_DELAY_MS = 1500;
+// record_listing_events reads at most this many events per call.
+const MAX_BATCH_SIZE = 200;
+
+type PendingEvent = { produce_id: string; event_type: ListingEventType; source: ListingEventSource };
+
+let pending: PendingEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function sessionId() {
+  let id = sessionStorage.getItem(SESSION_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    sessionStorage.setItem(SESSION_KEY, id);
+  }
+  return id;
+}
+
+function sentKeys() {
+  try {
+    return new Set<string>(JSON.parse(sessionStorage.getItem(SENT_KEY) || '[]'));
+  } catch {
+    return new Set<string>();
+  }
+}
+
+async function flush() {
+  flushTimer = null;
+  if (pending.length === 0) return;
+
+  const events = pending;
+  pending = [];
+
+  for (let i = 0; i < events.length; i += MAX_BATCH_SIZE) {
+    const { error } = await supabase.rpc('record_listing_events', {
+      p_session_id: sessionId(),
+      p_events: events.slice(i, i + MAX_BATCH_SIZE),
+    });
+
+    if (error) console.error('Failed to record listing events:', error);
+  }
+}
+
+/**
+ * Queues views/impressions for this browser session. Repeats within the
+ * session are dropped here and again by the unique key in listing_events.
+ */
+export function trackListingEvents(
+  produceIds: string[],
+  eventType: ListingEventType,
+  source: ListingEventSource
+) {
+  if (typeof window === 'undefined' || produceIds.length === 0) return;
+
+  const sent = sentKeys();
+  const fresh = produceIds.filter((id) => !sent.has(`${eventType}:${source}:${id}`));
+  if (fresh.length === 0) return;
+
+  fresh.forEach((id) => {
+    sent.add(`${eventType}:${source}:${id}`);
+    pending.push({ produce_id: id, event_type: eventType, source });
+  });
+  sessionStorage.setItem(SENT_KEY, JSON.stringify(Array.from(sent)));
+
+  // Views go out straight away; impressions from a grid or map are batched.
+  if (eventType === 'view') {
+    if (flushTimer) clearTimeout(flushTimer);
+    flush();
+    return;
+  }
+
+  if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+}
+
+export async function fetchListingViewCount(produceId: string) {
+  const { data } = await supabase
+    .from('listing_stats')
+    .select('view_count')
+    .eq('produce_id', produceId)
+    .maybeSingle();
+
+  return Number(data?.view_count || 0);
+}
+
+export async function fetchListingAnalytics() {
+  const { data, error } = await supabase.rpc('listing_analytics');
+
+  if (error) {
+    console.error('Failed to load listing analytics:', error);
+    return [];
+  }
+
+  return ((data || []) as ListingAnalyticsRow[]).map((row) => ({
+    ...row,
+    views: Number(row.views || 0),
+    impressions: Number(row.impressions || 0),
+    saves: Number(row.saves || 0),
+    offers: Number(row.offers || 0),
+    orders: Number(row.orders || 0),
+    completed_orders: Number(row.completed_orders || 0),
+  }));
+}
+
+/** Share of `from` that reached `to`, as a whole percentage. */
+export function conversionRate(to: number, from: number) {
+  if (!from) return 0;
+  return Math.round((to / from) * 100);
+}
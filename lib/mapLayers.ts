@@ -0,0 +1,70 @@
+// lib/mapLayers.ts
+import { supabase } from '@/lib/supabaseClient';
+import { degreesPerPixels, type GeoBounds } from '@/lib/geo';
+
+export type MapLayer = 'listings' | 'demands' | 'supply' | 'demand' | 'price';
+
+export type HeatLayer = Exclude<MapLayer, 'listings' | 'demands'>;
+
+export const mapLayerOptions: { value: MapLayer; label: string; description: string }[] = [
+  { value: 'listings', label: 'Listings', description: 'Pins, grouped when zoomed out' },
+  { value: 'demands', label: 'Buyer requests', description: 'Open demands and the areas they source from' },
+  { value: 'supply', label: 'Supply heat', description: 'Listed quantity in kg' },
+  { value: 'demand', label: 'Demand heat', description: 'Quantity wanted by open buyer requests' },
+  { value: 'price', label: 'Price', description: 'Average asking price per kg' },
+];
+
+export const heatLayers: HeatLayer[] = ['supply', 'demand', 'price'];
+
+export const defaultMapLayers: MapLayer[] = ['listings'];
+
+/** Layers from the `layers` query value. Missing means the default; empty means none. */
+export function layersFromParam(value: string | null): MapLayer[] {
+  if (value == null) return defaultMapLayers;
+
+  const wanted = value.split(',');
+  return mapLayerOptions.map((o) => o.value).filter((layer) => wanted.includes(layer));
+}
+
+/** The `layers` query value, or null when it is the default and can be left out. */
+export function layersToParam(layers: MapLayer[]) {
+  const ordered = mapLayerOptions.map((o) => o.value).filter((layer) => layers.includes(layer));
+  const isDefault =
+    ordered.length === defaultMapLayers.length && ordered.every((layer) => defaultMapLayers.includes(layer));
+  return isDefault ? null : ordered.join(',');
+}
+
+export type HeatCell = {
+  lat: number;
+  lng: number;
+  /** Listings or demands in the cell. */
+  items: number;
+  /** kg for supply and demand, UGX/kg for price. */
+  value: number;
+};
+
+/** Grid cells, about `cellPx` screen pixels across at `zoom`, for one heat layer. */
+export async function fetchHeatCells(layer: HeatLayer, bounds: GeoBounds, zoom: number, cellPx = 28) {
+  const { data, error } = await supabase.rpc('map_heat_cells', {
+    p_layer: layer,
+    p_south: bounds.south,
+    p_west: bounds.west,
+    p_north: bounds.north,
+    p_east: bounds.east,
+    p_cell_deg: degreesPerPixels(cellPx, zoom),
+  });
+
+  if (error) {
+    console.error(`Failed to load ${layer} layer:`, error);
+    return [] as HeatCell[];
+  }
+
+  return ((data || []) as { lat: number; lng: number; items: number; value: number | string | null }[]).map(
+    (row) => ({
+      lat: Number(row.lat),
+      lng: Number(row.lng),
+      items: Number(row.items || 0),
+      value: Number(row.value || 0),
+    })
+  );
+}
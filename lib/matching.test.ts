@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import {
+  rankDemandsForListing,
+  rankListingsForDemand,
+  scoreCrop,
+  scoreDistance,
+  scoreMatch,
+  scorePrice,
+  scoreQuality,
+  scoreQuantity,
+  type MatchableDemand,
+  type MatchableListing,
+} from '@/lib/matching';
+
+// Kampala, and points roughly 10 km and 60 km away.
+const KAMPALA = { lat: 0.3476, lng: 32.5825 };
+const NEAR = { lat: 0.3476, lng: 32.6724 };
+const FAR = { lat: 0.3476, lng: 33.1220 };
+
+const demand = (overrides: Partial<MatchableDemand> = {}): MatchableDemand => ({
+  id: 'd1',
+  crop_name: 'Maize',
+  variety: null,
+  preferred_quality: 'standard',
+  quantity: 1000,
+  unit: 'kg',
+  target_price_per_unit: 1000,
+  radius_km: 50,
+  location_lat: KAMPALA.lat,
+  location_lng: KAMPALA.lng,
+  ...overrides,
+});
+
+const listing = (overrides: Partial<MatchableListing> = {}): MatchableListing => ({
+  id: 'l1',
+  crop_name: 'Maize',
+  variety: null,
+  quality: 'standard',
+  quantity: 1000,
+  unit: 'kg',
+  price_per_unit: 1000,
+  location_lat: NEAR.lat,
+  location_lng: NEAR.lng,
+  ...overrides,
+});
+
+describe('scoreCrop', () => {
+  it('scores exact, partial and unrelated crops', () => {
+    expect(scoreCrop(demand(), listing())).toBe(1);
+    expect(scoreCrop(demand({ crop_name: 'Maize' }), listing({ crop_name: 'White maize' }))).toBe(0.8);
+    expect(scoreCrop(demand({ crop_name: 'Maize' }), listing({ crop_name: 'Beans' }))).toBe(0);
+  });
+
+  it('marks down a missing or different variety', () => {
+    const wanted = demand({ variety: 'Longe 5' });
+    expect(scoreCrop(wanted, listing({ variety: 'Longe 5' }))).toBe(1);
+    expect(scoreCrop(wanted, listing({ variety: null }))).toBeCloseTo(0.85);
+    expect(scoreCrop(wanted, listing({ variety: 'Longe 10' }))).toBeCloseTo(0.7);
+  });
+});
+
+describe('scoreQuality', () => {
+  it('rewards meeting the preferred grade and treats unknown grades as neutral', () => {
+    expect(scoreQuality('standard', 'top')).toBe(1);
+    expect(scoreQuality('top', 'standard')).toBe(0.5);
+    expect(scoreQuality('top', 'fair')).toBe(0);
+    expect(scoreQuality(null, 'top')).toBe(0.5);
+  });
+});
+
+describe('scoreQuantity', () => {
+  it('is the share of the demand the listing covers, capped at 1', () => {
+    expect(scoreQuantity(demand(), listing({ quantity: 250 }))).toBe(0.25);
+    expect(scoreQuantity(demand(), listing({ quantity: 5000 }))).toBe(1);
+    expect(scoreQuantity(demand(), listing({ quantity: 0 }))).toBe(0);
+  });
+
+  it('converts through kg per unit when the units differ', () => {
+    const bags = listing({ unit: 'bag', quantity: 5, kg_per_unit: 100 });
+    expect(scoreQuantity(demand({ kg_per_unit: 1 }), bags)).toBe(0.5);
+  });
+
+  it('is neutral when the units cannot be compared or nothing is wanted', () => {
+    expect(scoreQuantity(demand(), listing({ unit: 'bunch' }))).toBe(0.5);
+    expect(scoreQuantity(demand({ quantity: 0 }), listing())).toBe(0.5);
+  });
+});
+
+describe('scorePrice', () => {
+  it('is 1 up to the target and 0 at 50% above it', () => {
+    expect(scorePrice(1000, 800)).toBe(1);
+    expect(scorePrice(1000, 1000)).toBe(1);
+    expect(scorePrice(1000, 1250)).toBeCloseTo(0.5);
+    expect(scorePrice(1000, 1500)).toBe(0);
+    expect(scorePrice(1000, 3000)).toBe(0);
+  });
+
+  it('is neutral without a price on either side', () => {
+    expect(scorePrice(0, 1000)).toBe(0.5);
+    expect(scorePrice(1000, 0)).toBe(0.5);
+  });
+});
+
+describe('scoreDistance', () => {
+  it('falls off linearly to the edge of the radius', () => {
+    expect(scoreDistance(0, 50)).toBe(1);
+    expect(scoreDistance(25, 50)).toBe(0.5);
+    expect(scoreDistance(50, 50)).toBe(0);
+    expect(scoreDistance(51, 50)).toBe(0);
+  });
+
+  it('is neutral without a distance or a radius', () => {
+    expect(scoreDistance(null, 50)).toBe(0.5);
+    expect(scoreDistance(10, 0)).toBe(0.5);
+  });
+});
+
+describe('scoreMatch', () => {
+  it("scores a perfect listing at the buyer's location 100", () => {
+    const result = scoreMatch(demand(), listing({ location_lat: KAMPALA.lat, location_lng: KAMPALA.lng }));
+    expect(result.eligible).toBe(true);
+    expect(result.distance).toBe(0);
+    expect(result.score).toBe(100);
+  });
+
+  it('compares prices per kg across units', () => {
+    // 100 kg bags at UGX 90,000 are UGX 900/kg, under the UGX 1,000/kg target
+    const bags = listing({ unit: 'bag', quantity: 10, price_per_unit: 90000, kg_per_unit: 100 });
+    expect(scoreMatch(demand({ kg_per_unit: 1 }), bags).breakdown.price).toBe(1);
+  });
+
+  it('rules out other crops and listings outside the radius', () => {
+    expect(scoreMatch(demand(), listing({ crop_name: 'Beans' })).eligible).toBe(false);
+
+    const far = scoreMatch(demand(), listing({ location_lat: FAR.lat, location_lng: FAR.lng }));
+    expect(far.distance).toBeGreaterThan(50);
+    expect(far.eligible).toBe(false);
+  });
+
+  it('keeps listings without coordinates as possible matches', () => {
+    const result = scoreMatch(demand(), listing({ location_lat: null, location_lng: null }));
+    expect(result.distance).toBeNull();
+    expect(result.eligible).toBe(true);
+    expect(result.breakdown.distance).toBe(0.5);
+  });
+
+  it('uses district membership instead of distance for district sourcing', () => {
+    const byDistrict = demand({ sourcing_mode: 'districts', sourcing_districts: ['Wakiso'] });
+
+    const inside = scoreMatch(byDistrict, listing({ farmer_location: 'Wakiso' }));
+    expect(inside.eligible).toBe(true);
+    expect(inside.breakdown.distance).toBe(1);
+
+    expect(scoreMatch(byDistrict, listing({ farmer_location: 'Gulu' })).eligible).toBe(false);
+  });
+});
+
+describe('ranking', () => {
+  it('orders eligible listings by score, then by distance, and drops the rest', () => {
+    const listings = [
+      listing({ id: 'pricey', price_per_unit: 1400 }),
+      listing({ id: 'beans', crop_name: 'Beans' }),
+      listing({ id: 'near', location_lat: KAMPALA.lat, location_lng: KAMPALA.lng }),
+      listing({ id: 'far', location_lat: FAR.lat, location_lng: FAR.lng }),
+      listing({ id: 'good' }),
+    ];
+
+    expect(rankListingsForDemand(demand(), listings).map((r) => r.item.id)).toEqual(['near', 'good', 'pricey']);
+    expect(rankListingsForDemand(demand(), listings, 1).map((r) => r.item.id)).toEqual(['near']);
+  });
+
+  it('breaks score ties by distance', () => {
+    // With a huge radius a few km no longer moves the rounded score
+    const wide = demand({ radius_km: 100000 });
+    const listings = [
+      listing({ id: 'ten-km', location_lat: NEAR.lat, location_lng: NEAR.lng }),
+      listing({ id: 'here', location_lat: KAMPALA.lat, location_lng: KAMPALA.lng }),
+    ];
+
+    const ranked = rankListingsForDemand(wide, listings);
+    expect(ranked[0].score).toBe(ranked[1].score);
+    expect(ranked.map((r) => r.item.id)).toEqual(['here', 'ten-km']);
+  });
+
+  it('ranks demands for a listing the same way', () => {
+    const demands = [
+      demand({ id: 'low-target', target_price_per_unit: 700 }),
+      demand({ id: 'rice', crop_name: 'Rice' }),
+      demand({ id: 'fair-target' }),
+    ];
+
+    expect(rankDemandsForListing(listing(), demands).map((r) => r.item.id)).toEqual(['fair-target', 'low-target']);
+  });
+});
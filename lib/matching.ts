@@ -0,0 +1,251 @@
+// lib/matching.ts
+// Pure scoring of buyer demands against produce listings. Nothing in here
+// talks to Supabase so the same functions work on both sides of the market.
+import { distanceKm } from '@/lib/geo';
+import { inSourcingArea, sourcingModeOf, type SourcingArea } from '@/lib/sourcingAreas';
+
+export type MatchQuality = 'top' | 'standard' | 'fair';
+
+export type MatchableDemand = {
+  id: string;
+  crop_name: string;
+  variety?: string | null;
+  preferred_quality: string | null;
+  quantity: number;
+  unit: string;
+  target_price_per_unit: number;
+  /** Kilograms in one `unit`, when known (see lib/units). */
+  kg_per_unit?: number | null;
+  radius_km: number;
+  location_lat: number | null;
+  location_lng: number | null;
+  sourcing_mode?: SourcingArea['sourcing_mode'];
+  sourcing_polygon?: SourcingArea['sourcing_polygon'];
+  sourcing_districts?: SourcingArea['sourcing_districts'];
+};
+
+export type MatchableListing = {
+  id: string;
+  crop_name: string;
+  variety?: string | null;
+  quality?: string | null;
+  quantity: number;
+  unit: string;
+  price_per_unit: number;
+  kg_per_unit?: number | null;
+  location_lat: number | null;
+  location_lng: number | null;
+  /** Used for district sourcing areas. */
+  farmer_location?: string | null;
+};
+
+export type MatchFactor = 'crop' | 'quality' | 'quantity' | 'price' | 'distance';
+
+export type MatchBreakdown = Record<MatchFactor, number>;
+
+export type MatchResult = {
+  /** 0–100, weighted sum of the breakdown. */
+  score: number;
+  /** Each factor scored 0–1 before weighting. */
+  breakdown: MatchBreakdown;
+  distance: number | null;
+  /** False when the crop differs or the listing is outside the buyer's sourcing area. */
+  eligible: boolean;
+};
+
+export type RankedMatch<T> = MatchResult & { item: T };
+
+export const matchWeights: MatchBreakdown = {
+  crop: 30,
+  quality: 15,
+  quantity: 20,
+  price: 20,
+  distance: 15,
+};
+
+export const matchFactorLabels: Record<MatchFactor, string> = {
+  crop: 'Crop & variety',
+  quality: 'Quality',
+  quantity: 'Quantity',
+  price: 'Price',
+  distance: 'Distance',
+};
+
+const qualityRank: Record<MatchQuality, number> = { fair: 0, standard: 1, top: 2 };
+
+// Used when a factor cannot be judged, e.g. a listing without coordinates.
+const UNKNOWN_FACTOR_SCORE = 0.5;
+
+const normalize = (value: string | null | undefined) =>
+  (value || '').toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+function toQuality(value: string | null | undefined): MatchQuality | null {
+  const key = normalize(value);
+  return key === 'top' || key === 'standard' || key === 'fair' ? key : null;
+}
+
+export function scoreCrop(demand: MatchableDemand, listing: MatchableListing) {
+  const wanted = normalize(demand.crop_name);
+  const offered = normalize(listing.crop_name);
+  if (!wanted || !offered) return 0;
+
+  let score = 0;
+  if (wanted === offered) {
+    score = 1;
+  } else if (wanted.includes(offered) || offered.includes(wanted)) {
+    score = 0.8;
+  } else {
+    const wantedWords = new Set(wanted.split(' '));
+    if (offered.split(' ').some((w) => w.length > 2 && wantedWords.has(w))) score = 0.6;
+  }
+
+  // A named variety on the demand only counts when the listing has the same one.
+  const wantedVariety = normalize(demand.variety);
+  if (score > 0 && wantedVariety) {
+    const offeredVariety = normalize(listing.variety);
+    if (!offeredVariety) score *= 0.85;
+    else if (offeredVariety !== wantedVariety) score *= 0.7;
+  }
+
+  return score;
+}
+
+export function scoreQuality(preferred: string | null | undefined, offered: string | null | undefined) {
+  const want = toQuality(preferred);
+  const have = toQuality(offered);
+  if (!want || !have) return UNKNOWN_FACTOR_SCORE;
+
+  const gap = qualityRank[want] - qualityRank[have];
+  if (gap <= 0) return 1;
+  return gap === 1 ? 0.5 : 0;
+}
+
+/**
+ * Factors to bring the demand's and listing's figures into one unit: 1 when
+ * they already share a unit, kilograms per unit when both are known, null
+ * when the two cannot be compared.
+ */
+function commonUnitFactors(demand: MatchableDemand, listing: MatchableListing) {
+  if (normalize(demand.unit) === normalize(listing.unit)) return { demand: 1, listing: 1 };
+  if (!demand.kg_per_unit || !listing.kg_per_unit) return null;
+  return { demand: demand.kg_per_unit, listing: listing.kg_per_unit };
+}
+
+export function scoreQuantity(demand: MatchableDemand, listing: MatchableListing) {
+  const factors = commonUnitFactors(demand, listing);
+  if (!factors) return UNKNOWN_FACTOR_SCORE;
+
+  const wanted = Number(demand.quantity || 0) * factors.demand;
+  if (wanted <= 0) return UNKNOWN_FACTOR_SCORE;
+
+  return clamp01((Number(listing.quantity || 0) * factors.listing) / wanted);
+}
+
+/**
+ * At or below the buyer's target scores 1, then drops linearly to 0 once the
+ * asking price is 50% above target.
+ */
+export function scorePrice(targetPrice: number, askingPrice: number) {
+  const target = Number(targetPrice || 0);
+  const asking = Number(askingPrice || 0);
+  if (target <= 0 || asking <= 0) return UNKNOWN_FACTOR_SCORE;
+  if (asking <= target) return 1;
+
+  return clamp01(1 - (asking - target) / (target * 0.5));
+}
+
+export function scoreDistance(distance: number | null, radiusKm: number) {
+  const radius = Number(radiusKm || 0);
+  if (distance === null || radius <= 0) return UNKNOWN_FACTOR_SCORE;
+  if (distance > radius) return 0;
+
+  return clamp01(1 - distance / radius);
+}
+
+export function scoreMatch(demand: MatchableDemand, listing: MatchableListing): MatchResult {
+  const distance =
+    demand.location_lat != null &&
+    demand.location_lng != null &&
+    listing.location_lat != null &&
+    listing.location_lng != null
+      ? distanceKm(demand.location_lat, demand.location_lng, listing.location_lat, listing.location_lng)
+      : null;
+
+  const factors = commonUnitFactors(demand, listing);
+  const inArea = inSourcingArea(demand, {
+    lat: listing.location_lat,
+    lng: listing.location_lng,
+    location: listing.farmer_location,
+  });
+
+  const breakdown: MatchBreakdown = {
+    crop: scoreCrop(demand, listing),
+    quality: scoreQuality(demand.preferred_quality, listing.quality),
+    quantity: scoreQuantity(demand, listing),
+    price: factors
+      ? scorePrice(demand.target_price_per_unit / factors.demand, listing.price_per_unit / factors.listing)
+      : UNKNOWN_FACTOR_SCORE,
+    // Drawn areas and districts have no centre to measure from, so inside is all that counts
+    distance:
+      sourcingModeOf(demand) === 'radius'
+        ? scoreDistance(distance, demand.radius_km)
+        : inArea === null
+          ? UNKNOWN_FACTOR_SCORE
+          : Number(inArea),
+  };
+
+  const eligible = breakdown.crop > 0 && inArea !== false;
+
+  const score = (Object.keys(matchWeights) as MatchFactor[]).reduce(
+    (sum, factor) => sum + breakdown[factor] * matchWeights[factor],
+    0
+  );
+
+  return { score: Math.round(score), breakdown, distance, eligible };
+}
+
+function rank<T>(results: RankedMatch<T>[], limit?: number) {
+  const sorted = results
+    .filter((r) => r.eligible)
+    .sort((a, b) => {
+      if (b.score !== a.score) return b.score - a.score;
+      if (a.distance === null && b.distance === null) return 0;
+      if (a.distance === null) return 1;
+      if (b.distance === null) return -1;
+      return a.distance - b.distance;
+    });
+
+  return limit ? sorted.slice(0, limit) : sorted;
+}
+
+/** Best listings for a buyer's demand, highest score first. */
+export function rankListingsForDemand<L extends MatchableListing>(
+  demand: MatchableDemand,
+  listings: L[],
+  limit?: number
+): RankedMatch<L>[] {
+  return rank(
+    listings.map((item) => ({ ...scoreMatch(demand, item), item })),
+    limit
+  );
+}
+
+/** Best demands for a farmer's listing, highest score first. */
+export function rankDemandsForListing<D extends MatchableDemand>(
+  listing: MatchableListing,
+  demands: D[],
+  limit?: number
+): RankedMatch<D>[] {
+  return rank(
+    demands.map((item) => ({ ...scoreMatch(item, listing), item })),
+    limit
+  );
+}
+
+export function getMatchScoreTone(score: number) {
+  if (score >= 75) return 'bg-emerald-50 text-emerald-700 border-emerald-100';
+  if (score >= 50) return 'bg-amber-50 text-amber-700 border-amber-100';
+  return 'bg-gray-100 text-gray-700 border-gray-200';
+}
@@ -0,0 +1,164 @@
+// lib/messages.ts
+import { supabase } from '@/lib/supabaseClient';
+
+export type ThreadSubjectType = 'listing' | 'demand' | 'order';
+
+export type MessageThread = {
+  id: string;
+  subject_type: ThreadSubjectType;
+  subject_id: string;
+  buyer_id: string;
+  farmer_id: string;
+  buyer_name: string | null;
+  farmer_name: string | null;
+  title: string;
+  last_message_at: string | null;
+  last_message_preview: string | null;
+  created_at: string;
+};
+
+export type Message = {
+  id: string;
+  thread_id: string;
+  sender_id: string;
+  body: string | null;
+  attachment_path: string | null;
+  created_at: string;
+};
+
+export const MESSAGE_BUCKET = 'message-attachments';
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+export const threadSubjectLabels: Record<ThreadSubjectType, string> = {
+  listing: 'Listing',
+  demand: 'Demand',
+  order: 'Order',
+};
+
+export function threadSubjectHref(thread: Pick<MessageThread, 'subject_type' | 'subject_id'>) {
+  if (thread.subject_type === 'listing') return `/products/${thread.subject_id}`;
+  if (thread.subject_type === 'order') return `/orders/${thread.subject_id}`;
+  return '/marketplace';
+}
+
+/** Name of whoever is on the other side of the thread from `authId`. */
+export function threadCounterpartName(thread: MessageThread, authId: string | null) {
+  return thread.buyer_id === authId
+    ? thread.farmer_name || 'Farmer'
+    : thread.buyer_name || 'Buyer';
+}
+
+/** Returns the thread for a listing, demand or order, creating it the first time. */
+export async function openThread(
+  subjectType: ThreadSubjectType,
+  subjectId: string
+): Promise<{ thread: MessageThread | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('open_message_thread', {
+    p_subject_type: subjectType,
+    p_subject_id: subjectId,
+  });
+
+  if (error) return { thread: null, error: error.message };
+  return { thread: data as MessageThread, error: null };
+}
+
+async function uploadAttachment(threadId: string, file: File) {
+  const ext = (file.name.split('.').pop() || 'jpg').toLowerCase();
+  const path = `${threadId}/${Date.now()}_${Math.random().toString(16).slice(2)}.${ext}`;
+
+  const { error } = await supabase.storage.from(MESSAGE_BUCKET).upload(path, file, {
+    contentType: file.type || 'image/jpeg',
+  });
+
+  if (error) throw error;
+  return path;
+}
+
+/** A short-lived link to a message photo for the people in the thread. */
+export async function attachmentUrl(path: string) {
+  const { data, error } = await supabase.storage.from(MESSAGE_BUCKET).createSignedUrl(path, 60 * 60);
+
+  if (error) {
+    console.error('Failed to sign message attachment:', error);
+    return null;
+  }
+
+  return data?.signedUrl ?? null;
+}
+
+export async function sendMessage({
+  threadId,
+  senderId,
+  body,
+  attachment,
+}: {
+  threadId: string;
+  senderId: string;
+  body?: string;
+  attachment?: File | null;
+}): Promise<{ message: Message | null; error: string | null }> {
+  const text = body?.trim() || '';
+  if (!text && !attachment) return { message: null, error: 'Write a message or attach a photo.' };
+
+  if (attachment) {
+    if (!attachment.type.startsWith('image/')) {
+      return { message: null, error: 'Only image attachments are supported.' };
+    }
+    if (attachment.size > MAX_ATTACHMENT_BYTES) {
+      return { message: null, error: 'Attachments must be 5MB or smaller.' };
+    }
+  }
+
+  try {
+    const attachmentPath = attachment ? await uploadAttachment(threadId, attachment) : null;
+
+    const { data, error } = await supabase
+      .from('messages')
+      .insert({
+        thread_id: threadId,
+        sender_id: senderId,
+        body: text || null,
+        attachment_path: attachmentPath,
+      })
+      .select('*')
+      .single();
+
+    if (error) return { message: null, error: error.message };
+    return { message: data as Message, error: null };
+  } catch (err) {
+    return { message: null, error: err instanceof Error ? err.message : 'Failed to send message.' };
+  }
+}
+
+export async function markThreadRead(threadId: string, userId: string) {
+  const { error } = await supabase
+    .from('message_thread_reads')
+    .upsert(
+      { thread_id: threadId, user_id: userId, last_read_at: new Date().toISOString() },
+      { onConflict: 'thread_id,user_id' }
+    );
+
+  if (error) console.error('Failed to mark thread read:', error);
+}
+
+/** Unread message count per thread for the signed-in user. */
+export async function fetchUnreadCounts(): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc('unread_message_counts');
+
+  if (error) {
+    console.error('Failed to load unread counts:', error);
+    return {};
+  }
+
+  return ((data || []) as { thread_id: string; unread: number }[]).reduce<Record<string, number>>(
+    (acc, row) => {
+      acc[row.thread_id] = Number(row.unread || 0);
+      return acc;
+    },
+    {}
+  );
+}
+
+export function totalUnread(counts: Record<string, number>) {
+  return Object.values(counts).reduce((sum, n) => sum + n, 0);
+}
@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createSandboxProvider,
+  getMobileMoneyProvider,
+  handlePaymentCallback,
+  isPaymentCallbackAuthorized,
+  networkForPhone,
+  providerForPhone,
+  type TransferRequest,
+} from '@/lib/mobileMoney';
+
+const transfer = (phone: string, reference = crypto.randomUUID()): TransferRequest => ({
+  reference,
+  amount: 120000,
+  currency: 'UGX',
+  phone,
+  note: 'Order 1234abcd',
+});
+
+// Just enough of the Supabase client for handlePaymentCallback(): one
+// order_payments row to look references up in, and apply_payment_result.
+function fakeClient(payment: { provider: string; collection_ref: string; payout_provider?: string; payout_ref?: string }) {
+  const applied: Record<string, unknown>[] = [];
+
+  const client = {
+    from: () => ({
+      select: () => ({
+        or: () => ({
+          maybeSingle: async () => ({ data: { payout_provider: null, payout_ref: null, ...payment }, error: null }),
+        }),
+      }),
+    }),
+    async rpc(_fn: string, args: Record<string, unknown>) {
+      applied.push(args);
+      return { data: { id: 'payment-1', status: args.p_status === 'succeeded' ? 'held' : 'failed' }, error: null };
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, applied };
+}
+
+const callback = (body: Record<string, unknown>) =>
+  new Request('https://agri.test/api/payments/callback/sandbox', { method: 'POST', body: JSON.stringify(body) });
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('networkForPhone', () => {
+  it('tells MTN and Airtel numbers apart by prefix', () => {
+    expect(networkForPhone('0772123456')).toBe('mtn');
+    expect(networkForPhone('+256 701 234 567')).toBe('airtel');
+    expect(networkForPhone('0392123456')).toBeNull();
+    expect(networkForPhone('+254712345678')).toBeNull();
+  });
+});
+
+describe('sandbox provider', () => {
+  const sandbox = createSandboxProvider();
+
+  it('pays ordinary numbers straight away', async () => {
+    const request = transfer('+256772123456');
+    const result = await sandbox.requestToPay(request);
+
+    expect(result).toEqual({ status: 'succeeded', providerRef: `sandbox-${request.reference.slice(0, 8)}`, reason: null });
+    expect(await sandbox.checkStatus('collection', request.reference)).toEqual(result);
+  });
+
+  it('declines numbers ending in 000 and keeps them declined', async () => {
+    const request = transfer('+256772123000');
+
+    expect((await sandbox.transfer(request)).status).toBe('failed');
+    expect((await sandbox.checkStatus('payout', request.reference)).status).toBe('failed');
+  });
+
+  it('holds numbers ending in 111 until the next status check', async () => {
+    const request = transfer('+256772123111');
+
+    expect((await sandbox.requestToPay(request)).status).toBe('pending');
+    expect((await sandbox.checkStatus('collection', request.reference)).status).toBe('succeeded');
+  });
+
+  it('settles a reference it has not seen, as after a restart, instead of failing it', async () => {
+    const reference = crypto.randomUUID();
+    const result = await createSandboxProvider().checkStatus('collection', reference);
+
+    expect(result).toEqual({ status: 'succeeded', providerRef: `sandbox-${reference.slice(0, 8)}`, reason: null });
+  });
+});
+
+describe('provider selection', () => {
+  it('only offers the sandbox in sandbox mode', () => {
+    vi.stubEnv('MOBILE_MONEY_MODE', '');
+    expect(getMobileMoneyProvider('sandbox')).toBeNull();
+    expect(providerForPhone('0772123456')).toBeNull();
+
+    vi.stubEnv('MOBILE_MONEY_MODE', 'live');
+    expect(getMobileMoneyProvider('sandbox')).toBeNull();
+
+    vi.stubEnv('MOBILE_MONEY_MODE', 'sandbox');
+    expect(getMobileMoneyProvider('sandbox')?.name).toBe('sandbox');
+    expect(providerForPhone('0392123456')?.name).toBe('sandbox');
+  });
+
+  it('finds no live provider without its credentials', () => {
+    vi.stubEnv('MOBILE_MONEY_MODE', 'live');
+    vi.stubEnv('MTN_MOMO_BASE_URL', '');
+    expect(providerForPhone('0772123456')).toBeNull();
+  });
+});
+
+describe('isPaymentCallbackAuthorized', () => {
+  it('needs the configured secret as ?key=', () => {
+    vi.stubEnv('PAYMENTS_CALLBACK_SECRET', 's3cret');
+    expect(isPaymentCallbackAuthorized(new Request('https://agri.test/cb?key=s3cret'))).toBe(true);
+    expect(isPaymentCallbackAuthorized(new Request('https://agri.test/cb?key=guess'))).toBe(false);
+    expect(isPaymentCallbackAuthorized(new Request('https://agri.test/cb'))).toBe(false);
+  });
+
+  it('lets nothing in when no secret is set', () => {
+    vi.stubEnv('PAYMENTS_CALLBACK_SECRET', '');
+    expect(isPaymentCallbackAuthorized(new Request('https://agri.test/cb?key='))).toBe(false);
+  });
+});
+
+describe('handlePaymentCallback', () => {
+  const provider = createSandboxProvider();
+
+  it('applies what the sandbox reports, not what the callback claims', async () => {
+    const request = transfer('+256772123456');
+    await provider.requestToPay(request);
+    const { client, applied } = fakeClient({ provider: 'sandbox', collection_ref: request.reference });
+
+    const result = await handlePaymentCallback({
+      client,
+      provider,
+      request: callback({ reference: request.reference, status: 'failed' }),
+    });
+
+    expect(result).toEqual({ applied: true, status: 'held' });
+    expect(applied[0]).toMatchObject({ p_provider: 'sandbox', p_reference: request.reference, p_status: 'succeeded' });
+  });
+
+  it('settles a pending sandbox payment when its callback arrives', async () => {
+    const request = transfer('+256772123111');
+    await provider.requestToPay(request);
+    const { client, applied } = fakeClient({ provider: 'sandbox', collection_ref: request.reference });
+
+    await handlePaymentCallback({ client, provider, request: callback({ reference: request.reference, status: 'succeeded' }) });
+
+    expect(applied[0]).toMatchObject({ p_status: 'succeeded' });
+  });
+
+  it("does not ask the sandbox about another provider's payment", async () => {
+    const reference = crypto.randomUUID();
+    const { client, applied } = fakeClient({ provider: 'mtn_momo', collection_ref: reference });
+
+    await handlePaymentCallback({ client, provider, request: callback({ reference, status: 'succeeded' }) });
+
+    // Passed through with no provider reference, so apply_payment_result can log and ignore it
+    expect(applied[0]).toMatchObject({ p_provider: 'sandbox', p_status: 'succeeded', p_provider_ref: null });
+  });
+
+  it('drops callbacks it cannot read', async () => {
+    const { client, applied } = fakeClient({ provider: 'sandbox', collection_ref: crypto.randomUUID() });
+
+    const result = await handlePaymentCallback({
+      client,
+      provider,
+      request: callback({ reference: 'not-a-uuid', status: 'succeeded' }),
+    });
+
+    expect(result).toEqual({ applied: false, status: 'unreadable' });
+    expect(applied).toHaveLength(0);
+  });
+});
@@ -0,0 +1,688 @@
+// lib/mobileMoney.ts
+// Mobile-money side of order escrow: MTN MoMo and Airtel Money behind one
+// small interface, a sandbox that settles locally, and the server-side steps
+// that collect, pay out and reconcile through apply_payment_result(). Route
+// handlers only; the live providers need secrets from the environment.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toInternationalPhone } from '@/lib/notificationSenders';
+import type { OrderPayment } from '@/lib/payments';
+
+export type TransferKind = 'collection' | 'payout';
+export type TransferStatus = 'pending' | 'succeeded' | 'failed';
+
+export type TransferRequest = {
+  /** Our uuid for the attempt; providers use it as their reference too. */
+  reference: string;
+  amount: number;
+  currency: string;
+  /** +256XXXXXXXXX */
+  phone: string;
+  note: string;
+};
+
+export type TransferResult = {
+  status: TransferStatus;
+  providerRef: string | null;
+  reason: string | null;
+};
+
+/** What a callback claims happened. It is checked with the provider before it is applied. */
+export type ProviderCallback = {
+  reference: string;
+  status: TransferStatus;
+  payload: unknown;
+};
+
+export interface MobileMoneyProvider {
+  name: string;
+  /** Prompts the payer's phone to approve a payment. */
+  requestToPay(request: TransferRequest): Promise<TransferResult>;
+  /** Sends money from the merchant wallet to a phone. */
+  transfer(request: TransferRequest): Promise<TransferResult>;
+  checkStatus(kind: TransferKind, reference: string): Promise<TransferResult>;
+  parseCallback(request: Request): Promise<ProviderCallback | null>;
+}
+
+const pending = (providerRef: string | null = null): TransferResult => ({ status: 'pending', providerRef, reason: null });
+
+// 9-digit national number, which is what both networks' APIs key on.
+const nationalNumber = (phone: string) => toInternationalPhone(phone).replace(/\D/g, '').slice(-9);
+
+/** The Ugandan network a number belongs to, or null for anything else. */
+export function networkForPhone(phone: string): 'mtn' | 'airtel' | null {
+  const international = toInternationalPhone(phone);
+  if (!international.startsWith('+256')) return null;
+
+  const prefix = nationalNumber(phone).slice(0, 2);
+  if (['76', '77', '78'].includes(prefix)) return 'mtn';
+  if (['70', '74', '75'].includes(prefix)) return 'airtel';
+  return null;
+}
+
+// Shared by every sandbox instance so a later status check sees earlier requests.
+const sandboxTransfers = new Map<string, TransferResult>();
+
+const sandboxRef = (reference: string) => `sandbox-${reference.slice(0, 8)}`;
+
+/**
+ * Settles without calling anyone. Numbers ending in 000 are declined and
+ * numbers ending in 111 stay pending until the next status check, so the
+ * failure and callback paths can be tried locally. A reference the sandbox
+ * doesn't know, e.g. after a restart, was still pending and settles like one.
+ */
+export function createSandboxProvider(): MobileMoneyProvider {
+  const settle = (request: TransferRequest): TransferResult => {
+    const result: TransferResult = request.phone.endsWith('000')
+      ? { status: 'failed', providerRef: null, reason: 'Declined by the sandbox payer' }
+      : request.phone.endsWith('111')
+        ? pending(sandboxRef(request.reference))
+        : { status: 'succeeded', providerRef: sandboxRef(request.reference), reason: null };
+
+    sandboxTransfers.set(request.reference, result);
+    return result;
+  };
+
+  return {
+    name: 'sandbox',
+    async requestToPay(request) {
+      return settle(request);
+    },
+    async transfer(request) {
+      return settle(request);
+    },
+    async checkStatus(_kind, reference) {
+      const known = sandboxTransfers.get(reference) ?? pending(sandboxRef(reference));
+      if (known.status !== 'pending') return known;
+
+      const settled: TransferResult = { ...known, status: 'succeeded' };
+      sandboxTransfers.set(reference, settled);
+      return settled;
+    },
+    async parseCallback(request) {
+      const body = (await request.json().catch(() => ({}))) as { reference?: string; status?: string };
+      if (!body.reference || !['pending', 'succeeded', 'failed'].includes(String(body.status))) return null;
+      return { reference: body.reference, status: body.status as TransferStatus, payload: body };
+    },
+  };
+}
+
+type MtnProductKeys = { subscriptionKey: string; apiUser: string; apiKey: string };
+
+export type MtnMomoConfig = {
+  /** https://sandbox.momodeveloper.mtn.com or the production proxy. */
+  baseUrl: string;
+  /** 'sandbox' or 'mtnuganda'. */
+  targetEnvironment: string;
+  callbackUrl?: string;
+  collection: MtnProductKeys;
+  disbursement: MtnProductKeys;
+};
+
+/** MTN MoMo Open API: Collections for request-to-pay, Disbursements for payouts. */
+export function createMtnMomoProvider(config: MtnMomoConfig): MobileMoneyProvider {
+  const tokens: Partial<Record<'collection' | 'disbursement', { value: string; expiresAt: number }>> = {};
+
+  const productFor = (kind: TransferKind) => (kind === 'collection' ? 'collection' : 'disbursement');
+
+  async function token(product: 'collection' | 'disbursement') {
+    const cached = tokens[product];
+    if (cached && cached.expiresAt > Date.now() + 60_000) return cached.value;
+
+    const keys = config[product];
+    const res = await fetch(`${config.baseUrl}/${product}/token/`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${keys.apiUser}:${keys.apiKey}`).toString('base64')}`,
+        'Ocp-Apim-Subscription-Key': keys.subscriptionKey,
+      },
+    });
+
+    if (!res.ok) throw new Error(`MTN MoMo token responded ${res.status}: ${await res.text()}`);
+
+    const body = (await res.json()) as { access_token: string; expires_in: number };
+    tokens[product] = { value: body.access_token, expiresAt: Date.now() + body.expires_in * 1000 };
+    return body.access_token;
+  }
+
+  async function headers(product: 'collection' | 'disbursement', extra: Record<string, string> = {}) {
+    return {
+      Authorization: `Bearer ${await token(product)}`,
+      'X-Target-Environment': config.targetEnvironment,
+      'Ocp-Apim-Subscription-Key': config[product].subscriptionKey,
+      ...extra,
+    };
+  }
+
+  async function submit(kind: TransferKind, request: TransferRequest): Promise<TransferResult> {
+    const product = productFor(kind);
+    const party = { partyIdType: 'MSISDN', partyId: `256${nationalNumber(request.phone)}` };
+    const path = kind === 'collection' ? 'collection/v1_0/requesttopay' : 'disbursement/v1_0/transfer';
+
+    const res = await fetch(`${config.baseUrl}/${path}`, {
+      method: 'POST',
+      headers: await headers(product, {
+        'X-Reference-Id': request.reference,
+        'Content-Type': 'application/json',
+        ...(config.callbackUrl ? { 'X-Callback-Url': config.callbackUrl } : {}),
+      }),
+      body: JSON.stringify({
+        amount: String(Math.round(request.amount)),
+        currency: request.currency,
+        externalId: request.reference,
+        ...(kind === 'collection' ? { payer: party } : { payee: party }),
+        payerMessage: request.note,
+        payeeNote: request.note,
+      }),
+    });
+
+    // 409 means this reference was already submitted; its outcome comes later
+    if (res.status === 202 || res.status === 409) return pending();
+    throw new Error(`MTN MoMo responded ${res.status}: ${await res.text()}`);
+  }
+
+  return {
+    name: 'mtn_momo',
+    requestToPay(request) {
+      return submit('collection', request);
+    },
+    transfer(request) {
+      return submit('payout', request);
+    },
+    async checkStatus(kind, reference) {
+      const product = productFor(kind);
+      const path = kind === 'collection' ? 'collection/v1_0/requesttopay' : 'disbursement/v1_0/transfer';
+      const res = await fetch(`${config.baseUrl}/${path}/${reference}`, { headers: await headers(product) });
+
+      if (res.status === 404) return { status: 'failed', providerRef: null, reason: 'Not found at MTN MoMo' };
+      if (!res.ok) throw new Error(`MTN MoMo status responded ${res.status}: ${await res.text()}`);
+
+      const body = (await res.json()) as {
+        status?: string;
+        financialTransactionId?: string;
+        reason?: string | { message?: string };
+      };
+      const reason = typeof body.reason === 'string' ? body.reason : body.reason?.message ?? null;
+
+      if (body.status === 'SUCCESSFUL') {
+        return { status: 'succeeded', providerRef: body.financialTransactionId ?? null, reason: null };
+      }
+      if (body.status === 'FAILED') return { status: 'failed', providerRef: null, reason: reason || 'Declined on MTN MoMo' };
+      return pending();
+    },
+    async parseCallback(request) {
+      const body = (await request.json().catch(() => ({}))) as { externalId?: string; status?: string };
+      if (!body.externalId) return null;
+
+      const status: TransferStatus =
+        body.status === 'SUCCESSFUL' ? 'succeeded' : body.status === 'FAILED' ? 'failed' : 'pending';
+      return { reference: body.externalId, status, payload: body };
+    },
+  };
+}
+
+export type AirtelMoneyConfig = {
+  /** https://openapiuat.airtel.africa or https://openapi.airtel.africa */
+  baseUrl: string;
+  clientId: string;
+  clientSecret: string;
+  /** The disbursement PIN, already encrypted with Airtel's public key. */
+  encryptedPin: string;
+};
+
+// TS settled, TF/TE failed; TIP, TA and anything new are still going.
+function airtelStatus(code: string | undefined): TransferStatus {
+  if (code === 'TS') return 'succeeded';
+  if (code === 'TF' || code === 'TE') return 'failed';
+  return 'pending';
+}
+
+/** Airtel Money Africa API: Collection for payments, Disbursement for payouts. */
+export function createAirtelMoneyProvider(config: AirtelMoneyConfig): MobileMoneyProvider {
+  let cachedToken: { value: string; expiresAt: number } | null = null;
+
+  async function headers() {
+    if (!cachedToken || cachedToken.expiresAt <= Date.now() + 60_000) {
+      const res = await fetch(`${config.baseUrl}/auth/oauth2/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: '*/*' },
+        body: JSON.stringify({
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+          grant_type: 'client_credentials',
+        }),
+      });
+
+      if (!res.ok) throw new Error(`Airtel Money token responded ${res.status}: ${await res.text()}`);
+
+      const body = (await res.json()) as { access_token: string; expires_in: number | string };
+      cachedToken = { value: body.access_token, expiresAt: Date.now() + Number(body.expires_in) * 1000 };
+    }
+
+    return {
+      Authorization: `Bearer ${cachedToken.value}`,
+      'Content-Type': 'application/json',
+      Accept: '*/*',
+      'X-Country': 'UG',
+      'X-Currency': 'UGX',
+    };
+  }
+
+  type AirtelResponse = {
+    data?: { transaction?: { id?: string; status?: string; airtel_money_id?: string; message?: string } };
+    status?: { success?: boolean; message?: string };
+  };
+
+  async function submit(path: string, body: unknown): Promise<TransferResult> {
+    const res = await fetch(`${config.baseUrl}${path}`, {
+      method: 'POST',
+      headers: await headers(),
+      body: JSON.stringify(body),
+    });
+
+    if (!res.ok) throw new Error(`Airtel Money responded ${res.status}: ${await res.text()}`);
+
+    const json = (await res.json()) as AirtelResponse;
+    if (json.status?.success === false) {
+      return { status: 'failed', providerRef: null, reason: json.status.message || 'Declined on Airtel Money' };
+    }
+
+    const transaction = json.data?.transaction;
+    const status = airtelStatus(transaction?.status);
+    return status === 'succeeded'
+      ? { status, providerRef: transaction?.airtel_money_id ?? null, reason: null }
+      : pending();
+  }
+
+  return {
+    name: 'airtel_money',
+    requestToPay(request) {
+      return submit('/merchant/v1/payments/', {
+        reference: request.note,
+        subscriber: { country: 'UG', currency: request.currency, msisdn: nationalNumber(request.phone) },
+        transaction: { amount: Math.round(request.amount), country: 'UG', currency: request.currency, id: request.reference },
+      });
+    },
+    transfer(request) {
+      return submit('/standard/v1/disbursements/', {
+        payee: { msisdn: nationalNumber(request.phone) },
+        reference: request.note,
+        pin: config.encryptedPin,
+        transaction: { amount: Math.round(request.amount), id: request.reference },
+      });
+    },
+    async checkStatus(kind, reference) {
+      const path = kind === 'collection' ? '/standard/v1/payments/' : '/standard/v1/disbursements/';
+      const res = await fetch(`${config.baseUrl}${path}${reference}`, { headers: await headers() });
+
+      if (res.status === 404) return { status: 'failed', providerRef: null, reason: 'Not found at Airtel Money' };
+      if (!res.ok) throw new Error(`Airtel Money status responded ${res.status}: ${await res.text()}`);
+
+      const transaction = ((await res.json()) as AirtelResponse).data?.transaction;
+      const status = airtelStatus(transaction?.status);
+
+      if (status === 'succeeded') return { status, providerRef: transaction?.airtel_money_id ?? null, reason: null };
+      if (status === 'failed') return { status, providerRef: null, reason: transaction?.message || 'Declined on Airtel Money' };
+      return pending();
+    },
+    async parseCallback(request) {
+      const body = (await request.json().catch(() => ({}))) as {
+        transaction?: { id?: string; status_code?: string };
+      };
+      if (!body.transaction?.id) return null;
+      return { reference: body.transaction.id, status: airtelStatus(body.transaction.status_code), payload: body };
+    },
+  };
+}
+
+let overrideProviders: Record<string, MobileMoneyProvider> | null = null;
+
+/** Replace the providers by name, e.g. with a sandbox in a test. Pass null to reset. */
+export function setMobileMoneyProviders(providers: Record<string, MobileMoneyProvider> | null) {
+  overrideProviders = providers;
+}
+
+function callbackUrl(providerName: string) {
+  const site = process.env.NEXT_PUBLIC_SITE_URL;
+  if (!site) return undefined;
+
+  const secret = process.env.PAYMENTS_CALLBACK_SECRET;
+  return `${site}/api/payments/callback/${providerName}${secret ? `?key=${encodeURIComponent(secret)}` : ''}`;
+}
+
+/**
+ * MOBILE_MONEY_MODE=live sends MTN and Airtel numbers to their own networks
+ * and MOBILE_MONEY_MODE=sandbox settles everything locally. Unset, payments
+ * are off.
+ */
+export function mobileMoneyMode(): 'live' | 'sandbox' | null {
+  const mode = process.env.MOBILE_MONEY_MODE;
+  return mode === 'live' || mode === 'sandbox' ? mode : null;
+}
+
+/**
+ * A provider by the name stored on a payment or used in a callback URL. The
+ * sandbox only exists in sandbox mode, so nobody can settle a live payment
+ * through it.
+ */
+export function getMobileMoneyProvider(name: string): MobileMoneyProvider | null {
+  if (overrideProviders?.[name]) return overrideProviders[name];
+
+  const env = process.env;
+
+  if (name === 'sandbox') return mobileMoneyMode() === 'sandbox' ? createSandboxProvider() : null;
+
+  if (name === 'mtn_momo' && env.MTN_MOMO_BASE_URL && env.MTN_MOMO_COLLECTION_KEY && env.MTN_MOMO_DISBURSEMENT_KEY) {
+    return createMtnMomoProvider({
+      baseUrl: env.MTN_MOMO_BASE_URL,
+      targetEnvironment: env.MTN_MOMO_TARGET_ENV || 'sandbox',
+      callbackUrl: callbackUrl('mtn_momo'),
+      collection: {
+        subscriptionKey: env.MTN_MOMO_COLLECTION_KEY,
+        apiUser: env.MTN_MOMO_COLLECTION_USER || '',
+        apiKey: env.MTN_MOMO_COLLECTION_API_KEY || '',
+      },
+      disbursement: {
+        subscriptionKey: env.MTN_MOMO_DISBURSEMENT_KEY,
+        apiUser: env.MTN_MOMO_DISBURSEMENT_USER || '',
+        apiKey: env.MTN_MOMO_DISBURSEMENT_API_KEY || '',
+      },
+    });
+  }
+
+  if (name === 'airtel_money' && env.AIRTEL_MONEY_BASE_URL && env.AIRTEL_MONEY_CLIENT_ID && env.AIRTEL_MONEY_CLIENT_SECRET) {
+    return createAirtelMoneyProvider({
+      baseUrl: env.AIRTEL_MONEY_BASE_URL,
+      clientId: env.AIRTEL_MONEY_CLIENT_ID,
+      clientSecret: env.AIRTEL_MONEY_CLIENT_SECRET,
+      encryptedPin: env.AIRTEL_MONEY_PIN || '',
+    });
+  }
+
+  return null;
+}
+
+/** Null when payments are off, or in live mode for a number on neither network. */
+export function providerForPhone(phone: string) {
+  const mode = mobileMoneyMode();
+  if (mode === 'sandbox') return getMobileMoneyProvider('sandbox');
+  if (mode !== 'live') return null;
+
+  const network = networkForPhone(phone);
+  if (network === 'mtn') return getMobileMoneyProvider('mtn_momo');
+  if (network === 'airtel') return getMobileMoneyProvider('airtel_money');
+  return null;
+}
+
+/** Callbacks must carry PAYMENTS_CALLBACK_SECRET as ?key=; without one nothing gets in. */
+export function isPaymentCallbackAuthorized(request: Request) {
+  const secret = process.env.PAYMENTS_CALLBACK_SECRET;
+  return !!secret && new URL(request.url).searchParams.get('key') === secret;
+}
+
+// Why a payment can't go out on `phone`, for when providerForPhone() is null.
+function noProviderReason(phone: string) {
+  return mobileMoneyMode() === 'live' && !networkForPhone(phone)
+    ? 'Use an MTN or Airtel number'
+    : 'Mobile money is not configured';
+}
+
+/** Records a settled provider result; a repeat of one already applied changes nothing. */
+export async function applyProviderResult(
+  client: SupabaseClient,
+  providerName: string,
+  reference: string,
+  result: TransferResult,
+  payload: unknown = {}
+) {
+  if (result.status === 'pending') return null;
+
+  const { data, error } = await client.rpc('apply_payment_result', {
+    p_provider: providerName,
+    p_reference: reference,
+    p_status: result.status,
+    p_provider_ref: result.providerRef,
+    p_reason: result.reason,
+    p_payload: payload ?? {},
+  });
+
+  if (error) throw new Error(error.message);
+  return (data as OrderPayment | null)?.id ? (data as OrderPayment) : null;
+}
+
+const paymentNote = (matchId: string) => `Order ${matchId.slice(0, 8)}`;
+
+/** Starts (or retries) the buyer's payment for an order they are on. */
+export async function startCollection({
+  client,
+  matchId,
+  buyerId,
+  phone,
+}: {
+  client: SupabaseClient;
+  matchId: string;
+  buyerId: string;
+  phone: string;
+}): Promise<{ payment: OrderPayment | null; error: string | null }> {
+  const { data: payment } = await client.from('order_payments').select('*').eq('match_id', matchId).maybeSingle();
+  const current = payment as OrderPayment | null;
+
+  if (!current || current.buyer_id !== buyerId) return { payment: null, error: 'Nothing to pay on this order yet' };
+
+  const { data: order } = await client.from('market_matches').select('status').eq('id', matchId).maybeSingle();
+  if (!order || !['confirmed', 'dispatched', 'delivered'].includes(order.status)) {
+    return { payment: current, error: 'This order cannot be paid for now' };
+  }
+
+  const payerPhone = toInternationalPhone(phone);
+  const provider = providerForPhone(payerPhone);
+  if (!provider) return { payment: current, error: noProviderReason(payerPhone) };
+
+  const reference = crypto.randomUUID();
+  const now = new Date().toISOString();
+
+  // Only one attempt at a time: the status guard makes a double tap a no-op
+  const { data: claimed } = await client
+    .from('order_payments')
+    .update({
+      status: 'collecting',
+      provider: provider.name,
+      payer_phone: payerPhone,
+      collection_ref: reference,
+      collection_provider_ref: null,
+      requested_at: now,
+      failure_reason: null,
+      updated_at: now,
+    })
+    .eq('id', current.id)
+    .in('status', ['unpaid', 'failed'])
+    .select('*')
+    .maybeSingle();
+
+  if (!claimed) return { payment: current, error: 'This payment is already under way' };
+
+  let result: TransferResult;
+  try {
+    result = await provider.requestToPay({
+      reference,
+      amount: Number(current.amount),
+      currency: current.currency,
+      phone: payerPhone,
+      note: paymentNote(matchId),
+    });
+  } catch (err) {
+    // The request may still have reached the network, so leave it
+    // collecting and let reconcilePayments() ask about it.
+    console.error('Payment request failed:', err);
+    return { payment: claimed as OrderPayment, error: 'Could not reach the network; we will check again shortly.' };
+  }
+
+  const settled = await applyProviderResult(client, provider.name, reference, result);
+  return { payment: settled ?? (claimed as OrderPayment), error: null };
+}
+
+/**
+ * Applies a provider callback once the provider has confirmed it. A callback
+ * is only a hint: its reference is looked up again through checkStatus(),
+ * so a forged or stale body can't move money.
+ */
+export async function handlePaymentCallback({
+  client,
+  provider,
+  request,
+}: {
+  client: SupabaseClient;
+  provider: MobileMoneyProvider;
+  request: Request;
+}) {
+  const callback = await provider.parseCallback(request);
+  if (!callback || !/^[0-9a-f-]{36}$/i.test(callback.reference)) return { applied: false, status: 'unreadable' };
+
+  const { data } = await client
+    .from('order_payments')
+    .select('provider,collection_ref,payout_provider,payout_ref')
+    .or(`collection_ref.eq.${callback.reference},payout_ref.eq.${callback.reference}`)
+    .maybeSingle();
+
+  // Unknown references, and references that belong to another provider, are
+  // still logged so they show up for an admin; apply_payment_result() leaves
+  // the payment alone.
+  const kind: TransferKind | null =
+    data?.collection_ref === callback.reference && data.provider === provider.name
+      ? 'collection'
+      : data?.payout_ref === callback.reference && data.payout_provider === provider.name
+        ? 'payout'
+        : null;
+  const verified: TransferResult = kind
+    ? await provider.checkStatus(kind, callback.reference)
+    : { status: callback.status, providerRef: null, reason: null };
+
+  const payment = await applyProviderResult(client, provider.name, callback.reference, verified, callback.payload);
+  return { applied: Boolean(payment), status: payment?.status ?? verified.status };
+}
+
+const MAX_PAYOUT_ATTEMPTS = 3;
+
+/**
+ * Sends payouts that are due and asks the provider about anything that has
+ * been waiting longer than `staleAfterMs`, for callbacks that never came.
+ * Meant to run on a schedule; overlapping runs are safe.
+ */
+export async function reconcilePayments({
+  client,
+  limit = 50,
+  staleAfterMs = 2 * 60 * 1000,
+}: {
+  client: SupabaseClient;
+  limit?: number;
+  staleAfterMs?: number;
+}) {
+  const result = { payoutsSent: 0, settled: 0, stillPending: 0, errors: 0 };
+  const now = new Date();
+
+  const { data: due, error: dueError } = await client
+    .from('order_payments')
+    .select('*')
+    .in('status', ['releasing', 'refunding'])
+    .is('payout_requested_at', null)
+    .lt('payout_attempts', MAX_PAYOUT_ATTEMPTS)
+    .order('updated_at', { ascending: true })
+    .limit(limit);
+
+  if (dueError) throw new Error(dueError.message);
+
+  for (const payment of (due || []) as OrderPayment[]) {
+    // Sandbox money is only ever paid out by the sandbox
+    const provider = !payment.payee_phone
+      ? null
+      : payment.provider === 'sandbox'
+        ? getMobileMoneyProvider('sandbox')
+        : providerForPhone(payment.payee_phone);
+
+    if (!provider || !payment.payout_ref) {
+      await client
+        .from('order_payments')
+        .update({
+          failure_reason: !payment.payee_phone
+            ? 'No mobile money number on file for the payout'
+            : payment.provider === 'sandbox'
+              ? 'Paid in the sandbox, so it can only be paid out there'
+              : noProviderReason(payment.payee_phone),
+          updated_at: now.toISOString(),
+        })
+        .eq('id', payment.id);
+      result.errors += 1;
+      continue;
+    }
+
+    // Claim the payout so a second run doesn't send it too
+    const { data: claimed } = await client
+      .from('order_payments')
+      .update({
+        payout_provider: provider.name,
+        payout_requested_at: now.toISOString(),
+        payout_attempts: payment.payout_attempts + 1,
+        updated_at: now.toISOString(),
+      })
+      .eq('id', payment.id)
+      .eq('payout_ref', payment.payout_ref)
+      .is('payout_requested_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) continue;
+
+    try {
+      const sent = await provider.transfer({
+        reference: payment.payout_ref,
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        phone: toInternationalPhone(payment.payee_phone as string),
+        note: paymentNote(payment.match_id),
+      });
+      result.payoutsSent += 1;
+      if (await applyProviderResult(client, provider.name, payment.payout_ref, sent)) result.settled += 1;
+    } catch (err) {
+      // Left claimed; the stale check below finds out whether it landed
+      console.error('Payout failed:', err);
+      result.errors += 1;
+    }
+  }
+
+  const cutoff = new Date(now.getTime() - staleAfterMs).toISOString();
+
+  const [{ data: collecting }, { data: paying }] = await Promise.all([
+    client.from('order_payments').select('*').eq('status', 'collecting').lt('requested_at', cutoff).limit(limit),
+    client
+      .from('order_payments')
+      .select('*')
+      .in('status', ['releasing', 'refunding'])
+      .lt('payout_requested_at', cutoff)
+      .limit(limit),
+  ]);
+
+  const stale: { payment: OrderPayment; kind: TransferKind }[] = [
+    ...((collecting || []) as OrderPayment[]).map((payment) => ({ payment, kind: 'collection' as const })),
+    ...((paying || []) as OrderPayment[]).map((payment) => ({ payment, kind: 'payout' as const })),
+  ];
+
+  for (const { payment, kind } of stale) {
+    const providerName = kind === 'collection' ? payment.provider : payment.payout_provider;
+    const reference = kind === 'collection' ? payment.collection_ref : payment.payout_ref;
+    const provider = providerName ? getMobileMoneyProvider(providerName) : null;
+    if (!provider || !reference) continue;
+
+    try {
+      const status = await provider.checkStatus(kind, reference);
+      if (status.status === 'pending') {
+        result.stillPending += 1;
+      } else if (await applyProviderResult(client, provider.name, reference, status)) {
+        result.settled += 1;
+      }
+    } catch (err) {
+      console.error('Payment status check failed:', err);
+      result.errors += 1;
+    }
+  }
+
+  return result;
+}
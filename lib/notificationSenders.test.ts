@@ -0,0 +1,187 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  createFakeEmailSender,
+  createFakeSmsSender,
+  dispatchPendingDeliveries,
+  getNotificationSenders,
+  setNotificationSenders,
+  toInternationalPhone,
+} from '@/lib/notificationSenders';
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase client for dispatchPendingDeliveries().
+// claim_notification_deliveries hands out the rows in `claimable`.
+function fakeClient({ deliveries, accounts, claimable }: { deliveries: Row[]; accounts: Row[]; claimable: string[] }) {
+  const tables: Record<string, Row[]> = { notification_deliveries: deliveries, accounts_user: accounts };
+  const rpcCalls: { fn: string; args: Row }[] = [];
+
+  const query = (rows: Row[]) => {
+    let matched = rows;
+    let patch: Row | null = null;
+
+    const builder = {
+      select: () => builder,
+      update: (values: Row) => {
+        patch = values;
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        matched = matched.filter((r) => values.includes(r[column]));
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        matched = matched.filter((r) => r[column] === value);
+        return builder;
+      },
+      then: (resolve: (result: { data: Row[]; error: null }) => unknown) => {
+        if (patch) matched.forEach((r) => Object.assign(r, patch));
+        return resolve({ data: matched, error: null });
+      },
+    };
+
+    return builder;
+  };
+
+  const client = {
+    from: (table: string) => query(tables[table] ?? []),
+    async rpc(fn: string, args: Row) {
+      rpcCalls.push({ fn, args });
+      const claimed = deliveries.filter((d) => claimable.includes(d.id as string));
+      claimed.forEach((d) => Object.assign(d, { status: 'sending' }));
+      return { data: claimed, error: null };
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, rpcCalls };
+}
+
+const notification = {
+  user_id: 'u1',
+  title: 'Offer received',
+  body: 'A buyer offered UGX 1,200/kg for your maize',
+  link: '/farmer/offers',
+};
+
+describe('fake senders', () => {
+  it('record what they are asked to send', async () => {
+    const email = createFakeEmailSender();
+    const sms = createFakeSmsSender();
+
+    await email.send({ to: 'a@example.com', subject: 'Hi', text: 'Hello' });
+    await sms.send({ to: '+256772000001', text: 'Hello' });
+
+    expect(email.sent).toEqual([{ to: 'a@example.com', subject: 'Hi', text: 'Hello' }]);
+    expect(sms.sent).toEqual([{ to: '+256772000001', text: 'Hello' }]);
+  });
+});
+
+describe('getNotificationSenders', () => {
+  afterEach(() => setNotificationSenders(null));
+
+  it('uses the fakes when no provider is configured', () => {
+    const senders = getNotificationSenders();
+    expect(senders.email.name).toBe('fake-email');
+    expect(senders.sms.name).toBe('fake-sms');
+  });
+
+  it('prefers senders set with setNotificationSenders', () => {
+    const sms = createFakeSmsSender();
+    setNotificationSenders({ sms });
+    expect(getNotificationSenders().sms).toBe(sms);
+  });
+});
+
+describe('toInternationalPhone', () => {
+  it('normalises the usual Uganda shapes to +256', () => {
+    expect(toInternationalPhone('0772 000 001')).toBe('+256772000001');
+    expect(toInternationalPhone('256772000001')).toBe('+256772000001');
+    expect(toInternationalPhone('+256772000001')).toBe('+256772000001');
+    expect(toInternationalPhone('772000001')).toBe('+256772000001');
+  });
+});
+
+describe('dispatchPendingDeliveries', () => {
+  it('sends claimed email and SMS deliveries and marks them sent', async () => {
+    const deliveries: Row[] = [
+      { id: 'e1', channel: 'email', attempts: 0, status: 'pending', notification },
+      { id: 's1', channel: 'sms', attempts: 0, status: 'pending', notification },
+    ];
+    const { client, rpcCalls } = fakeClient({
+      deliveries,
+      accounts: [{ auth_user_id: 'u1', email: 'farmer@example.com', phone_number: '0772000001' }],
+      claimable: ['e1', 's1'],
+    });
+    const email = createFakeEmailSender();
+    const sms = createFakeSmsSender();
+
+    const result = await dispatchPendingDeliveries({ client, senders: { email, sms }, siteUrl: 'https://agri.test' });
+
+    expect(result).toEqual({ sent: 2, failed: 0 });
+    expect(rpcCalls[0]).toEqual({ fn: 'claim_notification_deliveries', args: { p_limit: 50, p_max_attempts: 3 } });
+    expect(email.sent).toEqual([
+      {
+        to: 'farmer@example.com',
+        subject: 'Offer received',
+        text: 'A buyer offered UGX 1,200/kg for your maize\n\nhttps://agri.test/farmer/offers',
+      },
+    ]);
+    expect(sms.sent).toEqual([
+      { to: '+256772000001', text: 'Offer received: A buyer offered UGX 1,200/kg for your maize' },
+    ]);
+    expect(deliveries.map((d) => [d.status, d.attempts])).toEqual([
+      ['sent', 1],
+      ['sent', 1],
+    ]);
+  });
+
+  it('only sends what it claimed', async () => {
+    const deliveries: Row[] = [
+      { id: 'mine', channel: 'sms', attempts: 0, status: 'pending', notification },
+      { id: 'other-run', channel: 'sms', attempts: 0, status: 'sending', notification },
+    ];
+    const { client } = fakeClient({
+      deliveries,
+      accounts: [{ auth_user_id: 'u1', email: null, phone_number: '0772000001' }],
+      claimable: ['mine'],
+    });
+    const sms = createFakeSmsSender();
+
+    await dispatchPendingDeliveries({ client, senders: { email: createFakeEmailSender(), sms } });
+
+    expect(sms.sent).toHaveLength(1);
+    expect(deliveries[1].status).toBe('sending');
+  });
+
+  it('retries a failed delivery and gives up after the last attempt', async () => {
+    const deliveries: Row[] = [
+      { id: 'retry', channel: 'email', attempts: 0, status: 'pending', notification },
+      { id: 'last', channel: 'email', attempts: 2, status: 'pending', notification },
+    ];
+    const { client } = fakeClient({
+      deliveries,
+      accounts: [{ auth_user_id: 'u1', email: null, phone_number: null }],
+      claimable: ['retry', 'last'],
+    });
+
+    const result = await dispatchPendingDeliveries({
+      client,
+      senders: { email: createFakeEmailSender(), sms: createFakeSmsSender() },
+    });
+
+    expect(result).toEqual({ sent: 0, failed: 2 });
+    expect(deliveries[0]).toMatchObject({ status: 'pending', attempts: 1, last_error: 'No email address on file' });
+    expect(deliveries[1]).toMatchObject({ status: 'failed', attempts: 3 });
+  });
+
+  it('does nothing when there is nothing to claim', async () => {
+    const { client } = fakeClient({ deliveries: [], accounts: [], claimable: [] });
+    const email = createFakeEmailSender();
+
+    const result = await dispatchPendingDeliveries({ client, senders: { email, sms: createFakeSmsSender() } });
+
+    expect(result).toEqual({ sent: 0, failed: 0 });
+    expect(email.sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,244 @@
+// lib/notificationSenders.ts
+// Email and SMS delivery for the notification outbox. Providers sit behind
+// small interfaces so route handlers and tests can swap in the fake senders.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export type SmsMessage = {
+  to: string;
+  text: string;
+};
+
+export interface EmailSender {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmsSender {
+  name: string;
+  send(message: SmsMessage): Promise<void>;
+}
+
+export type NotificationSenders = {
+  email: EmailSender;
+  sms: SmsSender;
+};
+
+/** Records everything it is asked to send instead of calling a provider. */
+export function createFakeEmailSender(): EmailSender & { sent: EmailMessage[] } {
+  const sent: EmailMessage[] = [];
+  return {
+    name: 'fake-email',
+    sent,
+    async send(message) {
+      sent.push(message);
+    },
+  };
+}
+
+export function createFakeSmsSender(): SmsSender & { sent: SmsMessage[] } {
+  const sent: SmsMessage[] = [];
+  return {
+    name: 'fake-sms',
+    sent,
+    async send(message) {
+      sent.push(message);
+    },
+  };
+}
+
+export function createResendEmailSender(apiKey: string, from: string): EmailSender {
+  return {
+    name: 'resend',
+    async send(message) {
+      const res = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ from, to: message.to, subject: message.subject, text: message.text }),
+      });
+
+      if (!res.ok) throw new Error(`Resend responded ${res.status}: ${await res.text()}`);
+    },
+  };
+}
+
+export function createAfricasTalkingSmsSender(username: string, apiKey: string, senderId?: string): SmsSender {
+  return {
+    name: 'africastalking',
+    async send(message) {
+      const body = new URLSearchParams({ username, to: message.to, message: message.text });
+      if (senderId) body.set('from', senderId);
+
+      const res = await fetch('https://api.africastalking.com/version1/messaging', {
+        method: 'POST',
+        headers: {
+          apiKey,
+          Accept: 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body,
+      });
+
+      if (!res.ok) throw new Error(`Africa's Talking responded ${res.status}: ${await res.text()}`);
+    },
+  };
+}
+
+let overrideSenders: Partial<NotificationSenders> | null = null;
+
+/** Replace the configured senders, e.g. with the fakes in a test. Pass null to reset. */
+export function setNotificationSenders(senders: Partial<NotificationSenders> | null) {
+  overrideSenders = senders;
+}
+
+/**
+ * Providers come from NOTIFY_EMAIL_PROVIDER / NOTIFY_SMS_PROVIDER. Anything
+ * unset or unknown falls back to the fakes so local runs never send for real.
+ */
+export function getNotificationSenders(): NotificationSenders {
+  const env = process.env;
+
+  const email =
+    overrideSenders?.email ??
+    (env.NOTIFY_EMAIL_PROVIDER === 'resend' && env.RESEND_API_KEY && env.NOTIFY_EMAIL_FROM
+      ? createResendEmailSender(env.RESEND_API_KEY, env.NOTIFY_EMAIL_FROM)
+      : createFakeEmailSender());
+
+  const sms =
+    overrideSenders?.sms ??
+    (env.NOTIFY_SMS_PROVIDER === 'africastalking' && env.AT_USERNAME && env.AT_API_KEY
+      ? createAfricasTalkingSmsSender(env.AT_USERNAME, env.AT_API_KEY, env.AT_SENDER_ID)
+      : createFakeSmsSender());
+
+  return { email, sms };
+}
+
+// Uganda numbers are stored in several shapes; providers want +256XXXXXXXXX.
+export function toInternationalPhone(phone: string) {
+  const digits = phone.replace(/[^\d+]/g, '');
+  if (digits.startsWith('+')) return digits;
+  if (digits.startsWith('256')) return `+${digits}`;
+  if (digits.startsWith('0')) return `+256${digits.slice(1)}`;
+  return `+256${digits}`;
+}
+
+const MAX_DELIVERY_ATTEMPTS = 3;
+
+type PendingDelivery = {
+  id: string;
+  channel: 'email' | 'sms';
+  attempts: number;
+  notification: {
+    user_id: string;
+    title: string;
+    body: string | null;
+    link: string | null;
+  } | null;
+};
+
+/**
+ * Claims pending outbox rows, sends them and records the outcome on each
+ * one. Overlapping runs never claim the same row.
+ */
+export async function dispatchPendingDeliveries({
+  client,
+  senders,
+  limit = 50,
+  siteUrl = process.env.NEXT_PUBLIC_SITE_URL || '',
+}: {
+  client: SupabaseClient;
+  senders: NotificationSenders;
+  limit?: number;
+  siteUrl?: string;
+}) {
+  const { data: claimed, error: claimError } = await client.rpc('claim_notification_deliveries', {
+    p_limit: limit,
+    p_max_attempts: MAX_DELIVERY_ATTEMPTS,
+  });
+
+  if (claimError) throw new Error(claimError.message);
+
+  const claimedIds = ((claimed || []) as { id: string }[]).map((d) => d.id);
+  if (claimedIds.length === 0) return { sent: 0, failed: 0 };
+
+  const { data, error } = await client
+    .from('notification_deliveries')
+    .select('id,channel,attempts,notification:notification_id (user_id,title,body,link)')
+    .in('id', claimedIds);
+
+  if (error) throw new Error(error.message);
+
+  const deliveries = (data || []) as unknown as PendingDelivery[];
+  const userIds = Array.from(
+    new Set(deliveries.map((d) => d.notification?.user_id).filter(Boolean) as string[])
+  );
+
+  const { data: accounts } = userIds.length
+    ? await client.from('accounts_user').select('auth_user_id,email,phone_number').in('auth_user_id', userIds)
+    : { data: [] };
+
+  const contacts = new Map(
+    ((accounts || []) as { auth_user_id: string; email: string | null; phone_number: string | null }[]).map(
+      (a) => [a.auth_user_id, a]
+    )
+  );
+
+  const result = { sent: 0, failed: 0 };
+
+  for (const delivery of deliveries) {
+    const notification = delivery.notification;
+    const contact = notification ? contacts.get(notification.user_id) : undefined;
+    const link = notification?.link ? `${siteUrl}${notification.link}` : '';
+
+    let failure: string | null = null;
+
+    try {
+      if (!notification) throw new Error('Notification no longer exists');
+
+      if (delivery.channel === 'email') {
+        if (!contact?.email) throw new Error('No email address on file');
+        await senders.email.send({
+          to: contact.email,
+          subject: notification.title,
+          text: [notification.body, link].filter(Boolean).join('\n\n'),
+        });
+      } else {
+        if (!contact?.phone_number) throw new Error('No phone number on file');
+        await senders.sms.send({
+          to: toInternationalPhone(contact.phone_number),
+          text: [notification.title, notification.body].filter(Boolean).join(': ').slice(0, 160),
+        });
+      }
+    } catch (err) {
+      failure = err instanceof Error ? err.message : String(err);
+    }
+
+    const attempts = delivery.attempts + 1;
+
+    await client
+      .from('notification_deliveries')
+      .update(
+        failure
+          ? {
+              attempts,
+              last_error: failure,
+              status: attempts >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'pending',
+            }
+          : { attempts, last_error: null, status: 'sent', sent_at: new Date().toISOString() }
+      )
+      .eq('id', delivery.id);
+
+    if (failure) result.failed += 1;
+    else result.sent += 1;
+  }
+
+  return result;
+}
@@ -0,0 +1,137 @@
+// lib/notifications.ts
+import { supabase } from '@/lib/supabaseClient';
+
+export type NotificationEventType = 'demand_nearby' | 'offer_received' | 'offer_updated' | 'order_status';
+export type NotificationChannel = 'in_app' | 'email' | 'sms';
+
+export type AppNotification = {
+  id: string;
+  user_id: string;
+  event_type: NotificationEventType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  data: Record<string, unknown>;
+  in_app: boolean;
+  read_at: string | null;
+  created_at: string;
+};
+
+export type NotificationPreference = {
+  event_type: NotificationEventType;
+  in_app: boolean;
+  email: boolean;
+  sms: boolean;
+};
+
+export const notificationEventOptions: {
+  value: NotificationEventType;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: 'demand_nearby',
+    label: 'Buyer demands near me',
+    description: 'A buyer posts a demand that matches one of your listings and is within reach.',
+  },
+  {
+    value: 'offer_received',
+    label: 'New offers',
+    description: 'A farmer sends an offer on one of your demands.',
+  },
+  {
+    value: 'offer_updated',
+    label: 'Offer replies',
+    description: 'The other side accepts, rejects, counters or withdraws an offer.',
+  },
+  {
+    value: 'order_status',
+    label: 'Order updates',
+    description: 'An order is placed, confirmed, dispatched, delivered, completed, cancelled or disputed.',
+  },
+];
+
+export const notificationChannelOptions: { value: NotificationChannel; label: string }[] = [
+  { value: 'in_app', label: 'In-app' },
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+];
+
+// Mirrors the coalesce() defaults in notify_user().
+export function defaultNotificationPreference(eventType: NotificationEventType): NotificationPreference {
+  return { event_type: eventType, in_app: true, email: false, sms: false };
+}
+
+export async function fetchNotifications(userId: string, limit = 20) {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('in_app', true)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Failed to load notifications:', error);
+    return [];
+  }
+
+  return (data || []) as AppNotification[];
+}
+
+export async function fetchUnreadNotificationCount(userId: string) {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('in_app', true)
+    .is('read_at', null);
+
+  if (error) {
+    console.error('Failed to count notifications:', error);
+    return 0;
+  }
+
+  return count ?? 0;
+}
+
+export async function markNotificationRead(id: string) {
+  const { error } = await supabase.rpc('mark_notifications_read', { p_ids: [id] });
+
+  if (error) console.error('Failed to mark notification read:', error);
+}
+
+export async function markAllNotificationsRead() {
+  const { error } = await supabase.rpc('mark_notifications_read', { p_ids: null });
+
+  if (error) console.error('Failed to mark notifications read:', error);
+}
+
+/** One preference per event type, filling gaps with the defaults. */
+export async function fetchNotificationPreferences(userId: string): Promise<NotificationPreference[]> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('event_type,in_app,email,sms')
+    .eq('user_id', userId);
+
+  if (error) console.error('Failed to load notification preferences:', error);
+
+  const saved = new Map(((data || []) as NotificationPreference[]).map((p) => [p.event_type, p]));
+
+  return notificationEventOptions.map(
+    (option) => saved.get(option.value) ?? defaultNotificationPreference(option.value)
+  );
+}
+
+export async function saveNotificationPreference(userId: string, preference: NotificationPreference) {
+  const { error } = await supabase.from('notification_preferences').upsert(
+    {
+      user_id: userId,
+      ...preference,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'user_id,event_type' }
+  );
+
+  return { error: error?.message ?? null };
+}
@@ -0,0 +1,137 @@
+// lib/offers.ts
+import { supabase } from '@/lib/supabaseClient';
+import { createOrderFromOffer } from '@/lib/orders';
+
+export type OfferStatus = 'sent' | 'countered' | 'accepted' | 'rejected' | 'withdrawn';
+export type OfferParty = 'buyer' | 'farmer';
+export type OfferAction = 'accept' | 'reject' | 'counter' | 'withdraw';
+
+export type DemandOffer = {
+  id: string;
+  demand_id: string;
+  listing_id: string | null;
+  farmer_id: string;
+  buyer_id: string | null;
+  crop_name: string;
+  offered_quantity: number;
+  offered_price_per_unit: number;
+  status: OfferStatus;
+  last_action_by: OfferParty | null;
+  created_at: string;
+  updated_at: string | null;
+};
+
+export type DemandOfferEvent = {
+  id: string;
+  offer_id: string;
+  actor_id: string | null;
+  actor_role: OfferParty;
+  status: OfferStatus;
+  quantity: number | null;
+  price_per_unit: number | null;
+  note: string | null;
+  created_at: string;
+};
+
+export const offerStatusOptions: { value: OfferStatus; label: string; tone: string }[] = [
+  { value: 'sent', label: 'Sent', tone: 'bg-blue-50 text-blue-700 border-blue-100' },
+  { value: 'countered', label: 'Countered', tone: 'bg-amber-50 text-amber-700 border-amber-100' },
+  { value: 'accepted', label: 'Accepted', tone: 'bg-emerald-50 text-emerald-700 border-emerald-100' },
+  { value: 'rejected', label: 'Rejected', tone: 'bg-rose-50 text-rose-700 border-rose-100' },
+  { value: 'withdrawn', label: 'Withdrawn', tone: 'bg-gray-100 text-gray-700 border-gray-200' },
+];
+
+export function getOfferStatusTone(status: OfferStatus) {
+  return (
+    offerStatusOptions.find((s) => s.value === status)?.tone ||
+    'bg-gray-100 text-gray-700 border-gray-200'
+  );
+}
+
+export function isOfferOpen(offer: Pick<DemandOffer, 'status'>) {
+  return offer.status === 'sent' || offer.status === 'countered';
+}
+
+/**
+ * Negotiation is turn based: whoever did not make the last move may accept,
+ * reject or counter. A farmer can withdraw an open offer at any time.
+ */
+export function allowedOfferActions(
+  offer: Pick<DemandOffer, 'status' | 'last_action_by'>,
+  party: OfferParty
+): OfferAction[] {
+  if (!isOfferOpen(offer)) return [];
+
+  const lastActor = offer.last_action_by ?? 'farmer';
+  const actions: OfferAction[] = lastActor !== party ? ['accept', 'reject', 'counter'] : [];
+
+  if (party === 'farmer') actions.push('withdraw');
+
+  return actions;
+}
+
+/** Offers one of the farmer's listings, at its quantity and price, against a demand. */
+export async function offerListingToDemand(
+  demandId: string,
+  listingId: string
+): Promise<{ offer: DemandOffer | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('send_offer', {
+    p_demand_id: demandId,
+    p_listing_id: listingId,
+  });
+
+  if (error) return { offer: null, error: error.message };
+  return { offer: data as DemandOffer, error: null };
+}
+
+/**
+ * Runs one move through respond_to_offer(), which applies the same turn
+ * rules, records the event and, on accept, creates the order.
+ */
+export async function respondToOffer({
+  offer,
+  party,
+  action,
+  quantity,
+  pricePerUnit,
+  note,
+}: {
+  offer: DemandOffer;
+  party: OfferParty;
+  action: OfferAction;
+  quantity?: number;
+  pricePerUnit?: number;
+  note?: string;
+}): Promise<{ error: string | null; orderId?: string }> {
+  if (!allowedOfferActions(offer, party).includes(action)) {
+    return { error: 'This offer is waiting on the other party or is already closed.' };
+  }
+
+  if (action === 'counter') {
+    if (!Number.isFinite(Number(quantity)) || Number(quantity) <= 0) {
+      return { error: 'Counter quantity must be greater than zero.' };
+    }
+    if (!Number.isFinite(Number(pricePerUnit)) || Number(pricePerUnit) <= 0) {
+      return { error: 'Counter price must be greater than zero.' };
+    }
+  }
+
+  const { error } = await supabase.rpc('respond_to_offer', {
+    p_offer_id: offer.id,
+    p_action: action,
+    p_quantity: action === 'counter' ? Number(quantity) : null,
+    p_price_per_unit: action === 'counter' ? Number(pricePerUnit) : null,
+    p_note: note?.trim() || null,
+  });
+
+  if (error) return { error: error.message };
+
+  if (action === 'accept') {
+    // Already created by respond_to_offer(); this only looks it up
+    const { order, error: orderError } = await createOrderFromOffer(offer.id);
+    if (orderError) return { error: `Offer accepted, but the order could not be opened: ${orderError}` };
+    return { error: null, orderId: order?.id };
+  }
+
+  return { error: null };
+}
@@ -0,0 +1,167 @@
+// lib/orders.ts
+import { supabase } from '@/lib/supabaseClient';
+
+export type OrderStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'dispatched'
+  | 'delivered'
+  | 'completed'
+  | 'cancelled'
+  | 'disputed';
+
+export type OrderActorRole = 'buyer' | 'farmer' | 'admin';
+
+export type MarketMatch = {
+  id: string;
+  listing_id: string | null;
+  offer_id: string | null;
+  buyer_id: string | null;
+  farmer_id: string | null;
+  buyer_name: string;
+  farmer_name: string;
+  crop_name: string;
+  // The deal as struck, in `unit` (the listing or demand unit).
+  quantity: number;
+  price_per_unit: number;
+  unit: string;
+  // Derived from the above; null when `unit` has no known conversion to kg.
+  quantity_kg: number | null;
+  agreed_price_per_kg: number | null;
+  distance_km: number | null;
+  quality: string;
+  status: OrderStatus;
+  created_at: string;
+  updated_at: string | null;
+  confirmed_at: string | null;
+  dispatched_at: string | null;
+  delivered_at: string | null;
+  completed_at: string | null;
+  cancelled_at: string | null;
+  disputed_at: string | null;
+  // Proof of delivery, set when the buyer's code is entered at handover.
+  handover_verified_at: string | null;
+  handover_verified_by: string | null;
+  handover_photo_path: string | null;
+  handover_lat: number | null;
+  handover_lng: number | null;
+  /** Completed without a verified handover; cleared by an admin. */
+  needs_review: boolean;
+  review_reason: string | null;
+};
+
+export type MarketMatchEvent = {
+  id: string;
+  match_id: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  actor_id: string | null;
+  actor_role: OrderActorRole | 'system';
+  note: string | null;
+  created_at: string;
+};
+
+export const orderStatusOptions: { value: OrderStatus; label: string; tone: string }[] = [
+  { value: 'pending', label: 'Pending', tone: 'bg-amber-50 text-amber-700 border-amber-200' },
+  { value: 'confirmed', label: 'Confirmed', tone: 'bg-blue-50 text-blue-700 border-blue-200' },
+  { value: 'dispatched', label: 'Dispatched', tone: 'bg-indigo-50 text-indigo-700 border-indigo-200' },
+  { value: 'delivered', label: 'Delivered', tone: 'bg-teal-50 text-teal-700 border-teal-200' },
+  { value: 'completed', label: 'Completed', tone: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  { value: 'cancelled', label: 'Cancelled', tone: 'bg-gray-100 text-gray-700 border-gray-200' },
+  { value: 'disputed', label: 'Disputed', tone: 'bg-rose-50 text-rose-700 border-rose-200' },
+];
+
+// The database enforces the same table in market_match_transition_allowed();
+// this copy only decides which buttons to show.
+export const orderTransitions: Record<OrderStatus, Partial<Record<OrderStatus, OrderActorRole[]>>> = {
+  pending: { confirmed: ['farmer'], cancelled: ['buyer', 'farmer'] },
+  confirmed: { dispatched: ['farmer'], cancelled: ['buyer', 'farmer'], disputed: ['buyer', 'farmer'] },
+  dispatched: { delivered: ['buyer', 'farmer'], disputed: ['buyer', 'farmer'] },
+  delivered: { completed: ['buyer'], disputed: ['buyer'] },
+  completed: {},
+  cancelled: {},
+  disputed: { completed: ['admin'], cancelled: ['admin'] },
+};
+
+export const orderActionLabels: Record<OrderStatus, string> = {
+  pending: 'Reopen',
+  confirmed: 'Confirm order',
+  dispatched: 'Mark dispatched',
+  delivered: 'Mark delivered',
+  completed: 'Complete order',
+  cancelled: 'Cancel order',
+  disputed: 'Raise dispute',
+};
+
+export const orderProgress: OrderStatus[] = ['pending', 'confirmed', 'dispatched', 'delivered', 'completed'];
+
+export function getOrderStatusTone(status: string) {
+  return (
+    orderStatusOptions.find((s) => s.value === status)?.tone ||
+    'bg-gray-100 text-gray-700 border-gray-200'
+  );
+}
+
+export function isOrderActive(status: string) {
+  return status === 'pending' || status === 'confirmed' || status === 'dispatched' || status === 'delivered';
+}
+
+export function orderRoleFor(
+  order: Pick<MarketMatch, 'buyer_id' | 'farmer_id'>,
+  authId: string | null,
+  accountRole?: string | null
+): OrderActorRole | null {
+  if (!authId) return null;
+  if (order.buyer_id === authId) return 'buyer';
+  if (order.farmer_id === authId) return 'farmer';
+  if (accountRole === 'admin') return 'admin';
+  return null;
+}
+
+export function allowedOrderTransitions(status: OrderStatus, role: OrderActorRole | null): OrderStatus[] {
+  if (!role) return [];
+  const targets = orderTransitions[status] || {};
+  return (Object.keys(targets) as OrderStatus[]).filter(
+    (to) => role === 'admin' || targets[to]?.includes(role)
+  );
+}
+
+export async function advanceOrder(
+  matchId: string,
+  toStatus: OrderStatus,
+  note?: string
+): Promise<{ order: MarketMatch | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('advance_market_match', {
+    p_match_id: matchId,
+    p_to_status: toStatus,
+    p_note: note?.trim() || null,
+  });
+
+  if (error) return { order: null, error: error.message };
+  return { order: data as MarketMatch, error: null };
+}
+
+/** Returns the order for an accepted offer, creating it the first time. */
+export async function createOrderFromOffer(
+  offerId: string
+): Promise<{ order: MarketMatch | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('create_market_match_from_offer', {
+    p_offer_id: offerId,
+  });
+
+  if (error) return { order: null, error: error.message };
+  return { order: data as MarketMatch, error: null };
+}
+
+export async function createOrderFromListing(
+  listingId: string,
+  quantity: number
+): Promise<{ order: MarketMatch | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('create_market_match_from_listing', {
+    p_listing_id: listingId,
+    p_quantity: quantity,
+  });
+
+  if (error) return { order: null, error: error.message };
+  return { order: data as MarketMatch, error: null };
+}
@@ -0,0 +1,108 @@
+// lib/payments.ts
+import { supabase } from '@/lib/supabaseClient';
+
+export type PaymentStatus =
+  | 'unpaid'
+  | 'collecting'
+  | 'failed'
+  | 'held'
+  | 'releasing'
+  | 'released'
+  | 'refunding'
+  | 'refunded'
+  | 'cancelled';
+
+export type OrderPayment = {
+  id: string;
+  match_id: string;
+  buyer_id: string | null;
+  farmer_id: string | null;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  provider: string | null;
+  payer_phone: string | null;
+  collection_ref: string | null;
+  collection_provider_ref: string | null;
+  requested_at: string | null;
+  held_at: string | null;
+  payout_provider: string | null;
+  payee_phone: string | null;
+  payout_ref: string | null;
+  payout_provider_ref: string | null;
+  payout_attempts: number;
+  payout_requested_at: string | null;
+  released_at: string | null;
+  refunded_at: string | null;
+  cancelled_at: string | null;
+  failure_reason: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const paymentStatusOptions: { value: PaymentStatus; label: string; tone: string }[] = [
+  { value: 'unpaid', label: 'Awaiting payment', tone: 'bg-amber-50 text-amber-700 border-amber-200' },
+  { value: 'collecting', label: 'Waiting for approval', tone: 'bg-blue-50 text-blue-700 border-blue-200' },
+  { value: 'failed', label: 'Payment failed', tone: 'bg-rose-50 text-rose-700 border-rose-200' },
+  { value: 'held', label: 'Held in escrow', tone: 'bg-indigo-50 text-indigo-700 border-indigo-200' },
+  { value: 'releasing', label: 'Paying the farmer', tone: 'bg-teal-50 text-teal-700 border-teal-200' },
+  { value: 'released', label: 'Paid to farmer', tone: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  { value: 'refunding', label: 'Refunding', tone: 'bg-teal-50 text-teal-700 border-teal-200' },
+  { value: 'refunded', label: 'Refunded', tone: 'bg-gray-100 text-gray-700 border-gray-200' },
+  { value: 'cancelled', label: 'Not needed', tone: 'bg-gray-100 text-gray-700 border-gray-200' },
+];
+
+export function getPaymentStatusLabel(status: string) {
+  return paymentStatusOptions.find((s) => s.value === status)?.label || status;
+}
+
+export function getPaymentStatusTone(status: string) {
+  return (
+    paymentStatusOptions.find((s) => s.value === status)?.tone ||
+    'bg-gray-100 text-gray-700 border-gray-200'
+  );
+}
+
+/** The buyer can start (or retry) a payment only from these. */
+export function canPay(status: PaymentStatus) {
+  return status === 'unpaid' || status === 'failed';
+}
+
+export async function fetchOrderPayment(matchId: string) {
+  const { data, error } = await supabase.from('order_payments').select('*').eq('match_id', matchId).maybeSingle();
+
+  if (error) {
+    console.error('Failed to load order payment:', error);
+    return null;
+  }
+
+  return (data as OrderPayment | null) ?? null;
+}
+
+/**
+ * Asks the buyer's network to prompt their phone for the order total. The
+ * payment comes back 'collecting' until they approve it, or already settled
+ * in the sandbox.
+ */
+export async function payForOrder(
+  matchId: string,
+  phone: string
+): Promise<{ payment: OrderPayment | null; error: string | null }> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) return { payment: null, error: 'Please sign in again.' };
+
+  try {
+    const res = await fetch('/api/payments/collect', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ matchId, phone: phone.trim() }),
+    });
+    const body = (await res.json().catch(() => ({}))) as { payment?: OrderPayment; error?: string };
+
+    if (!res.ok) return { payment: body.payment ?? null, error: body.error || 'Could not start the payment.' };
+    return { payment: body.payment ?? null, error: body.error ?? null };
+  } catch (err) {
+    return { payment: null, error: err instanceof Error ? err.message : 'Could not start the payment.' };
+  }
+}
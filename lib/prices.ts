@@ -0,0 +1,188 @@
+// lib/prices.ts
+import { supabase } from '@/lib/supabaseClient';
+
+export type PriceSource = 'listing' | 'transaction';
+export type PriceRange = '30d' | '90d' | '180d' | '1y';
+export type PriceBucket = 'day' | 'week' | 'month';
+
+export type PricePoint = {
+  bucket: string;
+  observations: number;
+  median_price: number;
+  p25_price: number;
+  p75_price: number;
+  min_price: number;
+  max_price: number;
+};
+
+export type DistrictPrice = {
+  district: string;
+  observations: number;
+  median_price: number;
+  min_price: number;
+  max_price: number;
+  /** District median against the whole market; 100 is the market price. */
+  price_index: number | null;
+};
+
+export type PriceCrop = {
+  crop_key: string;
+  crop_name: string;
+  units: string[];
+  observations: number;
+};
+
+export type PriceFilters = {
+  cropKey: string;
+  unit: string;
+  range: PriceRange;
+  district?: string | null;
+  quality?: string | null;
+  variety?: string | null;
+  source?: PriceSource | null;
+};
+
+export const priceRangeOptions: { value: PriceRange; label: string; days: number; bucket: PriceBucket }[] = [
+  { value: '30d', label: 'Last 30 days', days: 30, bucket: 'day' },
+  { value: '90d', label: 'Last 3 months', days: 90, bucket: 'week' },
+  { value: '180d', label: 'Last 6 months', days: 180, bucket: 'week' },
+  { value: '1y', label: 'Last year', days: 365, bucket: 'month' },
+];
+
+export const priceSourceOptions: { value: PriceSource; label: string }[] = [
+  { value: 'listing', label: 'Asking prices' },
+  { value: 'transaction', label: 'Agreed prices' },
+];
+
+// Crops and filter values are read from recent history only.
+const OPTIONS_LOOKBACK_DAYS = 365;
+const OPTIONS_ROW_LIMIT = 5000;
+
+function rangeStart(range: PriceRange) {
+  const days = priceRangeOptions.find((o) => o.value === range)?.days ?? 90;
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+}
+
+export function priceBucketFor(range: PriceRange): PriceBucket {
+  return priceRangeOptions.find((o) => o.value === range)?.bucket ?? 'week';
+}
+
+const toNumber = (v: unknown) => Number(v || 0);
+
+type OptionRow = {
+  crop_key: string;
+  crop_name: string;
+  unit: string;
+  district: string | null;
+  quality: string | null;
+  variety: string | null;
+};
+
+/** Crops with history, each with its units ordered by how often they are used. */
+export async function fetchPriceOptions() {
+  const since = new Date(Date.now() - OPTIONS_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('price_observations')
+    .select('crop_key,crop_name,unit,district,quality,variety')
+    .gte('observed_at', since.toISOString())
+    .order('observed_at', { ascending: false })
+    .limit(OPTIONS_ROW_LIMIT);
+
+  if (error) {
+    console.error('Failed to load price options:', error);
+    return { crops: [] as PriceCrop[], rows: [] as OptionRow[] };
+  }
+
+  const rows = (data || []) as OptionRow[];
+  const crops = new Map<string, { crop_name: string; units: Map<string, number>; observations: number }>();
+
+  rows.forEach((r) => {
+    const c = crops.get(r.crop_key) ?? { crop_name: r.crop_name, units: new Map(), observations: 0 };
+    c.units.set(r.unit, (c.units.get(r.unit) || 0) + 1);
+    c.observations += 1;
+    crops.set(r.crop_key, c);
+  });
+
+  return {
+    crops: Array.from(crops.entries())
+      .map(([crop_key, c]) => ({
+        crop_key,
+        crop_name: c.crop_name,
+        units: Array.from(c.units.entries())
+          .sort((a, b) => b[1] - a[1])
+          .map(([u]) => u),
+        observations: c.observations,
+      }))
+      .sort((a, b) => b.observations - a.observations),
+    rows,
+  };
+}
+
+/** Distinct non-empty values of one column for a crop, for the filter pickers. */
+export function optionValues(rows: OptionRow[], cropKey: string, field: 'district' | 'quality' | 'variety') {
+  return Array.from(
+    new Set(rows.filter((r) => r.crop_key === cropKey).map((r) => r[field]).filter(Boolean) as string[])
+  ).sort((a, b) => a.localeCompare(b));
+}
+
+export async function fetchPriceSeries(filters: PriceFilters) {
+  const { data, error } = await supabase.rpc('price_series', {
+    p_crop_key: filters.cropKey,
+    p_unit: filters.unit,
+    p_bucket: priceBucketFor(filters.range),
+    p_since: rangeStart(filters.range).toISOString(),
+    p_district: filters.district || null,
+    p_quality: filters.quality || null,
+    p_variety: filters.variety || null,
+    p_source: filters.source || null,
+  });
+
+  if (error) {
+    console.error('Failed to load price series:', error);
+    return [];
+  }
+
+  return ((data || []) as PricePoint[]).map((p) => ({
+    bucket: p.bucket,
+    observations: toNumber(p.observations),
+    median_price: toNumber(p.median_price),
+    p25_price: toNumber(p.p25_price),
+    p75_price: toNumber(p.p75_price),
+    min_price: toNumber(p.min_price),
+    max_price: toNumber(p.max_price),
+  }));
+}
+
+export async function fetchDistrictIndex(filters: PriceFilters) {
+  const { data, error } = await supabase.rpc('price_district_index', {
+    p_crop_key: filters.cropKey,
+    p_unit: filters.unit,
+    p_since: rangeStart(filters.range).toISOString(),
+    p_quality: filters.quality || null,
+    p_source: filters.source || null,
+  });
+
+  if (error) {
+    console.error('Failed to load district prices:', error);
+    return [];
+  }
+
+  return ((data || []) as DistrictPrice[]).map((d) => ({
+    district: d.district,
+    observations: toNumber(d.observations),
+    median_price: toNumber(d.median_price),
+    min_price: toNumber(d.min_price),
+    max_price: toNumber(d.max_price),
+    price_index: d.price_index === null ? null : toNumber(d.price_index),
+  }));
+}
+
+/** Percentage move of the median from the first bucket to the last. */
+export function medianChangePct(series: PricePoint[]) {
+  if (series.length < 2) return null;
+  const first = series[0].median_price;
+  const last = series[series.length - 1].median_price;
+  if (!first) return null;
+  return Math.round(((last - first) / first) * 1000) / 10;
+}
@@ -0,0 +1,113 @@
+// lib/pricingAssistant.ts
+import { supabase } from '@/lib/supabaseClient';
+
+export type PriceSuggestion = {
+  scope: 'nearby' | 'market';
+  radiusKm: number | null;
+  listingCount: number;
+  saleCount: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+};
+
+export type PriceCheckLevel = 'ok' | 'low' | 'high' | 'far_low' | 'far_high';
+
+export type PriceCheck = {
+  level: PriceCheckLevel;
+  message: string | null;
+};
+
+export const SUGGESTION_RADIUS_KM = 50;
+
+// Below this many comparables the range is too noisy to show.
+const MIN_COMPARABLES = 3;
+
+// Outside the middle band by more than this is worth a gentle note...
+const BAND_TOLERANCE = 0.25;
+// ...and this far from the median is most likely a typo (an extra or missing zero).
+const FAR_RATIO = 3;
+
+const formatUGX = (n: number) => `UGX ${Math.round(Number(n || 0)).toLocaleString('en-UG')}`;
+
+export async function fetchPriceSuggestion(input: {
+  cropName: string;
+  quality: string;
+  unit: string;
+  lat: number | null;
+  lng: number | null;
+}): Promise<PriceSuggestion | null> {
+  if (!input.cropName.trim()) return null;
+
+  const { data, error } = await supabase.rpc('suggest_listing_price', {
+    p_crop_name: input.cropName.trim(),
+    p_quality: input.quality,
+    p_unit: input.unit,
+    p_lat: input.lat,
+    p_lng: input.lng,
+    p_radius_km: SUGGESTION_RADIUS_KM,
+    p_min_comparables: MIN_COMPARABLES,
+  });
+
+  if (error) {
+    console.error('Failed to load price suggestion:', error);
+    return null;
+  }
+
+  const row = (data || [])[0];
+  if (!row) return null;
+
+  const listingCount = Number(row.listing_count || 0);
+  const saleCount = Number(row.sale_count || 0);
+  if (listingCount + saleCount < MIN_COMPARABLES || !row.median_price) return null;
+
+  return {
+    scope: row.scope === 'nearby' ? 'nearby' : 'market',
+    radiusKm: row.radius_km != null ? Number(row.radius_km) : null,
+    listingCount,
+    saleCount,
+    min: Number(row.min_price),
+    p25: Number(row.p25_price),
+    median: Number(row.median_price),
+    p75: Number(row.p75_price),
+    max: Number(row.max_price),
+  };
+}
+
+/** Rounds to a price a farmer would actually type (nearest 50 or 500). */
+export function roundPrice(value: number) {
+  const step = value >= 10000 ? 500 : 50;
+  return Math.max(step, Math.round(value / step) * step);
+}
+
+export function checkPrice(price: number, suggestion: PriceSuggestion | null, unit: string): PriceCheck {
+  if (!suggestion || !Number.isFinite(price) || price <= 0) return { level: 'ok', message: null };
+
+  const where = suggestion.scope === 'nearby' ? 'near you' : 'across the market';
+
+  if (price >= suggestion.median * FAR_RATIO) {
+    return {
+      level: 'far_high',
+      message: `${formatUGX(price)} per ${unit} is over ${FAR_RATIO}× the usual ${formatUGX(suggestion.median)} ${where}. Check for an extra zero.`,
+    };
+  }
+
+  if (price <= suggestion.median / FAR_RATIO) {
+    return {
+      level: 'far_low',
+      message: `${formatUGX(price)} per ${unit} is under a third of the usual ${formatUGX(suggestion.median)} ${where}. Check for a missing zero.`,
+    };
+  }
+
+  if (price > suggestion.p75 * (1 + BAND_TOLERANCE)) {
+    return { level: 'high', message: `Higher than most comparable prices ${where}; buyers may pass it by.` };
+  }
+
+  if (price < suggestion.p25 * (1 - BAND_TOLERANCE)) {
+    return { level: 'low', message: `Lower than most comparable prices ${where}; you may be underpricing.` };
+  }
+
+  return { level: 'ok', message: null };
+}
@@ -0,0 +1,81 @@
+// lib/produceCatalog.ts
+import { supabase } from '@/lib/supabaseClient';
+
+export type ProduceCategory = {
+  id: number;
+  name: string;
+};
+
+export type ProduceCrop = {
+  id: number;
+  category_id: number;
+  name: string;
+  common_unit: string;
+};
+
+export type ProduceVariety = {
+  id: number;
+  crop_id: number;
+  name: string;
+};
+
+export type ProduceCatalog = {
+  categories: ProduceCategory[];
+  crops: ProduceCrop[];
+  varieties: ProduceVariety[];
+};
+
+/** Picker state; ids are kept as strings to match the form's select values. */
+export type CatalogSelection = {
+  category_id: string;
+  crop_id: string;
+  variety_id: string;
+};
+
+export const emptyCatalog: ProduceCatalog = { categories: [], crops: [], varieties: [] };
+
+export const emptyCatalogSelection: CatalogSelection = { category_id: '', crop_id: '', variety_id: '' };
+
+/** Active categories, crops and varieties, each sorted by name. */
+export async function fetchProduceCatalog(): Promise<ProduceCatalog> {
+  const [categories, crops, varieties] = await Promise.all([
+    supabase.from('produce_categories').select('id,name').eq('is_active', true).order('name'),
+    supabase.from('produce_crops').select('id,category_id,name,common_unit').eq('is_active', true).order('name'),
+    supabase.from('produce_varieties').select('id,crop_id,name').eq('is_active', true).order('name'),
+  ]);
+
+  const error = categories.error || crops.error || varieties.error;
+  if (error) {
+    console.error('Failed to load produce catalog:', error);
+  }
+
+  return {
+    categories: (categories.data || []) as ProduceCategory[],
+    crops: (crops.data || []) as ProduceCrop[],
+    varieties: (varieties.data || []) as ProduceVariety[],
+  };
+}
+
+export function cropsInCategory(catalog: ProduceCatalog, categoryId: string) {
+  if (!categoryId) return catalog.crops;
+  return catalog.crops.filter((c) => String(c.category_id) === categoryId);
+}
+
+export function varietiesOfCrop(catalog: ProduceCatalog, cropId: string) {
+  if (!cropId) return [];
+  return catalog.varieties.filter((v) => String(v.crop_id) === cropId);
+}
+
+/** The catalog rows behind a selection, or null for anything not picked. */
+export function resolveSelection(catalog: ProduceCatalog, selection: CatalogSelection) {
+  const crop = catalog.crops.find((c) => String(c.id) === selection.crop_id) ?? null;
+  const categoryId = crop ? String(crop.category_id) : selection.category_id;
+
+  return {
+    category: catalog.categories.find((c) => String(c.id) === categoryId) ?? null,
+    crop,
+    variety:
+      catalog.varieties.find((v) => String(v.id) === selection.variety_id && String(v.crop_id) === selection.crop_id) ??
+      null,
+  };
+}
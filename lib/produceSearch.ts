@@ -0,0 +1,23 @@
+// lib/produceSearch.ts
+import { supabase } from '@/lib/supabaseClient';
+
+/** Search rank by row id, best matches highest. */
+export type SearchRanks = Map<string, number>;
+
+/**
+ * Open buyer demands matching `query` through the search index, which knows
+ * local crop names and forgives typos. Null when the search failed, so the
+ * caller can fall back to plain text matching.
+ */
+export async function searchDemands(query: string): Promise<SearchRanks | null> {
+  const { data, error } = await supabase.rpc('search_demands', { p_search: query.trim(), p_limit: 500 });
+
+  if (error) {
+    console.error('Failed to search demands:', error);
+    return null;
+  }
+
+  return new Map(
+    ((data || []) as { id: string; rank: number | null }[]).map((r) => [r.id, Number(r.rank || 0)])
+  );
+}
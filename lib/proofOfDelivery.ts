@@ -0,0 +1,114 @@
+// lib/proofOfDelivery.ts
+import { supabase } from '@/lib/supabaseClient';
+import type { LatLng } from '@/lib/geo';
+import type { MarketMatch } from '@/lib/orders';
+
+export const PROOF_BUCKET = 'delivery-proofs';
+
+export type DeliveryCode = {
+  match_id: string;
+  code: string;
+  issued_at: string;
+  expires_at: string;
+  failed_attempts: number;
+};
+
+/** Wrong guesses allowed before the buyer has to issue a new code. */
+export const MAX_CODE_ATTEMPTS = 5;
+
+/** The buyer's current code; null for anyone else or when none is live. */
+export async function fetchDeliveryCode(matchId: string) {
+  const { data, error } = await supabase.from('delivery_codes').select('*').eq('match_id', matchId).maybeSingle();
+
+  if (error) {
+    console.error('Failed to load delivery code:', error);
+    return null;
+  }
+
+  return (data as DeliveryCode | null) ?? null;
+}
+
+export async function reissueDeliveryCode(matchId: string): Promise<{ code: string | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('reissue_delivery_code', { p_match_id: matchId });
+
+  if (error) return { code: null, error: error.message };
+  return { code: data as string, error: null };
+}
+
+/** Resolves with null when the phone can't or won't share its position. */
+export function currentPosition(): Promise<LatLng | null> {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (pos) => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  });
+}
+
+/**
+ * Uploads the handover photo under the order's folder, then checks the code.
+ * The order comes back delivered with the proof attached.
+ */
+export async function confirmHandover({
+  matchId,
+  code,
+  photo,
+  position,
+}: {
+  matchId: string;
+  code: string;
+  photo: File;
+  position: LatLng | null;
+}): Promise<{ order: MarketMatch | null; error: string | null }> {
+  const ext = (photo.name.split('.').pop() || 'jpg').toLowerCase();
+  const path = `${matchId}/${Date.now()}_${Math.random().toString(16).slice(2)}.${ext}`;
+
+  const { error: uploadError } = await supabase.storage.from(PROOF_BUCKET).upload(path, photo, {
+    contentType: photo.type || 'image/jpeg',
+  });
+
+  if (uploadError) return { order: null, error: uploadError.message };
+
+  const { data, error } = await supabase.rpc('confirm_handover', {
+    p_match_id: matchId,
+    p_code: code.trim(),
+    p_photo_path: path,
+    p_lat: position?.lat ?? null,
+    p_lng: position?.lng ?? null,
+  });
+
+  if (error) return { order: null, error: error.message };
+  // A wrong code comes back empty so the attempt still counts
+  if (!data || !(data as MarketMatch).id) {
+    return { order: null, error: 'That code is not right. Check it with the buyer.' };
+  }
+  return { order: data as MarketMatch, error: null };
+}
+
+/** A short-lived link to the handover photo for the people on the order. */
+export async function proofPhotoUrl(path: string) {
+  const { data, error } = await supabase.storage.from(PROOF_BUCKET).createSignedUrl(path, 60 * 60);
+
+  if (error) {
+    console.error('Failed to sign delivery photo:', error);
+    return null;
+  }
+
+  return data?.signedUrl ?? null;
+}
+
+export async function clearOrderReview(
+  matchId: string,
+  note?: string
+): Promise<{ order: MarketMatch | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('clear_order_review', {
+    p_match_id: matchId,
+    p_note: note?.trim() || null,
+  });
+
+  if (error) return { order: null, error: error.message };
+  return { order: data as MarketMatch, error: null };
+}
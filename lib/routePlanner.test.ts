@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { planRoutes, type RoutableLoad } from '@/lib/routePlanner';
+
+const START = { lat: 0.3476, lng: 32.5825 };
+
+// Pickups a few km apart east of the start, all going to the same market.
+const load = (id: string, quantity_kg: number | null, offset = 0): RoutableLoad => ({
+  id,
+  quantity_kg,
+  pickup_lat: 0.35,
+  pickup_lng: 32.6 + offset,
+  dropoff_lat: 0.31,
+  dropoff_lng: 32.58,
+});
+
+const ids = (trips: { loads: RoutableLoad[] }[]) => trips.map((t) => t.loads.map((l) => l.id));
+
+describe('planRoutes', () => {
+  it('fills a trip up to the vehicle capacity', () => {
+    const plan = planRoutes([load('a', 400), load('b', 400, 0.01), load('c', 400, 0.02)], {
+      start: START,
+      capacityKg: 1000,
+    });
+
+    expect(ids(plan.trips)).toEqual([['a', 'b'], ['c']]);
+    expect(plan.trips.map((t) => t.kg)).toEqual([800, 400]);
+    expect(plan.trips.every((t) => !t.overCapacity && !t.unknownWeight)).toBe(true);
+  });
+
+  it('gives a load without a weight a trip of its own and flags it', () => {
+    const plan = planRoutes([load('a', 100), load('unknown', null, 0.01), load('b', 100, 0.02)], {
+      start: START,
+      capacityKg: 1000,
+    });
+
+    expect(ids(plan.trips)).toEqual([['a', 'b'], ['unknown']]);
+    expect(plan.trips[1]).toMatchObject({ kg: 0, unknownWeight: true, overCapacity: false });
+    expect(plan.trips[0].unknownWeight).toBe(false);
+  });
+
+  it('flags a single load heavier than the vehicle and sets aside loads without map points', () => {
+    const noPoints = { ...load('lost', 50), pickup_lat: null };
+    const plan = planRoutes([load('heavy', 5000), noPoints], { start: START, capacityKg: 1000 });
+
+    expect(plan.trips).toHaveLength(1);
+    expect(plan.trips[0].overCapacity).toBe(true);
+    expect(plan.unroutable).toEqual([noPoints]);
+  });
+});
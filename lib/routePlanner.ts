@@ -0,0 +1,186 @@
+// lib/routePlanner.ts
+// Groups a transporter's claimed loads into trips that fit the vehicle and
+// orders the stops on each. Pure, like lib/geo.ts: straight-line distances,
+// nearest neighbour for a first order, then 2-opt to undo crossings.
+import { distanceKm, type LatLng } from '@/lib/geo';
+
+export type RoutableLoad = {
+  id: string;
+  quantity_kg: number | null;
+  pickup_lat: number | null;
+  pickup_lng: number | null;
+  dropoff_lat: number | null;
+  dropoff_lng: number | null;
+};
+
+export type RouteStop<T> = LatLng & {
+  kind: 'pickup' | 'dropoff';
+  load: T;
+  /** From the previous stop, or from the start for the first one. */
+  legKm: number;
+};
+
+export type PlannedTrip<T> = {
+  loads: T[];
+  kg: number;
+  /** Every pickup comes before every drop-off. */
+  stops: RouteStop<T>[];
+  distanceKm: number;
+  minutes: number;
+  /** A single load heavier than the vehicle; it still gets a trip of its own. */
+  overCapacity: boolean;
+  /** A load with no kg figure; it gets a trip of its own and `kg` leaves it out. */
+  unknownWeight: boolean;
+};
+
+export type RoutePlan<T> = {
+  trips: PlannedTrip<T>[];
+  /** Loads missing a pickup or drop-off point. */
+  unroutable: T[];
+};
+
+export type RouteOptions = {
+  /** Where every trip starts; the first pickup when unknown. */
+  start: LatLng | null;
+  capacityKg: number;
+  /** Average road speed; straight lines understate the road, so keep it modest. */
+  speedKmh?: number;
+  /** Loading or unloading time at each stop. */
+  stopMinutes?: number;
+};
+
+const TWO_OPT_ROUNDS = 50;
+
+const legKm = (a: LatLng, b: LatLng) => distanceKm(a.lat, a.lng, b.lat, b.lng);
+
+function nearest<I>(at: LatLng, items: I[], pointOf: (item: I) => LatLng) {
+  return items.reduce((best, item) => (legKm(at, pointOf(item)) < legKm(at, pointOf(best)) ? item : best));
+}
+
+function nearestNeighbour<P extends LatLng>(from: LatLng, points: P[]) {
+  const left = [...points];
+  const ordered: P[] = [];
+  let at = from;
+
+  while (left.length > 0) {
+    const next = nearest(at, left, (p) => p);
+    left.splice(left.indexOf(next), 1);
+    ordered.push(next);
+    at = next;
+  }
+
+  return ordered;
+}
+
+/** Reverses stretches of an open path from a fixed start while that shortens it. */
+function twoOpt<P extends LatLng>(from: LatLng, points: P[]) {
+  const path = [...points];
+  const at = (i: number): LatLng => (i < 0 ? from : path[i]);
+
+  for (let round = 0; round < TWO_OPT_ROUNDS; round++) {
+    let improved = false;
+
+    for (let i = 0; i < path.length - 1; i++) {
+      for (let k = i + 1; k < path.length; k++) {
+        const before = legKm(at(i - 1), path[i]) + (k + 1 < path.length ? legKm(path[k], path[k + 1]) : 0);
+        const after = legKm(at(i - 1), path[k]) + (k + 1 < path.length ? legKm(path[i], path[k + 1]) : 0);
+
+        if (after < before - 1e-9) {
+          path.splice(i, k - i + 1, ...path.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return path;
+}
+
+function orderStops<P extends LatLng>(from: LatLng, points: P[]) {
+  return twoOpt(from, nearestNeighbour(from, points));
+}
+
+const pickupOf = (load: RoutableLoad): LatLng => ({ lat: load.pickup_lat!, lng: load.pickup_lng! });
+const dropoffOf = (load: RoutableLoad): LatLng => ({ lat: load.dropoff_lat!, lng: load.dropoff_lng! });
+const hasKg = (load: RoutableLoad) => load.quantity_kg != null;
+const kgOf = (load: RoutableLoad) => Number(load.quantity_kg || 0);
+
+/**
+ * Fills one trip at a time: the pickup nearest the start seeds it, then the
+ * load whose pickup is nearest the last one added joins while it still fits.
+ * A load without a kg figure might not fit with anything, so it travels alone.
+ */
+function groupTrips<T extends RoutableLoad>(loads: T[], start: LatLng | null, capacityKg: number) {
+  const left = [...loads];
+  const trips: T[][] = [];
+
+  while (left.length > 0) {
+    const seed = start ? nearest(start, left, pickupOf) : left[0];
+    left.splice(left.indexOf(seed), 1);
+
+    const trip = [seed];
+    let kg = kgOf(seed);
+    let at = pickupOf(seed);
+
+    for (;;) {
+      const fits = left.filter((load) => hasKg(seed) && hasKg(load) && kg + kgOf(load) <= capacityKg);
+      if (fits.length === 0) break;
+
+      const next = nearest(at, fits, pickupOf);
+      left.splice(left.indexOf(next), 1);
+      trip.push(next);
+      kg += kgOf(next);
+      at = pickupOf(next);
+    }
+
+    trips.push(trip);
+  }
+
+  return trips;
+}
+
+export function planRoutes<T extends RoutableLoad>(loads: T[], options: RouteOptions): RoutePlan<T> {
+  const { start, capacityKg, speedKmh = 35, stopMinutes = 20 } = options;
+
+  const routable = loads.filter(
+    (l) => l.pickup_lat != null && l.pickup_lng != null && l.dropoff_lat != null && l.dropoff_lng != null
+  );
+  const unroutable = loads.filter((l) => !routable.includes(l));
+
+  const trips = groupTrips(routable, start, Math.max(Number(capacityKg) || 0, 0)).map((group) => {
+    const origin = start || pickupOf(group[0]);
+    const pickups = orderStops(
+      origin,
+      group.map((load) => ({ ...pickupOf(load), kind: 'pickup' as const, load }))
+    );
+    const lastPickup = pickups[pickups.length - 1];
+    const dropoffs = orderStops(
+      lastPickup,
+      group.map((load) => ({ ...dropoffOf(load), kind: 'dropoff' as const, load }))
+    );
+
+    let at = origin;
+    const stops: RouteStop<T>[] = [...pickups, ...dropoffs].map((stop) => {
+      const leg = legKm(at, stop);
+      at = stop;
+      return { ...stop, legKm: leg };
+    });
+
+    const distance = stops.reduce((sum, stop) => sum + stop.legKm, 0);
+    const kg = group.reduce((sum, load) => sum + kgOf(load), 0);
+
+    return {
+      loads: group,
+      kg,
+      stops,
+      distanceKm: distance,
+      minutes: Math.round((distance / speedKmh) * 60 + stops.length * stopMinutes),
+      overCapacity: kg > capacityKg,
+      unknownWeight: !group.every(hasKg),
+    };
+  });
+
+  return { trips, unroutable };
+}
@@ -0,0 +1,75 @@
+// lib/sourcingAreas.ts
+// Where a buyer sources from. Pure, like lib/matching.ts; the database does
+// the same check in demand_covers_place().
+import { distanceKm, districtOf, pointInPolygon } from '@/lib/geo';
+
+export type SourcingMode = 'radius' | 'polygon' | 'districts';
+
+export const sourcingModeOptions: { value: SourcingMode; label: string }[] = [
+  { value: 'radius', label: 'Radius' },
+  { value: 'polygon', label: 'Drawn area' },
+  { value: 'districts', label: 'Districts' },
+];
+
+export type SourcingArea = {
+  location_lat: number | null;
+  location_lng: number | null;
+  radius_km: number;
+  /** Missing on rows read before areas existed; treated as 'radius'. */
+  sourcing_mode?: SourcingMode | string | null;
+  /** [lat, lng] corners, for 'polygon'. */
+  sourcing_polygon?: [number, number][] | null;
+  sourcing_districts?: string[] | null;
+};
+
+/** A listing or farmer being checked against an area. */
+export type SourcingPlace = {
+  lat: number | null;
+  lng: number | null;
+  location?: string | null;
+};
+
+export function sourcingModeOf(area: SourcingArea): SourcingMode {
+  if (area.sourcing_mode === 'polygon' && (area.sourcing_polygon?.length || 0) >= 3) return 'polygon';
+  if (area.sourcing_mode === 'districts' && (area.sourcing_districts?.length || 0) > 0) return 'districts';
+  return 'radius';
+}
+
+/**
+ * Whether `place` is inside the area, or null when the place or the demand
+ * lacks what the check needs (callers treat that as a possible match).
+ */
+export function inSourcingArea(area: SourcingArea, place: SourcingPlace): boolean | null {
+  const mode = sourcingModeOf(area);
+
+  if (mode === 'polygon') {
+    if (place.lat == null || place.lng == null) return null;
+    return pointInPolygon(place.lat, place.lng, area.sourcing_polygon || []);
+  }
+
+  if (mode === 'districts') {
+    const district = districtOf(place.location);
+    if (!district) return null;
+    return (area.sourcing_districts || []).some((d) => districtOf(d) === district);
+  }
+
+  if (area.location_lat == null || area.location_lng == null || place.lat == null || place.lng == null) {
+    return null;
+  }
+  return (
+    distanceKm(area.location_lat, area.location_lng, place.lat, place.lng) <= Number(area.radius_km || 0)
+  );
+}
+
+/** Short label for cards: "Within 20 km", "Drawn area" or "Wakiso, Mukono +2". */
+export function describeSourcingArea(area: SourcingArea) {
+  const mode = sourcingModeOf(area);
+
+  if (mode === 'polygon') return 'Drawn area';
+  if (mode === 'districts') {
+    const districts = area.sourcing_districts || [];
+    const shown = districts.slice(0, 2).join(', ');
+    return districts.length > 2 ? `${shown} +${districts.length - 2}` : shown;
+  }
+  return `Within ${Number(area.radius_km || 0).toLocaleString()} km`;
+}
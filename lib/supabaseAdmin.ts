@@ -0,0 +1,23 @@
+// lib/supabaseAdmin.ts
+// Service-role client for route handlers only. Never import this from a
+// 'use client' module: the key bypasses row level security.
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+let adminClient: SupabaseClient | null = null;
+
+export function getSupabaseAdmin() {
+  if (adminClient) return adminClient;
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Missing Supabase service role environment variables');
+  }
+
+  adminClient = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  return adminClient;
+}
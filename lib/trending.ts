@@ -0,0 +1,180 @@
+// lib/trending.ts
+import { supabase } from '@/lib/supabaseClient';
+
+export type TrendingRange = '24h' | '7d' | '30d';
+export type TrendDirection = 'rising' | 'falling' | 'steady' | 'new';
+
+export type ActivityCounts = {
+  listings: number;
+  offers: number;
+  demands: number;
+  views: number;
+};
+
+export type CropActivityRow = ActivityCounts & {
+  crop_key: string;
+  crop_name: string;
+  crop_category: string;
+};
+
+export type Trend = {
+  key: string;
+  label: string;
+  category: string;
+  current: ActivityCounts;
+  previous: ActivityCounts;
+  score: number;
+  previousScore: number;
+  /** Null when there was no activity in the previous window. */
+  changePct: number | null;
+  direction: TrendDirection;
+};
+
+export const trendingRangeOptions: { value: TrendingRange; label: string; hours: number }[] = [
+  { value: '24h', label: 'Last 24 hours', hours: 24 },
+  { value: '7d', label: 'Last 7 days', hours: 24 * 7 },
+  { value: '30d', label: 'Last 30 days', hours: 24 * 30 },
+];
+
+// A view is cheap; listing, offering or asking for a crop is a stronger signal.
+export const activityWeights: ActivityCounts = {
+  listings: 3,
+  offers: 4,
+  demands: 4,
+  views: 1,
+};
+
+// Changes smaller than this either way count as steady.
+const STEADY_BAND_PCT = 10;
+
+const emptyCounts = (): ActivityCounts => ({ listings: 0, offers: 0, demands: 0, views: 0 });
+
+export function trendingRangeLabel(range: TrendingRange) {
+  return trendingRangeOptions.find((o) => o.value === range)?.label ?? range;
+}
+
+/** The selected window ending now and the equally long window just before it. */
+export function trendingWindows(range: TrendingRange, now = new Date()) {
+  const hours = trendingRangeOptions.find((o) => o.value === range)?.hours ?? 24 * 7;
+  const span = hours * 60 * 60 * 1000;
+  const until = now.getTime();
+
+  return {
+    current: { since: new Date(until - span), until: new Date(until) },
+    previous: { since: new Date(until - 2 * span), until: new Date(until - span) },
+  };
+}
+
+export function activityScore(counts: ActivityCounts) {
+  return (
+    counts.listings * activityWeights.listings +
+    counts.offers * activityWeights.offers +
+    counts.demands * activityWeights.demands +
+    counts.views * activityWeights.views
+  );
+}
+
+export function momentum(score: number, previousScore: number): { changePct: number | null; direction: TrendDirection } {
+  if (previousScore === 0) {
+    return { changePct: null, direction: score > 0 ? 'new' : 'steady' };
+  }
+
+  const changePct = Math.round(((score - previousScore) / previousScore) * 100);
+  if (changePct >= STEADY_BAND_PCT) return { changePct, direction: 'rising' };
+  if (changePct <= -STEADY_BAND_PCT) return { changePct, direction: 'falling' };
+  return { changePct, direction: 'steady' };
+}
+
+function addCounts(into: ActivityCounts, from: ActivityCounts) {
+  into.listings += Number(from.listings || 0);
+  into.offers += Number(from.offers || 0);
+  into.demands += Number(from.demands || 0);
+  into.views += Number(from.views || 0);
+}
+
+function buildTrends(
+  current: CropActivityRow[],
+  previous: CropActivityRow[],
+  keyOf: (row: CropActivityRow) => { key: string; label: string; category: string }
+): Trend[] {
+  const byKey = new Map<string, Omit<Trend, 'score' | 'previousScore' | 'changePct' | 'direction'>>();
+
+  const entry = (row: CropActivityRow) => {
+    const { key, label, category } = keyOf(row);
+    let e = byKey.get(key);
+    if (!e) {
+      e = { key, label, category, current: emptyCounts(), previous: emptyCounts() };
+      byKey.set(key, e);
+    }
+    return e;
+  };
+
+  current.forEach((row) => addCounts(entry(row).current, row));
+  previous.forEach((row) => addCounts(entry(row).previous, row));
+
+  return Array.from(byKey.values())
+    .map((e) => {
+      const score = activityScore(e.current);
+      const previousScore = activityScore(e.previous);
+      return { ...e, score, previousScore, ...momentum(score, previousScore) };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+export function cropTrends(current: CropActivityRow[], previous: CropActivityRow[]) {
+  return buildTrends(current, previous, (row) => ({
+    key: row.crop_key,
+    label: row.crop_name,
+    category: row.crop_category || 'other',
+  }));
+}
+
+export function categoryTrends(current: CropActivityRow[], previous: CropActivityRow[]) {
+  return buildTrends(current, previous, (row) => {
+    const category = row.crop_category || 'other';
+    return { key: category, label: category, category };
+  });
+}
+
+/** Crops gaining the most, with brand-new activity after measurable gains. */
+export function risingTrends(trends: Trend[], limit = 5) {
+  return trends
+    .filter((t) => t.direction === 'rising' || t.direction === 'new')
+    .sort((a, b) => {
+      if (a.changePct === null && b.changePct === null) return b.score - a.score;
+      if (a.changePct === null) return 1;
+      if (b.changePct === null) return -1;
+      return b.changePct - a.changePct;
+    })
+    .slice(0, limit);
+}
+
+export function fallingTrends(trends: Trend[], limit = 5) {
+  return trends
+    .filter((t) => t.direction === 'falling')
+    .sort((a, b) => (a.changePct ?? 0) - (b.changePct ?? 0))
+    .slice(0, limit);
+}
+
+export function formatChange(trend: Pick<Trend, 'changePct' | 'direction'>) {
+  if (trend.direction === 'new' || trend.changePct === null) return 'New';
+  return `${trend.changePct > 0 ? '+' : ''}${trend.changePct}%`;
+}
+
+export async function fetchCropActivity(since: Date, until: Date) {
+  const { data, error } = await supabase.rpc('trending_crop_activity', {
+    p_since: since.toISOString(),
+    p_until: until.toISOString(),
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as CropActivityRow[]).map((row) => ({
+    ...row,
+    crop_category: (row.crop_category || 'other').toLowerCase(),
+    listings: Number(row.listings || 0),
+    offers: Number(row.offers || 0),
+    demands: Number(row.demands || 0),
+    views: Number(row.views || 0),
+  }));
+}
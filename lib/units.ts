@@ -0,0 +1,75 @@
+// lib/units.ts
+import { supabase } from '@/lib/supabaseClient';
+
+export type UnitConversion = {
+  crop_id: number | null;
+  unit: string;
+  kg_per_unit: number;
+};
+
+export async function fetchUnitConversions(): Promise<UnitConversion[]> {
+  const { data, error } = await supabase
+    .from('produce_unit_conversions')
+    .select('crop_id,unit,kg_per_unit');
+
+  if (error) {
+    console.error('Failed to load unit conversions:', error);
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    crop_id: row.crop_id ?? null,
+    unit: String(row.unit).toLowerCase(),
+    kg_per_unit: Number(row.kg_per_unit),
+  }));
+}
+
+/**
+ * Kilograms in one `unit` of the crop: the crop's own conversion when it has
+ * one, otherwise the default for the unit. Null when neither exists.
+ */
+export function kgPerUnit(conversions: UnitConversion[], unit: string, cropId?: number | null) {
+  const key = (unit || '').trim().toLowerCase();
+  if (key === 'kg') return 1;
+
+  const forCrop = cropId != null ? conversions.find((c) => c.crop_id === cropId && c.unit === key) : undefined;
+  const fallback = conversions.find((c) => c.crop_id === null && c.unit === key);
+
+  const kg = (forCrop ?? fallback)?.kg_per_unit;
+  return kg && kg > 0 ? kg : null;
+}
+
+export function pricePerKg(
+  conversions: UnitConversion[],
+  price: number,
+  unit: string,
+  cropId?: number | null
+) {
+  const kg = kgPerUnit(conversions, unit, cropId);
+  return kg ? Number(price || 0) / kg : null;
+}
+
+export function quantityInKg(
+  conversions: UnitConversion[],
+  quantity: number,
+  unit: string,
+  cropId?: number | null
+) {
+  const kg = kgPerUnit(conversions, unit, cropId);
+  return kg ? Number(quantity || 0) * kg : null;
+}
+
+/** "≈ UGX 1,250/kg" for units other than kg, or null when there is no per-kg figure. */
+export function perKgLabel(perKg: number | null | undefined, unit: string) {
+  if ((unit || '').trim().toLowerCase() === 'kg' || perKg == null) return null;
+  return `≈ UGX ${Math.round(perKg).toLocaleString('en-UG')}/kg`;
+}
+
+export function formatPricePerKg(
+  conversions: UnitConversion[],
+  price: number,
+  unit: string,
+  cropId?: number | null
+) {
+  return perKgLabel(pricePerKg(conversions, price, unit, cropId), unit);
+}
@@ -0,0 +1,228 @@
+-- Offer negotiation between buyers (buyer_demands) and farmers (farm_produce).
+-- demand_offers already exists in production; everything here is additive.
+
+create table if not exists public.demand_offers (
+  id uuid primary key default gen_random_uuid(),
+  demand_id uuid not null references public.buyer_demands (id) on delete cascade,
+  listing_id uuid references public.farm_produce (id) on delete set null,
+  farmer_id uuid not null,
+  crop_name text not null,
+  offered_quantity numeric not null,
+  offered_price_per_unit numeric not null,
+  status text not null default 'sent',
+  created_at timestamptz not null default now()
+);
+
+alter table public.demand_offers
+  add column if not exists buyer_id uuid,
+  add column if not exists last_action_by text default 'farmer',
+  add column if not exists updated_at timestamptz default now();
+
+update public.demand_offers o
+set buyer_id = d.buyer_id
+from public.buyer_demands d
+where o.demand_id = d.id
+  and o.buyer_id is null;
+
+update public.demand_offers
+set last_action_by = 'farmer'
+where last_action_by is null;
+
+alter table public.demand_offers
+  drop constraint if exists demand_offers_status_check,
+  add constraint demand_offers_status_check
+    check (status in ('sent', 'countered', 'accepted', 'rejected', 'withdrawn')),
+  drop constraint if exists demand_offers_last_action_by_check,
+  add constraint demand_offers_last_action_by_check
+    check (last_action_by in ('buyer', 'farmer'));
+
+create index if not exists demand_offers_demand_id_idx on public.demand_offers (demand_id);
+create index if not exists demand_offers_farmer_id_idx on public.demand_offers (farmer_id);
+create index if not exists demand_offers_buyer_id_idx on public.demand_offers (buyer_id);
+
+-- One row per status change so both sides can see the same history.
+create table if not exists public.demand_offer_events (
+  id uuid primary key default gen_random_uuid(),
+  offer_id uuid not null references public.demand_offers (id) on delete cascade,
+  actor_id uuid,
+  actor_role text not null check (actor_role in ('buyer', 'farmer')),
+  status text not null check (status in ('sent', 'countered', 'accepted', 'rejected', 'withdrawn')),
+  quantity numeric,
+  price_per_unit numeric,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists demand_offer_events_offer_id_idx
+  on public.demand_offer_events (offer_id, created_at);
+
+-- Seed history for offers sent before events were recorded.
+insert into public.demand_offer_events (offer_id, actor_id, actor_role, status, quantity, price_per_unit, created_at)
+select o.id, o.farmer_id, 'farmer', 'sent', o.offered_quantity, o.offered_price_per_unit, o.created_at
+from public.demand_offers o
+where not exists (
+  select 1 from public.demand_offer_events e where e.offer_id = o.id
+);
+
+alter table public.demand_offer_events enable row level security;
+
+drop policy if exists "offer participants read events" on public.demand_offer_events;
+create policy "offer participants read events"
+  on public.demand_offer_events for select
+  using (
+    exists (
+      select 1 from public.demand_offers o
+      where o.id = offer_id
+        and (o.farmer_id = auth.uid() or o.buyer_id = auth.uid())
+    )
+  );
+
+-- Offers and their history are read-only from the client; send_offer() and
+-- respond_to_offer() are the only ways to change them, so the turn rules
+-- can't be skipped and every change lands in demand_offer_events.
+alter table public.demand_offers enable row level security;
+
+drop policy if exists "offer participants read offers" on public.demand_offers;
+create policy "offer participants read offers"
+  on public.demand_offers for select
+  using (
+    farmer_id = auth.uid()
+    or buyer_id = auth.uid()
+    or exists (select 1 from public.buyer_demands d where d.id = demand_id and d.buyer_id = auth.uid())
+    or exists (select 1 from public.accounts_user where auth_user_id = auth.uid() and role = 'admin')
+  );
+
+drop policy if exists "offer participants add events" on public.demand_offer_events;
+
+revoke insert, update, delete on public.demand_offers from anon, authenticated;
+revoke insert, update, delete on public.demand_offer_events from anon, authenticated;
+
+-- A farmer offers one of their listings, at its quantity and price, against
+-- an open demand.
+create or replace function public.send_offer(p_demand_id uuid, p_listing_id uuid)
+returns public.demand_offers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_demand public.buyer_demands;
+  v_listing public.farm_produce;
+  v_offer public.demand_offers;
+begin
+  select * into v_listing from public.farm_produce where id = p_listing_id;
+  if not found or v_listing.farmer_id is distinct from auth.uid() then
+    raise exception 'Listing not found';
+  end if;
+
+  select * into v_demand from public.buyer_demands where id = p_demand_id;
+  if not found or v_demand.status is distinct from 'open' then
+    raise exception 'This demand is no longer open';
+  end if;
+
+  insert into public.demand_offers (
+    demand_id, listing_id, farmer_id, buyer_id, crop_name,
+    offered_quantity, offered_price_per_unit, status, last_action_by
+  )
+  values (
+    v_demand.id, v_listing.id, v_listing.farmer_id, v_demand.buyer_id, v_listing.crop_name,
+    v_listing.quantity, v_listing.price_per_unit, 'sent', 'farmer'
+  )
+  returning * into v_offer;
+
+  insert into public.demand_offer_events (offer_id, actor_id, actor_role, status, quantity, price_per_unit)
+  values (v_offer.id, auth.uid(), 'farmer', 'sent', v_offer.offered_quantity, v_offer.offered_price_per_unit);
+
+  return v_offer;
+end;
+$$;
+
+-- Negotiation is turn based: whoever did not make the last move may accept,
+-- reject or counter, and the farmer may withdraw an open offer at any time.
+-- Keep in sync with allowedOfferActions() in lib/offers.ts. Accepting also
+-- creates the order, in the same transaction.
+create or replace function public.respond_to_offer(
+  p_offer_id uuid,
+  p_action text,
+  p_quantity numeric default null,
+  p_price_per_unit numeric default null,
+  p_note text default null
+)
+returns public.demand_offers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_offer public.demand_offers;
+  v_party text;
+  v_status text;
+begin
+  select * into v_offer from public.demand_offers where id = p_offer_id for update;
+  if not found then
+    raise exception 'Offer not found';
+  end if;
+
+  v_party := case
+    when auth.uid() = v_offer.farmer_id then 'farmer'
+    when auth.uid() = v_offer.buyer_id then 'buyer'
+  end;
+  if v_party is null then
+    raise exception 'You are not part of this offer';
+  end if;
+
+  v_status := case p_action
+    when 'accept' then 'accepted'
+    when 'reject' then 'rejected'
+    when 'counter' then 'countered'
+    when 'withdraw' then 'withdrawn'
+  end;
+  if v_status is null then
+    raise exception 'Unknown offer action %', p_action;
+  end if;
+
+  if v_offer.status not in ('sent', 'countered')
+     or (p_action = 'withdraw' and v_party <> 'farmer')
+     or (p_action <> 'withdraw' and coalesce(v_offer.last_action_by, 'farmer') = v_party) then
+    raise exception 'This offer is waiting on the other party or is already closed.';
+  end if;
+
+  if p_action = 'counter' then
+    if coalesce(p_quantity, 0) <= 0 then
+      raise exception 'Counter quantity must be greater than zero.';
+    end if;
+    if coalesce(p_price_per_unit, 0) <= 0 then
+      raise exception 'Counter price must be greater than zero.';
+    end if;
+  end if;
+
+  update public.demand_offers
+  set status = v_status,
+      offered_quantity = case when p_action = 'counter' then p_quantity else offered_quantity end,
+      offered_price_per_unit = case when p_action = 'counter' then p_price_per_unit else offered_price_per_unit end,
+      last_action_by = v_party,
+      updated_at = now()
+  where id = p_offer_id
+  returning * into v_offer;
+
+  insert into public.demand_offer_events (offer_id, actor_id, actor_role, status, quantity, price_per_unit, note)
+  values (p_offer_id, auth.uid(), v_party, v_status, v_offer.offered_quantity, v_offer.offered_price_per_unit,
+          nullif(trim(coalesce(p_note, '')), ''));
+
+  if p_action = 'accept' then
+    perform public.create_market_match_from_offer(p_offer_id);
+  end if;
+
+  return v_offer;
+end;
+$$;
+
+grant execute on function public.send_offer(uuid, uuid) to authenticated;
+grant execute on function public.respond_to_offer(uuid, text, numeric, numeric, text) to authenticated;
+
+do $$
+begin
+  alter publication supabase_realtime add table public.demand_offers;
+exception
+  when duplicate_object then null;
+end $$;
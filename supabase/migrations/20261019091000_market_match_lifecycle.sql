@@ -0,0 +1,332 @@
+-- Order lifecycle for market_matches:
+--   pending -> confirmed -> dispatched -> delivered -> completed
+--   plus cancelled and disputed.
+-- Every transition goes through advance_market_match() so the role rules and
+-- the history in market_match_events can't be bypassed from the client.
+
+alter table public.market_matches
+  add column if not exists farmer_id uuid,
+  add column if not exists offer_id uuid references public.demand_offers (id) on delete set null,
+  add column if not exists unit text not null default 'kg',
+  -- The deal as struck, in `unit`. The kg columns only hold figures that
+  -- really are per kg, so they stay null for other units.
+  add column if not exists quantity numeric,
+  add column if not exists price_per_unit numeric,
+  add column if not exists confirmed_at timestamptz,
+  add column if not exists dispatched_at timestamptz,
+  add column if not exists delivered_at timestamptz,
+  add column if not exists completed_at timestamptz,
+  add column if not exists cancelled_at timestamptz,
+  add column if not exists disputed_at timestamptz;
+
+-- Orders so far were all in kg.
+update public.market_matches
+set quantity = quantity_kg,
+    price_per_unit = agreed_price_per_kg
+where quantity is null;
+
+alter table public.market_matches
+  alter column quantity_kg drop not null,
+  alter column agreed_price_per_kg drop not null;
+
+update public.market_matches m
+set farmer_id = p.farmer_id
+from public.farm_produce p
+where m.listing_id = p.id
+  and m.farmer_id is null;
+
+alter table public.market_matches
+  drop constraint if exists market_matches_status_check,
+  add constraint market_matches_status_check
+    check (status in ('pending', 'confirmed', 'dispatched', 'delivered', 'completed', 'cancelled', 'disputed'));
+
+create unique index if not exists market_matches_offer_id_key
+  on public.market_matches (offer_id)
+  where offer_id is not null;
+create index if not exists market_matches_farmer_id_idx on public.market_matches (farmer_id);
+create index if not exists market_matches_buyer_id_idx on public.market_matches (buyer_id);
+
+create table if not exists public.market_match_events (
+  id uuid primary key default gen_random_uuid(),
+  match_id uuid not null references public.market_matches (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  actor_id uuid,
+  actor_role text not null check (actor_role in ('buyer', 'farmer', 'admin', 'system')),
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists market_match_events_match_id_idx
+  on public.market_match_events (match_id, created_at);
+
+alter table public.market_match_events enable row level security;
+
+drop policy if exists "order participants read events" on public.market_match_events;
+create policy "order participants read events"
+  on public.market_match_events for select
+  using (
+    exists (
+      select 1 from public.market_matches m
+      where m.id = match_id
+        and (m.buyer_id = auth.uid() or m.farmer_id = auth.uid())
+    )
+    -- Admins rule on disputes, so they need the history too
+    or exists (select 1 from public.accounts_user where auth_user_id = auth.uid() and role = 'admin')
+  );
+
+-- Orders and their history are read-only from the client. Status, handover
+-- and quantity columns only change through the security-definer functions
+-- in this and later migrations.
+alter table public.market_matches enable row level security;
+
+drop policy if exists "order participants read orders" on public.market_matches;
+create policy "order participants read orders"
+  on public.market_matches for select
+  using (
+    buyer_id = auth.uid()
+    or farmer_id = auth.uid()
+    or exists (select 1 from public.accounts_user where auth_user_id = auth.uid() and role = 'admin')
+  );
+
+revoke insert, update, delete on public.market_matches from anon, authenticated;
+revoke insert, update, delete on public.market_match_events from anon, authenticated;
+
+-- Great-circle distance, same formula as the client-side distanceKm helpers.
+create or replace function public.haversine_km(lat1 double precision, lng1 double precision, lat2 double precision, lng2 double precision)
+returns double precision
+language sql
+immutable
+as $$
+  select 6371 * 2 * atan2(
+    sqrt(
+      sin(radians(lat2 - lat1) / 2) ^ 2
+      + cos(radians(lat1)) * cos(radians(lat2)) * sin(radians(lng2 - lng1) / 2) ^ 2
+    ),
+    sqrt(1 - (
+      sin(radians(lat2 - lat1) / 2) ^ 2
+      + cos(radians(lat1)) * cos(radians(lat2)) * sin(radians(lng2 - lng1) / 2) ^ 2
+    ))
+  );
+$$;
+
+-- Keep in sync with orderTransitions in lib/orders.ts.
+create or replace function public.market_match_transition_allowed(p_from text, p_to text, p_role text)
+returns boolean
+language sql
+immutable
+as $$
+  select exists (
+    select 1
+    from (values
+      ('pending',    'confirmed',  'farmer'),
+      ('pending',    'cancelled',  'buyer'),
+      ('pending',    'cancelled',  'farmer'),
+      ('confirmed',  'dispatched', 'farmer'),
+      ('confirmed',  'cancelled',  'buyer'),
+      ('confirmed',  'cancelled',  'farmer'),
+      ('confirmed',  'disputed',   'buyer'),
+      ('confirmed',  'disputed',   'farmer'),
+      ('dispatched', 'delivered',  'buyer'),
+      ('dispatched', 'delivered',  'farmer'),
+      ('dispatched', 'disputed',   'buyer'),
+      ('dispatched', 'disputed',   'farmer'),
+      ('delivered',  'completed',  'buyer'),
+      ('delivered',  'disputed',   'buyer'),
+      ('disputed',   'completed',  'admin'),
+      ('disputed',   'cancelled',  'admin')
+    ) as t (from_status, to_status, actor_role)
+    where t.from_status = p_from
+      and t.to_status = p_to
+      and (t.actor_role = p_role or p_role = 'admin')
+  );
+$$;
+
+create or replace function public.advance_market_match(p_match_id uuid, p_to_status text, p_note text default null)
+returns public.market_matches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_match public.market_matches;
+  v_from text;
+  v_role text;
+begin
+  select * into v_match from public.market_matches where id = p_match_id for update;
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  if auth.uid() = v_match.buyer_id then
+    v_role := 'buyer';
+  elsif auth.uid() = v_match.farmer_id then
+    v_role := 'farmer';
+  elsif exists (select 1 from public.accounts_user where auth_user_id = auth.uid() and role = 'admin') then
+    v_role := 'admin';
+  else
+    raise exception 'You are not part of this order';
+  end if;
+
+  if not public.market_match_transition_allowed(v_match.status, p_to_status, v_role) then
+    raise exception 'A % cannot move an order from % to %', v_role, v_match.status, p_to_status;
+  end if;
+
+  v_from := v_match.status;
+
+  update public.market_matches
+  set status = p_to_status,
+      updated_at = now(),
+      confirmed_at  = case when p_to_status = 'confirmed'  then now() else confirmed_at end,
+      dispatched_at = case when p_to_status = 'dispatched' then now() else dispatched_at end,
+      delivered_at  = case when p_to_status = 'delivered'  then now() else delivered_at end,
+      completed_at  = case when p_to_status = 'completed'  then now() else completed_at end,
+      cancelled_at  = case when p_to_status = 'cancelled'  then now() else cancelled_at end,
+      disputed_at   = case when p_to_status = 'disputed'   then now() else disputed_at end
+  where id = p_match_id
+  returning * into v_match;
+
+  insert into public.market_match_events (match_id, from_status, to_status, actor_id, actor_role, note)
+  values (p_match_id, v_from, p_to_status, auth.uid(), v_role, nullif(trim(p_note), ''));
+
+  return v_match;
+end;
+$$;
+
+-- Creates (or returns the existing) order for an accepted offer.
+create or replace function public.create_market_match_from_offer(p_offer_id uuid)
+returns public.market_matches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_offer public.demand_offers;
+  v_demand public.buyer_demands;
+  v_listing public.farm_produce;
+  v_match public.market_matches;
+begin
+  select * into v_offer from public.demand_offers where id = p_offer_id;
+  if not found then
+    raise exception 'Offer not found';
+  end if;
+
+  if auth.uid() is distinct from v_offer.farmer_id and auth.uid() is distinct from v_offer.buyer_id then
+    raise exception 'You are not part of this offer';
+  end if;
+
+  select * into v_match from public.market_matches where offer_id = p_offer_id;
+  if found then
+    return v_match;
+  end if;
+
+  if v_offer.status <> 'accepted' then
+    raise exception 'Only accepted offers can become orders';
+  end if;
+
+  select * into v_demand from public.buyer_demands where id = v_offer.demand_id;
+  select * into v_listing from public.farm_produce where id = v_offer.listing_id;
+
+  insert into public.market_matches (
+    listing_id, offer_id, buyer_id, farmer_id, buyer_name, farmer_name, crop_name,
+    quantity, price_per_unit, quantity_kg, agreed_price_per_kg, unit, distance_km, quality, status
+  )
+  values (
+    v_offer.listing_id,
+    v_offer.id,
+    v_demand.buyer_id,
+    v_offer.farmer_id,
+    v_demand.buyer_name,
+    coalesce(v_listing.farmer_name, 'Farmer'),
+    v_offer.crop_name,
+    v_offer.offered_quantity,
+    v_offer.offered_price_per_unit,
+    case when lower(coalesce(v_demand.unit, v_listing.unit, 'kg')) = 'kg' then v_offer.offered_quantity end,
+    case when lower(coalesce(v_demand.unit, v_listing.unit, 'kg')) = 'kg' then v_offer.offered_price_per_unit end,
+    coalesce(v_demand.unit, v_listing.unit, 'kg'),
+    case
+      when v_demand.location_lat is not null and v_listing.location_lat is not null
+        then round(public.haversine_km(v_demand.location_lat, v_demand.location_lng, v_listing.location_lat, v_listing.location_lng)::numeric, 1)
+    end,
+    coalesce(v_listing.quality, v_demand.preferred_quality, 'standard'),
+    'pending'
+  )
+  returning * into v_match;
+
+  insert into public.market_match_events (match_id, from_status, to_status, actor_id, actor_role, note)
+  values (v_match.id, null, 'pending', auth.uid(),
+          case when auth.uid() = v_offer.farmer_id then 'farmer' else 'buyer' end,
+          'Created from accepted offer');
+
+  return v_match;
+end;
+$$;
+
+-- Direct "Buy" from a listing page.
+create or replace function public.create_market_match_from_listing(p_listing_id uuid, p_quantity numeric)
+returns public.market_matches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_buyer public.accounts_user;
+  v_listing public.farm_produce;
+  v_match public.market_matches;
+begin
+  select * into v_buyer from public.accounts_user where auth_user_id = auth.uid();
+  if not found or v_buyer.role <> 'buyer' then
+    raise exception 'Only buyers can place orders';
+  end if;
+
+  select * into v_listing from public.farm_produce where id = p_listing_id;
+  if not found or not v_listing.is_available then
+    raise exception 'This listing is not available';
+  end if;
+
+  if p_quantity is null or p_quantity <= 0 or p_quantity > v_listing.quantity then
+    raise exception 'Quantity must be between 0 and % %', v_listing.quantity, v_listing.unit;
+  end if;
+
+  insert into public.market_matches (
+    listing_id, buyer_id, farmer_id, buyer_name, farmer_name, crop_name,
+    quantity, price_per_unit, quantity_kg, agreed_price_per_kg, unit, distance_km, quality, status
+  )
+  values (
+    v_listing.id,
+    auth.uid(),
+    v_listing.farmer_id,
+    coalesce(nullif(trim(coalesce(v_buyer.first_name, '') || ' ' || coalesce(v_buyer.last_name, '')), ''), 'Buyer'),
+    v_listing.farmer_name,
+    v_listing.crop_name,
+    p_quantity,
+    v_listing.price_per_unit,
+    case when lower(v_listing.unit) = 'kg' then p_quantity end,
+    case when lower(v_listing.unit) = 'kg' then v_listing.price_per_unit end,
+    v_listing.unit,
+    case
+      when v_buyer.location_lat is not null and v_listing.location_lat is not null
+        then round(public.haversine_km(v_buyer.location_lat, v_buyer.location_lng, v_listing.location_lat, v_listing.location_lng)::numeric, 1)
+    end,
+    v_listing.quality,
+    'pending'
+  )
+  returning * into v_match;
+
+  insert into public.market_match_events (match_id, from_status, to_status, actor_id, actor_role, note)
+  values (v_match.id, null, 'pending', auth.uid(), 'buyer', 'Placed from listing');
+
+  return v_match;
+end;
+$$;
+
+grant execute on function public.advance_market_match(uuid, text, text) to authenticated;
+grant execute on function public.create_market_match_from_offer(uuid) to authenticated;
+grant execute on function public.create_market_match_from_listing(uuid, numeric) to authenticated;
+
+do $$
+begin
+  alter publication supabase_realtime add table public.market_matches;
+exception
+  when duplicate_object then null;
+end $$;
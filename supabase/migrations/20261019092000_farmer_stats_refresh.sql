@@ -0,0 +1,93 @@
+-- Keep farmer_stats in step with farm_produce and market_matches so the
+-- farmer dashboard can read real counts instead of zeros.
+
+create unique index if not exists farmer_stats_farmer_profile_id_key
+  on public.farmer_stats (farmer_profile_id);
+
+create or replace function public.refresh_farmer_stats(p_farmer_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_farmer_id is null then
+    return;
+  end if;
+
+  insert into public.farmer_stats (
+    farmer_profile_id, total_products, available_products, sold_products,
+    pending_orders, completed_orders, total_revenue, monthly_revenue, last_updated
+  )
+  select
+    fp.id,
+    (select count(*) from public.farm_produce p where p.farmer_id = p_farmer_id),
+    (select count(*) from public.farm_produce p where p.farmer_id = p_farmer_id and p.is_available),
+    (select count(distinct m.listing_id) from public.market_matches m
+      where m.farmer_id = p_farmer_id and m.status = 'completed'),
+    (select count(*) from public.market_matches m
+      where m.farmer_id = p_farmer_id and m.status = 'pending'),
+    (select count(*) from public.market_matches m
+      where m.farmer_id = p_farmer_id and m.status = 'completed'),
+    (select coalesce(sum(m.quantity * m.price_per_unit), 0) from public.market_matches m
+      where m.farmer_id = p_farmer_id and m.status = 'completed'),
+    (select coalesce(sum(m.quantity * m.price_per_unit), 0) from public.market_matches m
+      where m.farmer_id = p_farmer_id and m.status = 'completed'
+        and coalesce(m.completed_at, m.updated_at, m.created_at) >= date_trunc('month', now())),
+    now()
+  from public.farmer_profiles fp
+  where fp.auth_user_id = p_farmer_id
+  on conflict (farmer_profile_id) do update set
+    total_products = excluded.total_products,
+    available_products = excluded.available_products,
+    sold_products = excluded.sold_products,
+    pending_orders = excluded.pending_orders,
+    completed_orders = excluded.completed_orders,
+    total_revenue = excluded.total_revenue,
+    monthly_revenue = excluded.monthly_revenue,
+    last_updated = excluded.last_updated;
+end;
+$$;
+
+revoke all on function public.refresh_farmer_stats(uuid) from public, anon, authenticated;
+
+create or replace function public.farmer_stats_on_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.refresh_farmer_stats(old.farmer_id);
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') and (tg_op = 'INSERT' or new.farmer_id is distinct from old.farmer_id) then
+    perform public.refresh_farmer_stats(new.farmer_id);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists farm_produce_refresh_farmer_stats on public.farm_produce;
+create trigger farm_produce_refresh_farmer_stats
+  after insert or update or delete on public.farm_produce
+  for each row execute function public.farmer_stats_on_change();
+
+drop trigger if exists market_matches_refresh_farmer_stats on public.market_matches;
+create trigger market_matches_refresh_farmer_stats
+  after insert or update or delete on public.market_matches
+  for each row execute function public.farmer_stats_on_change();
+
+-- Backfill every farmer that already has a profile.
+select public.refresh_farmer_stats(auth_user_id)
+from public.farmer_profiles
+where auth_user_id is not null;
+
+do $$
+begin
+  alter publication supabase_realtime add table public.farmer_stats;
+exception
+  when duplicate_object then null;
+end $$;
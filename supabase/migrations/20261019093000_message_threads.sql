@@ -0,0 +1,285 @@
+-- Buyer <-> farmer conversations. A thread belongs to one listing, demand or
+-- order and to exactly one buyer and one farmer. Threads are opened through
+-- open_message_thread() so the participants always come from the subject row.
+
+create table if not exists public.message_threads (
+  id uuid primary key default gen_random_uuid(),
+  subject_type text not null check (subject_type in ('listing', 'demand', 'order')),
+  subject_id uuid not null,
+  buyer_id uuid not null,
+  farmer_id uuid not null,
+  buyer_name text,
+  farmer_name text,
+  title text not null,
+  last_message_at timestamptz,
+  last_message_preview text,
+  created_at timestamptz not null default now(),
+  unique (subject_type, subject_id, buyer_id, farmer_id)
+);
+
+create index if not exists message_threads_buyer_id_idx on public.message_threads (buyer_id, last_message_at desc);
+create index if not exists message_threads_farmer_id_idx on public.message_threads (farmer_id, last_message_at desc);
+
+create table if not exists public.messages (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.message_threads (id) on delete cascade,
+  sender_id uuid not null,
+  body text,
+  attachment_path text,
+  created_at timestamptz not null default now(),
+  constraint messages_not_empty check (coalesce(length(trim(body)), 0) > 0 or attachment_path is not null)
+);
+
+create index if not exists messages_thread_id_idx on public.messages (thread_id, created_at);
+
+create table if not exists public.message_thread_reads (
+  thread_id uuid not null references public.message_threads (id) on delete cascade,
+  user_id uuid not null,
+  last_read_at timestamptz not null default now(),
+  primary key (thread_id, user_id)
+);
+
+create or replace function public.is_thread_participant(p_thread_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.message_threads t
+    where t.id = p_thread_id
+      and (t.buyer_id = auth.uid() or t.farmer_id = auth.uid())
+  );
+$$;
+
+alter table public.message_threads enable row level security;
+alter table public.messages enable row level security;
+alter table public.message_thread_reads enable row level security;
+
+drop policy if exists "thread participants read threads" on public.message_threads;
+create policy "thread participants read threads"
+  on public.message_threads for select
+  using (buyer_id = auth.uid() or farmer_id = auth.uid());
+
+drop policy if exists "thread participants read messages" on public.messages;
+create policy "thread participants read messages"
+  on public.messages for select
+  using (public.is_thread_participant(thread_id));
+
+drop policy if exists "thread participants send messages" on public.messages;
+create policy "thread participants send messages"
+  on public.messages for insert
+  with check (sender_id = auth.uid() and public.is_thread_participant(thread_id));
+
+drop policy if exists "users manage own read markers" on public.message_thread_reads;
+create policy "users manage own read markers"
+  on public.message_thread_reads for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid() and public.is_thread_participant(thread_id));
+
+create or replace function public.messages_touch_thread()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.message_threads
+  set last_message_at = new.created_at,
+      last_message_preview = case
+        when coalesce(length(trim(new.body)), 0) > 0 then left(new.body, 140)
+        else 'Sent a photo'
+      end
+  where id = new.thread_id;
+
+  -- The sender has obviously read their own thread.
+  insert into public.message_thread_reads (thread_id, user_id, last_read_at)
+  values (new.thread_id, new.sender_id, new.created_at)
+  on conflict (thread_id, user_id) do update set last_read_at = excluded.last_read_at;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_touch_thread on public.messages;
+create trigger messages_touch_thread
+  after insert on public.messages
+  for each row execute function public.messages_touch_thread();
+
+create or replace function public.account_display_name(p_auth_user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select nullif(trim(coalesce(first_name, '') || ' ' || coalesce(last_name, '')), '')
+  from public.accounts_user
+  where auth_user_id = p_auth_user_id
+  limit 1;
+$$;
+
+revoke all on function public.account_display_name(uuid) from public, anon, authenticated;
+
+create or replace function public.open_message_thread(p_subject_type text, p_subject_id uuid)
+returns public.message_threads
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+  v_buyer_id uuid;
+  v_farmer_id uuid;
+  v_buyer_name text;
+  v_farmer_name text;
+  v_title text;
+  v_thread public.message_threads;
+begin
+  if v_uid is null then
+    raise exception 'Sign in to send messages';
+  end if;
+
+  if p_subject_type = 'listing' then
+    select farmer_id, farmer_name, crop_name
+      into v_farmer_id, v_farmer_name, v_title
+      from public.farm_produce where id = p_subject_id;
+    if not found then
+      raise exception 'Listing not found';
+    end if;
+    v_buyer_id := v_uid;
+  elsif p_subject_type = 'demand' then
+    select buyer_id, buyer_name, crop_name || ' demand'
+      into v_buyer_id, v_buyer_name, v_title
+      from public.buyer_demands where id = p_subject_id;
+    if not found then
+      raise exception 'Demand not found';
+    end if;
+    v_farmer_id := v_uid;
+  elsif p_subject_type = 'order' then
+    select buyer_id, farmer_id, buyer_name, farmer_name, 'Order: ' || crop_name
+      into v_buyer_id, v_farmer_id, v_buyer_name, v_farmer_name, v_title
+      from public.market_matches where id = p_subject_id;
+    if not found then
+      raise exception 'Order not found';
+    end if;
+    if v_uid is distinct from v_buyer_id and v_uid is distinct from v_farmer_id then
+      raise exception 'You are not part of this order';
+    end if;
+  else
+    raise exception 'Unknown thread subject: %', p_subject_type;
+  end if;
+
+  if v_buyer_id is null or v_farmer_id is null then
+    raise exception 'This % has no one to message yet', p_subject_type;
+  end if;
+
+  if v_buyer_id = v_farmer_id then
+    raise exception 'You cannot message yourself';
+  end if;
+
+  select * into v_thread
+  from public.message_threads
+  where subject_type = p_subject_type
+    and subject_id = p_subject_id
+    and buyer_id = v_buyer_id
+    and farmer_id = v_farmer_id;
+
+  if found then
+    return v_thread;
+  end if;
+
+  insert into public.message_threads (
+    subject_type, subject_id, buyer_id, farmer_id, buyer_name, farmer_name, title
+  )
+  values (
+    p_subject_type,
+    p_subject_id,
+    v_buyer_id,
+    v_farmer_id,
+    coalesce(v_buyer_name, public.account_display_name(v_buyer_id), 'Buyer'),
+    coalesce(v_farmer_name, public.account_display_name(v_farmer_id), 'Farmer'),
+    coalesce(v_title, 'Conversation')
+  )
+  on conflict (subject_type, subject_id, buyer_id, farmer_id) do nothing
+  returning * into v_thread;
+
+  if v_thread.id is null then
+    select * into v_thread
+    from public.message_threads
+    where subject_type = p_subject_type
+      and subject_id = p_subject_id
+      and buyer_id = v_buyer_id
+      and farmer_id = v_farmer_id;
+  end if;
+
+  return v_thread;
+end;
+$$;
+
+-- Unread = messages from the other participant newer than my read marker.
+create or replace function public.unread_message_counts()
+returns table (thread_id uuid, unread bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.thread_id, count(*)
+  from public.messages m
+  join public.message_threads t on t.id = m.thread_id
+  left join public.message_thread_reads r
+    on r.thread_id = m.thread_id and r.user_id = auth.uid()
+  where (t.buyer_id = auth.uid() or t.farmer_id = auth.uid())
+    and m.sender_id <> auth.uid()
+    and m.created_at > coalesce(r.last_read_at, '-infinity'::timestamptz)
+  group by m.thread_id;
+$$;
+
+grant execute on function public.open_message_thread(text, uuid) to authenticated;
+grant execute on function public.unread_message_counts() to authenticated;
+
+-- Attachments live under <thread_id>/ in a private bucket so the folder can
+-- be checked against the thread's participants; they are shown through
+-- signed URLs.
+insert into storage.buckets (id, name, public)
+values ('message-attachments', 'message-attachments', false)
+on conflict (id) do update set public = false;
+
+drop policy if exists "thread participants upload attachments" on storage.objects;
+create policy "thread participants upload attachments"
+  on storage.objects for insert to authenticated
+  with check (
+    bucket_id = 'message-attachments'
+    and public.is_thread_participant(((storage.foldername(name))[1])::uuid)
+  );
+
+drop policy if exists "thread participants read attachments" on storage.objects;
+create policy "thread participants read attachments"
+  on storage.objects for select to authenticated
+  using (
+    bucket_id = 'message-attachments'
+    and public.is_thread_participant(((storage.foldername(name))[1])::uuid)
+  );
+
+do $$
+begin
+  alter publication supabase_realtime add table public.messages;
+exception
+  when duplicate_object then null;
+end $$;
+
+do $$
+begin
+  alter publication supabase_realtime add table public.message_threads;
+exception
+  when duplicate_object then null;
+end $$;
+
+do $$
+begin
+  alter publication supabase_realtime add table public.message_thread_reads;
+exception
+  when duplicate_object then null;
+end $$;
@@ -0,0 +1,318 @@
+-- Notification centre. Database triggers call notify_user(), which reads the
+-- recipient's preferences and writes one notifications row plus an outbox
+-- row per external channel. The outbox is drained by
+-- /api/notifications/dispatch using the senders in lib/notificationSenders.ts.
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  event_type text not null check (event_type in ('demand_nearby', 'offer_received', 'offer_updated', 'order_status')),
+  title text not null,
+  body text,
+  link text,
+  data jsonb not null default '{}'::jsonb,
+  in_app boolean not null default true,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_id_idx
+  on public.notifications (user_id, created_at desc)
+  where in_app;
+
+create table if not exists public.notification_preferences (
+  user_id uuid not null,
+  event_type text not null check (event_type in ('demand_nearby', 'offer_received', 'offer_updated', 'order_status')),
+  in_app boolean not null default true,
+  email boolean not null default false,
+  sms boolean not null default false,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, event_type)
+);
+
+create table if not exists public.notification_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  notification_id uuid not null references public.notifications (id) on delete cascade,
+  channel text not null check (channel in ('email', 'sms')),
+  status text not null default 'pending' check (status in ('pending', 'sending', 'sent', 'failed')),
+  attempts integer not null default 0,
+  last_error text,
+  claimed_at timestamptz,
+  created_at timestamptz not null default now(),
+  sent_at timestamptz
+);
+
+create index if not exists notification_deliveries_pending_idx
+  on public.notification_deliveries (created_at)
+  where status = 'pending';
+
+alter table public.notifications enable row level security;
+alter table public.notification_preferences enable row level security;
+-- Deliveries are only touched by the service role.
+alter table public.notification_deliveries enable row level security;
+
+drop policy if exists "users read own notifications" on public.notifications;
+create policy "users read own notifications"
+  on public.notifications for select
+  using (user_id = auth.uid());
+
+-- Marking read is the only change a user makes, through
+-- mark_notifications_read().
+drop policy if exists "users mark own notifications read" on public.notifications;
+revoke insert, update, delete on public.notifications from anon, authenticated;
+
+drop policy if exists "users manage own notification preferences" on public.notification_preferences;
+create policy "users manage own notification preferences"
+  on public.notification_preferences for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Missing preference rows mean in-app only; keep in sync with
+-- defaultNotificationPreference in lib/notifications.ts.
+create or replace function public.notify_user(
+  p_user_id uuid,
+  p_event_type text,
+  p_title text,
+  p_body text,
+  p_link text,
+  p_data jsonb default '{}'::jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_pref public.notification_preferences;
+  v_in_app boolean;
+  v_email boolean;
+  v_sms boolean;
+  v_id uuid;
+begin
+  if p_user_id is null then
+    return null;
+  end if;
+
+  select * into v_pref
+  from public.notification_preferences
+  where user_id = p_user_id and event_type = p_event_type;
+
+  v_in_app := coalesce(v_pref.in_app, true);
+  v_email := coalesce(v_pref.email, false);
+  v_sms := coalesce(v_pref.sms, false);
+
+  if not (v_in_app or v_email or v_sms) then
+    return null;
+  end if;
+
+  insert into public.notifications (user_id, event_type, title, body, link, data, in_app)
+  values (p_user_id, p_event_type, p_title, p_body, p_link, coalesce(p_data, '{}'::jsonb), v_in_app)
+  returning id into v_id;
+
+  if v_email then
+    insert into public.notification_deliveries (notification_id, channel) values (v_id, 'email');
+  end if;
+
+  if v_sms then
+    insert into public.notification_deliveries (notification_id, channel) values (v_id, 'sms');
+  end if;
+
+  return v_id;
+end;
+$$;
+
+revoke all on function public.notify_user(uuid, text, text, text, text, jsonb) from public, anon, authenticated;
+
+-- Marks the given notifications, or all of them when p_ids is null, as read
+-- for the signed-in user.
+create or replace function public.mark_notifications_read(p_ids uuid[] default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.notifications
+  set read_at = now()
+  where user_id = auth.uid()
+    and read_at is null
+    and (p_ids is null or id = any (p_ids));
+$$;
+
+grant execute on function public.mark_notifications_read(uuid[]) to authenticated;
+
+-- Hands each outbox row to exactly one dispatcher run: rows another run has
+-- locked are skipped, and a claim left for ten minutes is taken to be from a
+-- run that died.
+create or replace function public.claim_notification_deliveries(p_limit integer, p_max_attempts integer)
+returns setof public.notification_deliveries
+language sql
+security definer
+set search_path = public
+as $$
+  update public.notification_deliveries d
+  set status = 'sending', claimed_at = now()
+  where d.id in (
+    select id
+    from public.notification_deliveries
+    where attempts < p_max_attempts
+      and (status = 'pending' or (status = 'sending' and claimed_at < now() - interval '10 minutes'))
+    order by created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning d.*;
+$$;
+
+revoke all on function public.claim_notification_deliveries(integer, integer) from public, anon, authenticated;
+grant execute on function public.claim_notification_deliveries(integer, integer) to service_role;
+
+-- A new open demand notifies every farmer with a matching available listing
+-- inside the demand's radius. Listings or demands without coordinates still
+-- match on crop alone.
+create or replace function public.notify_demand_nearby()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status is distinct from 'open' then
+    return null;
+  end if;
+
+  perform public.notify_user(
+    f.farmer_id,
+    'demand_nearby',
+    'New buyer demand near you',
+    coalesce(new.buyer_name, 'A buyer') || ' wants ' || new.quantity || ' ' || new.unit || ' of ' || new.crop_name
+      || ' at UGX ' || new.target_price_per_unit || ' per ' || new.unit,
+    '/marketplace',
+    jsonb_build_object('demand_id', new.id)
+  )
+  from (
+    select distinct p.farmer_id
+    from public.farm_produce p
+    where p.is_available
+      and p.farmer_id is not null
+      and p.farmer_id is distinct from new.buyer_id
+      and (
+        position(lower(new.crop_name) in lower(p.crop_name)) > 0
+        or position(lower(p.crop_name) in lower(new.crop_name)) > 0
+      )
+      and (
+        new.location_lat is null
+        or p.location_lat is null
+        or public.haversine_km(new.location_lat, new.location_lng, p.location_lat, p.location_lng)
+          <= coalesce(new.radius_km, 50)
+      )
+  ) f;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists buyer_demands_notify_nearby on public.buyer_demands;
+create trigger buyer_demands_notify_nearby
+  after insert on public.buyer_demands
+  for each row execute function public.notify_demand_nearby();
+
+-- New offers go to the buyer; every later move goes to whoever did not make it.
+create or replace function public.notify_offer_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_unit text;
+begin
+  select unit into v_unit from public.buyer_demands where id = new.demand_id;
+
+  if tg_op = 'INSERT' then
+    perform public.notify_user(
+      new.buyer_id,
+      'offer_received',
+      'New offer on your ' || new.crop_name || ' demand',
+      new.offered_quantity || ' ' || coalesce(v_unit, 'units') || ' at UGX ' || new.offered_price_per_unit
+        || ' per ' || coalesce(v_unit, 'unit'),
+      '/buyer/demands',
+      jsonb_build_object('offer_id', new.id, 'demand_id', new.demand_id)
+    );
+    return null;
+  end if;
+
+  if new.status is not distinct from old.status
+     and new.offered_quantity is not distinct from old.offered_quantity
+     and new.offered_price_per_unit is not distinct from old.offered_price_per_unit then
+    return null;
+  end if;
+
+  perform public.notify_user(
+    case when new.last_action_by = 'buyer' then new.farmer_id else new.buyer_id end,
+    'offer_updated',
+    'Offer ' || new.status || ': ' || new.crop_name,
+    case when new.last_action_by = 'buyer' then 'The buyer' else 'The farmer' end
+      || ' ' || new.status || ' the offer at ' || new.offered_quantity || ' ' || coalesce(v_unit, 'units')
+      || ' for UGX ' || new.offered_price_per_unit || ' per ' || coalesce(v_unit, 'unit'),
+    case when new.last_action_by = 'buyer' then '/farmer/offers' else '/buyer/demands' end,
+    jsonb_build_object('offer_id', new.id, 'demand_id', new.demand_id, 'status', new.status)
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists demand_offers_notify on public.demand_offers;
+create trigger demand_offers_notify
+  after insert or update on public.demand_offers
+  for each row execute function public.notify_offer_change();
+
+-- Both sides of an order hear about status changes, except whoever made them.
+create or replace function public.notify_order_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_title text;
+  v_recipient uuid;
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return null;
+  end if;
+
+  v_title := case
+    when tg_op = 'INSERT' then 'New order: ' || new.crop_name
+    else 'Order ' || new.status || ': ' || new.crop_name
+  end;
+
+  foreach v_recipient in array array[new.buyer_id, new.farmer_id]
+  loop
+    if v_recipient is not null and v_recipient is distinct from auth.uid() then
+      perform public.notify_user(
+        v_recipient,
+        'order_status',
+        v_title,
+        new.quantity || ' ' || coalesce(new.unit, 'kg') || ' between ' || new.buyer_name || ' and ' || new.farmer_name,
+        '/orders/' || new.id,
+        jsonb_build_object('order_id', new.id, 'status', new.status)
+      );
+    end if;
+  end loop;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists market_matches_notify_status on public.market_matches;
+create trigger market_matches_notify_status
+  after insert or update of status on public.market_matches
+  for each row execute function public.notify_order_status();
+
+do $$
+begin
+  alter publication supabase_realtime add table public.notifications;
+exception
+  when duplicate_object then null;
+end $$;
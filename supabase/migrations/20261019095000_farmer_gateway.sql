@@ -0,0 +1,46 @@
+-- SMS/USSD gateway support. The gateway route handlers run with the service
+-- role, so there is no auth.uid() for the farmer on the other end of the
+-- phone. accept_offer_for_farmer() impersonates the farmer for the duration
+-- of the transaction so the offer turn rules, order creation and
+-- notification triggers all see the right actor.
+
+create index if not exists accounts_user_phone_number_idx on public.accounts_user (phone_number);
+
+create or replace function public.accept_offer_for_farmer(p_offer_id uuid, p_farmer_id uuid)
+returns public.market_matches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_offer public.demand_offers;
+begin
+  perform set_config('request.jwt.claim.sub', p_farmer_id::text, true);
+  perform set_config('request.jwt.claims', jsonb_build_object('sub', p_farmer_id, 'role', 'authenticated')::text, true);
+
+  select * into v_offer from public.demand_offers where id = p_offer_id for update;
+  if not found or v_offer.farmer_id is distinct from p_farmer_id then
+    raise exception 'Offer not found';
+  end if;
+
+  -- Same rule as allowedOfferActions(): the farmer may accept only when the
+  -- buyer made the last move on an open offer.
+  if v_offer.status not in ('sent', 'countered') or v_offer.last_action_by is distinct from 'buyer' then
+    raise exception 'This offer is waiting on the buyer or is already closed';
+  end if;
+
+  update public.demand_offers
+  set status = 'accepted',
+      last_action_by = 'farmer',
+      updated_at = now()
+  where id = p_offer_id;
+
+  insert into public.demand_offer_events (offer_id, actor_id, actor_role, status, quantity, price_per_unit, note)
+  values (p_offer_id, p_farmer_id, 'farmer', 'accepted', v_offer.offered_quantity, v_offer.offered_price_per_unit, 'Accepted by phone');
+
+  return public.create_market_match_from_offer(p_offer_id);
+end;
+$$;
+
+revoke all on function public.accept_offer_for_farmer(uuid, uuid) from public, anon, authenticated;
+grant execute on function public.accept_offer_for_farmer(uuid, uuid) to service_role;
@@ -0,0 +1,45 @@
+-- Saved listings per user. The price, quantity and availability at save time
+-- are kept so /favorites can show what changed since the listing was saved.
+
+create table if not exists public.listing_favorites (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  produce_id uuid not null references public.farm_produce (id) on delete cascade,
+  saved_price_per_unit numeric,
+  saved_quantity numeric,
+  saved_is_available boolean,
+  created_at timestamptz not null default now(),
+  unique (user_id, produce_id)
+);
+
+create index if not exists listing_favorites_user_id_idx on public.listing_favorites (user_id, created_at desc);
+
+alter table public.listing_favorites enable row level security;
+
+drop policy if exists "users read own favorites" on public.listing_favorites;
+create policy "users read own favorites"
+  on public.listing_favorites for select
+  using (user_id = auth.uid());
+
+drop policy if exists "users add own favorites" on public.listing_favorites;
+create policy "users add own favorites"
+  on public.listing_favorites for insert
+  with check (user_id = auth.uid());
+
+drop policy if exists "users update own favorites" on public.listing_favorites;
+create policy "users update own favorites"
+  on public.listing_favorites for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "users remove own favorites" on public.listing_favorites;
+create policy "users remove own favorites"
+  on public.listing_favorites for delete
+  using (user_id = auth.uid());
+
+do $$
+begin
+  alter publication supabase_realtime add table public.listing_favorites;
+exception
+  when duplicate_object then null;
+end $$;
@@ -0,0 +1,156 @@
+-- Listing views and impressions. Clients call record_listing_events() with a
+-- per-browser-session id; the unique key drops repeats from the same session
+-- so a refresh or a re-render does not count twice.
+
+-- Running totals live apart from farm_produce so a page view does not fire
+-- its realtime feed or the farmer_stats trigger.
+create table if not exists public.listing_stats (
+  produce_id uuid primary key references public.farm_produce (id) on delete cascade,
+  view_count integer not null default 0,
+  impression_count integer not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.listing_stats enable row level security;
+
+drop policy if exists "anyone reads listing stats" on public.listing_stats;
+create policy "anyone reads listing stats"
+  on public.listing_stats for select
+  using (true);
+
+create table if not exists public.listing_events (
+  id uuid primary key default gen_random_uuid(),
+  produce_id uuid not null references public.farm_produce (id) on delete cascade,
+  farmer_id uuid,
+  event_type text not null check (event_type in ('view', 'impression')),
+  -- detail = /products/[id], grid = /products, map = /discover pins
+  source text not null check (source in ('detail', 'grid', 'map')),
+  session_id text not null,
+  viewer_id uuid,
+  created_at timestamptz not null default now(),
+  unique (produce_id, event_type, source, session_id)
+);
+
+create index if not exists listing_events_farmer_id_idx on public.listing_events (farmer_id, created_at desc);
+create index if not exists listing_events_produce_id_idx on public.listing_events (produce_id, event_type);
+create index if not exists listing_events_session_id_idx on public.listing_events (session_id, created_at desc);
+
+alter table public.listing_events enable row level security;
+
+drop policy if exists "farmers read events on own listings" on public.listing_events;
+create policy "farmers read events on own listings"
+  on public.listing_events for select
+  using (farmer_id = auth.uid());
+
+-- p_events: [{ "produce_id": uuid, "event_type": "view"|"impression", "source": "detail"|"grid"|"map" }]
+-- Anyone can call this, so a call reads at most 200 events, entries with a
+-- malformed id are skipped, and a session stops counting after 1000 events
+-- in an hour. Keep the batch size in sync with lib/listingAnalytics.ts.
+create or replace function public.record_listing_events(p_session_id text, p_events jsonb)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_inserted integer := 0;
+begin
+  if coalesce(length(trim(p_session_id)), 0) = 0 or jsonb_typeof(p_events) <> 'array' then
+    return 0;
+  end if;
+
+  if (
+    select count(*) from public.listing_events
+    where session_id = p_session_id and created_at > now() - interval '1 hour'
+  ) >= 1000 then
+    return 0;
+  end if;
+
+  with incoming as (
+    select distinct
+      case
+        when e ->> 'produce_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+          then (e ->> 'produce_id')::uuid
+      end as produce_id,
+      e ->> 'event_type' as event_type,
+      e ->> 'source' as source
+    from jsonb_array_elements(p_events) with ordinality as t (e, n)
+    where t.n <= 200
+      and e ->> 'event_type' in ('view', 'impression')
+      and e ->> 'source' in ('detail', 'grid', 'map')
+  ),
+  inserted as (
+    insert into public.listing_events (produce_id, farmer_id, event_type, source, session_id, viewer_id)
+    select i.produce_id, p.farmer_id, i.event_type, i.source, p_session_id, auth.uid()
+    from incoming i
+    join public.farm_produce p on p.id = i.produce_id
+    -- Farmers looking at their own listings are not an audience.
+    where p.farmer_id is distinct from auth.uid()
+    on conflict (produce_id, event_type, source, session_id) do nothing
+    returning produce_id, event_type
+  ),
+  counted as (
+    select
+      produce_id,
+      count(*) filter (where event_type = 'view') as views,
+      count(*) filter (where event_type = 'impression') as impressions
+    from inserted
+    group by produce_id
+  ),
+  bumped as (
+    insert into public.listing_stats as s (produce_id, view_count, impression_count)
+    select produce_id, views, impressions from counted
+    on conflict (produce_id) do update
+      set view_count = s.view_count + excluded.view_count,
+          impression_count = s.impression_count + excluded.impression_count,
+          updated_at = now()
+    returning s.produce_id
+  )
+  select coalesce(sum(c.views + c.impressions), 0) into v_inserted
+  from counted c
+  join bumped b on b.produce_id = c.produce_id;
+
+  return v_inserted;
+end;
+$$;
+
+grant execute on function public.record_listing_events(text, jsonb) to anon, authenticated;
+
+-- Per-listing funnel for the signed-in farmer. Saves come from
+-- listing_favorites, which farmers cannot read directly.
+create or replace function public.listing_analytics()
+returns table (
+  produce_id uuid,
+  crop_name text,
+  is_available boolean,
+  views bigint,
+  impressions bigint,
+  saves bigint,
+  offers bigint,
+  orders bigint,
+  completed_orders bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    p.id,
+    p.crop_name,
+    p.is_available,
+    coalesce(s.view_count, 0)::bigint,
+    coalesce(s.impression_count, 0)::bigint,
+    (select count(*) from public.listing_favorites f where f.produce_id = p.id),
+    (select count(*) from public.demand_offers o where o.listing_id = p.id),
+    (select count(*) from public.market_matches m
+      where m.listing_id = p.id and m.status <> 'cancelled'),
+    (select count(*) from public.market_matches m
+      where m.listing_id = p.id and m.status = 'completed')
+  from public.farm_produce p
+  left join public.listing_stats s on s.produce_id = p.id
+  where p.farmer_id = auth.uid()
+  order by p.listed_at desc nulls last;
+$$;
+
+grant execute on function public.listing_analytics() to authenticated;
@@ -0,0 +1,71 @@
+-- Marketplace activity per crop inside a time window, for /trending. The page
+-- calls this once for the selected window and once for the window before it
+-- and computes momentum from the two. Security definer because listing views
+-- (listing_events) are only readable by the listing's farmer.
+
+create or replace function public.trending_crop_activity(p_since timestamptz, p_until timestamptz)
+returns table (
+  crop_key text,
+  crop_name text,
+  crop_category text,
+  listings bigint,
+  offers bigint,
+  demands bigint,
+  views bigint
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with activity as (
+    select lower(trim(p.crop_name)) as crop_key, p.crop_name, p.crop_category,
+           1 as listings, 0 as offers, 0 as demands, 0 as views
+    from public.farm_produce p
+    where p.listed_at >= p_since and p.listed_at < p_until
+
+    union all
+
+    select lower(trim(o.crop_name)), o.crop_name, null, 0, 1, 0, 0
+    from public.demand_offers o
+    where o.created_at >= p_since and o.created_at < p_until
+
+    union all
+
+    select lower(trim(d.crop_name)), d.crop_name, null, 0, 0, 1, 0
+    from public.buyer_demands d
+    where d.created_at >= p_since and d.created_at < p_until
+
+    union all
+
+    select lower(trim(p.crop_name)), p.crop_name, p.crop_category, 0, 0, 0, 1
+    from public.listing_events e
+    join public.farm_produce p on p.id = e.produce_id
+    where e.event_type = 'view' and e.created_at >= p_since and e.created_at < p_until
+  ),
+  -- Offers and demands carry no category, so borrow the most common one
+  -- farmers use for the same crop.
+  categories as (
+    select distinct on (lower(trim(crop_name)))
+      lower(trim(crop_name)) as crop_key,
+      lower(crop_category) as crop_category
+    from public.farm_produce
+    where crop_category is not null
+    group by lower(trim(crop_name)), lower(crop_category)
+    order by lower(trim(crop_name)), count(*) desc
+  )
+  select
+    a.crop_key,
+    min(a.crop_name),
+    coalesce(c.crop_category, 'other'),
+    sum(a.listings)::bigint,
+    sum(a.offers)::bigint,
+    sum(a.demands)::bigint,
+    sum(a.views)::bigint
+  from activity a
+  left join categories c on c.crop_key = a.crop_key
+  where a.crop_key is not null and a.crop_key <> ''
+  group by a.crop_key, c.crop_category;
+$$;
+
+grant execute on function public.trending_crop_activity(timestamptz, timestamptz) to anon, authenticated;
@@ -0,0 +1,276 @@
+-- Price history. farm_produce.price_per_unit is overwritten in place and
+-- market_matches only holds the latest agreed price, so every asking price
+-- and every agreed price is snapshotted here as it happens.
+
+create table if not exists public.price_observations (
+  id uuid primary key default gen_random_uuid(),
+  source text not null check (source in ('listing', 'transaction')),
+  crop_key text not null,
+  crop_name text not null,
+  variety text,
+  quality text,
+  -- First part of the free-text farmer location, e.g. "Mbale" from "Mbale, Eastern".
+  district text,
+  unit text not null,
+  price_per_unit numeric not null check (price_per_unit > 0),
+  quantity numeric,
+  produce_id uuid references public.farm_produce (id) on delete set null,
+  match_id uuid references public.market_matches (id) on delete set null,
+  observed_at timestamptz not null default now()
+);
+
+create index if not exists price_observations_crop_idx
+  on public.price_observations (crop_key, unit, observed_at desc);
+create index if not exists price_observations_district_idx
+  on public.price_observations (crop_key, district, observed_at desc);
+
+alter table public.price_observations enable row level security;
+
+drop policy if exists "anyone reads price observations" on public.price_observations;
+create policy "anyone reads price observations"
+  on public.price_observations for select
+  using (true);
+
+create or replace function public.price_district(p_location text)
+returns text
+language sql
+immutable
+as $$
+  select nullif(initcap(trim(split_part(coalesce(p_location, ''), ',', 1))), '');
+$$;
+
+create or replace function public.record_listing_price()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(new.price_per_unit, 0) <= 0 or new.crop_name is null then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE'
+    and new.price_per_unit is not distinct from old.price_per_unit
+    and new.unit is not distinct from old.unit then
+    return new;
+  end if;
+
+  insert into public.price_observations (
+    source, crop_key, crop_name, variety, quality, district, unit,
+    price_per_unit, quantity, produce_id
+  )
+  values (
+    'listing',
+    lower(trim(new.crop_name)),
+    new.crop_name,
+    nullif(trim(new.variety), ''),
+    lower(coalesce(new.quality, 'standard')),
+    public.price_district(new.farmer_location),
+    coalesce(new.unit, 'kg'),
+    new.price_per_unit,
+    new.quantity,
+    new.id
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists farm_produce_record_price on public.farm_produce;
+create trigger farm_produce_record_price
+  after insert or update of price_per_unit, unit on public.farm_produce
+  for each row execute function public.record_listing_price();
+
+-- Agreed prices are recorded once the deal is confirmed; cancelled or
+-- unconfirmed orders never traded at that price.
+create or replace function public.record_transaction_price()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing public.farm_produce%rowtype;
+begin
+  if new.status <> 'confirmed' or old.status is not distinct from new.status then
+    return new;
+  end if;
+
+  if coalesce(new.price_per_unit, 0) <= 0 then
+    return new;
+  end if;
+
+  select * into v_listing from public.farm_produce where id = new.listing_id;
+
+  insert into public.price_observations (
+    source, crop_key, crop_name, variety, quality, district, unit,
+    price_per_unit, quantity, produce_id, match_id
+  )
+  values (
+    'transaction',
+    lower(trim(new.crop_name)),
+    new.crop_name,
+    nullif(trim(v_listing.variety), ''),
+    lower(coalesce(new.quality, v_listing.quality, 'standard')),
+    public.price_district(v_listing.farmer_location),
+    coalesce(new.unit, v_listing.unit, 'kg'),
+    new.price_per_unit,
+    new.quantity,
+    new.listing_id,
+    new.id
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists market_matches_record_price on public.market_matches;
+create trigger market_matches_record_price
+  after update of status on public.market_matches
+  for each row execute function public.record_transaction_price();
+
+-- Seed history from what is already there.
+insert into public.price_observations (
+  source, crop_key, crop_name, variety, quality, district, unit,
+  price_per_unit, quantity, produce_id, observed_at
+)
+select
+  'listing',
+  lower(trim(p.crop_name)),
+  p.crop_name,
+  nullif(trim(p.variety), ''),
+  lower(coalesce(p.quality, 'standard')),
+  public.price_district(p.farmer_location),
+  coalesce(p.unit, 'kg'),
+  p.price_per_unit,
+  p.quantity,
+  p.id,
+  coalesce(p.listed_at, now())
+from public.farm_produce p
+where p.crop_name is not null
+  and coalesce(p.price_per_unit, 0) > 0
+  and not exists (select 1 from public.price_observations o where o.produce_id = p.id and o.source = 'listing');
+
+insert into public.price_observations (
+  source, crop_key, crop_name, variety, quality, district, unit,
+  price_per_unit, quantity, produce_id, match_id, observed_at
+)
+select
+  'transaction',
+  lower(trim(m.crop_name)),
+  m.crop_name,
+  nullif(trim(p.variety), ''),
+  lower(coalesce(m.quality, p.quality, 'standard')),
+  public.price_district(p.farmer_location),
+  coalesce(m.unit, p.unit, 'kg'),
+  m.price_per_unit,
+  m.quantity,
+  m.listing_id,
+  m.id,
+  coalesce(m.confirmed_at, m.created_at)
+from public.market_matches m
+left join public.farm_produce p on p.id = m.listing_id
+where m.crop_name is not null
+  and coalesce(m.price_per_unit, 0) > 0
+  and m.status in ('confirmed', 'dispatched', 'delivered', 'completed')
+  and not exists (select 1 from public.price_observations o where o.match_id = m.id);
+
+-- Median and bands per time bucket for one crop and unit. Optional filters
+-- are ignored when null.
+create or replace function public.price_series(
+  p_crop_key text,
+  p_unit text,
+  p_bucket text default 'week',
+  p_since timestamptz default now() - interval '90 days',
+  p_district text default null,
+  p_quality text default null,
+  p_variety text default null,
+  p_source text default null
+)
+returns table (
+  bucket timestamptz,
+  observations bigint,
+  median_price numeric,
+  p25_price numeric,
+  p75_price numeric,
+  min_price numeric,
+  max_price numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    date_trunc(case when p_bucket in ('day', 'week', 'month') then p_bucket else 'week' end, o.observed_at) as bucket,
+    count(*),
+    percentile_cont(0.5) within group (order by o.price_per_unit)::numeric,
+    percentile_cont(0.25) within group (order by o.price_per_unit)::numeric,
+    percentile_cont(0.75) within group (order by o.price_per_unit)::numeric,
+    min(o.price_per_unit),
+    max(o.price_per_unit)
+  from public.price_observations o
+  where o.crop_key = lower(trim(p_crop_key))
+    and o.unit = p_unit
+    and o.observed_at >= p_since
+    and (p_district is null or o.district = p_district)
+    and (p_quality is null or o.quality = p_quality)
+    and (p_variety is null or o.variety = p_variety)
+    and (p_source is null or o.source = p_source)
+  group by 1
+  order by 1;
+$$;
+
+-- Regional index: each district's median against the median for the whole
+-- market over the same period (100 = market price).
+create or replace function public.price_district_index(
+  p_crop_key text,
+  p_unit text,
+  p_since timestamptz default now() - interval '90 days',
+  p_quality text default null,
+  p_source text default null
+)
+returns table (
+  district text,
+  observations bigint,
+  median_price numeric,
+  min_price numeric,
+  max_price numeric,
+  price_index numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+  with scoped as (
+    select o.*
+    from public.price_observations o
+    where o.crop_key = lower(trim(p_crop_key))
+      and o.unit = p_unit
+      and o.observed_at >= p_since
+      and (p_quality is null or o.quality = p_quality)
+      and (p_source is null or o.source = p_source)
+  ),
+  market as (
+    select percentile_cont(0.5) within group (order by price_per_unit)::numeric as median_price
+    from scoped
+  )
+  select
+    s.district,
+    count(*),
+    percentile_cont(0.5) within group (order by s.price_per_unit)::numeric,
+    min(s.price_per_unit),
+    max(s.price_per_unit),
+    round(
+      percentile_cont(0.5) within group (order by s.price_per_unit)::numeric
+        / nullif((select median_price from market), 0) * 100,
+      1
+    )
+  from scoped s
+  where s.district is not null
+  group by s.district
+  order by 6 asc nulls last;
+$$;
+
+grant execute on function public.price_series(text, text, text, timestamptz, text, text, text, text) to anon, authenticated;
+grant execute on function public.price_district_index(text, text, timestamptz, text, text) to anon, authenticated;
@@ -0,0 +1,86 @@
+-- Pricing assistant for new listings. Looks at recent listings and completed
+-- orders for the same crop, quality and unit near the farmer, and falls back
+-- to the whole market when there are too few nearby to be useful.
+
+create or replace function public.suggest_listing_price(
+  p_crop_name text,
+  p_quality text,
+  p_unit text,
+  p_lat double precision default null,
+  p_lng double precision default null,
+  p_radius_km double precision default 50,
+  p_days integer default 60,
+  p_min_comparables integer default 3
+)
+returns table (
+  scope text,
+  radius_km double precision,
+  listing_count bigint,
+  sale_count bigint,
+  min_price numeric,
+  p25_price numeric,
+  median_price numeric,
+  p75_price numeric,
+  max_price numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with comparables as (
+    select
+      'listing' as source,
+      p.price_per_unit as price,
+      p.location_lat as lat,
+      p.location_lng as lng
+    from public.farm_produce p
+    where lower(trim(p.crop_name)) = lower(trim(p_crop_name))
+      and lower(coalesce(p.quality, 'standard')) = lower(p_quality)
+      and p.unit = p_unit
+      and p.price_per_unit > 0
+      and p.listed_at >= now() - make_interval(days => p_days)
+      -- The farmer's own listings would just echo their price back.
+      and p.farmer_id is distinct from auth.uid()
+
+    union all
+
+    select 'sale', m.price_per_unit, l.location_lat, l.location_lng
+    from public.market_matches m
+    left join public.farm_produce l on l.id = m.listing_id
+    where lower(trim(m.crop_name)) = lower(trim(p_crop_name))
+      and lower(coalesce(m.quality, 'standard')) = lower(p_quality)
+      and m.unit = p_unit
+      and m.status = 'completed'
+      and m.price_per_unit > 0
+      and coalesce(m.completed_at, m.created_at) >= now() - make_interval(days => p_days)
+  ),
+  located as (
+    select
+      c.*,
+      case
+        when p_lat is not null and p_lng is not null and c.lat is not null and c.lng is not null
+          then public.haversine_km(p_lat, p_lng, c.lat, c.lng)
+      end as distance_km
+    from comparables c
+  ),
+  coverage as (
+    select count(*) filter (where distance_km <= p_radius_km) >= p_min_comparables as use_nearby
+    from located
+  )
+  select
+    case when cv.use_nearby then 'nearby' else 'market' end,
+    case when cv.use_nearby then p_radius_km end,
+    count(*) filter (where l.source = 'listing'),
+    count(*) filter (where l.source = 'sale'),
+    min(l.price),
+    percentile_cont(0.25) within group (order by l.price)::numeric,
+    percentile_cont(0.5) within group (order by l.price)::numeric,
+    percentile_cont(0.75) within group (order by l.price)::numeric,
+    max(l.price)
+  from coverage cv
+  left join located l on (not cv.use_nearby or l.distance_km <= p_radius_km)
+  group by cv.use_nearby;
+$$;
+
+grant execute on function public.suggest_listing_price(text, text, text, double precision, double precision, double precision, integer, integer) to authenticated;
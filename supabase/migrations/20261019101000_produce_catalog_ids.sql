@@ -0,0 +1,243 @@
+-- Listings and demands point at the produce catalog (produce_categories ->
+-- produce_crops -> produce_varieties) by id. crop_name, variety and
+-- crop_category stay on the rows as the catalog's display names so existing
+-- readers keep working.
+
+alter table public.farm_produce
+  add column if not exists category_id bigint references public.produce_categories (id),
+  add column if not exists crop_id bigint references public.produce_crops (id),
+  add column if not exists variety_id bigint references public.produce_varieties (id);
+
+alter table public.buyer_demands
+  add column if not exists category_id bigint references public.produce_categories (id),
+  add column if not exists crop_id bigint references public.produce_crops (id),
+  add column if not exists variety_id bigint references public.produce_varieties (id);
+
+create index if not exists farm_produce_crop_id_idx on public.farm_produce (crop_id);
+create index if not exists buyer_demands_crop_id_idx on public.buyer_demands (crop_id);
+
+-- Other names people type for a catalog crop ("corn" for maize and so on).
+-- Admins add rows here when unmapped_produce_names shows a new spelling.
+create table if not exists public.produce_crop_aliases (
+  alias text primary key,
+  crop_id bigint not null references public.produce_crops (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.produce_crop_aliases enable row level security;
+
+drop policy if exists "anyone reads crop aliases" on public.produce_crop_aliases;
+create policy "anyone reads crop aliases"
+  on public.produce_crop_aliases for select
+  using (true);
+
+-- Lowercase with punctuation and extra spaces removed, so "Maize " and
+-- "maize" compare equal.
+create or replace function public.produce_name_key(p_name text)
+returns text
+language sql
+immutable
+as $$
+  select nullif(
+    trim(regexp_replace(regexp_replace(lower(coalesce(p_name, '')), '[^a-z0-9 ]+', ' ', 'g'), '\s+', ' ', 'g')),
+    ''
+  )
+$$;
+
+-- The key without a plural ending: "Irish Potatoes" and "irish potato" share
+-- a stem, as do "cabbages" and "cabbage".
+create or replace function public.produce_name_stem(p_name text)
+returns text
+language sql
+immutable
+as $$
+  select regexp_replace(
+    regexp_replace(public.produce_name_key(p_name), '(o|sh|ch|x)es$', '\1'),
+    '([^s])s$', '\1'
+  )
+$$;
+
+insert into public.produce_crop_aliases (alias, crop_id)
+select a.alias, c.id
+from (
+  values
+    ('corn', 'maize'),
+    ('maize grain', 'maize'),
+    ('irish', 'irish potato'),
+    ('spuds', 'irish potato'),
+    ('sweet potatoes', 'sweet potato'),
+    ('matooke', 'banana'),
+    ('matoke', 'banana'),
+    ('plantain', 'banana'),
+    ('groundnut', 'groundnuts'),
+    ('g nuts', 'groundnuts'),
+    ('peanuts', 'groundnuts'),
+    ('cassava flour', 'cassava'),
+    ('coffee', 'robusta coffee'),
+    ('kahawa', 'robusta coffee')
+) as a (alias, crop_name)
+join public.produce_crops c on public.produce_name_key(c.name) = a.crop_name
+on conflict (alias) do nothing;
+
+-- Best catalog crop for a free-text name: exact name, then alias, then the
+-- singular form of either. Null when nothing matches.
+create or replace function public.match_produce_crop(p_name text)
+returns bigint
+language sql
+stable
+set search_path = public
+as $$
+  select crop_id
+  from (
+    select c.id as crop_id, 1 as rank
+    from public.produce_crops c
+    where public.produce_name_key(c.name) = public.produce_name_key(p_name)
+
+    union all
+
+    select a.crop_id, 2
+    from public.produce_crop_aliases a
+    where public.produce_name_key(a.alias) = public.produce_name_key(p_name)
+
+    union all
+
+    select c.id, 3
+    from public.produce_crops c
+    where public.produce_name_stem(c.name) = public.produce_name_stem(p_name)
+
+    union all
+
+    select a.crop_id, 4
+    from public.produce_crop_aliases a
+    where public.produce_name_stem(a.alias) = public.produce_name_stem(p_name)
+  ) m
+  order by rank, crop_id
+  limit 1
+$$;
+
+create or replace function public.match_produce_variety(p_crop_id bigint, p_name text)
+returns bigint
+language sql
+stable
+set search_path = public
+as $$
+  select v.id
+  from public.produce_varieties v
+  where v.crop_id = p_crop_id
+    and public.produce_name_key(v.name) = public.produce_name_key(p_name)
+  order by v.id
+  limit 1
+$$;
+
+-- Fills in ids for rows written as free text (the SMS/USSD gateway, older
+-- clients) and keeps the denormalised names in step with the ids.
+create or replace function public.resolve_produce_catalog()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_crop public.produce_crops;
+  v_category_name text;
+  v_variety_name text;
+begin
+  if new.crop_id is null and new.crop_name is not null then
+    new.crop_id := public.match_produce_crop(new.crop_name);
+  end if;
+
+  if new.crop_id is null then
+    return new;
+  end if;
+
+  select * into v_crop from public.produce_crops where id = new.crop_id;
+  if not found then
+    return new;
+  end if;
+
+  new.crop_name := v_crop.name;
+  new.category_id := v_crop.category_id;
+
+  -- Only listings carry the variety and category names as text.
+  if tg_table_name = 'farm_produce' then
+    if new.variety_id is null and new.variety is not null then
+      new.variety_id := public.match_produce_variety(new.crop_id, new.variety);
+    end if;
+  end if;
+
+  if new.variety_id is not null then
+    select name into v_variety_name
+    from public.produce_varieties
+    where id = new.variety_id and crop_id = new.crop_id;
+
+    -- A variety of some other crop is dropped rather than stored as a mismatch.
+    if v_variety_name is null then
+      new.variety_id := null;
+    end if;
+  end if;
+
+  if tg_table_name = 'farm_produce' then
+    if v_variety_name is not null then
+      new.variety := v_variety_name;
+    end if;
+
+    select name into v_category_name from public.produce_categories where id = v_crop.category_id;
+    new.crop_category := coalesce(v_category_name, new.crop_category);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists farm_produce_resolve_catalog on public.farm_produce;
+create trigger farm_produce_resolve_catalog
+  before insert or update of crop_name, variety, crop_id, variety_id on public.farm_produce
+  for each row execute function public.resolve_produce_catalog();
+
+drop trigger if exists buyer_demands_resolve_catalog on public.buyer_demands;
+create trigger buyer_demands_resolve_catalog
+  before insert or update of crop_name, variety_id, crop_id on public.buyer_demands
+  for each row execute function public.resolve_produce_catalog();
+
+-- Re-runs the mapping over rows that still have no crop_id. Safe to call again
+-- after adding aliases; returns how many rows were mapped.
+create or replace function public.remap_produce_catalog()
+returns table (table_name text, mapped bigint)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_produce bigint;
+  v_demands bigint;
+begin
+  update public.farm_produce
+  set crop_id = public.match_produce_crop(crop_name)
+  where crop_id is null
+    and public.match_produce_crop(crop_name) is not null;
+  get diagnostics v_produce = row_count;
+
+  update public.buyer_demands
+  set crop_id = public.match_produce_crop(crop_name)
+  where crop_id is null
+    and public.match_produce_crop(crop_name) is not null;
+  get diagnostics v_demands = row_count;
+
+  return query values ('farm_produce'::text, v_produce), ('buyer_demands'::text, v_demands);
+end;
+$$;
+
+-- Free-text names the mapping could not place, most common first.
+create or replace view public.unmapped_produce_names as
+select source, public.produce_name_key(crop_name) as name_key, min(crop_name) as example, count(*) as row_count
+from (
+  select 'farm_produce' as source, crop_name from public.farm_produce where crop_id is null
+  union all
+  select 'buyer_demands', crop_name from public.buyer_demands where crop_id is null
+) u
+group by source, public.produce_name_key(crop_name)
+order by count(*) desc;
+
+revoke all on public.unmapped_produce_names from anon, authenticated;
+revoke all on function public.remap_produce_catalog() from public, anon, authenticated;
+
+select * from public.remap_produce_catalog();
@@ -0,0 +1,494 @@
+-- How many kilograms are in each selling unit, per crop where it differs
+-- (a bag of coffee is lighter than a bag of maize). Rows with a null crop_id
+-- are the defaults for any crop. Used to compare prices across units and to
+-- give market_matches real per-kg figures.
+
+create table if not exists public.produce_unit_conversions (
+  id bigserial primary key,
+  crop_id bigint references public.produce_crops (id) on delete cascade,
+  unit text not null,
+  kg_per_unit numeric not null check (kg_per_unit > 0),
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists produce_unit_conversions_crop_unit_key
+  on public.produce_unit_conversions (crop_id, unit)
+  where crop_id is not null;
+
+create unique index if not exists produce_unit_conversions_default_unit_key
+  on public.produce_unit_conversions (unit)
+  where crop_id is null;
+
+alter table public.produce_unit_conversions enable row level security;
+
+drop policy if exists "anyone reads unit conversions" on public.produce_unit_conversions;
+create policy "anyone reads unit conversions"
+  on public.produce_unit_conversions for select
+  using (true);
+
+-- Bunches and pieces vary too much between crops to have a default.
+insert into public.produce_unit_conversions (crop_id, unit, kg_per_unit, note)
+values
+  (null, 'ton', 1000, null),
+  (null, 'bag', 100, 'Standard 100 kg sack'),
+  (null, 'crate', 25, null)
+on conflict do nothing;
+
+insert into public.produce_unit_conversions (crop_id, unit, kg_per_unit, note)
+select c.id, v.unit, v.kg_per_unit, v.note
+from (
+  values
+    ('robusta coffee', 'bag', 60, 'Export bag'),
+    ('arabica coffee', 'bag', 60, 'Export bag'),
+    ('banana', 'bunch', 20, 'Average matooke bunch'),
+    ('onion', 'bag', 50, 'Net bag'),
+    ('cabbage', 'piece', 2, null),
+    ('cabbage', 'bag', 60, null),
+    ('pineapple', 'piece', 1.5, null),
+    ('watermelon', 'piece', 5, null),
+    ('jackfruit', 'piece', 10, null),
+    ('avocado', 'piece', 0.25, null),
+    ('avocado', 'crate', 20, null),
+    ('tomato', 'crate', 25, null),
+    ('passion fruit', 'bag', 60, null),
+    ('sugarcane', 'bunch', 25, null)
+) as v (crop, unit, kg_per_unit, note)
+join public.produce_crops c on public.produce_name_stem(c.name) = public.produce_name_stem(v.crop)
+on conflict do nothing;
+
+-- Kilograms in one `p_unit` of the crop, or null when there is no known
+-- conversion. The crop can be given by id or, failing that, by name.
+create or replace function public.unit_kg(p_unit text, p_crop_id bigint default null, p_crop_name text default null)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select case
+    when lower(trim(p_unit)) = 'kg' then 1::numeric
+    else (
+      select u.kg_per_unit
+      from public.produce_unit_conversions u
+      where u.unit = lower(trim(p_unit))
+        and (u.crop_id is null or u.crop_id = coalesce(p_crop_id, public.match_produce_crop(p_crop_name)))
+      order by u.crop_id nulls last
+      limit 1
+    )
+  end
+$$;
+
+-- Listings: keep a per-kg price alongside the asking price so listings in
+-- different units can be sorted against each other.
+alter table public.farm_produce
+  add column if not exists price_per_kg numeric;
+
+create index if not exists farm_produce_price_per_kg_idx on public.farm_produce (price_per_kg);
+
+create or replace function public.set_listing_price_per_kg()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.price_per_kg := round(new.price_per_unit / nullif(public.unit_kg(new.unit, new.crop_id, new.crop_name), 0), 2);
+  return new;
+end;
+$$;
+
+-- Named to sort after farm_produce_resolve_catalog so crop_id is already set.
+drop trigger if exists farm_produce_set_price_per_kg on public.farm_produce;
+create trigger farm_produce_set_price_per_kg
+  before insert or update of price_per_unit, unit, crop_id, crop_name on public.farm_produce
+  for each row execute function public.set_listing_price_per_kg();
+
+-- Orders: the deal is recorded as quantity and price_per_unit in `unit`;
+-- quantity_kg and agreed_price_per_kg are derived from them and stay null
+-- when the unit has no known conversion.
+alter table public.market_matches
+  add column if not exists quantity numeric,
+  add column if not exists price_per_unit numeric;
+
+alter table public.market_matches
+  alter column quantity set not null,
+  alter column price_per_unit set not null;
+
+create or replace function public.set_match_kg_figures()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_kg numeric;
+  v_crop_id bigint;
+begin
+  select crop_id into v_crop_id from public.farm_produce where id = new.listing_id;
+  v_kg := public.unit_kg(coalesce(new.unit, 'kg'), v_crop_id, new.crop_name);
+
+  new.quantity_kg := round(new.quantity * v_kg, 3);
+  new.agreed_price_per_kg := round(new.price_per_unit / nullif(v_kg, 0), 2);
+  return new;
+end;
+$$;
+
+drop trigger if exists market_matches_set_kg_figures on public.market_matches;
+create trigger market_matches_set_kg_figures
+  before insert or update of quantity, price_per_unit, unit on public.market_matches
+  for each row execute function public.set_match_kg_figures();
+
+-- Recompute derived figures whenever a conversion changes.
+create or replace function public.refresh_unit_conversions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.farm_produce
+  set price_per_kg = round(price_per_unit / nullif(public.unit_kg(unit, crop_id, crop_name), 0), 2)
+  where lower(unit) <> 'kg';
+
+  update public.market_matches
+  set unit = unit
+  where lower(unit) <> 'kg';
+
+  return null;
+end;
+$$;
+
+drop trigger if exists produce_unit_conversions_refresh on public.produce_unit_conversions;
+create trigger produce_unit_conversions_refresh
+  after insert or update or delete on public.produce_unit_conversions
+  for each statement execute function public.refresh_unit_conversions();
+
+update public.farm_produce
+set price_per_kg = round(price_per_unit / nullif(public.unit_kg(unit, crop_id, crop_name), 0), 2);
+
+-- Touching unit re-runs set_match_kg_figures for the rows backfilled above.
+update public.market_matches set unit = unit;
+
+-- Order writers and readers move to quantity / price_per_unit.
+
+create or replace function public.create_market_match_from_offer(p_offer_id uuid)
+returns public.market_matches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_offer public.demand_offers;
+  v_demand public.buyer_demands;
+  v_listing public.farm_produce;
+  v_match public.market_matches;
+begin
+  select * into v_offer from public.demand_offers where id = p_offer_id;
+  if not found then
+    raise exception 'Offer not found';
+  end if;
+
+  if auth.uid() is distinct from v_offer.farmer_id and auth.uid() is distinct from v_offer.buyer_id then
+    raise exception 'You are not part of this offer';
+  end if;
+
+  select * into v_match from public.market_matches where offer_id = p_offer_id;
+  if found then
+    return v_match;
+  end if;
+
+  if v_offer.status <> 'accepted' then
+    raise exception 'Only accepted offers can become orders';
+  end if;
+
+  select * into v_demand from public.buyer_demands where id = v_offer.demand_id;
+  select * into v_listing from public.farm_produce where id = v_offer.listing_id;
+
+  insert into public.market_matches (
+    listing_id, offer_id, buyer_id, farmer_id, buyer_name, farmer_name, crop_name,
+    quantity, price_per_unit, unit, distance_km, quality, status
+  )
+  values (
+    v_offer.listing_id,
+    v_offer.id,
+    v_demand.buyer_id,
+    v_offer.farmer_id,
+    v_demand.buyer_name,
+    coalesce(v_listing.farmer_name, 'Farmer'),
+    v_offer.crop_name,
+    v_offer.offered_quantity,
+    v_offer.offered_price_per_unit,
+    coalesce(v_demand.unit, v_listing.unit, 'kg'),
+    case
+      when v_demand.location_lat is not null and v_listing.location_lat is not null
+        then round(public.haversine_km(v_demand.location_lat, v_demand.location_lng, v_listing.location_lat, v_listing.location_lng)::numeric, 1)
+    end,
+    coalesce(v_listing.quality, v_demand.preferred_quality, 'standard'),
+    'pending'
+  )
+  returning * into v_match;
+
+  insert into public.market_match_events (match_id, from_status, to_status, actor_id, actor_role, note)
+  values (v_match.id, null, 'pending', auth.uid(),
+          case when auth.uid() = v_offer.farmer_id then 'farmer' else 'buyer' end,
+          'Created from accepted offer');
+
+  return v_match;
+end;
+$$;
+
+create or replace function public.create_market_match_from_listing(p_listing_id uuid, p_quantity numeric)
+returns public.market_matches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_buyer public.accounts_user;
+  v_listing public.farm_produce;
+  v_match public.market_matches;
+begin
+  select * into v_buyer from public.accounts_user where auth_user_id = auth.uid();
+  if not found or v_buyer.role <> 'buyer' then
+    raise exception 'Only buyers can place orders';
+  end if;
+
+  select * into v_listing from public.farm_produce where id = p_listing_id;
+  if not found or not v_listing.is_available then
+    raise exception 'This listing is not available';
+  end if;
+
+  if p_quantity is null or p_quantity <= 0 or p_quantity > v_listing.quantity then
+    raise exception 'Quantity must be between 0 and % %', v_listing.quantity, v_listing.unit;
+  end if;
+
+  insert into public.market_matches (
+    listing_id, buyer_id, farmer_id, buyer_name, farmer_name, crop_name,
+    quantity, price_per_unit, unit, distance_km, quality, status
+  )
+  values (
+    v_listing.id,
+    auth.uid(),
+    v_listing.farmer_id,
+    coalesce(nullif(trim(coalesce(v_buyer.first_name, '') || ' ' || coalesce(v_buyer.last_name, '')), ''), 'Buyer'),
+    v_listing.farmer_name,
+    v_listing.crop_name,
+    p_quantity,
+    v_listing.price_per_unit,
+    v_listing.unit,
+    case
+      when v_buyer.location_lat is not null and v_listing.location_lat is not null
+        then round(public.haversine_km(v_buyer.location_lat, v_buyer.location_lng, v_listing.location_lat, v_listing.location_lng)::numeric, 1)
+    end,
+    v_listing.quality,
+    'pending'
+  )
+  returning * into v_match;
+
+  insert into public.market_match_events (match_id, from_status, to_status, actor_id, actor_role, note)
+  values (v_match.id, null, 'pending', auth.uid(), 'buyer', 'Placed from listing');
+
+  return v_match;
+end;
+$$;
+
+create or replace function public.refresh_farmer_stats(p_farmer_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_farmer_id is null then
+    return;
+  end if;
+
+  insert into public.farmer_stats (
+    farmer_profile_id, total_products, available_products, sold_products,
+    pending_orders, completed_orders, total_revenue, monthly_revenue, last_updated
+  )
+  select
+    fp.id,
+    (select count(*) from public.farm_produce p where p.farmer_id = p_farmer_id),
+    (select count(*) from public.farm_produce p where p.farmer_id = p_farmer_id and p.is_available),
+    (select count(distinct m.listing_id) from public.market_matches m
+      where m.farmer_id = p_farmer_id and m.status = 'completed'),
+    (select count(*) from public.market_matches m
+      where m.farmer_id = p_farmer_id and m.status = 'pending'),
+    (select count(*) from public.market_matches m
+      where m.farmer_id = p_farmer_id and m.status = 'completed'),
+    (select coalesce(sum(m.quantity * m.price_per_unit), 0) from public.market_matches m
+      where m.farmer_id = p_farmer_id and m.status = 'completed'),
+    (select coalesce(sum(m.quantity * m.price_per_unit), 0) from public.market_matches m
+      where m.farmer_id = p_farmer_id and m.status = 'completed'
+        and coalesce(m.completed_at, m.updated_at, m.created_at) >= date_trunc('month', now())),
+    now()
+  from public.farmer_profiles fp
+  where fp.auth_user_id = p_farmer_id
+  on conflict (farmer_profile_id) do update set
+    total_products = excluded.total_products,
+    available_products = excluded.available_products,
+    sold_products = excluded.sold_products,
+    pending_orders = excluded.pending_orders,
+    completed_orders = excluded.completed_orders,
+    total_revenue = excluded.total_revenue,
+    monthly_revenue = excluded.monthly_revenue,
+    last_updated = excluded.last_updated;
+end;
+$$;
+
+create or replace function public.notify_order_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_title text;
+  v_recipient uuid;
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return null;
+  end if;
+
+  v_title := case
+    when tg_op = 'INSERT' then 'New order: ' || new.crop_name
+    else 'Order ' || new.status || ': ' || new.crop_name
+  end;
+
+  foreach v_recipient in array array[new.buyer_id, new.farmer_id]
+  loop
+    if v_recipient is not null and v_recipient is distinct from auth.uid() then
+      perform public.notify_user(
+        v_recipient,
+        'order_status',
+        v_title,
+        new.quantity || ' ' || coalesce(new.unit, 'kg') || ' between ' || new.buyer_name || ' and ' || new.farmer_name,
+        '/orders/' || new.id,
+        jsonb_build_object('order_id', new.id, 'status', new.status)
+      );
+    end if;
+  end loop;
+
+  return null;
+end;
+$$;
+
+create or replace function public.record_transaction_price()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_listing public.farm_produce%rowtype;
+begin
+  if new.status <> 'confirmed' or old.status is not distinct from new.status then
+    return new;
+  end if;
+
+  if coalesce(new.price_per_unit, 0) <= 0 then
+    return new;
+  end if;
+
+  select * into v_listing from public.farm_produce where id = new.listing_id;
+
+  insert into public.price_observations (
+    source, crop_key, crop_name, variety, quality, district, unit,
+    price_per_unit, quantity, produce_id, match_id
+  )
+  values (
+    'transaction',
+    lower(trim(new.crop_name)),
+    new.crop_name,
+    nullif(trim(v_listing.variety), ''),
+    lower(coalesce(new.quality, v_listing.quality, 'standard')),
+    public.price_district(v_listing.farmer_location),
+    coalesce(new.unit, v_listing.unit, 'kg'),
+    new.price_per_unit,
+    new.quantity,
+    new.listing_id,
+    new.id
+  );
+
+  return new;
+end;
+$$;
+
+create or replace function public.suggest_listing_price(
+  p_crop_name text,
+  p_quality text,
+  p_unit text,
+  p_lat double precision default null,
+  p_lng double precision default null,
+  p_radius_km double precision default 50,
+  p_days integer default 60,
+  p_min_comparables integer default 3
+)
+returns table (
+  scope text,
+  radius_km double precision,
+  listing_count bigint,
+  sale_count bigint,
+  min_price numeric,
+  p25_price numeric,
+  median_price numeric,
+  p75_price numeric,
+  max_price numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with comparables as (
+    select
+      'listing' as source,
+      p.price_per_unit as price,
+      p.location_lat as lat,
+      p.location_lng as lng
+    from public.farm_produce p
+    where lower(trim(p.crop_name)) = lower(trim(p_crop_name))
+      and lower(coalesce(p.quality, 'standard')) = lower(p_quality)
+      and p.unit = p_unit
+      and p.price_per_unit > 0
+      and p.listed_at >= now() - make_interval(days => p_days)
+      and p.farmer_id is distinct from auth.uid()
+
+    union all
+
+    select 'sale', m.price_per_unit, l.location_lat, l.location_lng
+    from public.market_matches m
+    left join public.farm_produce l on l.id = m.listing_id
+    where lower(trim(m.crop_name)) = lower(trim(p_crop_name))
+      and lower(coalesce(m.quality, 'standard')) = lower(p_quality)
+      and m.unit = p_unit
+      and m.status = 'completed'
+      and m.price_per_unit > 0
+      and coalesce(m.completed_at, m.created_at) >= now() - make_interval(days => p_days)
+  ),
+  located as (
+    select
+      c.*,
+      case
+        when p_lat is not null and p_lng is not null and c.lat is not null and c.lng is not null
+          then public.haversine_km(p_lat, p_lng, c.lat, c.lng)
+      end as distance_km
+    from comparables c
+  ),
+  coverage as (
+    select count(*) filter (where distance_km <= p_radius_km) >= p_min_comparables as use_nearby
+    from located
+  )
+  select
+    case when cv.use_nearby then 'nearby' else 'market' end,
+    case when cv.use_nearby then p_radius_km end,
+    count(*) filter (where l.source = 'listing'),
+    count(*) filter (where l.source = 'sale'),
+    min(l.price),
+    percentile_cont(0.25) within group (order by l.price)::numeric,
+    percentile_cont(0.5) within group (order by l.price)::numeric,
+    percentile_cont(0.75) within group (order by l.price)::numeric,
+    max(l.price)
+  from coverage cv
+  left join located l on (not cv.use_nearby or l.distance_km <= p_radius_km)
+  group by cv.use_nearby;
+$$;
@@ -0,0 +1,148 @@
+-- Server-side filtering, sorting and keyset pagination for /products.
+-- Every word of the search has to appear somewhere in the listing (crop,
+-- variety, farmer, location, description or category).
+
+create or replace function public.listing_matches_search(p public.farm_produce, p_search text)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(trim(p_search), '') = ''
+    or not exists (
+      select 1
+      from regexp_split_to_table(lower(trim(p_search)), '\s+') as w (word)
+      where position(
+        w.word in lower(concat_ws(' ', p.crop_name, p.variety, p.farmer_name, p.farmer_location, p.description, p.crop_category))
+      ) = 0
+    )
+$$;
+
+create index if not exists farm_produce_available_listed_idx
+  on public.farm_produce (listed_at desc, id desc)
+  where is_available;
+
+-- One page of available listings. p_sort is newest, price-low, price-high,
+-- distance or name; prices sort per kg so units line up. Distance is from
+-- (p_lat, p_lng) when given, otherwise the listing's stored distance_km.
+-- Pass the last row's sort_num, sort_text and id back as the cursor to get
+-- the next page.
+create or replace function public.browse_listings(
+  p_search text default null,
+  p_category text default null,
+  p_quality text default null,
+  p_max_price numeric default null,
+  p_sort text default 'newest',
+  p_lat double precision default null,
+  p_lng double precision default null,
+  p_cursor_num double precision default null,
+  p_cursor_text text default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 30
+)
+returns table (
+  id uuid,
+  farmer_id uuid,
+  farmer_name text,
+  farmer_location text,
+  crop_name text,
+  variety text,
+  quality text,
+  quantity numeric,
+  unit text,
+  price_per_unit numeric,
+  price_per_kg numeric,
+  distance_km double precision,
+  is_available boolean,
+  listed_at timestamptz,
+  photo text,
+  farmer_phone text,
+  description text,
+  available_from date,
+  total_price numeric,
+  category_id bigint,
+  sort_num double precision,
+  sort_text text
+)
+language sql
+stable
+set search_path = public
+as $$
+  with filtered as (
+    select
+      p.*,
+      case
+        when p_lat is not null and p_lng is not null and p.location_lat is not null and p.location_lng is not null
+          then public.haversine_km(p_lat, p_lng, p.location_lat, p.location_lng)
+        when p_lat is null
+          then p.distance_km::double precision
+      end as viewer_distance_km
+    from public.farm_produce p
+    where p.is_available
+      and public.listing_matches_search(p, p_search)
+      and (
+        p_category is null
+        or (p_category = 'uncategorized' and p.category_id is null)
+        or p.category_id::text = p_category
+      )
+      and (p_quality is null or lower(p.quality) = lower(p_quality))
+      and (p_max_price is null or p.price_per_unit <= p_max_price)
+  ),
+  keyed as (
+    select
+      f.*,
+      -- Nulls become +/- infinity so they sort last in either direction.
+      case p_sort
+        when 'price-low' then coalesce(f.price_per_kg::double precision, 'infinity')
+        when 'price-high' then coalesce(f.price_per_kg::double precision, '-infinity')
+        when 'distance' then coalesce(f.viewer_distance_km, 'infinity')
+        when 'name' then null
+        else extract(epoch from f.listed_at)::double precision
+      end as k_num,
+      case when p_sort = 'name' then lower(f.crop_name) end as k_text
+    from filtered f
+  )
+  select
+    k.id, k.farmer_id, k.farmer_name, k.farmer_location, k.crop_name, k.variety,
+    k.quality, k.quantity, k.unit, k.price_per_unit, k.price_per_kg,
+    k.viewer_distance_km, k.is_available, k.listed_at, k.photo, k.farmer_phone,
+    k.description, k.available_from, k.total_price, k.category_id,
+    k.k_num, k.k_text
+  from keyed k
+  where p_cursor_id is null
+    or case
+      when p_sort = 'name' then (k.k_text, k.id) > (p_cursor_text, p_cursor_id)
+      when p_sort in ('price-low', 'distance') then (k.k_num, k.id) > (p_cursor_num, p_cursor_id)
+      else (k.k_num, k.id) < (p_cursor_num, p_cursor_id)
+    end
+  order by
+    case when p_sort = 'name' then k.k_text end asc,
+    case when p_sort in ('price-low', 'distance') then k.k_num end asc,
+    case when p_sort not in ('name', 'price-low', 'distance') then k.k_num end desc,
+    case when p_sort in ('name', 'price-low', 'distance') then k.id end asc,
+    case when p_sort not in ('name', 'price-low', 'distance') then k.id end desc
+  limit least(greatest(coalesce(p_limit, 30), 1), 100);
+$$;
+
+-- Listing counts per category under the same search, quality and price
+-- filters, for the category picker.
+create or replace function public.browse_listing_counts(
+  p_search text default null,
+  p_quality text default null,
+  p_max_price numeric default null
+)
+returns table (category_id bigint, listings bigint)
+language sql
+stable
+set search_path = public
+as $$
+  select p.category_id, count(*)
+  from public.farm_produce p
+  where p.is_available
+    and public.listing_matches_search(p, p_search)
+    and (p_quality is null or lower(p.quality) = lower(p_quality))
+    and (p_max_price is null or p.price_per_unit <= p_max_price)
+  group by p.category_id;
+$$;
+
+grant execute on function public.browse_listings(text, text, text, numeric, text, double precision, double precision, double precision, text, uuid, integer) to anon, authenticated;
+grant execute on function public.browse_listing_counts(text, text, numeric) to anon, authenticated;
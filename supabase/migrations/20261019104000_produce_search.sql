@@ -0,0 +1,434 @@
+-- Full-text search over listings and buyer demands. Each row keeps a
+-- weighted tsvector (crop first, then variety and category, then the free
+-- text, then who and where), with the crop's local names folded in so
+-- "matooke" finds a Banana listing. Search words that appear in no row are
+-- corrected to the closest word that does, which covers most typos.
+
+create extension if not exists pg_trgm with schema extensions;
+
+-- Names that mean the same crop for search. Every term in a group is
+-- indexed with a listing or demand whose crop matches any one of them.
+create table if not exists public.produce_search_synonyms (
+  term text primary key,
+  group_key text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists produce_search_synonyms_group_idx on public.produce_search_synonyms (group_key);
+
+alter table public.produce_search_synonyms enable row level security;
+
+drop policy if exists "anyone reads search synonyms" on public.produce_search_synonyms;
+create policy "anyone reads search synonyms"
+  on public.produce_search_synonyms for select
+  using (true);
+
+insert into public.produce_search_synonyms (term, group_key)
+values
+  ('banana', 'banana'),
+  ('matooke', 'banana'),
+  ('matoke', 'banana'),
+  ('plantain', 'banana'),
+  ('gonja', 'banana'),
+  ('bogoya', 'banana'),
+  ('groundnuts', 'groundnuts'),
+  ('g nuts', 'groundnuts'),
+  ('gnuts', 'groundnuts'),
+  ('peanuts', 'groundnuts'),
+  ('binyebwa', 'groundnuts'),
+  ('irish potato', 'irish potato'),
+  ('irish', 'irish potato'),
+  ('potato', 'irish potato'),
+  ('spuds', 'irish potato'),
+  ('sweet potato', 'sweet potato'),
+  ('lumonde', 'sweet potato'),
+  ('maize', 'maize'),
+  ('corn', 'maize'),
+  ('kasooli', 'maize'),
+  ('cassava', 'cassava'),
+  ('muwogo', 'cassava'),
+  ('beans', 'beans'),
+  ('bijanjalo', 'beans'),
+  ('coffee', 'coffee'),
+  ('kawa', 'coffee'),
+  ('kahawa', 'coffee'),
+  ('sesame', 'sesame'),
+  ('simsim', 'sesame'),
+  ('sim sim', 'sesame'),
+  ('millet', 'millet'),
+  ('bulo', 'millet'),
+  ('tomato', 'tomato'),
+  ('nyanya', 'tomato'),
+  ('eggplant', 'eggplant'),
+  ('biringanya', 'eggplant'),
+  ('pineapple', 'pineapple'),
+  ('nanansi', 'pineapple'),
+  ('onion', 'onion'),
+  ('katungulu', 'onion')
+on conflict (term) do nothing;
+
+-- Every word that appears in some search vector, for typo correction.
+-- Words are only ever added; a stale one just corrects to nothing.
+create table if not exists public.produce_search_words (
+  word text primary key
+);
+
+create index if not exists produce_search_words_prefix_idx
+  on public.produce_search_words (word text_pattern_ops);
+create index if not exists produce_search_words_trgm_idx
+  on public.produce_search_words using gin (word extensions.gin_trgm_ops);
+
+alter table public.produce_search_words enable row level security;
+
+drop policy if exists "anyone reads search words" on public.produce_search_words;
+create policy "anyone reads search words"
+  on public.produce_search_words for select
+  using (true);
+
+-- Synonym and alias terms for a crop name, space separated: its synonym
+-- group (matched on the singular form) plus the catalog aliases of the crop
+-- it resolves to.
+create or replace function public.produce_search_synonyms_for(p_name text)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select string_agg(distinct t.term, ' ')
+  from (
+    select s2.term
+    from public.produce_search_synonyms s1
+    join public.produce_search_synonyms s2 on s2.group_key = s1.group_key
+    where public.produce_name_stem(s1.term) = public.produce_name_stem(p_name)
+
+    union
+
+    select a.alias
+    from public.produce_crop_aliases a
+    where a.crop_id = public.match_produce_crop(p_name)
+  ) t
+$$;
+
+create or replace function public.listing_search_vector(p public.farm_produce)
+returns tsvector
+language sql
+stable
+set search_path = public
+as $$
+  select
+    setweight(to_tsvector('simple', coalesce(public.produce_name_key(concat_ws(' ',
+      p.crop_name, public.produce_search_synonyms_for(p.crop_name)
+    )), '')), 'A')
+    || setweight(to_tsvector('simple', coalesce(public.produce_name_key(concat_ws(' ',
+      p.variety, public.produce_search_synonyms_for(p.variety), p.crop_category
+    )), '')), 'B')
+    || setweight(to_tsvector('simple', coalesce(public.produce_name_key(p.description), '')), 'C')
+    || setweight(to_tsvector('simple', coalesce(public.produce_name_key(concat_ws(' ',
+      p.farmer_name, p.farmer_location
+    )), '')), 'D')
+$$;
+
+create or replace function public.demand_search_vector(d public.buyer_demands)
+returns tsvector
+language sql
+stable
+set search_path = public
+as $$
+  select
+    setweight(to_tsvector('simple', coalesce(public.produce_name_key(concat_ws(' ',
+      d.crop_name, public.produce_search_synonyms_for(d.crop_name)
+    )), '')), 'A')
+    || setweight(to_tsvector('simple', coalesce(public.produce_name_key(d.preferred_quality), '')), 'B')
+    || setweight(to_tsvector('simple', coalesce(public.produce_name_key(d.notes), '')), 'C')
+    || setweight(to_tsvector('simple', coalesce(public.produce_name_key(concat_ws(' ',
+      d.buyer_name, d.location_text
+    )), '')), 'D')
+$$;
+
+alter table public.farm_produce
+  add column if not exists search_vector tsvector;
+alter table public.buyer_demands
+  add column if not exists search_vector tsvector;
+
+create index if not exists farm_produce_search_idx on public.farm_produce using gin (search_vector);
+create index if not exists buyer_demands_search_idx on public.buyer_demands using gin (search_vector);
+
+-- Security definer so any writer can add to produce_search_words.
+create or replace function public.set_produce_search_vector()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'farm_produce' then
+    new.search_vector := public.listing_search_vector(new);
+  else
+    new.search_vector := public.demand_search_vector(new);
+  end if;
+
+  insert into public.produce_search_words (word)
+  select lexeme from unnest(new.search_vector)
+  on conflict (word) do nothing;
+
+  return new;
+end;
+$$;
+
+-- Named to sort after the resolve_catalog triggers so crop names are canonical.
+drop trigger if exists farm_produce_set_search_vector on public.farm_produce;
+create trigger farm_produce_set_search_vector
+  before insert or update of crop_name, variety, crop_category, description, farmer_name, farmer_location, crop_id
+  on public.farm_produce
+  for each row execute function public.set_produce_search_vector();
+
+drop trigger if exists buyer_demands_set_search_vector on public.buyer_demands;
+create trigger buyer_demands_set_search_vector
+  before insert or update of crop_name, preferred_quality, notes, buyer_name, location_text, crop_id
+  on public.buyer_demands
+  for each row execute function public.set_produce_search_vector();
+
+-- Recompute every search vector and top up the word list. Runs after
+-- synonyms or aliases change; returns nothing.
+create or replace function public.reindex_produce_search()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.farm_produce p set search_vector = public.listing_search_vector(p);
+  update public.buyer_demands d set search_vector = public.demand_search_vector(d);
+
+  insert into public.produce_search_words (word)
+  select v.lexeme
+  from (
+    select search_vector from public.farm_produce
+    union all
+    select search_vector from public.buyer_demands
+  ) s
+  cross join lateral unnest(s.search_vector) as v
+  on conflict (word) do nothing;
+end;
+$$;
+
+create or replace function public.refresh_produce_search()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.reindex_produce_search();
+  return null;
+end;
+$$;
+
+drop trigger if exists produce_search_synonyms_refresh on public.produce_search_synonyms;
+create trigger produce_search_synonyms_refresh
+  after insert or update or delete on public.produce_search_synonyms
+  for each statement execute function public.refresh_produce_search();
+
+drop trigger if exists produce_crop_aliases_search_refresh on public.produce_crop_aliases;
+create trigger produce_crop_aliases_search_refresh
+  after insert or update or delete on public.produce_crop_aliases
+  for each statement execute function public.refresh_produce_search();
+
+revoke all on function public.reindex_produce_search() from public, anon, authenticated;
+revoke all on function public.refresh_produce_search() from public, anon, authenticated;
+
+-- The tsquery for what someone typed: every word must match as a prefix.
+-- A word of four letters or more that starts no indexed word also accepts
+-- the most similar indexed word, so "matoke" and "grondnuts" still find
+-- something. Null for a blank search.
+create or replace function public.produce_search_query(p_search text)
+returns tsquery
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select to_tsquery('simple', string_agg(
+    case
+      when length(w.word) < 4
+        or exists (select 1 from public.produce_search_words s where s.word like w.word || '%')
+        then quote_literal(w.word) || ':*'
+      else '(' || quote_literal(w.word) || ':*' || coalesce(' | ' || (
+        select quote_literal(s.word)
+        from public.produce_search_words s
+        where s.word % w.word
+          and similarity(s.word, w.word) >= 0.4
+        order by similarity(s.word, w.word) desc, s.word
+        limit 1
+      ), '') || ')'
+    end,
+    ' & ' order by w.n
+  ))
+  from regexp_split_to_table(public.produce_name_key(p_search), ' ') with ordinality as w (word, n)
+$$;
+
+-- Open demands matching a search, best first, for /marketplace.
+create or replace function public.search_demands(p_search text, p_limit integer default 200)
+returns table (id uuid, rank real)
+language sql
+stable
+set search_path = public
+as $$
+  select d.id, ts_rank_cd(d.search_vector, q.tsq)
+  from public.buyer_demands d
+  cross join (select public.produce_search_query(p_search) as tsq) q
+  where d.status = 'open'
+    and q.tsq is not null
+    and d.search_vector @@ q.tsq
+  order by 2 desc, d.created_at desc
+  limit least(greatest(coalesce(p_limit, 200), 1), 500);
+$$;
+
+-- Available listings matching a search, best first, for /discover.
+create or replace function public.search_listings(p_search text, p_limit integer default 200)
+returns table (id uuid, rank real)
+language sql
+stable
+set search_path = public
+as $$
+  select p.id, ts_rank_cd(p.search_vector, q.tsq)
+  from public.farm_produce p
+  cross join (select public.produce_search_query(p_search) as tsq) q
+  where p.is_available
+    and q.tsq is not null
+    and p.search_vector @@ q.tsq
+  order by 2 desc, p.listed_at desc
+  limit least(greatest(coalesce(p_limit, 200), 1), 500);
+$$;
+
+-- /products: same signature as before, now matching through the search
+-- index and with a 'relevance' sort (newest first when there is no search).
+create or replace function public.browse_listings(
+  p_search text default null,
+  p_category text default null,
+  p_quality text default null,
+  p_max_price numeric default null,
+  p_sort text default 'newest',
+  p_lat double precision default null,
+  p_lng double precision default null,
+  p_cursor_num double precision default null,
+  p_cursor_text text default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 30
+)
+returns table (
+  id uuid,
+  farmer_id uuid,
+  farmer_name text,
+  farmer_location text,
+  crop_name text,
+  variety text,
+  quality text,
+  quantity numeric,
+  unit text,
+  price_per_unit numeric,
+  price_per_kg numeric,
+  distance_km double precision,
+  is_available boolean,
+  listed_at timestamptz,
+  photo text,
+  farmer_phone text,
+  description text,
+  available_from date,
+  total_price numeric,
+  category_id bigint,
+  sort_num double precision,
+  sort_text text
+)
+language sql
+stable
+set search_path = public
+as $$
+  with q as (
+    select public.produce_search_query(p_search) as tsq
+  ),
+  filtered as (
+    select
+      p.*,
+      case
+        when p_lat is not null and p_lng is not null and p.location_lat is not null and p.location_lng is not null
+          then public.haversine_km(p_lat, p_lng, p.location_lat, p.location_lng)
+        when p_lat is null
+          then p.distance_km::double precision
+      end as viewer_distance_km,
+      case when q.tsq is not null then ts_rank_cd(p.search_vector, q.tsq)::double precision end as search_rank
+    from public.farm_produce p
+    cross join q
+    where p.is_available
+      and (q.tsq is null or p.search_vector @@ q.tsq)
+      and (
+        p_category is null
+        or (p_category = 'uncategorized' and p.category_id is null)
+        or p.category_id::text = p_category
+      )
+      and (p_quality is null or lower(p.quality) = lower(p_quality))
+      and (p_max_price is null or p.price_per_unit <= p_max_price)
+  ),
+  keyed as (
+    select
+      f.*,
+      -- Nulls become +/- infinity so they sort last in either direction.
+      case p_sort
+        when 'price-low' then coalesce(f.price_per_kg::double precision, 'infinity')
+        when 'price-high' then coalesce(f.price_per_kg::double precision, '-infinity')
+        when 'distance' then coalesce(f.viewer_distance_km, 'infinity')
+        when 'name' then null
+        when 'relevance' then coalesce(f.search_rank, extract(epoch from f.listed_at)::double precision)
+        else extract(epoch from f.listed_at)::double precision
+      end as k_num,
+      case when p_sort = 'name' then lower(f.crop_name) end as k_text
+    from filtered f
+  )
+  select
+    k.id, k.farmer_id, k.farmer_name, k.farmer_location, k.crop_name, k.variety,
+    k.quality, k.quantity, k.unit, k.price_per_unit, k.price_per_kg,
+    k.viewer_distance_km, k.is_available, k.listed_at, k.photo, k.farmer_phone,
+    k.description, k.available_from, k.total_price, k.category_id,
+    k.k_num, k.k_text
+  from keyed k
+  where p_cursor_id is null
+    or case
+      when p_sort = 'name' then (k.k_text, k.id) > (p_cursor_text, p_cursor_id)
+      when p_sort in ('price-low', 'distance') then (k.k_num, k.id) > (p_cursor_num, p_cursor_id)
+      else (k.k_num, k.id) < (p_cursor_num, p_cursor_id)
+    end
+  order by
+    case when p_sort = 'name' then k.k_text end asc,
+    case when p_sort in ('price-low', 'distance') then k.k_num end asc,
+    case when p_sort not in ('name', 'price-low', 'distance') then k.k_num end desc,
+    case when p_sort in ('name', 'price-low', 'distance') then k.id end asc,
+    case when p_sort not in ('name', 'price-low', 'distance') then k.id end desc
+  limit least(greatest(coalesce(p_limit, 30), 1), 100);
+$$;
+
+create or replace function public.browse_listing_counts(
+  p_search text default null,
+  p_quality text default null,
+  p_max_price numeric default null
+)
+returns table (category_id bigint, listings bigint)
+language sql
+stable
+set search_path = public
+as $$
+  select p.category_id, count(*)
+  from public.farm_produce p
+  cross join (select public.produce_search_query(p_search) as tsq) q
+  where p.is_available
+    and (q.tsq is null or p.search_vector @@ q.tsq)
+    and (p_quality is null or lower(p.quality) = lower(p_quality))
+    and (p_max_price is null or p.price_per_unit <= p_max_price)
+  group by p.category_id;
+$$;
+
+drop function if exists public.listing_matches_search(public.farm_produce, text);
+
+select public.reindex_produce_search();
+
+grant execute on function public.produce_search_query(text) to anon, authenticated;
+grant execute on function public.search_demands(text, integer) to anon, authenticated;
+grant execute on function public.search_listings(text, integer) to anon, authenticated;
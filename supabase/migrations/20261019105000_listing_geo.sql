@@ -0,0 +1,96 @@
+-- Spatial lookups for /discover: available listings inside the map viewport,
+-- optionally within a radius of the viewer, nearest first. A box on the
+-- coordinates narrows rows through the index before the exact haversine.
+
+create index if not exists farm_produce_available_location_idx
+  on public.farm_produce (location_lat, location_lng)
+  where is_available and location_lat is not null and location_lng is not null;
+
+-- Listings inside (p_south, p_west)-(p_north, p_east). With an origin,
+-- distance_km is measured from it and p_radius_km (if given) cuts the
+-- results to that circle; without one, rows are ordered from the middle of
+-- the box and distance_km is null. p_search goes through the search index.
+create or replace function public.listings_in_bounds(
+  p_south double precision,
+  p_west double precision,
+  p_north double precision,
+  p_east double precision,
+  p_lat double precision default null,
+  p_lng double precision default null,
+  p_radius_km double precision default null,
+  p_search text default null,
+  p_limit integer default 300
+)
+returns table (
+  id uuid,
+  farmer_name text,
+  farmer_location text,
+  crop_name text,
+  crop_category text,
+  variety text,
+  quality text,
+  quantity numeric,
+  unit text,
+  price_per_unit numeric,
+  farmer_phone text,
+  location_lat double precision,
+  location_lng double precision,
+  google_maps_link text,
+  is_available boolean,
+  listed_at timestamptz,
+  distance_km double precision
+)
+language sql
+stable
+set search_path = public
+as $$
+  with args as (
+    select
+      public.produce_search_query(p_search) as tsq,
+      p_lat is not null and p_lng is not null as has_origin,
+      coalesce(p_lat, (p_south + p_north) / 2) as o_lat,
+      coalesce(p_lng, (p_west + p_east) / 2) as o_lng,
+      -- Degrees spanned by the radius, to turn the circle into a box.
+      p_radius_km / 111.045 as d_lat,
+      p_radius_km / (111.045 * greatest(cos(radians(coalesce(p_lat, 0))), 0.01)) as d_lng
+  ),
+  located as (
+    select
+      p.*,
+      public.haversine_km(a.o_lat, a.o_lng, p.location_lat, p.location_lng) as origin_km,
+      a.has_origin
+    from public.farm_produce p
+    cross join args a
+    where p.is_available
+      and p.location_lat is not null
+      and p.location_lng is not null
+      and p.location_lat between p_south and p_north
+      and p.location_lng between p_west and p_east
+      and (
+        p_radius_km is null or not a.has_origin
+        or (
+          p.location_lat between p_lat - a.d_lat and p_lat + a.d_lat
+          and p.location_lng between p_lng - a.d_lng and p_lng + a.d_lng
+        )
+      )
+      and (a.tsq is null or p.search_vector @@ a.tsq)
+  )
+  select
+    l.id, l.farmer_name, l.farmer_location, l.crop_name, l.crop_category, l.variety,
+    l.quality, l.quantity, l.unit, l.price_per_unit, l.farmer_phone,
+    l.location_lat, l.location_lng, l.google_maps_link, l.is_available, l.listed_at,
+    case when l.has_origin then l.origin_km end
+  from located l
+  where p_radius_km is null or not l.has_origin or l.origin_km <= p_radius_km
+  order by l.origin_km, l.listed_at desc, l.id
+  limit least(greatest(coalesce(p_limit, 300), 1), 1000);
+$$;
+
+grant execute on function public.listings_in_bounds(
+  double precision, double precision, double precision, double precision,
+  double precision, double precision, double precision, text, integer
+) to anon, authenticated;
+
+-- /discover searched through search_listings and intersected on the client;
+-- listings_in_bounds takes the search itself now.
+drop function if exists public.search_listings(text, integer);
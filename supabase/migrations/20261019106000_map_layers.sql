@@ -0,0 +1,77 @@
+-- Heatmap layers for /discover. Points are bucketed into a lat/lng grid
+-- sized by the client for its zoom level and come back one row per cell,
+-- so the map never loads individual demands or every listing for a layer.
+
+create index if not exists buyer_demands_open_location_idx
+  on public.buyer_demands (location_lat, location_lng)
+  where status = 'open' and location_lat is not null and location_lng is not null;
+
+-- p_layer is one of:
+--   supply  listed kg of available listings (sum per cell)
+--   demand  kg wanted by open buyer demands (sum per cell)
+--   price   asking price per kg of available listings (average per cell)
+-- Rows in a unit with no kg conversion are left out. lat/lng is the mean
+-- position of the points in the cell. Security definer so anyone can see
+-- demand density without reading the demands themselves.
+create or replace function public.map_heat_cells(
+  p_layer text,
+  p_south double precision,
+  p_west double precision,
+  p_north double precision,
+  p_east double precision,
+  p_cell_deg double precision default 0.05
+)
+returns table (lat double precision, lng double precision, items bigint, value double precision)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with points as (
+    select
+      p.location_lat as lat,
+      p.location_lng as lng,
+      case
+        when p_layer = 'price' then p.price_per_kg::double precision
+        else (p.quantity * public.unit_kg(p.unit, p.crop_id, p.crop_name))::double precision
+      end as value
+    from public.farm_produce p
+    where p_layer in ('supply', 'price')
+      and p.is_available
+      and p.location_lat is not null
+      and p.location_lng is not null
+      and p.location_lat between p_south and p_north
+      and p.location_lng between p_west and p_east
+
+    union all
+
+    select
+      d.location_lat,
+      d.location_lng,
+      (d.quantity * public.unit_kg(d.unit, d.crop_id, d.crop_name))::double precision
+    from public.buyer_demands d
+    where p_layer = 'demand'
+      and d.status = 'open'
+      and d.location_lat is not null
+      and d.location_lng is not null
+      and d.location_lat between p_south and p_north
+      and d.location_lng between p_west and p_east
+  ),
+  cell as (
+    select greatest(coalesce(p_cell_deg, 0.05), 0.001) as size
+  )
+  select
+    avg(pt.lat),
+    avg(pt.lng),
+    count(*),
+    case when p_layer = 'price' then avg(pt.value) else sum(pt.value) end
+  from points pt
+  cross join cell c
+  where pt.value is not null
+  group by floor(pt.lat / c.size), floor(pt.lng / c.size)
+  limit 2000;
+$$;
+
+grant execute on function public.map_heat_cells(
+  text, double precision, double precision, double precision, double precision, double precision
+) to anon, authenticated;
@@ -0,0 +1,188 @@
+-- Where a buyer sources from: the original point plus radius_km, a polygon
+-- drawn on the map, or a list of districts. Districts compare against the
+-- same price_district() key the price pages use (first part of a location,
+-- title-cased), so "wakiso, nansana" falls in Wakiso.
+
+alter table public.buyer_demands
+  add column if not exists sourcing_mode text not null default 'radius',
+  add column if not exists sourcing_polygon jsonb,
+  add column if not exists sourcing_districts text[];
+
+alter table public.buyer_demands
+  drop constraint if exists buyer_demands_sourcing_mode_check;
+alter table public.buyer_demands
+  add constraint buyer_demands_sourcing_mode_check check (
+    sourcing_mode = 'radius'
+    or (
+      sourcing_mode = 'polygon'
+      and jsonb_typeof(sourcing_polygon) = 'array'
+      and jsonb_array_length(sourcing_polygon) >= 3
+    )
+    or (sourcing_mode = 'districts' and cardinality(sourcing_districts) > 0)
+  );
+
+-- Ray casting over a ring of [lat, lng] pairs; the ring need not be closed.
+create or replace function public.point_in_polygon(p_lat double precision, p_lng double precision, p_polygon jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  with pts as (
+    select
+      (v.value ->> 0)::double precision as lat,
+      (v.value ->> 1)::double precision as lng,
+      v.ordinality as n
+    from jsonb_array_elements(p_polygon) with ordinality as v (value, ordinality)
+  ),
+  edges as (
+    select a.lat as lat1, a.lng as lng1, b.lat as lat2, b.lng as lng2
+    from pts a
+    join pts b on b.n = case when a.n = (select max(n) from pts) then 1 else a.n + 1 end
+  )
+  select coalesce(count(*) % 2 = 1, false)
+  from edges e
+  where (e.lat1 > p_lat) <> (e.lat2 > p_lat)
+    and p_lng < (e.lng2 - e.lng1) * (p_lat - e.lat1) / (e.lat2 - e.lat1) + e.lng1
+$$;
+
+-- Whether a place (a listing or a farmer) is inside a demand's sourcing
+-- area. A place or demand missing the coordinates or location the check
+-- needs counts as inside, the same as before areas existed.
+create or replace function public.demand_covers_place(
+  d public.buyer_demands,
+  p_lat double precision,
+  p_lng double precision,
+  p_location text
+)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select case d.sourcing_mode
+    when 'polygon' then
+      p_lat is null or p_lng is null or public.point_in_polygon(p_lat, p_lng, d.sourcing_polygon)
+    when 'districts' then
+      public.price_district(p_location) is null
+      or public.price_district(p_location) = any (
+        select public.price_district(x) from unnest(d.sourcing_districts) as x
+      )
+    else
+      d.location_lat is null or d.location_lng is null or p_lat is null or p_lng is null
+      or public.haversine_km(d.location_lat, d.location_lng, p_lat, p_lng) <= coalesce(d.radius_km, 50)
+  end
+$$;
+
+-- Districts buyers can pick, from where listings are today.
+create or replace function public.sourcing_district_options()
+returns table (district text, listings bigint)
+language sql
+stable
+set search_path = public
+as $$
+  select public.price_district(p.farmer_location), count(*)
+  from public.farm_produce p
+  where p.is_available
+    and public.price_district(p.farmer_location) is not null
+  group by 1
+  order by 1;
+$$;
+
+grant execute on function public.sourcing_district_options() to anon, authenticated;
+
+-- New demands notify farmers inside the sourcing area, whatever its shape.
+create or replace function public.notify_demand_nearby()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status is distinct from 'open' then
+    return null;
+  end if;
+
+  perform public.notify_user(
+    f.farmer_id,
+    'demand_nearby',
+    'New buyer demand near you',
+    coalesce(new.buyer_name, 'A buyer') || ' wants ' || new.quantity || ' ' || new.unit || ' of ' || new.crop_name
+      || ' at UGX ' || new.target_price_per_unit || ' per ' || new.unit,
+    '/marketplace',
+    jsonb_build_object('demand_id', new.id)
+  )
+  from (
+    select distinct p.farmer_id
+    from public.farm_produce p
+    where p.is_available
+      and p.farmer_id is not null
+      and p.farmer_id is distinct from new.buyer_id
+      and (
+        position(lower(new.crop_name) in lower(p.crop_name)) > 0
+        or position(lower(p.crop_name) in lower(new.crop_name)) > 0
+      )
+      and public.demand_covers_place(new, p.location_lat, p.location_lng, p.farmer_location)
+  ) f;
+
+  return null;
+end;
+$$;
+
+-- Open demands for the /discover demands layer: those whose point, or any
+-- corner of whose drawn area, is in view. Security definer so visitors see
+-- the public side of a demand without reading buyer_demands directly.
+create or replace function public.demands_in_bounds(
+  p_south double precision,
+  p_west double precision,
+  p_north double precision,
+  p_east double precision,
+  p_limit integer default 300
+)
+returns table (
+  id uuid,
+  buyer_name text,
+  crop_name text,
+  preferred_quality text,
+  quantity numeric,
+  unit text,
+  target_price_per_unit numeric,
+  location_text text,
+  location_lat double precision,
+  location_lng double precision,
+  radius_km numeric,
+  sourcing_mode text,
+  sourcing_polygon jsonb,
+  sourcing_districts text[],
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    d.id, d.buyer_name, d.crop_name, d.preferred_quality, d.quantity::numeric, d.unit,
+    d.target_price_per_unit::numeric, d.location_text,
+    d.location_lat::double precision, d.location_lng::double precision,
+    d.radius_km::numeric, d.sourcing_mode, d.sourcing_polygon, d.sourcing_districts, d.created_at
+  from public.buyer_demands d
+  where d.status = 'open'
+    and (
+      (d.location_lat between p_south and p_north and d.location_lng between p_west and p_east)
+      or (
+        d.sourcing_mode = 'polygon'
+        and exists (
+          select 1
+          from jsonb_array_elements(d.sourcing_polygon) as v (value)
+          where (v.value ->> 0)::double precision between p_south and p_north
+            and (v.value ->> 1)::double precision between p_west and p_east
+        )
+      )
+    )
+  order by d.created_at desc
+  limit least(greatest(coalesce(p_limit, 300), 1), 1000);
+$$;
+
+grant execute on function public.demands_in_bounds(
+  double precision, double precision, double precision, double precision, integer
+) to anon, authenticated;
@@ -0,0 +1,364 @@
+-- Load board and deliveries for the logistics role.
+--
+-- A confirmed order with no live delivery is a load. A transporter claims it
+-- with claim_load(), which copies what the driver needs (pickup at the
+-- listing, drop-off at the buyer) into a deliveries row, then moves it
+--   assigned -> picked_up -> in_transit -> delivered
+-- through advance_delivery(). Releasing an assigned load cancels the
+-- delivery and puts the order back on the board. Pickup and delivery move the
+-- order itself to dispatched and delivered, so buyers and farmers follow the
+-- same order page and notifications as before.
+
+create table if not exists public.deliveries (
+  id uuid primary key default gen_random_uuid(),
+  match_id uuid not null references public.market_matches (id) on delete cascade,
+  transporter_id uuid not null,
+  status text not null default 'assigned'
+    check (status in ('assigned', 'picked_up', 'in_transit', 'delivered', 'cancelled')),
+  crop_name text not null,
+  quantity numeric not null,
+  unit text not null,
+  quantity_kg numeric,
+  farmer_name text,
+  buyer_name text,
+  pickup_location text,
+  pickup_lat double precision,
+  pickup_lng double precision,
+  dropoff_location text,
+  dropoff_lat double precision,
+  dropoff_lng double precision,
+  distance_km numeric,
+  assigned_at timestamptz not null default now(),
+  picked_up_at timestamptz,
+  in_transit_at timestamptz,
+  delivered_at timestamptz,
+  cancelled_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+-- One live delivery per order; cancelled ones stay for the record.
+create unique index if not exists deliveries_live_match_key
+  on public.deliveries (match_id)
+  where status <> 'cancelled';
+create index if not exists deliveries_transporter_id_idx
+  on public.deliveries (transporter_id, status);
+
+create table if not exists public.delivery_events (
+  id uuid primary key default gen_random_uuid(),
+  delivery_id uuid not null references public.deliveries (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  actor_id uuid,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists delivery_events_delivery_id_idx
+  on public.delivery_events (delivery_id, created_at);
+
+alter table public.deliveries enable row level security;
+alter table public.delivery_events enable row level security;
+
+-- Writes only go through the functions below.
+drop policy if exists "transporters and order participants read deliveries" on public.deliveries;
+create policy "transporters and order participants read deliveries"
+  on public.deliveries for select
+  using (
+    transporter_id = auth.uid()
+    or exists (
+      select 1 from public.market_matches m
+      where m.id = match_id
+        and (m.buyer_id = auth.uid() or m.farmer_id = auth.uid())
+    )
+  );
+
+-- Anyone who can see a delivery sees its history.
+drop policy if exists "delivery readers read events" on public.delivery_events;
+create policy "delivery readers read events"
+  on public.delivery_events for select
+  using (
+    exists (select 1 from public.deliveries d where d.id = delivery_id)
+  );
+
+create or replace function public.is_transporter()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.accounts_user
+    where auth_user_id = auth.uid()
+      and role in ('logistics', 'admin')
+  );
+$$;
+
+-- Where an order is collected and dropped off. Pickup is the listing's
+-- point; drop-off is the demand the offer answered, or the buyer's own
+-- location for orders placed straight from a listing.
+create or replace function public.market_match_endpoints(p_match_id uuid)
+returns table (
+  pickup_location text,
+  pickup_lat double precision,
+  pickup_lng double precision,
+  dropoff_location text,
+  dropoff_lat double precision,
+  dropoff_lng double precision
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    p.farmer_location,
+    p.location_lat,
+    p.location_lng,
+    coalesce(d.location_text, b.location),
+    coalesce(d.location_lat::double precision, b.location_lat::double precision),
+    coalesce(d.location_lng::double precision, b.location_lng::double precision)
+  from public.market_matches m
+  left join public.farm_produce p on p.id = m.listing_id
+  left join public.demand_offers o on o.id = m.offer_id
+  left join public.buyer_demands d on d.id = o.demand_id
+  left join public.accounts_user b on b.auth_user_id = m.buyer_id
+  where m.id = p_match_id;
+$$;
+
+revoke execute on function public.market_match_endpoints(uuid) from public, anon, authenticated;
+
+-- Confirmed orders nobody has claimed yet, oldest confirmation first.
+create or replace function public.load_board(p_limit integer default 200)
+returns table (
+  match_id uuid,
+  crop_name text,
+  quantity numeric,
+  unit text,
+  quantity_kg numeric,
+  farmer_name text,
+  buyer_name text,
+  pickup_location text,
+  pickup_lat double precision,
+  pickup_lng double precision,
+  dropoff_location text,
+  dropoff_lat double precision,
+  dropoff_lng double precision,
+  distance_km numeric,
+  confirmed_at timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_transporter() then
+    raise exception 'Only transporters can see the load board';
+  end if;
+
+  return query
+  select
+    m.id, m.crop_name, m.quantity, m.unit, m.quantity_kg, m.farmer_name, m.buyer_name,
+    e.pickup_location, e.pickup_lat, e.pickup_lng,
+    e.dropoff_location, e.dropoff_lat, e.dropoff_lng,
+    coalesce(
+      case
+        when e.pickup_lat is not null and e.dropoff_lat is not null
+          then round(public.haversine_km(e.pickup_lat, e.pickup_lng, e.dropoff_lat, e.dropoff_lng)::numeric, 1)
+      end,
+      m.distance_km
+    ),
+    m.confirmed_at
+  from public.market_matches m
+  cross join lateral public.market_match_endpoints(m.id) e
+  where m.status = 'confirmed'
+    and not exists (
+      select 1 from public.deliveries dl
+      where dl.match_id = m.id and dl.status <> 'cancelled'
+    )
+  order by m.confirmed_at nulls last
+  limit least(greatest(coalesce(p_limit, 200), 1), 500);
+end;
+$$;
+
+create or replace function public.claim_load(p_match_id uuid)
+returns public.deliveries
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_match public.market_matches;
+  v_delivery public.deliveries;
+begin
+  if not public.is_transporter() then
+    raise exception 'Only transporters can claim loads';
+  end if;
+
+  select * into v_match from public.market_matches where id = p_match_id for update;
+  if not found then
+    raise exception 'Load not found';
+  end if;
+
+  if v_match.status <> 'confirmed' then
+    raise exception 'This order is % and no longer needs a transporter', v_match.status;
+  end if;
+
+  if exists (select 1 from public.deliveries where match_id = p_match_id and status <> 'cancelled') then
+    raise exception 'Another transporter has already claimed this load';
+  end if;
+
+  insert into public.deliveries (
+    match_id, transporter_id, crop_name, quantity, unit, quantity_kg, farmer_name, buyer_name,
+    pickup_location, pickup_lat, pickup_lng, dropoff_location, dropoff_lat, dropoff_lng, distance_km
+  )
+  select
+    v_match.id, auth.uid(), v_match.crop_name, v_match.quantity, v_match.unit, v_match.quantity_kg,
+    v_match.farmer_name, v_match.buyer_name,
+    e.pickup_location, e.pickup_lat, e.pickup_lng, e.dropoff_location, e.dropoff_lat, e.dropoff_lng,
+    coalesce(
+      case
+        when e.pickup_lat is not null and e.dropoff_lat is not null
+          then round(public.haversine_km(e.pickup_lat, e.pickup_lng, e.dropoff_lat, e.dropoff_lng)::numeric, 1)
+      end,
+      v_match.distance_km
+    )
+  from public.market_match_endpoints(v_match.id) e
+  returning * into v_delivery;
+
+  insert into public.delivery_events (delivery_id, from_status, to_status, actor_id, note)
+  values (v_delivery.id, null, 'assigned', auth.uid(), 'Claimed from the load board');
+
+  return v_delivery;
+end;
+$$;
+
+-- Keep in sync with deliveryTransitions in lib/deliveries.ts.
+create or replace function public.delivery_transition_allowed(p_from text, p_to text)
+returns boolean
+language sql
+immutable
+as $$
+  select (p_from, p_to) in (
+    ('assigned',   'picked_up'),
+    ('assigned',   'cancelled'),
+    ('picked_up',  'in_transit'),
+    ('in_transit', 'delivered')
+  );
+$$;
+
+create or replace function public.advance_delivery(p_delivery_id uuid, p_to_status text, p_note text default null)
+returns public.deliveries
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_delivery public.deliveries;
+  v_from text;
+  v_order_to text;
+  v_order_from text;
+begin
+  select * into v_delivery from public.deliveries where id = p_delivery_id for update;
+  if not found then
+    raise exception 'Delivery not found';
+  end if;
+
+  if auth.uid() is distinct from v_delivery.transporter_id
+     and not exists (select 1 from public.accounts_user where auth_user_id = auth.uid() and role = 'admin') then
+    raise exception 'This delivery belongs to another transporter';
+  end if;
+
+  if not public.delivery_transition_allowed(v_delivery.status, p_to_status) then
+    raise exception 'A delivery cannot move from % to %', v_delivery.status, p_to_status;
+  end if;
+
+  v_from := v_delivery.status;
+
+  update public.deliveries
+  set status = p_to_status,
+      updated_at = now(),
+      picked_up_at  = case when p_to_status = 'picked_up'  then now() else picked_up_at end,
+      in_transit_at = case when p_to_status = 'in_transit' then now() else in_transit_at end,
+      delivered_at  = case when p_to_status = 'delivered'  then now() else delivered_at end,
+      cancelled_at  = case when p_to_status = 'cancelled'  then now() else cancelled_at end
+  where id = p_delivery_id
+  returning * into v_delivery;
+
+  insert into public.delivery_events (delivery_id, from_status, to_status, actor_id, note)
+  values (p_delivery_id, v_from, p_to_status, auth.uid(), nullif(trim(p_note), ''));
+
+  -- The order follows the goods. Only the usual next step is taken, so an
+  -- order the farmer already dispatched, or one that was disputed, is left alone.
+  v_order_from := case p_to_status when 'picked_up' then 'confirmed' when 'delivered' then 'dispatched' end;
+  v_order_to := case p_to_status when 'picked_up' then 'dispatched' when 'delivered' then 'delivered' end;
+
+  if v_order_to is not null then
+    update public.market_matches
+    set status = v_order_to,
+        updated_at = now(),
+        dispatched_at = case when v_order_to = 'dispatched' then now() else dispatched_at end,
+        delivered_at  = case when v_order_to = 'delivered'  then now() else delivered_at end
+    where id = v_delivery.match_id
+      and status = v_order_from;
+
+    if found then
+      insert into public.market_match_events (match_id, from_status, to_status, actor_id, actor_role, note)
+      values (v_delivery.match_id, v_order_from, v_order_to, auth.uid(), 'system',
+              case p_to_status when 'picked_up' then 'Picked up by the transporter' else 'Delivered by the transporter' end);
+    end if;
+  end if;
+
+  return v_delivery;
+end;
+$$;
+
+-- A cancelled order takes its live delivery with it.
+create or replace function public.cancel_deliveries_for_order()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'cancelled' and old.status is distinct from 'cancelled' then
+    with live as (
+      select id, status
+      from public.deliveries
+      where match_id = new.id
+        and status in ('assigned', 'picked_up', 'in_transit')
+      for update
+    ),
+    cancelled as (
+      update public.deliveries dl
+      set status = 'cancelled', cancelled_at = now(), updated_at = now()
+      from live
+      where dl.id = live.id
+      returning dl.id, live.status as from_status
+    )
+    insert into public.delivery_events (delivery_id, from_status, to_status, actor_id, note)
+    select c.id, c.from_status, 'cancelled', auth.uid(), 'Order was cancelled'
+    from cancelled c;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists market_matches_cancel_deliveries on public.market_matches;
+create trigger market_matches_cancel_deliveries
+  after update of status on public.market_matches
+  for each row execute function public.cancel_deliveries_for_order();
+
+grant execute on function public.load_board(integer) to authenticated;
+grant execute on function public.claim_load(uuid) to authenticated;
+grant execute on function public.advance_delivery(uuid, text, text) to authenticated;
+
+do $$
+begin
+  alter publication supabase_realtime add table public.deliveries;
+exception
+  when duplicate_object then null;
+end $$;
@@ -0,0 +1,327 @@
+-- Proof of delivery. When an order is dispatched the buyer gets a six-digit
+-- code; whoever hands the produce over (the farmer, or the transporter with
+-- the live delivery) enters it through confirm_handover() together with a
+-- photo and, when the phone allows, a GPS point. The handover marks the order
+-- delivered. An order completed without a verified handover is still
+-- completed, but flagged for an admin to look at.
+
+alter table public.market_matches
+  add column if not exists handover_verified_at timestamptz,
+  add column if not exists handover_verified_by uuid,
+  add column if not exists handover_photo_path text,
+  add column if not exists handover_lat double precision,
+  add column if not exists handover_lng double precision,
+  add column if not exists needs_review boolean not null default false,
+  add column if not exists review_reason text;
+
+create index if not exists market_matches_needs_review_idx
+  on public.market_matches (updated_at)
+  where needs_review;
+
+-- Only the buyer can read the code; the other side has to be handed it.
+create table if not exists public.delivery_codes (
+  match_id uuid primary key references public.market_matches (id) on delete cascade,
+  code text not null,
+  issued_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  failed_attempts integer not null default 0
+);
+
+alter table public.delivery_codes enable row level security;
+
+drop policy if exists "buyers read their delivery codes" on public.delivery_codes;
+create policy "buyers read their delivery codes"
+  on public.delivery_codes for select
+  using (
+    exists (
+      select 1 from public.market_matches m
+      where m.id = match_id and m.buyer_id = auth.uid()
+    )
+  );
+
+-- The farmer, or the transporter carrying the order, can hand it over.
+create or replace function public.can_hand_over(p_match_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.market_matches m
+    where m.id = p_match_id and m.farmer_id = auth.uid()
+  )
+  or exists (
+    select 1 from public.deliveries d
+    where d.match_id = p_match_id
+      and d.transporter_id = auth.uid()
+      and d.status <> 'cancelled'
+  );
+$$;
+
+-- Replaces any earlier code and tells the buyer the new one.
+create or replace function public.issue_delivery_code(p_match_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_match public.market_matches;
+  v_code text := lpad(floor(random() * 1000000)::int::text, 6, '0');
+begin
+  select * into v_match from public.market_matches where id = p_match_id;
+
+  insert into public.delivery_codes (match_id, code, issued_at, expires_at, failed_attempts)
+  values (p_match_id, v_code, now(), now() + interval '7 days', 0)
+  on conflict (match_id) do update
+    set code = excluded.code,
+        issued_at = excluded.issued_at,
+        expires_at = excluded.expires_at,
+        failed_attempts = 0;
+
+  perform public.notify_user(
+    v_match.buyer_id,
+    'order_status',
+    'Delivery code for ' || v_match.crop_name,
+    'Give code ' || v_code || ' to the driver or farmer only once your ' || v_match.crop_name
+      || ' has arrived.',
+    '/orders/' || v_match.id,
+    jsonb_build_object('order_id', v_match.id)
+  );
+
+  return v_code;
+end;
+$$;
+
+revoke execute on function public.issue_delivery_code(uuid) from public, anon, authenticated;
+
+create or replace function public.issue_code_on_dispatch()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'dispatched' and old.status is distinct from 'dispatched'
+     and new.handover_verified_at is null then
+    perform public.issue_delivery_code(new.id);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists market_matches_issue_delivery_code on public.market_matches;
+create trigger market_matches_issue_delivery_code
+  after update of status on public.market_matches
+  for each row execute function public.issue_code_on_dispatch();
+
+-- For a buyer who lost the code, or locked it with wrong guesses.
+create or replace function public.reissue_delivery_code(p_match_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_match public.market_matches;
+begin
+  select * into v_match from public.market_matches where id = p_match_id;
+  if not found or v_match.buyer_id is distinct from auth.uid() then
+    raise exception 'Only the buyer can get a delivery code';
+  end if;
+
+  if v_match.status not in ('confirmed', 'dispatched') or v_match.handover_verified_at is not null then
+    raise exception 'This order no longer needs a delivery code';
+  end if;
+
+  return public.issue_delivery_code(p_match_id);
+end;
+$$;
+
+create or replace function public.confirm_handover(
+  p_match_id uuid,
+  p_code text,
+  p_photo_path text,
+  p_lat double precision default null,
+  p_lng double precision default null
+)
+returns public.market_matches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_match public.market_matches;
+  v_code public.delivery_codes;
+  v_delivery public.deliveries;
+  v_note text := 'Handed over with the buyer''s code';
+begin
+  if not public.can_hand_over(p_match_id) then
+    raise exception 'Only the farmer or the transporter can confirm this handover';
+  end if;
+
+  select * into v_match from public.market_matches where id = p_match_id for update;
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  if v_match.handover_verified_at is not null then
+    return v_match;
+  end if;
+
+  if v_match.status not in ('confirmed', 'dispatched', 'delivered') then
+    raise exception 'This order is % and cannot be handed over', v_match.status;
+  end if;
+
+  if coalesce(split_part(p_photo_path, '/', 1), '') <> p_match_id::text then
+    raise exception 'Add a photo of the delivery';
+  end if;
+
+  select * into v_code from public.delivery_codes where match_id = p_match_id for update;
+  if not found then
+    raise exception 'The buyer has no delivery code yet';
+  end if;
+
+  if v_code.failed_attempts >= 5 then
+    raise exception 'Too many wrong codes; ask the buyer for a new one';
+  end if;
+
+  if v_code.expires_at < now() then
+    raise exception 'This code has expired; ask the buyer for a new one';
+  end if;
+
+  -- A wrong code returns null rather than raising, so the attempt is kept.
+  if v_code.code <> regexp_replace(coalesce(p_code, ''), '\s', '', 'g') then
+    update public.delivery_codes set failed_attempts = failed_attempts + 1 where match_id = p_match_id;
+    return null;
+  end if;
+
+  update public.market_matches
+  set handover_verified_at = now(),
+      handover_verified_by = auth.uid(),
+      handover_photo_path = p_photo_path,
+      handover_lat = p_lat,
+      handover_lng = p_lng,
+      updated_at = now()
+  where id = p_match_id;
+
+  delete from public.delivery_codes where match_id = p_match_id;
+
+  -- Move the goods along to delivered through the usual paths, so the
+  -- history and notifications read the same as a manual update.
+  select * into v_delivery
+  from public.deliveries
+  where match_id = p_match_id and transporter_id = auth.uid() and status <> 'cancelled';
+
+  if found then
+    if v_delivery.status = 'assigned' then
+      perform public.advance_delivery(v_delivery.id, 'picked_up', v_note);
+    end if;
+    if v_delivery.status in ('assigned', 'picked_up') then
+      perform public.advance_delivery(v_delivery.id, 'in_transit', v_note);
+    end if;
+    if v_delivery.status <> 'delivered' then
+      perform public.advance_delivery(v_delivery.id, 'delivered', v_note);
+    end if;
+  else
+    if v_match.status = 'confirmed' then
+      perform public.advance_market_match(p_match_id, 'dispatched', v_note);
+    end if;
+    if v_match.status in ('confirmed', 'dispatched') then
+      perform public.advance_market_match(p_match_id, 'delivered', v_note);
+    end if;
+  end if;
+
+  select * into v_match from public.market_matches where id = p_match_id;
+  return v_match;
+end;
+$$;
+
+-- Completion still goes through; it is only marked for a second look.
+create or replace function public.flag_unverified_completion()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'completed' and old.status is distinct from 'completed'
+     and new.handover_verified_at is null then
+    new.needs_review := true;
+    new.review_reason := 'Completed without a delivery handshake';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists market_matches_flag_unverified_completion on public.market_matches;
+create trigger market_matches_flag_unverified_completion
+  before update of status on public.market_matches
+  for each row execute function public.flag_unverified_completion();
+
+create or replace function public.clear_order_review(p_match_id uuid, p_note text default null)
+returns public.market_matches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_match public.market_matches;
+begin
+  if not exists (select 1 from public.accounts_user where auth_user_id = auth.uid() and role = 'admin') then
+    raise exception 'Only admins can clear a review';
+  end if;
+
+  update public.market_matches
+  set needs_review = false,
+      review_reason = null,
+      updated_at = now()
+  where id = p_match_id
+  returning * into v_match;
+
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  insert into public.market_match_events (match_id, from_status, to_status, actor_id, actor_role, note)
+  values (p_match_id, v_match.status, v_match.status, auth.uid(), 'admin',
+          coalesce(nullif(trim(p_note), ''), 'Review cleared'));
+
+  return v_match;
+end;
+$$;
+
+grant execute on function public.reissue_delivery_code(uuid) to authenticated;
+grant execute on function public.confirm_handover(uuid, text, text, double precision, double precision) to authenticated;
+grant execute on function public.clear_order_review(uuid, text) to authenticated;
+
+-- Photos live under <match_id>/ in a private bucket and are shown through
+-- signed URLs to the people on the order.
+insert into storage.buckets (id, name, public)
+values ('delivery-proofs', 'delivery-proofs', false)
+on conflict (id) do nothing;
+
+drop policy if exists "handlers upload delivery proofs" on storage.objects;
+create policy "handlers upload delivery proofs"
+  on storage.objects for insert to authenticated
+  with check (
+    bucket_id = 'delivery-proofs'
+    and public.can_hand_over(((storage.foldername(name))[1])::uuid)
+  );
+
+drop policy if exists "order participants read delivery proofs" on storage.objects;
+create policy "order participants read delivery proofs"
+  on storage.objects for select to authenticated
+  using (
+    bucket_id = 'delivery-proofs'
+    and (
+      public.can_hand_over(((storage.foldername(name))[1])::uuid)
+      or exists (
+        select 1 from public.market_matches m
+        where m.id = ((storage.foldername(name))[1])::uuid
+          and m.buyer_id = auth.uid()
+      )
+      or exists (select 1 from public.accounts_user where auth_user_id = auth.uid() and role = 'admin')
+    )
+  );
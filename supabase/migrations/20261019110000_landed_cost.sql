@@ -0,0 +1,148 @@
+-- Landed cost: what a listing costs once it reaches the buyer, estimated as
+-- the farm-gate price per kg plus a transport tariff per kg per km of
+-- straight-line distance. The tariff is a single admin-set row so the
+-- estimate can follow fuel prices without a deploy.
+
+create table if not exists public.transport_tariffs (
+  id boolean primary key default true check (id),
+  ugx_per_kg_km numeric not null default 1.5 check (ugx_per_kg_km >= 0),
+  note text,
+  updated_at timestamptz not null default now(),
+  updated_by uuid
+);
+
+insert into public.transport_tariffs (id, ugx_per_kg_km, note)
+values (true, 1.5, 'Average lorry rate on murram and tarmac')
+on conflict (id) do nothing;
+
+alter table public.transport_tariffs enable row level security;
+
+drop policy if exists "anyone reads the transport tariff" on public.transport_tariffs;
+create policy "anyone reads the transport tariff"
+  on public.transport_tariffs for select
+  using (true);
+
+drop policy if exists "admins update the transport tariff" on public.transport_tariffs;
+create policy "admins update the transport tariff"
+  on public.transport_tariffs for update to authenticated
+  using (exists (select 1 from public.accounts_user where auth_user_id = auth.uid() and role = 'admin'))
+  with check (exists (select 1 from public.accounts_user where auth_user_id = auth.uid() and role = 'admin'));
+
+create or replace function public.transport_tariff()
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce((select ugx_per_kg_km from public.transport_tariffs where id), 1.5);
+$$;
+
+-- /products: same signature as before, with a 'landed-low' sort on the
+-- per-kg price plus carriage to the viewer (or the listing's own distance
+-- when the viewer has no location).
+create or replace function public.browse_listings(
+  p_search text default null,
+  p_category text default null,
+  p_quality text default null,
+  p_max_price numeric default null,
+  p_sort text default 'newest',
+  p_lat double precision default null,
+  p_lng double precision default null,
+  p_cursor_num double precision default null,
+  p_cursor_text text default null,
+  p_cursor_id uuid default null,
+  p_limit integer default 30
+)
+returns table (
+  id uuid,
+  farmer_id uuid,
+  farmer_name text,
+  farmer_location text,
+  crop_name text,
+  variety text,
+  quality text,
+  quantity numeric,
+  unit text,
+  price_per_unit numeric,
+  price_per_kg numeric,
+  distance_km double precision,
+  is_available boolean,
+  listed_at timestamptz,
+  photo text,
+  farmer_phone text,
+  description text,
+  available_from date,
+  total_price numeric,
+  category_id bigint,
+  sort_num double precision,
+  sort_text text
+)
+language sql
+stable
+set search_path = public
+as $$
+  with q as (
+    select public.produce_search_query(p_search) as tsq, public.transport_tariff()::double precision as tariff
+  ),
+  filtered as (
+    select
+      p.*,
+      case
+        when p_lat is not null and p_lng is not null and p.location_lat is not null and p.location_lng is not null
+          then public.haversine_km(p_lat, p_lng, p.location_lat, p.location_lng)
+        when p_lat is null
+          then p.distance_km::double precision
+      end as viewer_distance_km,
+      case when q.tsq is not null then ts_rank_cd(p.search_vector, q.tsq)::double precision end as search_rank,
+      q.tariff
+    from public.farm_produce p
+    cross join q
+    where p.is_available
+      and (q.tsq is null or p.search_vector @@ q.tsq)
+      and (
+        p_category is null
+        or (p_category = 'uncategorized' and p.category_id is null)
+        or p.category_id::text = p_category
+      )
+      and (p_quality is null or lower(p.quality) = lower(p_quality))
+      and (p_max_price is null or p.price_per_unit <= p_max_price)
+  ),
+  keyed as (
+    select
+      f.*,
+      -- Nulls become +/- infinity so they sort last in either direction.
+      case p_sort
+        when 'price-low' then coalesce(f.price_per_kg::double precision, 'infinity')
+        when 'price-high' then coalesce(f.price_per_kg::double precision, '-infinity')
+        when 'landed-low' then coalesce(f.price_per_kg::double precision + f.viewer_distance_km * f.tariff, 'infinity')
+        when 'distance' then coalesce(f.viewer_distance_km, 'infinity')
+        when 'name' then null
+        when 'relevance' then coalesce(f.search_rank, extract(epoch from f.listed_at)::double precision)
+        else extract(epoch from f.listed_at)::double precision
+      end as k_num,
+      case when p_sort = 'name' then lower(f.crop_name) end as k_text
+    from filtered f
+  )
+  select
+    k.id, k.farmer_id, k.farmer_name, k.farmer_location, k.crop_name, k.variety,
+    k.quality, k.quantity, k.unit, k.price_per_unit, k.price_per_kg,
+    k.viewer_distance_km, k.is_available, k.listed_at, k.photo, k.farmer_phone,
+    k.description, k.available_from, k.total_price, k.category_id,
+    k.k_num, k.k_text
+  from keyed k
+  where p_cursor_id is null
+    or case
+      when p_sort = 'name' then (k.k_text, k.id) > (p_cursor_text, p_cursor_id)
+      when p_sort in ('price-low', 'landed-low', 'distance') then (k.k_num, k.id) > (p_cursor_num, p_cursor_id)
+      else (k.k_num, k.id) < (p_cursor_num, p_cursor_id)
+    end
+  order by
+    case when p_sort = 'name' then k.k_text end asc,
+    case when p_sort in ('price-low', 'landed-low', 'distance') then k.k_num end asc,
+    case when p_sort not in ('name', 'price-low', 'landed-low', 'distance') then k.k_num end desc,
+    case when p_sort in ('name', 'price-low', 'landed-low', 'distance') then k.id end asc,
+    case when p_sort not in ('name', 'price-low', 'landed-low', 'distance') then k.id end desc
+  limit least(greatest(coalesce(p_limit, 30), 1), 100);
+$$;
+
+grant execute on function public.transport_tariff() to anon, authenticated;
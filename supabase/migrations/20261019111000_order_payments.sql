@@ -0,0 +1,343 @@
+-- Mobile-money escrow for orders. Confirming an order opens an order_payments
+-- row for the agreed total; the buyer pays it from their phone through
+-- /api/payments/collect and the money is held until the goods arrive. A
+-- verified handover or a completed order releases it to the farmer, a
+-- cancelled one refunds the buyer. Payouts are sent by /api/payments/reconcile.
+--
+--   unpaid -> collecting -> held -> releasing -> released
+--                       \-> failed     \-> refunding -> refunded
+--   unpaid / failed -> cancelled (order cancelled before any money moved)
+--
+-- Provider results (callbacks and status polls alike) only ever reach the
+-- table through apply_payment_result(), which logs each one once in
+-- payment_callbacks and ignores anything it has already seen.
+
+create table if not exists public.order_payments (
+  id uuid primary key default gen_random_uuid(),
+  match_id uuid not null references public.market_matches (id) on delete cascade,
+  buyer_id uuid,
+  farmer_id uuid,
+  amount numeric not null check (amount >= 0),
+  currency text not null default 'UGX',
+  status text not null default 'unpaid'
+    check (status in ('unpaid', 'collecting', 'failed', 'held', 'releasing', 'released', 'refunding', 'refunded', 'cancelled')),
+  -- Collection from the buyer. collection_ref is our id for the attempt and
+  -- doubles as the provider's reference, so a retry gets a fresh one.
+  provider text,
+  payer_phone text,
+  collection_ref uuid unique,
+  collection_provider_ref text,
+  requested_at timestamptz,
+  held_at timestamptz,
+  -- Payout to the farmer, or back to the buyer on a refund.
+  payout_provider text,
+  payee_phone text,
+  payout_ref uuid unique,
+  payout_provider_ref text,
+  payout_attempts integer not null default 0,
+  payout_requested_at timestamptz,
+  released_at timestamptz,
+  refunded_at timestamptz,
+  cancelled_at timestamptz,
+  failure_reason text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists order_payments_match_id_key on public.order_payments (match_id);
+create index if not exists order_payments_pending_idx
+  on public.order_payments (status, updated_at)
+  where status in ('collecting', 'releasing', 'refunding');
+
+alter table public.order_payments enable row level security;
+
+-- Read-only from the client; every write goes through the route handlers.
+drop policy if exists "order participants read payments" on public.order_payments;
+create policy "order participants read payments"
+  on public.order_payments for select
+  using (
+    buyer_id = auth.uid()
+    or farmer_id = auth.uid()
+    or exists (select 1 from public.accounts_user where auth_user_id = auth.uid() and role = 'admin')
+  );
+
+create table if not exists public.payment_callbacks (
+  id uuid primary key default gen_random_uuid(),
+  provider text not null,
+  event_key text not null,
+  reference uuid not null,
+  status text not null,
+  provider_ref text,
+  payload jsonb not null default '{}'::jsonb,
+  result text,
+  received_at timestamptz not null default now(),
+  processed_at timestamptz
+);
+
+create unique index if not exists payment_callbacks_event_key on public.payment_callbacks (provider, event_key);
+create index if not exists payment_callbacks_reference_idx on public.payment_callbacks (reference, received_at);
+
+alter table public.payment_callbacks enable row level security;
+
+drop policy if exists "admins read payment callbacks" on public.payment_callbacks;
+create policy "admins read payment callbacks"
+  on public.payment_callbacks for select
+  using (exists (select 1 from public.accounts_user where auth_user_id = auth.uid() and role = 'admin'));
+
+-- Moves held money on once the order has an outcome, and closes unpaid
+-- escrow on a cancelled order. Safe to call at any time.
+create or replace function public.settle_order_escrow(p_match_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_match public.market_matches;
+  v_payment public.order_payments;
+begin
+  select * into v_match from public.market_matches where id = p_match_id;
+  select * into v_payment from public.order_payments where match_id = p_match_id for update;
+  if v_match.id is null or v_payment.id is null then
+    return;
+  end if;
+
+  if v_payment.status = 'held' and v_match.status = 'cancelled' then
+    update public.order_payments
+    set status = 'refunding',
+        payee_phone = payer_phone,
+        payout_ref = gen_random_uuid(),
+        payout_requested_at = null,
+        updated_at = now()
+    where id = v_payment.id;
+  elsif v_payment.status = 'held'
+        and (v_match.status = 'completed' or v_match.handover_verified_at is not null) then
+    update public.order_payments
+    set status = 'releasing',
+        payee_phone = (select phone_number from public.accounts_user where auth_user_id = v_match.farmer_id),
+        payout_ref = gen_random_uuid(),
+        payout_requested_at = null,
+        updated_at = now()
+    where id = v_payment.id;
+  elsif v_payment.status in ('unpaid', 'failed') and v_match.status = 'cancelled' then
+    update public.order_payments
+    set status = 'cancelled',
+        cancelled_at = now(),
+        updated_at = now()
+    where id = v_payment.id;
+  end if;
+end;
+$$;
+
+revoke execute on function public.settle_order_escrow(uuid) from public, anon, authenticated;
+
+create or replace function public.market_match_escrow()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'confirmed' and old.status is distinct from 'confirmed' then
+    insert into public.order_payments (match_id, buyer_id, farmer_id, amount)
+    values (new.id, new.buyer_id, new.farmer_id, round(coalesce(new.quantity, 0) * coalesce(new.price_per_unit, 0)))
+    on conflict (match_id) do nothing;
+  end if;
+
+  if (new.status is distinct from old.status and new.status in ('cancelled', 'completed'))
+     or (new.handover_verified_at is not null and old.handover_verified_at is null) then
+    perform public.settle_order_escrow(new.id);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists market_matches_escrow on public.market_matches;
+create trigger market_matches_escrow
+  after update of status, handover_verified_at on public.market_matches
+  for each row execute function public.market_match_escrow();
+
+-- Orders already under way can still be paid for.
+insert into public.order_payments (match_id, buyer_id, farmer_id, amount)
+select m.id, m.buyer_id, m.farmer_id, round(coalesce(m.quantity, 0) * coalesce(m.price_per_unit, 0))
+from public.market_matches m
+where m.status in ('confirmed', 'dispatched')
+on conflict (match_id) do nothing;
+
+-- The one way a provider's answer changes a payment. p_reference is either
+-- the collection_ref or the payout_ref; the same (reference, status) pair is
+-- only ever applied once, so replayed callbacks and overlapping polls are
+-- harmless. Results that don't fit the payment's state, or come from a
+-- provider other than the one the money went through, are logged and
+-- ignored.
+create or replace function public.apply_payment_result(
+  p_provider text,
+  p_reference uuid,
+  p_status text,
+  p_provider_ref text default null,
+  p_reason text default null,
+  p_payload jsonb default '{}'::jsonb
+)
+returns public.order_payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_payment public.order_payments;
+  v_callback_id uuid;
+  v_expected_provider text;
+  v_result text;
+  v_reason text := nullif(trim(coalesce(p_reason, '')), '');
+begin
+  if p_status not in ('succeeded', 'failed') then
+    raise exception 'Unknown payment result %', p_status;
+  end if;
+
+  select * into v_payment
+  from public.order_payments
+  where collection_ref = p_reference or payout_ref = p_reference
+  for update;
+
+  insert into public.payment_callbacks (provider, event_key, reference, status, provider_ref, payload)
+  values (p_provider, p_reference::text || ':' || p_status, p_reference, p_status, p_provider_ref, coalesce(p_payload, '{}'::jsonb))
+  on conflict (provider, event_key) do nothing
+  returning id into v_callback_id;
+
+  if v_callback_id is null then
+    return v_payment;
+  end if;
+
+  if v_payment.id is null then
+    update public.payment_callbacks
+    set result = 'unknown reference', processed_at = now()
+    where id = v_callback_id;
+    return null;
+  end if;
+
+  v_expected_provider := case
+    when p_reference = v_payment.collection_ref then v_payment.provider
+    else v_payment.payout_provider
+  end;
+
+  if p_provider is distinct from v_expected_provider then
+    update public.payment_callbacks
+    set result = 'ignored: sent through ' || coalesce(v_expected_provider, 'no provider yet'),
+        processed_at = now()
+    where id = v_callback_id;
+    return v_payment;
+  end if;
+
+  if p_reference = v_payment.collection_ref then
+    if p_status = 'succeeded' and v_payment.status in ('collecting', 'failed') then
+      update public.order_payments
+      set status = 'held',
+          held_at = now(),
+          collection_provider_ref = coalesce(p_provider_ref, collection_provider_ref),
+          failure_reason = null,
+          updated_at = now()
+      where id = v_payment.id;
+      v_result := 'held';
+
+      perform public.notify_user(
+        v_payment.farmer_id,
+        'order_status',
+        'Payment held for your order',
+        'The buyer paid UGX ' || to_char(v_payment.amount, 'FM999,999,999,990')
+          || '. It is released to you once the delivery is confirmed.',
+        '/orders/' || v_payment.match_id,
+        jsonb_build_object('order_id', v_payment.match_id)
+      );
+    elsif p_status = 'failed' and v_payment.status = 'collecting' then
+      update public.order_payments
+      set status = 'failed',
+          failure_reason = coalesce(v_reason, 'The payment was not completed'),
+          updated_at = now()
+      where id = v_payment.id;
+      v_result := 'failed';
+
+      perform public.notify_user(
+        v_payment.buyer_id,
+        'order_status',
+        'Payment did not go through',
+        coalesce(v_reason, 'The mobile money payment was not completed') || '. You can try again from the order.',
+        '/orders/' || v_payment.match_id,
+        jsonb_build_object('order_id', v_payment.match_id)
+      );
+    else
+      v_result := 'ignored: payment is ' || v_payment.status;
+    end if;
+  else
+    if p_status = 'succeeded' and v_payment.status in ('releasing', 'refunding') then
+      update public.order_payments
+      set status = case when v_payment.status = 'releasing' then 'released' else 'refunded' end,
+          released_at = case when v_payment.status = 'releasing' then now() else released_at end,
+          refunded_at = case when v_payment.status = 'refunding' then now() else refunded_at end,
+          payout_provider_ref = coalesce(p_provider_ref, payout_provider_ref),
+          failure_reason = null,
+          updated_at = now()
+      where id = v_payment.id;
+      v_result := case when v_payment.status = 'releasing' then 'released' else 'refunded' end;
+
+      perform public.notify_user(
+        case when v_payment.status = 'releasing' then v_payment.farmer_id else v_payment.buyer_id end,
+        'order_status',
+        case when v_payment.status = 'releasing' then 'Payment released' else 'Payment refunded' end,
+        'UGX ' || to_char(v_payment.amount, 'FM999,999,999,990') || ' has been sent to your mobile money.',
+        '/orders/' || v_payment.match_id,
+        jsonb_build_object('order_id', v_payment.match_id)
+      );
+    elsif p_status = 'failed' and v_payment.status in ('releasing', 'refunding') then
+      -- A fresh reference lets the next reconcile run try the payout again.
+      update public.order_payments
+      set payout_ref = gen_random_uuid(),
+          payout_requested_at = null,
+          failure_reason = coalesce(v_reason, 'The payout was not completed'),
+          updated_at = now()
+      where id = v_payment.id;
+      v_result := 'payout failed';
+
+      -- reconcilePayments() stops at MAX_PAYOUT_ATTEMPTS (lib/mobileMoney.ts),
+      -- so after the last one someone has to pay this out by hand.
+      if v_payment.payout_attempts >= 3 then
+        perform public.notify_user(
+          a.auth_user_id,
+          'order_status',
+          'Payout needs attention',
+          'Paying out UGX ' || to_char(v_payment.amount, 'FM999,999,999,990') || ' to the '
+            || case when v_payment.status = 'releasing' then 'farmer' else 'buyer' end
+            || ' failed ' || v_payment.payout_attempts || ' times: '
+            || coalesce(v_reason, 'The payout was not completed'),
+          '/orders/' || v_payment.match_id,
+          jsonb_build_object('order_id', v_payment.match_id, 'payment_id', v_payment.id)
+        )
+        from public.accounts_user a
+        where a.role = 'admin' and a.auth_user_id is not null;
+      end if;
+    else
+      v_result := 'ignored: payment is ' || v_payment.status;
+    end if;
+  end if;
+
+  update public.payment_callbacks
+  set result = v_result, processed_at = now()
+  where id = v_callback_id;
+
+  -- Money that arrives after the order ended moves straight on.
+  perform public.settle_order_escrow(v_payment.match_id);
+
+  select * into v_payment from public.order_payments where id = v_payment.id;
+  return v_payment;
+end;
+$$;
+
+revoke all on function public.apply_payment_result(text, uuid, text, text, text, jsonb) from public, anon, authenticated;
+grant execute on function public.apply_payment_result(text, uuid, text, text, text, jsonb) to service_role;
+
+do $$
+begin
+  alter publication supabase_realtime add table public.order_payments;
+exception
+  when duplicate_object then null;
+end $$;